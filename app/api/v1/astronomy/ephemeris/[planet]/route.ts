@@ -0,0 +1,63 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { CACHE_CONFIG, isFeatureEnabled } from '@/lib/api-design';
+import {
+  calculateEphemeris,
+  createEphemerisNdjsonStream,
+  EPHEMERIS_CONTENT_TYPES,
+  featureDisabledError,
+  formatEphemerisCsv,
+  parseEphemerisQuery,
+  resolveEphemerisFormat,
+  toAPIError,
+  type APIErrorResponse,
+} from '@/lib/astronomyApi';
+
+// Positions of one body over a date range, as JSON, CSV or streamed NDJSON
+export async function GET(request: NextRequest, { params }: { params: Promise<{ planet: string }> }) {
+  const requestId = crypto.randomUUID();
+
+  if (!isFeatureEnabled('enableEphemeris')) {
+    return errorResponse(featureDisabledError('Ephemeris', requestId), requestId);
+  }
+
+  try {
+    const { planet } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const format = resolveEphemerisFormat(searchParams.get('format'), request.headers.get('accept'));
+    const query = parseEphemerisQuery(planet, searchParams);
+
+    const headers = {
+      'Cache-Control': `public, max-age=${CACHE_CONFIG.ephemerisTTL}`,
+      'Content-Type': EPHEMERIS_CONTENT_TYPES[format],
+      Vary: 'Accept',
+      'X-Request-Id': requestId,
+    };
+
+    switch (format) {
+      case 'csv':
+        return new NextResponse(formatEphemerisCsv(calculateEphemeris(query)), {
+          status: 200,
+          headers: {
+            ...headers,
+            'Content-Disposition': `attachment; filename="${query.body.toLowerCase()}-ephemeris.csv"`,
+          },
+        });
+      case 'ndjson':
+        return new NextResponse(createEphemerisNdjsonStream(query, requestId), { status: 200, headers });
+      default:
+        return NextResponse.json(calculateEphemeris(query), { status: 200, headers });
+    }
+  } catch (error) {
+    return errorResponse(toAPIError(error, requestId), requestId);
+  }
+}
+
+function errorResponse({ status, body }: APIErrorResponse, requestId: string) {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Cache-Control': 'no-store',
+      'X-Request-Id': requestId,
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { CACHE_CONFIG, isFeatureEnabled } from '@/lib/api-design';
+import {
+  featureDisabledError,
+  formatEventsIcs,
+  parseEventsIcsQuery,
+  searchEvents,
+  toAPIError,
+  type APIErrorResponse,
+} from '@/lib/astronomyApi';
+
+// The events as an iCalendar feed for calendar apps to subscribe to
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  if (!isFeatureEnabled('enableEvents')) {
+    return errorResponse(featureDisabledError('Events', requestId), requestId);
+  }
+
+  try {
+    const query = parseEventsIcsQuery(request.nextUrl.searchParams);
+    return new NextResponse(formatEventsIcs(searchEvents(query), request.nextUrl.origin), {
+      status: 200,
+      headers: {
+        'Cache-Control': `public, max-age=${CACHE_CONFIG.eventsTTL}`,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="orbit-command-events.ics"',
+        'X-Request-Id': requestId,
+      },
+    });
+  } catch (error) {
+    return errorResponse(toAPIError(error, requestId), requestId);
+  }
+}
+
+function errorResponse({ status, body }: APIErrorResponse, requestId: string) {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Cache-Control': 'no-store',
+      'X-Request-Id': requestId,
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { CACHE_CONFIG, isFeatureEnabled } from '@/lib/api-design';
+import {
+  featureDisabledError,
+  parseEventsQuery,
+  searchEvents,
+  toAPIError,
+  type APIErrorResponse,
+} from '@/lib/astronomyApi';
+
+// Conjunctions, oppositions, eclipses and other events in a date range
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  if (!isFeatureEnabled('enableEvents')) {
+    return errorResponse(featureDisabledError('Events', requestId), requestId);
+  }
+
+  try {
+    const query = parseEventsQuery(request.nextUrl.searchParams);
+    return NextResponse.json(searchEvents(query), {
+      status: 200,
+      headers: {
+        'Cache-Control': `public, max-age=${CACHE_CONFIG.eventsTTL}`,
+        'X-Request-Id': requestId,
+      },
+    });
+  } catch (error) {
+    return errorResponse(toAPIError(error, requestId), requestId);
+  }
+}
+
+function errorResponse({ status, body }: APIErrorResponse, requestId: string) {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Cache-Control': 'no-store',
+      'X-Request-Id': requestId,
+    },
+  });
+}
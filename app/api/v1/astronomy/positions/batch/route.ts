@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { isFeatureEnabled } from '@/lib/api-design';
+import { ValidationError } from '@/lib/errors';
+import {
+  calculateBatchPositions,
+  featureDisabledError,
+  parseBatchPositionsRequest,
+  toAPIError,
+  type APIErrorResponse,
+} from '@/lib/astronomyApi';
+
+// Positions at many dates in one request; each date succeeds or fails on its own
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  if (!isFeatureEnabled('enableBatchPositions')) {
+    return errorResponse(featureDisabledError('Batch positions', requestId), requestId);
+  }
+
+  try {
+    const body: unknown = await request.json().catch(() => {
+      throw new ValidationError('Request body must be valid JSON', { field: 'request' });
+    });
+    const query = parseBatchPositionsRequest(body);
+    if (query.includeOrbitalData && !isFeatureEnabled('enableOrbitalData')) {
+      return errorResponse(featureDisabledError('Orbital data', requestId), requestId);
+    }
+
+    return NextResponse.json(calculateBatchPositions(query, requestId), {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store',
+        'X-Request-Id': requestId,
+      },
+    });
+  } catch (error) {
+    return errorResponse(toAPIError(error, requestId), requestId);
+  }
+}
+
+function errorResponse({ status, body }: APIErrorResponse, requestId: string) {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Cache-Control': 'no-store',
+      'X-Request-Id': requestId,
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { CACHE_CONFIG, isFeatureEnabled } from '@/lib/api-design';
+import {
+  calculatePositions,
+  featureDisabledError,
+  parsePositionsQuery,
+  toAPIError,
+  type APIErrorResponse,
+} from '@/lib/astronomyApi';
+
+// Planet positions for a date, for dashboards and tools without the 3D app
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const query = parsePositionsQuery(request.nextUrl.searchParams);
+    if (query.includeOrbitalData && !isFeatureEnabled('enableOrbitalData')) {
+      return errorResponse(featureDisabledError('Orbital data', requestId), requestId);
+    }
+
+    return NextResponse.json(calculatePositions(query), {
+      status: 200,
+      headers: {
+        'Cache-Control': `public, max-age=${CACHE_CONFIG.positionsTTL}`,
+        'X-Request-Id': requestId,
+      },
+    });
+  } catch (error) {
+    return errorResponse(toAPIError(error, requestId), requestId);
+  }
+}
+
+function errorResponse({ status, body }: APIErrorResponse, requestId: string) {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Cache-Control': 'no-store',
+      'X-Request-Id': requestId,
+    },
+  });
+}
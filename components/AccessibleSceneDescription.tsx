@@ -3,28 +3,60 @@
 import { useOrbitStore } from '@/lib/store';
 import { useShallow } from 'zustand/react/shallow';
 import { useMemo } from 'react';
+import { describeTimeSpeed } from '@/lib/timeSpeed';
+import { describeSkyPosition } from '@/lib/observer';
+import { getCachedSkyDay } from '@/lib/astronomy-cache';
+import { describeRiseSet, describeTwilight } from '@/lib/riseSet';
+import { computeEclipseShadows, describeEclipseInProgress } from '@/lib/eclipses';
+import { describeAppearance, formatLightTime } from '@/lib/appearance';
+import type { BodyName } from '@/lib/bodies';
 
 /**
  * Provides accessible text description of the 3D scene for screen readers.
  * WCAG 2.1 AA: 1.1.1 Non-text Content - Text alternative for 3D visualization
  */
 export default function AccessibleSceneDescription() {
-  const { planets, selectedPlanet, currentDate, timeSpeed, cinematicPlaying } = useOrbitStore(
+  const {
+    planets,
+    selectedPlanet,
+    currentDate,
+    timeSpeed,
+    cinematicPlaying,
+    cameraMode,
+    observer,
+  } = useOrbitStore(
     useShallow((s) => ({
       planets: s.planets,
       selectedPlanet: s.selectedPlanet,
       currentDate: s.currentDate,
       timeSpeed: s.timeSpeed,
       cinematicPlaying: s.cinematicPlaying,
+      cameraMode: s.cameraMode,
+      observer: s.observer,
     }))
   );
 
+  const observerName = observer.name;
+
   const sceneDescription = useMemo(() => {
-    const planetList = Array.from(planets.values())
+    const bodies = Array.from(planets.values());
+    const topLevel = bodies.filter((p) => p.category === 'planet');
+    const dwarfs = bodies.filter((p) => p.category === 'dwarf');
+    const moons = bodies.filter((p) => p.parent);
+
+    const planetList = topLevel
       .sort((a, b) => a.distance - b.distance)
       .map((p) => p.name)
       .join(', ');
 
+    const dwarfList = dwarfs.length
+      ? `Dwarf planets shown: ${dwarfs.map((d) => d.name).join(', ')}. `
+      : '';
+
+    const moonList = moons.length
+      ? `Moons shown: ${moons.map((m) => `${m.name} around ${m.parent}`).join(', ')}. `
+      : '';
+
     const dateStr = currentDate.toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
@@ -37,29 +69,71 @@ export default function AccessibleSceneDescription() {
     } else if (timeSpeed === 0) {
       status = 'Simulation is paused. ';
     } else {
-      status = `Simulation running at ${timeSpeed} days per second. `;
+      status = `Simulation running at ${describeTimeSpeed(timeSpeed)}. `;
+    }
+    if (cameraMode === 'sky') {
+      status += `Sky view from ${observerName}. `;
+    }
+    const eclipse = describeEclipseInProgress(computeEclipseShadows(currentDate));
+    if (eclipse) {
+      status += `${eclipse} `;
     }
 
-    return `3D Solar System visualization showing the Sun and ${planets.size} planets: ${planetList}. ` +
+    return `3D Solar System visualization showing the Sun and ${topLevel.length} planets: ${planetList}. ` +
+      dwarfList +
+      moonList +
       `Current simulation date: ${dateStr}. ${status}` +
       (selectedPlanet ? `Currently focused on ${selectedPlanet}. ` : '') +
       'Use keyboard shortcuts to navigate: Press question mark for help, K for command palette, ' +
       'arrow keys to navigate between planets when focused.';
-  }, [planets, selectedPlanet, currentDate, timeSpeed, cinematicPlaying]);
+  }, [planets, selectedPlanet, currentDate, timeSpeed, cinematicPlaying, cameraMode, observerName]);
 
   const selectedPlanetDescription = useMemo(() => {
     if (!selectedPlanet) return null;
     const planet = planets.get(selectedPlanet);
     if (!planet) return null;
 
+    const lightTime = planet.lightTimeSeconds !== undefined
+      ? ` Light from ${planet.name} takes ${formatLightTime(planet.lightTimeSeconds)} to reach Earth.`
+      : '';
+    const viewingDescription =
+      (planet.appearance ? ` ${describeAppearance(planet.appearance)}` : '') +
+      lightTime +
+      (planet.sky ? ` ${describeSkyPosition(planet.sky, observerName)}` : '');
+
+    if (planet.parent) {
+      return `${planet.name} details: ` +
+        `Moon of ${planet.parent}. ` +
+        `Distance from ${planet.parent}: ${Math.round(planet.parentDistanceKm ?? 0).toLocaleString('en-US')} kilometers. ` +
+        `Orbital velocity around ${planet.parent}: ${planet.velocity.toFixed(2)} kilometers per second. ` +
+        `Surface temperature: ${planet.temperature} Kelvin. ` +
+        `Mass: ${planet.mass.toFixed(4)} Earth masses. ` +
+        `Radius: ${planet.radius.toFixed(3)} Earth radii.` +
+        viewingDescription;
+    }
+
     return `${planet.name} details: ` +
+      (planet.category === 'dwarf' ? 'Dwarf planet. ' : '') +
       `Distance from Sun: ${planet.distance.toFixed(2)} astronomical units. ` +
       `Orbital velocity: ${planet.velocity.toFixed(1)} kilometers per second. ` +
       `Surface temperature: ${planet.temperature} Kelvin. ` +
       `Mass: ${planet.mass.toFixed(2)} Earth masses. ` +
       `Radius: ${planet.radius.toFixed(2)} Earth radii. ` +
-      `Number of moons: ${planet.moons}.`;
-  }, [selectedPlanet, planets]);
+      `Number of moons: ${planet.moons}.` +
+      viewingDescription;
+  }, [selectedPlanet, planets, observerName]);
+
+  const riseSetDescription = useMemo(() => {
+    if (!selectedPlanet) return null;
+    try {
+      const day = getCachedSkyDay(selectedPlanet as BodyName, observer, currentDate);
+      const bodyText = day.body ? `${describeRiseSet(selectedPlanet, day.body, day.timeZone)} ` : '';
+      return `From ${observerName}: ${bodyText}` +
+        `${describeRiseSet('The Sun', day.sun, day.timeZone)} ${describeTwilight(day)}`;
+    } catch {
+      return null;
+    }
+  }, [selectedPlanet, observer, observerName, currentDate]);
 
   return (
     <div className="sr-only" aria-live="polite" aria-atomic="true">
@@ -68,6 +142,9 @@ export default function AccessibleSceneDescription() {
       {selectedPlanetDescription && (
         <p id="selected-planet-description">{selectedPlanetDescription}</p>
       )}
+      {riseSetDescription && (
+        <p id="selected-planet-rise-set">{riseSetDescription}</p>
+      )}
     </div>
   );
 }
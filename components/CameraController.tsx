@@ -1,8 +1,14 @@
 'use client';
 
-import { useEffect, useRef, useMemo, memo } from 'react';
+import { useCallback, useEffect, useRef, useMemo, memo } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { useOrbitStore } from '@/lib/store';
+import { computeHorizonFrame, SKY_VIEW_EYE_HEIGHT } from '@/lib/observer';
+import { getSpacecraftScenePosition } from '@/lib/spacecraft';
+import { getFrameOrigin } from '@/lib/referenceFrames';
+import { getOverviewPosition } from '@/lib/scaleModes';
+import { useSceneScale } from '@/lib/useSceneScale';
+import type { PlanetData } from '@/lib/store';
 import { useShallow } from 'zustand/react/shallow';
 import * as THREE from 'three';
 import gsap from 'gsap';
@@ -16,31 +22,124 @@ import gsap from 'gsap';
  * 5. Throttled cinematic transitions (5s intervals)
  * 6. Cached planet names array to avoid Map iteration
  * 7. Early returns in useFrame to minimize work
+ * 8. Sky view horizon frame recomputed per sim tick, not per frame
+ * 9. Selected small body's index looked up once per selection, not per frame
+ * 10. Selected spacecraft interpolated once per sim tick, not per frame
+ * 11. Frame origin looked up once per position update, not per frame
+ * 12. Scale mode mapping applied once per position update, not per frame
  */
 
 // Reusable Vector3 to avoid allocations in render loop
 const tempVector = new THREE.Vector3();
 const originVector = new THREE.Vector3(0, 0, 0);
+const eyeVector = new THREE.Vector3();
+const zenithVector = new THREE.Vector3();
+const DEFAULT_UP = new THREE.Vector3(0, 1, 0);
+
+type Vec3 = [number, number, number];
+
+/** Heliocentric scene position -> position in the current reference frame */
+function toFrame(position: Vec3, origin: Vec3): Vec3 {
+  return [position[0] - origin[0], position[1] - origin[1], position[2] - origin[2]];
+}
 
 function CameraController() {
   const { camera } = useThree();
 
   // Optimized store selector
-  const { selectedPlanet, cameraMode, planets, cinematicPlaying } = useOrbitStore(
+  const {
+    selectedPlanet,
+    selectedSmallBody,
+    selectedSpacecraft,
+    cameraMode,
+    referenceFrame,
+    planets,
+    smallBodies,
+    smallBodyPositions,
+    spacecraft,
+    cinematicPlaying,
+    observer,
+    currentDate,
+  } = useOrbitStore(
     useShallow((s) => ({
       selectedPlanet: s.selectedPlanet,
+      selectedSmallBody: s.selectedSmallBody,
+      selectedSpacecraft: s.selectedSpacecraft,
       cameraMode: s.cameraMode,
+      referenceFrame: s.referenceFrame,
       planets: s.planets,
+      smallBodies: s.smallBodies,
+      smallBodyPositions: s.smallBodyPositions,
+      spacecraft: s.spacecraft,
       cinematicPlaying: s.cinematicPlaying,
+      observer: s.observer,
+      currentDate: s.currentDate,
     }))
   );
 
+  const sceneScale = useSceneScale();
+
   const cinematicIndex = useRef(0);
   const cinematicTimer = useRef(0);
   const prefersReducedMotion = useRef(false);
 
-  // Cache planet names to avoid repeated Map.keys() calls
-  const planetNames = useMemo(() => Array.from(planets.keys()), [planets]);
+  // Cache planet names to avoid repeated Map.keys() calls - the tour only visits planets
+  const planetNames = useMemo(
+    () => Array.from(planets.values()).filter((p) => p.category === 'planet').map((p) => p.name),
+    [planets]
+  );
+
+  const smallBodyIndex = useMemo(
+    () => (selectedSmallBody ? smallBodies.findIndex((body) => body.id === selectedSmallBody) : -1),
+    [smallBodies, selectedSmallBody]
+  );
+
+  // Scene position of the selected asteroid or comet, once it has been computed
+  const smallBodyFocus = useMemo((): [number, number, number] | null => {
+    if (smallBodyIndex < 0 || (smallBodyIndex + 1) * 3 > smallBodyPositions.length) return null;
+    const i3 = smallBodyIndex * 3;
+    return [smallBodyPositions[i3], smallBodyPositions[i3 + 1], smallBodyPositions[i3 + 2]];
+  }, [smallBodyIndex, smallBodyPositions]);
+
+  // Scene position of the selected spacecraft, while the date is within its trajectory
+  const spacecraftFocus = useMemo(() => {
+    const craft = selectedSpacecraft ? spacecraft.find((candidate) => candidate.id === selectedSpacecraft) : null;
+    return craft ? getSpacecraftScenePosition(craft, currentDate) : null;
+  }, [spacecraft, selectedSpacecraft, currentDate]);
+
+  // Scene content is scaled and shifted by the frame origin (see Scene), so every target is too
+  const frameOrigin = useMemo(
+    () => sceneScale.position(getFrameOrigin(referenceFrame, planets)),
+    [sceneScale, referenceFrame, planets]
+  );
+
+  const bodyFocus = useMemo(() => {
+    const focus = smallBodyFocus ?? spacecraftFocus;
+    return focus ? toFrame(sceneScale.position(focus), frameOrigin) : null;
+  }, [smallBodyFocus, spacecraftFocus, sceneScale, frameOrigin]);
+
+  // Where a body is drawn: scaled, moons around their parent, in the current frame
+  const locate = useCallback(
+    (data: PlanetData): Vec3 => {
+      const parentPosition = data.parent ? planets.get(data.parent)?.position : undefined;
+      return toFrame(sceneScale.body(data.name, data.position, parentPosition), frameOrigin);
+    },
+    [planets, sceneScale, frameOrigin]
+  );
+
+  // The true scale mode zooms to specks far smaller than the default near plane
+  const { near } = sceneScale.cameraLimits;
+  useEffect(() => {
+    if (!(camera instanceof THREE.PerspectiveCamera) || camera.near === near) return;
+    camera.near = near;
+    camera.updateProjectionMatrix();
+  }, [camera, near]);
+
+  // Local horizon axes - only needed while the sky view is active
+  const horizonFrame = useMemo(
+    () => (cameraMode === 'sky' ? computeHorizonFrame(observer, currentDate) : null),
+    [cameraMode, observer, currentDate]
+  );
 
   // Detect reduced motion preference
   useEffect(() => {
@@ -67,11 +166,17 @@ function CameraController() {
     gsap.killTweensOf(camera.position);
     gsap.killTweensOf(camera.rotation);
 
+    // Sky view tilts the camera to the local zenith; every other mode is Y-up
+    if (cameraMode !== 'sky') {
+      camera.up.copy(DEFAULT_UP);
+    }
+
     if (cameraMode === 'overview') {
+      const [x, y, z] = getOverviewPosition(sceneScale.mode);
       gsap.to(camera.position, {
-        x: 0,
-        y: 80,
-        z: 100,
+        x,
+        y,
+        z,
         duration,
         ease,
       });
@@ -85,8 +190,11 @@ function CameraController() {
     } else if (cameraMode === 'focused' && selectedPlanet) {
       const planetData = planets.get(selectedPlanet);
       if (planetData) {
-        const [x, y, z] = planetData.position;
-        const distance = 15 + planetData.radius * 2;
+        const [x, y, z] = locate(planetData);
+        // Moons and dwarf planets are tiny next to the planets, so frame them tighter
+        const distance =
+          ((planetData.category === 'planet' ? 15 : 4) + planetData.radius * 2) *
+          sceneScale.bodySizeRatio(planetData.radius);
 
         gsap.to(camera.position, {
           x: x + distance,
@@ -96,11 +204,50 @@ function CameraController() {
           ease,
         });
       }
+    } else if (cameraMode === 'focused' && bodyFocus) {
+      const [x, y, z] = bodyFocus;
+      gsap.to(camera.position, {
+        x: x + 4,
+        y: y + 2,
+        z: z + 4,
+        duration,
+        ease,
+      });
     }
-  }, [cameraMode, selectedPlanet, planets, camera]);
+  }, [cameraMode, selectedPlanet, planets, locate, bodyFocus, sceneScale, camera]);
 
   // Render loop - optimized with early returns
   useFrame((state, delta) => {
+    // Sky view: stand on Earth at the observer's location, zenith up
+    if (cameraMode === 'sky') {
+      const earth = planets.get('Earth');
+      if (!earth || !horizonFrame) return;
+
+      const { zenith, north } = horizonFrame;
+      zenithVector.set(...zenith);
+      eyeVector
+        .set(...locate(earth))
+        .addScaledVector(zenithVector, SKY_VIEW_EYE_HEIGHT * sceneScale.bodySizeRatio(earth.radius));
+      camera.position.copy(eyeVector);
+      camera.up.copy(zenithVector);
+
+      const target =
+        selectedPlanet && selectedPlanet !== 'Earth' ? planets.get(selectedPlanet) : undefined;
+      if (target) {
+        tempVector.set(...locate(target));
+      } else {
+        // Face the equator, a little above the horizon
+        const towardEquator = observer.latitude >= 0 ? -1 : 1;
+        tempVector
+          .set(...north)
+          .multiplyScalar(towardEquator)
+          .addScaledVector(zenithVector, 0.3)
+          .add(eyeVector);
+      }
+      camera.lookAt(tempVector);
+      return;
+    }
+
     // Cinematic mode: auto-tour through planets
     if (cinematicPlaying && cameraMode === 'cinematic') {
       cinematicTimer.current += delta;
@@ -116,8 +263,8 @@ function CameraController() {
           const planetData = planets.get(nextPlanet);
 
           if (planetData) {
-            const [x, y, z] = planetData.position;
-            const distance = 20 + planetData.radius * 3;
+            const [x, y, z] = locate(planetData);
+            const distance = (20 + planetData.radius * 3) * sceneScale.bodySizeRatio(planetData.radius);
             const duration = prefersReducedMotion.current ? 0 : 4;
             const ease = prefersReducedMotion.current ? 'none' : 'power1.inOut';
             const elapsed = state.clock.elapsedTime;
@@ -138,14 +285,17 @@ function CameraController() {
     if (cameraMode === 'focused' && selectedPlanet) {
       const planetData = planets.get(selectedPlanet);
       if (planetData) {
-        tempVector.set(...planetData.position);
+        tempVector.set(...locate(planetData));
         camera.lookAt(tempVector);
       }
+    } else if (cameraMode === 'focused' && bodyFocus) {
+      tempVector.set(...bodyFocus);
+      camera.lookAt(tempVector);
     } else if (cameraMode === 'cinematic' && planetNames.length > 0) {
       const currentPlanet = planetNames[cinematicIndex.current];
       const planetData = planets.get(currentPlanet);
       if (planetData) {
-        tempVector.set(...planetData.position);
+        tempVector.set(...locate(planetData));
         camera.lookAt(tempVector);
       }
     } else {
@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useMemo, memo } from 'react';
+import * as THREE from 'three';
+import { useShallow } from 'zustand/react/shallow';
+import { useOrbitStore, type RenderQuality } from '@/lib/store';
+import { computeSmallBodyState, type SmallBody } from '@/lib/smallBodies';
+import { useSceneScale } from '@/lib/useSceneScale';
+import {
+  COMET_PARTICLE_COUNTS,
+  TAIL_MAX_AU,
+  createParticleTemplate,
+  getCometActivity,
+  getTailAxes,
+  layoutParticles,
+  shadeParticles,
+  type CometActivity,
+  type CometParticleLayer,
+  type CometParticleTemplate,
+  type CometTailAxes,
+} from '@/lib/cometTails';
+
+/**
+ * Coma, ion tail and dust tail for every comet close enough to the Sun.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Particle templates are built once per quality tier and shared by all comets
+ * 3. Each tick rewrites offsets and colours into existing buffers
+ * 4. Particle counts come from COMET_PARTICLE_COUNTS for the quality tier
+ * 5. Only the MAX_TAILED_COMETS comets nearest the Sun get tails
+ * 6. Additive blending with depthWrite off, so particles never need sorting
+ * 7. Geometry disposed whenever the quality tier changes and on unmount
+ */
+
+/** Most comets drawn with tails at once */
+const MAX_TAILED_COMETS = 8;
+
+const SCENE_UNITS_PER_AU = 10;
+
+const LAYERS: readonly CometParticleLayer[] = ['dust', 'ion', 'coma'];
+
+const LAYER_STYLE: Record<CometParticleLayer, { color: [number, number, number]; size: number }> = {
+  coma: { color: [0.88, 0.95, 1], size: 3 },
+  ion: { color: [0.49, 0.83, 0.99], size: 2 },
+  dust: { color: [0.99, 0.9, 0.54], size: 2 },
+};
+
+const templateCache = new Map<string, CometParticleTemplate>();
+
+function getTemplate(layer: CometParticleLayer, quality: RenderQuality): CometParticleTemplate {
+  const key = `${layer}:${quality}`;
+  let template = templateCache.get(key);
+  if (!template) {
+    template = createParticleTemplate(layer, COMET_PARTICLE_COUNTS[quality][layer]);
+    templateCache.set(key, template);
+  }
+  return template;
+}
+
+interface ActiveComet {
+  body: SmallBody;
+  position: [number, number, number];
+  axes: CometTailAxes;
+  activity: CometActivity;
+}
+
+interface CometTailProps {
+  comet: ActiveComet;
+  quality: RenderQuality;
+}
+
+const CometTail = memo(function CometTail({ comet, quality }: CometTailProps) {
+  const layers = useMemo(
+    () =>
+      LAYERS.map((layer) => {
+        const template = getTemplate(layer, quality);
+        const geometry = new THREE.BufferGeometry();
+        const position = new THREE.BufferAttribute(new Float32Array(template.length), 3);
+        const color = new THREE.BufferAttribute(new Float32Array(template.length), 3);
+        position.setUsage(THREE.DynamicDrawUsage);
+        color.setUsage(THREE.DynamicDrawUsage);
+        geometry.setAttribute('position', position);
+        geometry.setAttribute('color', color);
+        return { layer, template, geometry };
+      }),
+    [quality]
+  );
+
+  // Rewrite offsets and colours in place as the comet moves
+  useEffect(() => {
+    for (const { layer, template, geometry } of layers) {
+      const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+      const color = geometry.getAttribute('color') as THREE.BufferAttribute;
+      layoutParticles(position.array as Float32Array, template, layer, comet.axes, comet.activity);
+      shadeParticles(color.array as Float32Array, template, LAYER_STYLE[layer].color, comet.activity.brightness);
+      position.needsUpdate = true;
+      color.needsUpdate = true;
+    }
+  }, [layers, comet]);
+
+  // Scale modes move the comet; its tail keeps its length
+  const sceneScale = useSceneScale();
+  const position = useMemo(() => sceneScale.position(comet.position), [sceneScale, comet.position]);
+
+  useEffect(() => {
+    return () => {
+      layers.forEach(({ geometry }) => geometry.dispose());
+    };
+  }, [layers]);
+
+  return (
+    <group position={position}>
+      {layers.map(({ layer, geometry }) => (
+        <points key={layer} geometry={geometry} frustumCulled={false} raycast={() => null}>
+          <pointsMaterial
+            vertexColors
+            size={LAYER_STYLE[layer].size}
+            sizeAttenuation={false}
+            transparent
+            blending={THREE.AdditiveBlending}
+            depthWrite={false}
+          />
+        </points>
+      ))}
+    </group>
+  );
+});
+
+function CometTails({ quality }: { quality: RenderQuality }) {
+  const { smallBodies, smallBodyPositions } = useOrbitStore(
+    useShallow((s) => ({
+      smallBodies: s.smallBodies,
+      smallBodyPositions: s.smallBodyPositions,
+    }))
+  );
+
+  // Recomputed when new positions arrive, not on every date tick
+  const comets = useMemo(() => {
+    const count = Math.min(smallBodies.length, smallBodyPositions.length / 3);
+    const candidates: { index: number; distanceAu: number }[] = [];
+
+    for (let i = 0; i < count; i++) {
+      if (smallBodies[i].kind !== 'comet') continue;
+      const i3 = i * 3;
+      const distanceAu =
+        Math.hypot(smallBodyPositions[i3], smallBodyPositions[i3 + 1], smallBodyPositions[i3 + 2]) /
+        SCENE_UNITS_PER_AU;
+      if (distanceAu < TAIL_MAX_AU) candidates.push({ index: i, distanceAu });
+    }
+
+    // Velocities only set the dust tail's bend, so the latest date is close enough
+    const date = useOrbitStore.getState().currentDate;
+    return candidates
+      .sort((a, b) => a.distanceAu - b.distanceAu)
+      .slice(0, MAX_TAILED_COMETS)
+      .map(({ index, distanceAu }): ActiveComet => {
+        const body = smallBodies[index];
+        const i3 = index * 3;
+        const position: [number, number, number] = [
+          smallBodyPositions[i3],
+          smallBodyPositions[i3 + 1],
+          smallBodyPositions[i3 + 2],
+        ];
+        // Same frame swap as the positions: Y-up in Three.js
+        const state = computeSmallBodyState(body, date);
+        const velocity: [number, number, number] = [state.vx, state.vz, -state.vy];
+
+        return { body, position, axes: getTailAxes(position, velocity), activity: getCometActivity(distanceAu) };
+      });
+  }, [smallBodies, smallBodyPositions]);
+
+  return (
+    <group>
+      {comets.map((comet) => (
+        <CometTail key={comet.body.id} comet={comet} quality={quality} />
+      ))}
+    </group>
+  );
+}
+
+export default memo(CometTails);
@@ -0,0 +1,188 @@
+'use client';
+
+import { useMemo, memo, useEffect } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { useOrbitStore } from '@/lib/store';
+import { useShallow } from 'zustand/react/shallow';
+import { useSceneScale } from '@/lib/useSceneScale';
+import {
+  computeEclipseShadows,
+  describeEclipseKind,
+  EARTH_RADIUS_KM,
+  type ShadowCone,
+} from '@/lib/eclipses';
+
+/**
+ * Earth's and the Moon's shadow cones, drawn while an eclipse is in progress.
+ * Radii use the same km-to-units scale as Earth's sphere; lengths are squashed
+ * to fit the exaggerated Earth-Moon display distance.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Shadow geometry is a few vector ops per sim tick; nothing is drawn
+ *    outside eclipses
+ * 3. Open-ended low-segment frusta, no depth writes
+ * 4. Geometry disposed whenever it is rebuilt and on unmount
+ */
+
+type Vec3 = [number, number, number];
+
+const CONE_SEGMENTS = 48;
+/** Earth's shadow is drawn a little past the Moon so it reads as a cone */
+const EARTH_SHADOW_OVERSHOOT = 1.25;
+
+const UMBRA_MATERIAL = {
+  color: '#f87171',
+  transparent: true,
+  opacity: 0.2,
+  depthWrite: false,
+  side: THREE.DoubleSide,
+} as const;
+
+const PENUMBRA_MATERIAL = {
+  color: '#cbd5e1',
+  transparent: true,
+  opacity: 0.08,
+  depthWrite: false,
+  side: THREE.DoubleSide,
+} as const;
+
+interface Frustum {
+  geometry: THREE.CylinderGeometry;
+  position: Vec3;
+  quaternion: THREE.Quaternion;
+}
+
+/**
+ * Frustum from the caster along the cone axis. Radii change linearly with
+ * distance, matching the cone's radius at the caster and at the target.
+ */
+function buildFrustum(
+  origin: Vec3,
+  cone: ShadowCone,
+  targetRadiusKm: number,
+  lengthKm: number,
+  unitsPerKmAlong: number,
+  unitsPerKmAcross: number
+): Frustum | null {
+  const slope = (targetRadiusKm - cone.casterRadiusKm) / cone.targetDistanceKm;
+  // Stop at the umbra's tip rather than drawing the antumbra
+  const length = slope < 0 ? Math.min(lengthKm, cone.casterRadiusKm / -slope) : lengthKm;
+  if (length <= 0) return null;
+
+  const startRadius = cone.casterRadiusKm * unitsPerKmAcross;
+  const endRadius = Math.max(0, cone.casterRadiusKm + slope * length) * unitsPerKmAcross;
+  const height = length * unitsPerKmAlong;
+
+  // CylinderGeometry runs along +Y: bottom at the caster, top away from the Sun
+  const geometry = new THREE.CylinderGeometry(endRadius, startRadius, height, CONE_SEGMENTS, 1, true);
+  const axis = new THREE.Vector3(...cone.axis);
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), axis);
+
+  return {
+    geometry,
+    position: [
+      origin[0] + cone.axis[0] * (height / 2),
+      origin[1] + cone.axis[1] * (height / 2),
+      origin[2] + cone.axis[2] * (height / 2),
+    ],
+    quaternion,
+  };
+}
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+function EclipseShadows() {
+  const { currentDate, earth, moon, showLabels } = useOrbitStore(
+    useShallow((s) => ({
+      currentDate: s.currentDate,
+      earth: s.planets.get('Earth'),
+      moon: s.planets.get('Moon'),
+      showLabels: s.showLabels,
+    }))
+  );
+
+  const shadows = useMemo(() => computeEclipseShadows(currentDate), [currentDate]);
+  const sceneScale = useSceneScale();
+
+  // Where the scale mode draws the two spheres
+  const earthPosition = useMemo(() => earth && sceneScale.body('Earth', earth.position), [earth, sceneScale]);
+  const moonPosition = useMemo(
+    () => earth && moon && sceneScale.body('Moon', moon.position, earth.position),
+    [earth, moon, sceneScale]
+  );
+
+  const frusta = useMemo(() => {
+    if (!earth || !earthPosition || !moonPosition || (!shadows.lunar && !shadows.solar)) return [];
+
+    // Same scale as the Earth sphere
+    const unitsPerKmAcross = sceneScale.bodyRadius(earth.radius) / EARTH_RADIUS_KM;
+    const displayDistance = distance(earthPosition, moonPosition);
+    const built: { key: string; frustum: Frustum; material: typeof UMBRA_MATERIAL | typeof PENUMBRA_MATERIAL }[] = [];
+
+    if (shadows.lunar) {
+      const cone = shadows.earthShadow;
+      const along = displayDistance / cone.targetDistanceKm;
+      const length = cone.targetDistanceKm * EARTH_SHADOW_OVERSHOOT;
+      const umbra = buildFrustum(earthPosition, cone, cone.umbraRadiusKm, length, along, unitsPerKmAcross);
+      const penumbra = buildFrustum(earthPosition, cone, cone.penumbraRadiusKm, length, along, unitsPerKmAcross);
+      if (umbra) built.push({ key: 'earth-umbra', frustum: umbra, material: UMBRA_MATERIAL });
+      if (penumbra) built.push({ key: 'earth-penumbra', frustum: penumbra, material: PENUMBRA_MATERIAL });
+    }
+
+    if (shadows.solar) {
+      const cone = shadows.moonShadow;
+      const along = displayDistance / cone.targetDistanceKm;
+      const length = cone.targetDistanceKm;
+      const umbra = buildFrustum(moonPosition, cone, cone.umbraRadiusKm, length, along, unitsPerKmAcross);
+      const penumbra = buildFrustum(moonPosition, cone, cone.penumbraRadiusKm, length, along, unitsPerKmAcross);
+      if (umbra) built.push({ key: 'moon-umbra', frustum: umbra, material: UMBRA_MATERIAL });
+      if (penumbra) built.push({ key: 'moon-penumbra', frustum: penumbra, material: PENUMBRA_MATERIAL });
+    }
+
+    return built;
+  }, [earth, earthPosition, moonPosition, shadows, sceneScale]);
+
+  useEffect(() => {
+    return () => {
+      frusta.forEach(({ frustum }) => frustum.geometry.dispose());
+    };
+  }, [frusta]);
+
+  if (frusta.length === 0 || !earthPosition || !moonPosition) return null;
+
+  const label = shadows.solar
+    ? describeEclipseKind('solar', shadows.solar)
+    : describeEclipseKind('lunar', shadows.lunar!);
+  const labelPosition = shadows.solar ? earthPosition : moonPosition;
+
+  return (
+    <group>
+      {frusta.map(({ key, frustum, material }) => (
+        <mesh
+          key={key}
+          geometry={frustum.geometry}
+          position={frustum.position}
+          quaternion={frustum.quaternion}
+          renderOrder={1}
+          raycast={() => null}
+        >
+          <meshBasicMaterial {...material} />
+        </mesh>
+      ))}
+
+      {showLabels && (
+        <Html position={labelPosition} center style={{ pointerEvents: 'none' }}>
+          <div className="mt-10 font-mono text-xs font-semibold text-red-200/90 whitespace-nowrap select-none">
+            {label}
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
+
+export default memo(EclipseShadows);
@@ -5,11 +5,19 @@ import { useOrbitStore } from '@/lib/store';
 import HUDTopBar from '@/components/hud/HUDTopBar';
 import HUDTimePanel from '@/components/hud/HUDTimePanel';
 import HUDPlanetPanel from '@/components/hud/HUDPlanetPanel';
+import HUDSmallBodyPanel from '@/components/hud/HUDSmallBodyPanel';
+import HUDSpacecraftPanel from '@/components/hud/HUDSpacecraftPanel';
 import HUDToast, { type HUDToastState } from '@/components/hud/HUDToast';
 import { generateOrbitMission, type OrbitMission } from '@/lib/missions';
+import type { AstronomicalEvent } from '@/lib/api-design';
 import { applyOrbitShareStateFromUrl, buildOrbitShareUrl } from '@/lib/orbitShare';
 import AccessibleSceneDescription from '@/components/AccessibleSceneDescription';
-import { announce, PLANET_ORDER } from '@/lib/useAccessibility';
+import { announce, KEYBOARD_SHORTCUTS } from '@/lib/useAccessibility';
+import { BODY_NAVIGATION_ORDER } from '@/lib/planets';
+import { parseSmallBodyFile } from '@/lib/smallBodies';
+import { parseTrajectoryFile } from '@/lib/spacecraft';
+import type { TransferSolution } from '@/lib/transfers';
+import { ValidationError } from '@/lib/errors';
 import MobileNav from '@/components/MobileNav';
 
 /**
@@ -27,6 +35,8 @@ const HUDCommandPalette = lazy(() => import('@/components/hud/HUDCommandPalette'
 const HUDWelcomeDialog = lazy(() => import('@/components/hud/HUDWelcomeDialog'));
 const HUDMissionDialog = lazy(() => import('@/components/hud/HUDMissionDialog'));
 const HUDMenuDialog = lazy(() => import('@/components/hud/HUDMenuDialog'));
+const HUDEventsDialog = lazy(() => import('@/components/hud/HUDEventsDialog'));
+const HUDTransferDialog = lazy(() => import('@/components/hud/HUDTransferDialog'));
 const HUDTutorialCoachmarks = lazy(() => import('@/components/hud/HUDTutorialCoachmarks'));
 const MobileSettings = lazy(() => import('@/components/MobileSettings'));
 
@@ -49,10 +59,14 @@ export default function HUD() {
   const [tutorialOpen, setTutorialOpen] = useState(false);
   const [toast, setToast] = useState<HUDToastState | null>(null);
   const toastTimerRef = useRef<number | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const trajectoryInputRef = useRef<HTMLInputElement>(null);
   const [missionOpen, setMissionOpen] = useState(false);
   const [mission, setMission] = useState<OrbitMission | null>(null);
   const [missionCompleted, setMissionCompleted] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [eventsOpen, setEventsOpen] = useState(false);
+  const [transferOpen, setTransferOpen] = useState(false);
 
   const showToast = useCallback((nextToast: HUDToastState) => {
     setToast(nextToast);
@@ -125,6 +139,30 @@ export default function HUD() {
     }
   }, [mission, missionCompleted, selectedPlanet, showToast]);
 
+  const handleJumpToEvent = useCallback(
+    (event: AstronomicalEvent) => {
+      setEventsOpen(false);
+      useOrbitStore.getState().jumpToEvent(event);
+      const msg = `Jumped to ${event.description}.`;
+      showToast({ message: msg });
+      announce(msg);
+    },
+    [showToast]
+  );
+
+  const handleFlyTransfer = useCallback(
+    (transfer: TransferSolution) => {
+      setTransferOpen(false);
+      const { setTransfer, playTransfer } = useOrbitStore.getState();
+      setTransfer(transfer);
+      playTransfer();
+      const msg = `Flying ${transfer.origin} to ${transfer.destination}: ${Math.round(transfer.timeOfFlightDays)} days, Δv ${transfer.deltaV.toFixed(1)} km/s.`;
+      showToast({ message: msg });
+      announce(msg);
+    },
+    [showToast]
+  );
+
   const handleSnapshot = useCallback(() => {
     const canvas = document.querySelector('canvas');
     if (!canvas) {
@@ -144,6 +182,54 @@ export default function HUD() {
     }
   }, [showToast]);
 
+  const handleImportFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Let the same file be picked again later
+      event.target.value = '';
+      if (!file) return;
+
+      try {
+        const { bodies, errors } = parseSmallBodyFile(await file.text());
+        if (bodies.length === 0) {
+          showToast({ message: `No MPCORB or CometEls orbits found in ${file.name}.`, tone: 'danger' });
+          return;
+        }
+
+        useOrbitStore.getState().importSmallBodies(bodies);
+        const skipped = errors.length > 0 ? ` (${errors.length} lines skipped)` : '';
+        const msg = `Imported ${bodies.length} small bodies${skipped}.`;
+        showToast({ message: msg, tone: 'success' });
+        announce(msg);
+      } catch {
+        showToast({ message: 'Import failed. Try again.', tone: 'danger' });
+      }
+    },
+    [showToast]
+  );
+
+  const handleImportTrajectory = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      try {
+        const craft = parseTrajectoryFile(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+        const { importSpacecraft, setSelectedSpacecraft } = useOrbitStore.getState();
+        importSpacecraft(craft);
+        setSelectedSpacecraft(craft.id);
+        const msg = `Imported ${craft.name} (${craft.trajectory.jd.length} samples).`;
+        showToast({ message: msg, tone: 'success' });
+        announce(msg);
+      } catch (error) {
+        const reason = error instanceof ValidationError ? ` ${error.message}.` : ' Try again.';
+        showToast({ message: `Could not import ${file.name}.${reason}`, tone: 'danger' });
+      }
+    },
+    [showToast]
+  );
+
   const handleShare = useCallback(async () => {
     const url = buildOrbitShareUrl(window.location, useOrbitStore.getState());
 
@@ -195,9 +281,10 @@ export default function HUD() {
       if (event.defaultPrevented) return;
       if (isTextInput(event.target)) return;
 
-      const key = event.key;
+      // Letters match in either case; named keys such as ArrowLeft as they are
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
 
-      if (key === 'Escape') {
+      if (key === KEYBOARD_SHORTCUTS.ESCAPE) {
         if (welcomeOpen) {
           closeWelcome();
           return;
@@ -210,6 +297,14 @@ export default function HUD() {
           setMissionOpen(false);
           return;
         }
+        if (eventsOpen) {
+          setEventsOpen(false);
+          return;
+        }
+        if (transferOpen) {
+          setTransferOpen(false);
+          return;
+        }
         if (helpOpen) {
           setHelpOpen(false);
           return;
@@ -218,8 +313,9 @@ export default function HUD() {
           setPaletteOpen(false);
           return;
         }
-        const { selectedPlanet, setSelectedPlanet } = useOrbitStore.getState();
-        if (selectedPlanet) {
+        const { selectedPlanet, selectedSmallBody, selectedSpacecraft, setSelectedPlanet } =
+          useOrbitStore.getState();
+        if (selectedPlanet || selectedSmallBody || selectedSpacecraft) {
           setSelectedPlanet(null);
           return;
         }
@@ -230,9 +326,9 @@ export default function HUD() {
         return;
       }
 
-      if (welcomeOpen || menuOpen || missionOpen) return;
+      if (welcomeOpen || menuOpen || missionOpen || eventsOpen || transferOpen) return;
 
-      if (key.toLowerCase() === 'k' && !event.altKey) {
+      if (key === KEYBOARD_SHORTCUTS.COMMAND_PALETTE && !event.altKey) {
         event.preventDefault();
         setHelpOpen(false);
         setPaletteOpen(true);
@@ -241,7 +337,7 @@ export default function HUD() {
 
       if (event.metaKey || event.ctrlKey || event.altKey) return;
 
-      if (key === '?' || (key === '/' && event.shiftKey)) {
+      if (key === KEYBOARD_SHORTCUTS.HELP || (key === '/' && event.shiftKey)) {
         event.preventDefault();
         setPaletteOpen(false);
         setHelpOpen((v) => !v);
@@ -250,8 +346,8 @@ export default function HUD() {
 
       const store = useOrbitStore.getState();
 
-      switch (key.toLowerCase()) {
-        case ' ': {
+      switch (key) {
+        case KEYBOARD_SHORTCUTS.PAUSE_RESUME: {
           event.preventDefault();
           const { timeSpeed, setTimeSpeed } = useOrbitStore.getState();
           const next = timeSpeed === 0 ? 30 : 0;
@@ -261,7 +357,7 @@ export default function HUD() {
           announce(msg);
           break;
         }
-        case 'o': {
+        case KEYBOARD_SHORTCUTS.TOGGLE_ORBITS: {
           store.toggleOrbits();
           const next = useOrbitStore.getState().showOrbits;
           const msg = next ? 'Orbits shown.' : 'Orbits hidden.';
@@ -269,7 +365,15 @@ export default function HUD() {
           announce(msg);
           break;
         }
-        case 'l': {
+        case KEYBOARD_SHORTCUTS.TOGGLE_TRAILS: {
+          store.toggleTrails();
+          const next = useOrbitStore.getState().showTrails;
+          const msg = next ? 'Trails shown.' : 'Trails hidden.';
+          showToast({ message: msg });
+          announce(msg);
+          break;
+        }
+        case KEYBOARD_SHORTCUTS.TOGGLE_LABELS: {
           store.toggleLabels();
           const next = useOrbitStore.getState().showLabels;
           const msg = next ? 'Labels shown.' : 'Labels hidden.';
@@ -277,7 +381,7 @@ export default function HUD() {
           announce(msg);
           break;
         }
-        case 'c': {
+        case KEYBOARD_SHORTCUTS.CINEMATIC_MODE: {
           store.toggleCinematic();
           const next = useOrbitStore.getState().cinematicPlaying;
           const msg = next ? 'Cinematic mode on.' : 'Cinematic mode off.';
@@ -285,7 +389,15 @@ export default function HUD() {
           announce(msg);
           break;
         }
-        case 'm': {
+        case KEYBOARD_SHORTCUTS.SKY_VIEW: {
+          store.toggleSkyView();
+          const next = useOrbitStore.getState().cameraMode === 'sky';
+          const msg = next ? 'Sky view on.' : 'Sky view off.';
+          showToast({ message: msg });
+          announce(msg);
+          break;
+        }
+        case KEYBOARD_SHORTCUTS.MISSION_CONTROL: {
           event.preventDefault();
           setHelpOpen(false);
           setPaletteOpen(false);
@@ -293,48 +405,51 @@ export default function HUD() {
           else setMissionOpen(true);
           break;
         }
-        case 's': {
+        case KEYBOARD_SHORTCUTS.SNAPSHOT: {
           event.preventDefault();
           handleSnapshot();
           break;
         }
-        case 'arrowleft':
-        case 'arrowup': {
+        case KEYBOARD_SHORTCUTS.UPCOMING_EVENTS: {
+          event.preventDefault();
+          setHelpOpen(false);
+          setPaletteOpen(false);
+          setEventsOpen(true);
+          break;
+        }
+        case KEYBOARD_SHORTCUTS.ARROW_LEFT:
+        case KEYBOARD_SHORTCUTS.ARROW_UP: {
           event.preventDefault();
           const { selectedPlanet, setSelectedPlanet } = useOrbitStore.getState();
-          const currentIndex = selectedPlanet
-            ? PLANET_ORDER.indexOf(selectedPlanet as typeof PLANET_ORDER[number])
-            : -1;
-          const newIndex = currentIndex > 0 ? currentIndex - 1 : PLANET_ORDER.length - 1;
-          const newPlanet = PLANET_ORDER[newIndex];
+          const currentIndex = selectedPlanet ? BODY_NAVIGATION_ORDER.indexOf(selectedPlanet) : -1;
+          const newIndex = currentIndex > 0 ? currentIndex - 1 : BODY_NAVIGATION_ORDER.length - 1;
+          const newPlanet = BODY_NAVIGATION_ORDER[newIndex];
           setSelectedPlanet(newPlanet);
           announce(`Selected ${newPlanet}`);
           break;
         }
-        case 'arrowright':
-        case 'arrowdown': {
+        case KEYBOARD_SHORTCUTS.ARROW_RIGHT:
+        case KEYBOARD_SHORTCUTS.ARROW_DOWN: {
           event.preventDefault();
           const { selectedPlanet, setSelectedPlanet } = useOrbitStore.getState();
-          const currentIndex = selectedPlanet
-            ? PLANET_ORDER.indexOf(selectedPlanet as typeof PLANET_ORDER[number])
-            : -1;
-          const newIndex = currentIndex < PLANET_ORDER.length - 1 ? currentIndex + 1 : 0;
-          const newPlanet = PLANET_ORDER[newIndex];
+          const currentIndex = selectedPlanet ? BODY_NAVIGATION_ORDER.indexOf(selectedPlanet) : -1;
+          const newIndex = currentIndex < BODY_NAVIGATION_ORDER.length - 1 ? currentIndex + 1 : 0;
+          const newPlanet = BODY_NAVIGATION_ORDER[newIndex];
           setSelectedPlanet(newPlanet);
           announce(`Selected ${newPlanet}`);
           break;
         }
-        case 'home': {
+        case KEYBOARD_SHORTCUTS.HOME: {
           event.preventDefault();
           const { setSelectedPlanet } = useOrbitStore.getState();
-          setSelectedPlanet(PLANET_ORDER[0]);
-          announce(`Selected ${PLANET_ORDER[0]}`);
+          setSelectedPlanet(BODY_NAVIGATION_ORDER[0]);
+          announce(`Selected ${BODY_NAVIGATION_ORDER[0]}`);
           break;
         }
-        case 'end': {
+        case KEYBOARD_SHORTCUTS.END: {
           event.preventDefault();
           const { setSelectedPlanet } = useOrbitStore.getState();
-          const lastPlanet = PLANET_ORDER[PLANET_ORDER.length - 1];
+          const lastPlanet = BODY_NAVIGATION_ORDER[BODY_NAVIGATION_ORDER.length - 1];
           setSelectedPlanet(lastPlanet);
           announce(`Selected ${lastPlanet}`);
           break;
@@ -349,6 +464,7 @@ export default function HUD() {
   }, [
     closeWelcome,
     closeTutorial,
+    eventsOpen,
     handleSnapshot,
     helpOpen,
     menuOpen,
@@ -357,6 +473,7 @@ export default function HUD() {
     paletteOpen,
     showToast,
     startNewMission,
+    transferOpen,
     tutorialOpen,
     welcomeOpen,
   ]);
@@ -382,6 +499,12 @@ export default function HUD() {
           if (!mission) startNewMission();
           else setMissionOpen(true);
         }}
+        onOpenEvents={() => {
+          setHelpOpen(false);
+          setMenuOpen(false);
+          setPaletteOpen(false);
+          setEventsOpen(true);
+        }}
         onOpenMenu={() => {
           setHelpOpen(false);
           setPaletteOpen(false);
@@ -390,6 +513,27 @@ export default function HUD() {
       />
       <HUDTimePanel />
       <HUDPlanetPanel />
+      <HUDSmallBodyPanel />
+      <HUDSpacecraftPanel />
+
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".dat,.txt,text/plain"
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
+        onChange={handleImportFile}
+      />
+      <input
+        ref={trajectoryInputRef}
+        type="file"
+        accept=".txt,.csv,text/plain,text/csv"
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
+        onChange={handleImportTrajectory}
+      />
 
       {/* Lazy-loaded dialogs wrapped in Suspense */}
       <Suspense fallback={DialogFallback}>
@@ -409,6 +553,8 @@ export default function HUD() {
               if (!mission) startNewMission();
               else setMissionOpen(true);
             }}
+            onOpenEvents={() => setEventsOpen(true)}
+            onOpenTransfer={() => setTransferOpen(true)}
             onSnapshot={handleSnapshot}
             onShare={handleShare}
             onOpenTutorial={() => setTutorialOpen(true)}
@@ -436,7 +582,11 @@ export default function HUD() {
             open={paletteOpen}
             onClose={() => setPaletteOpen(false)}
             onOpenHelp={() => setHelpOpen(true)}
+            onOpenEvents={() => setEventsOpen(true)}
+            onOpenTransfer={() => setTransferOpen(true)}
             onSnapshot={handleSnapshot}
+            onImportSmallBodies={() => importInputRef.current?.click()}
+            onImportTrajectory={() => trajectoryInputRef.current?.click()}
           />
         )}
       </Suspense>
@@ -453,6 +603,26 @@ export default function HUD() {
         )}
       </Suspense>
 
+      <Suspense fallback={DialogFallback}>
+        {eventsOpen && (
+          <HUDEventsDialog
+            open={eventsOpen}
+            onClose={() => setEventsOpen(false)}
+            onJumpToEvent={handleJumpToEvent}
+          />
+        )}
+      </Suspense>
+
+      <Suspense fallback={DialogFallback}>
+        {transferOpen && (
+          <HUDTransferDialog
+            open={transferOpen}
+            onClose={() => setTransferOpen(false)}
+            onFlyTransfer={handleFlyTransfer}
+          />
+        )}
+      </Suspense>
+
       <HUDToast toast={toast} />
 
       {/* Accessible scene description for screen readers */}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useMemo, memo, useEffect } from 'react';
+import * as THREE from 'three';
+import { useOrbitStore } from '@/lib/store';
+import { getMoonOrbitEpochMs } from '@/lib/orbitPaths';
+import { useEphemeris } from '@/lib/useEphemeris';
+import { useSceneScale } from '@/lib/useSceneScale';
+import type { MoonName } from '@/lib/moons';
+import OrbitMarkers from './OrbitMarkers';
+
+/**
+ * Local orbit of a moon, drawn around its parent's current position.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Path is sampled relative to the parent, so following the planet only
+ *    moves the group - no resampling; scale modes only rescale the group
+ * 3. Store selector returns a quantized epoch (see getMoonOrbitEpochMs)
+ * 4. Paths are sampled in the ephemeris worker, not during render
+ * 5. Geometry disposed whenever the path is resampled and on unmount
+ */
+
+interface MoonOrbitProps {
+  moon: MoonName;
+  color: string;
+  parentPosition: [number, number, number];
+  selected?: boolean;
+}
+
+function MoonOrbit({ moon, color, parentPosition, selected = false }: MoonOrbitProps) {
+  const epochMs = useOrbitStore((s) => getMoonOrbitEpochMs(moon, s.currentDate));
+
+  const query = useMemo(() => ({ kind: 'moonOrbitPath' as const, body: moon, epochMs }), [moon, epochMs]);
+  const positions = useEphemeris(query);
+  const sceneScale = useSceneScale();
+  const position = useMemo(() => sceneScale.position(parentPosition), [sceneScale, parentPosition]);
+
+  const geometry = useMemo(() => {
+    if (!positions) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    return geometry;
+  }, [positions]);
+
+  const materialProps = useMemo(
+    () => ({
+      color,
+      transparent: true,
+      opacity: 0.35,
+      depthWrite: false,
+    }),
+    [color]
+  );
+
+  useEffect(() => {
+    return () => {
+      geometry?.dispose();
+    };
+  }, [geometry]);
+
+  return (
+    <group position={position} scale={sceneScale.moonOffsetScale(moon)}>
+      {geometry && (
+        <lineLoop frustumCulled={false} geometry={geometry}>
+          <lineBasicMaterial {...materialProps} />
+        </lineLoop>
+      )}
+      <OrbitMarkers body={moon} labelled={selected} />
+    </group>
+  );
+}
+
+function arePropsEqual(prev: MoonOrbitProps, next: MoonOrbitProps): boolean {
+  return (
+    prev.moon === next.moon &&
+    prev.color === next.color &&
+    prev.selected === next.selected &&
+    prev.parentPosition[0] === next.parentPosition[0] &&
+    prev.parentPosition[1] === next.parentPosition[1] &&
+    prev.parentPosition[2] === next.parentPosition[2]
+  );
+}
+
+export default memo(MoonOrbit, arePropsEqual);
@@ -1,53 +1,50 @@
 'use client';
 
-import { useMemo, memo, useEffect, useRef } from 'react';
+import { useMemo, memo, useEffect } from 'react';
 import * as THREE from 'three';
-import * as Astronomy from 'astronomy-engine';
+import { useOrbitStore } from '@/lib/store';
+import { getOrbitEpochMs } from '@/lib/orbitPaths';
+import { useEphemeris } from '@/lib/useEphemeris';
+import { useSceneScale } from '@/lib/useSceneScale';
+import type { HeliocentricBodyName } from '@/lib/bodies';
+import OrbitMarkers from './OrbitMarkers';
 
 /**
  * PERFORMANCE OPTIMIZATIONS:
  * 1. React.memo prevents re-renders when parent updates
  * 2. Use LineLoop instead of TubeGeometry (massive reduction in vertices)
  *    - TubeGeometry: 256 segments * 6 radial = 1536+ vertices per orbit
- *    - LineLoop: 120 vertices per orbit (92% reduction)
- * 3. Reduced orbit calculation steps (240 -> 120)
- * 4. Proper geometry disposal on unmount
- * 5. BufferGeometry with Float32Array for better memory layout
- * 6. Pre-computed scale constant
+ *    - LineLoop: 120-360 vertices per orbit depending on eccentricity
+ * 3. Store selector returns a quantized epoch, so playback only resamples
+ *    the path after a full period (or a decade) of sim time
+ * 4. Paths are sampled in the ephemeris worker, not during render
+ * 5. Geometry disposed whenever the path is resampled and on unmount
+ * 6. BufferGeometry with Float32Array for better memory layout
+ * 7. Apsis and node markers share the orbit's epoch (see OrbitMarkers)
+ * 8. Scale modes remap the sampled path; only linear and true scale reuse it as is
  */
 
 interface OrbitProps {
-  planet: string;
+  planet: HeliocentricBodyName;
   color: string;
+  selected?: boolean;
 }
 
-const SCALE = 10; // 1 AU = 10 units
-const ORBIT_STEPS = 120; // Reduced from 240, still smooth visually
+function Orbit({ planet: body, color, selected = false }: OrbitProps) {
+  // Only changes when the sim date drifts far enough for the orbit to need resampling
+  const epochMs = useOrbitStore((s) => getOrbitEpochMs(body, s.currentDate));
 
-function Orbit({ planet, color }: OrbitProps) {
-  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  // Sample one full sidereal period around the epoch
+  const query = useMemo(() => ({ kind: 'orbitPath' as const, body, epochMs }), [body, epochMs]);
+  const positions = useEphemeris(query);
+  const sceneScale = useSceneScale();
 
-  // Compute orbit path positions as Float32Array
-  const positions = useMemo(() => {
-    const positions = new Float32Array((ORBIT_STEPS + 1) * 3);
-    const baseDate = new Date();
-    const daysPerStep = 365 / ORBIT_STEPS;
-
-    for (let i = 0; i <= ORBIT_STEPS; i++) {
-      const date = new Date(baseDate);
-      date.setDate(date.getDate() + i * daysPerStep);
-
-      const body = planet as Astronomy.Body;
-      const vector = Astronomy.HelioVector(body, date);
-
-      const i3 = i * 3;
-      positions[i3] = vector.x * SCALE;
-      positions[i3 + 1] = vector.z * SCALE; // Y-up in Three.js
-      positions[i3 + 2] = -vector.y * SCALE;
-    }
-
-    return positions;
-  }, [planet]);
+  const geometry = useMemo(() => {
+    if (!positions) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(sceneScale.path(positions), 3));
+    return geometry;
+  }, [positions, sceneScale]);
 
   // Memoize material properties
   const materialProps = useMemo(
@@ -61,34 +58,28 @@ function Orbit({ planet, color }: OrbitProps) {
     [color]
   );
 
-  // Cleanup geometry on unmount
+  // Dispose the previous geometry when resampled, and on unmount
   useEffect(() => {
-    const geometry = geometryRef.current;
     return () => {
-      if (geometry) {
-        geometry.dispose();
-      }
+      geometry?.dispose();
     };
-  }, []);
+  }, [geometry]);
 
   return (
-    <lineLoop frustumCulled={false}>
-      <bufferGeometry ref={geometryRef}>
-        <bufferAttribute
-          attach="attributes-position"
-          count={ORBIT_STEPS + 1}
-          array={positions}
-          itemSize={3}
-        />
-      </bufferGeometry>
-      <lineBasicMaterial {...materialProps} />
-    </lineLoop>
+    <>
+      {geometry && (
+        <lineLoop frustumCulled={false} geometry={geometry}>
+          <lineBasicMaterial {...materialProps} />
+        </lineLoop>
+      )}
+      <OrbitMarkers body={body} labelled={selected} />
+    </>
   );
 }
 
-// Custom comparison - only re-render if planet or color changes
+// Custom comparison - only re-render if planet, color or selection changes
 function arePropsEqual(prev: OrbitProps, next: OrbitProps): boolean {
-  return prev.planet === next.planet && prev.color === next.color;
+  return prev.planet === next.planet && prev.color === next.color && prev.selected === next.selected;
 }
 
 export default memo(Orbit, arePropsEqual);
@@ -0,0 +1,99 @@
+'use client';
+
+import { useMemo, memo, useEffect } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { useOrbitStore } from '@/lib/store';
+import { computeOrbitMarkers, getOrbitMarkerEpochMs, type OrbitMarkerKind } from '@/lib/orbitPaths';
+import { isHeliocentricBody, type BodyName } from '@/lib/bodies';
+import { useSceneScale } from '@/lib/useSceneScale';
+
+/**
+ * Periapsis, apoapsis and node markers on a body's orbit line. Rendered
+ * inside the orbit's own frame (the Sun, or the parent for moons). Moon
+ * orbits scale as a whole, so only heliocentric markers are remapped.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Markers are recomputed on the orbit line's quantized epoch only
+ * 3. All markers share one Points draw call with per-vertex colors
+ * 4. Labels (DOM overlays) only for the selected body
+ * 5. Geometry disposed whenever it is rebuilt and on unmount
+ */
+
+const MARKER_COLORS: Record<OrbitMarkerKind, string> = {
+  periapsis: '#fbbf24',
+  apoapsis: '#60a5fa',
+  'ascending-node': '#4ade80',
+  'descending-node': '#f472b6',
+};
+
+interface OrbitMarkersProps {
+  body: BodyName;
+  labelled: boolean;
+}
+
+function OrbitMarkers({ body, labelled }: OrbitMarkersProps) {
+  const epochMs = useOrbitStore((s) => getOrbitMarkerEpochMs(body, s.currentDate));
+  const showLabels = useOrbitStore((s) => s.showLabels);
+
+  const sceneScale = useSceneScale();
+
+  const markers = useMemo(() => {
+    const computed = computeOrbitMarkers(body, new Date(epochMs));
+    if (!isHeliocentricBody(body)) return computed;
+    return computed.map((marker) => ({ ...marker, position: sceneScale.position(marker.position) }));
+  }, [body, epochMs, sceneScale]);
+
+  const geometry = useMemo(() => {
+    const positions = new Float32Array(markers.length * 3);
+    const colors = new Float32Array(markers.length * 3);
+    const color = new THREE.Color();
+
+    markers.forEach((marker, i) => {
+      positions.set(marker.position, i * 3);
+      color.set(MARKER_COLORS[marker.kind]).toArray(colors, i * 3);
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    return geometry;
+  }, [markers]);
+
+  useEffect(() => {
+    return () => {
+      geometry.dispose();
+    };
+  }, [geometry]);
+
+  return (
+    <group>
+      <points geometry={geometry} frustumCulled={false} raycast={() => null}>
+        <pointsMaterial
+          vertexColors
+          size={labelled ? 7 : 4}
+          sizeAttenuation={false}
+          transparent
+          opacity={labelled ? 1 : 0.6}
+          depthWrite={false}
+        />
+      </points>
+
+      {labelled &&
+        showLabels &&
+        markers.map((marker) => (
+          <Html key={marker.kind} position={marker.position} center style={{ pointerEvents: 'none' }}>
+            <div
+              className="mt-5 font-mono text-[10px] whitespace-nowrap select-none"
+              style={{ color: MARKER_COLORS[marker.kind] }}
+            >
+              {marker.label}
+            </div>
+          </Html>
+        ))}
+    </group>
+  );
+}
+
+export default memo(OrbitMarkers);
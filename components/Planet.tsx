@@ -6,6 +6,8 @@ import { Html } from '@react-three/drei';
 import * as THREE from 'three';
 import { useOrbitStore, PlanetData } from '@/lib/store';
 import { useShallow } from 'zustand/react/shallow';
+import { getSystemName } from '@/lib/moons';
+import { useSceneScale } from '@/lib/useSceneScale';
 
 /**
  * PERFORMANCE OPTIMIZATIONS:
@@ -16,6 +18,7 @@ import { useShallow } from 'zustand/react/shallow';
  * 5. Conditional rendering of Html component (expensive DOM overlay)
  * 6. Reduced sphere segments for smaller planets (LOD concept)
  * 7. Proper disposal of geometries on unmount
+ * 8. Scale mode mapping applied per position update, not per frame
  */
 
 interface PlanetProps {
@@ -35,16 +38,31 @@ function Planet({ data }: PlanetProps) {
   const [hovered, setHovered] = useState(false);
 
   // Optimized store selector - only subscribe to needed values
-  const { selectedPlanet, setSelectedPlanet, showLabels } = useOrbitStore(
+  const { selectedPlanet, setSelectedPlanet, showLabels, cameraMode } = useOrbitStore(
     useShallow((s) => ({
       selectedPlanet: s.selectedPlanet,
+      cameraMode: s.cameraMode,
       setSelectedPlanet: s.setSelectedPlanet,
       showLabels: s.showLabels,
     }))
   );
 
+  // Moons are placed around their parent, so the scale needs its position too
+  const parentPosition = useOrbitStore((s) => (data.parent ? s.planets.get(data.parent)?.position : undefined));
+  const sceneScale = useSceneScale();
+
   const isSelected = selectedPlanet === data.name;
-  const scale = data.radius * 0.5;
+  const scale = sceneScale.bodyRadius(data.radius);
+  const position = useMemo(
+    () => sceneScale.body(data.name, data.position, parentPosition),
+    [sceneScale, data.name, data.position, parentPosition]
+  );
+
+  // Moon labels would crowd their parent's, so only show them while that system is focused
+  // and the sky view stands on Earth, so its own label would sit in front of the camera
+  const labelAllowed =
+    (!data.parent || (selectedPlanet !== null && getSystemName(selectedPlanet) === data.parent)) &&
+    !(cameraMode === 'sky' && data.name === 'Earth');
 
   // Memoize whether this is a gas giant
   const isGasGiant = useMemo(() => GAS_GIANTS.has(data.name), [data.name]);
@@ -114,7 +132,7 @@ function Planet({ data }: PlanetProps) {
   );
 
   return (
-    <group position={data.position}>
+    <group position={position}>
       {/* Main planet mesh */}
       <mesh
         ref={meshRef}
@@ -140,9 +158,9 @@ function Planet({ data }: PlanetProps) {
       )}
 
       {/* Label - Html is expensive, only render when needed */}
-      {(showLabels || hovered) && (
+      {((showLabels && labelAllowed) || hovered) && (
         <Html
-          distanceFactor={20}
+          distanceFactor={sceneScale.labelDistanceFactor}
           position={labelPosition}
           style={{ pointerEvents: 'none' }}
           occlude={false}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useMemo, memo, useEffect } from 'react';
+import * as THREE from 'three';
+import { useOrbitStore } from '@/lib/store';
+import { getRelativePathEpochMs, type ReferenceFrame } from '@/lib/referenceFrames';
+import type { ScaleMode } from '@/lib/scaleModes';
+import { useEphemeris } from '@/lib/useEphemeris';
+
+/**
+ * A body's path as seen from the frame center, replacing its heliocentric
+ * orbit in body-centered frames. Drawn in frame coordinates, so it sits
+ * outside the scene's frame offset. Keyed by frame in the scene, so a new
+ * center never shows the old center's path while resampling.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Store selector returns a quantized epoch, so playback only resamples
+ *    the path once a year of sim time
+ * 3. Paths are sampled in the ephemeris worker, not during render
+ * 4. Line is built once per path and excluded from raycasting
+ * 5. Geometry and material disposed whenever the path is resampled and on unmount
+ */
+
+interface RelativeOrbitProps {
+  body: ReferenceFrame;
+  center: ReferenceFrame;
+  color: string;
+  scaleMode: ScaleMode;
+}
+
+function RelativeOrbit({ body, center, color, scaleMode }: RelativeOrbitProps) {
+  const epochMs = useOrbitStore((s) => getRelativePathEpochMs(s.currentDate));
+
+  const query = useMemo(
+    () => ({ kind: 'relativeOrbitPath' as const, body, center, epochMs, scaleMode }),
+    [body, center, epochMs, scaleMode]
+  );
+  const positions = useEphemeris(query);
+
+  const line = useMemo(() => {
+    if (!positions) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const path = new THREE.Line(
+      geometry,
+      new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.4, depthWrite: false })
+    );
+    path.frustumCulled = false;
+    path.raycast = () => {};
+    return path;
+  }, [positions, color]);
+
+  useEffect(() => {
+    return () => {
+      if (!line) return;
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+    };
+  }, [line]);
+
+  return line ? <primitive object={line} /> : null;
+}
+
+export default memo(RelativeOrbit);
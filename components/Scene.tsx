@@ -8,10 +8,24 @@ import StarField from './StarField';
 import Sun from './Sun';
 import Planet from './Planet';
 import Orbit from './Orbit';
+import RelativeOrbit from './RelativeOrbit';
+import MoonOrbit from './MoonOrbit';
+import SmallBodies from './SmallBodies';
+import CometTails from './CometTails';
+import SpacecraftLayer from './Spacecraft';
+import TransferArc from './TransferArc';
+import Trails from './Trails';
+import SkyHorizon from './SkyHorizon';
+import EclipseShadows from './EclipseShadows';
 import CameraController from './CameraController';
-import { useOrbitStore } from '@/lib/store';
+import { useOrbitStore, type PlanetData, type RenderQuality } from '@/lib/store';
 import { useShallow } from 'zustand/react/shallow';
 import { useDevice } from '@/lib/DeviceContext';
+import { getMoonsOf, getSystemName } from '@/lib/moons';
+import { isHeliocentricBody, type HeliocentricBodyName } from '@/lib/bodies';
+import { getFrameOrigin } from '@/lib/referenceFrames';
+import { SCALE_TRANSITION_MS } from '@/lib/scaleModes';
+import { useSceneScale } from '@/lib/useSceneScale';
 
 /**
  * PERFORMANCE OPTIMIZATIONS:
@@ -25,13 +39,18 @@ import { useDevice } from '@/lib/DeviceContext';
  * 8. Memoized Canvas gl config
  * 9. Mobile-adaptive settings via DeviceContext
  * 10. Touch-optimized OrbitControls for mobile devices
+ * 11. Comet particle counts follow the effective quality tier
+ * 12. Reference frames move one group instead of every body
+ * 13. Scale transitions step at most every SCALE_TICK_MS, not every frame
  */
 
 const SIM_TICK_MS = 100;
+const SCALE_TICK_MS = 33;
 const MS_PER_DAY = 86_400_000;
 
 // Inner scene content component that uses device context
 interface SceneContentProps {
+  quality: RenderQuality;
   starCount: number;
   bloomEnabled: boolean;
   bloomIntensity: number;
@@ -40,6 +59,7 @@ interface SceneContentProps {
 }
 
 const SceneContent = memo(function SceneContent({
+  quality,
   starCount,
   bloomEnabled,
   bloomIntensity,
@@ -48,25 +68,40 @@ const SceneContent = memo(function SceneContent({
 }: SceneContentProps) {
   const {
     planets,
+    selectedPlanet,
     showOrbits,
+    showTrails,
+    referenceFrame,
+    scaleMode,
     cinematicPlaying,
+    cameraMode,
     timeSpeed,
     setCurrentDate,
+    setTimeSpeed,
     setSelectedPlanet,
+    setScaleTransitionProgress,
     updatePlanetPositions,
   } = useOrbitStore(
     useShallow((s) => ({
       planets: s.planets,
+      selectedPlanet: s.selectedPlanet,
       showOrbits: s.showOrbits,
+      showTrails: s.showTrails,
+      referenceFrame: s.referenceFrame,
+      scaleMode: s.scaleMode,
       cinematicPlaying: s.cinematicPlaying,
+      cameraMode: s.cameraMode,
       timeSpeed: s.timeSpeed,
       setCurrentDate: s.setCurrentDate,
+      setTimeSpeed: s.setTimeSpeed,
       setSelectedPlanet: s.setSelectedPlanet,
+      setScaleTransitionProgress: s.setScaleTransitionProgress,
       updatePlanetPositions: s.updatePlanetPositions,
     }))
   );
 
   const tickRemainderMsRef = useRef(0);
+  const sceneScale = useSceneScale();
 
   // Initial position calculation
   useEffect(() => {
@@ -94,11 +129,18 @@ const SceneContent = memo(function SceneContent({
         const ticks = Math.floor(tickRemainderMsRef.current / SIM_TICK_MS);
         tickRemainderMsRef.current -= ticks * SIM_TICK_MS;
 
+        // timeSpeed is signed, so negative speeds step the clock backwards
         const deltaSeconds = (ticks * SIM_TICK_MS) / 1000;
         const baseDate = useOrbitStore.getState().currentDate;
         const nextDate = new Date(baseDate.getTime() + deltaSeconds * timeSpeed * MS_PER_DAY);
         setCurrentDate(nextDate);
-        updatePlanetPositions();
+
+        // Date was rejected at the edge of the supported range - stop instead of retrying every tick
+        if (useOrbitStore.getState().currentDate === baseDate) {
+          setTimeSpeed(0);
+        } else {
+          updatePlanetPositions();
+        }
       }
 
       rafId = requestAnimationFrame(loop);
@@ -106,12 +148,62 @@ const SceneContent = memo(function SceneContent({
 
     rafId = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(rafId);
-  }, [setCurrentDate, timeSpeed, updatePlanetPositions]);
+  }, [setCurrentDate, setTimeSpeed, timeSpeed, updatePlanetPositions]);
+
+  // Blend into a new scale mode; reduced motion switches at once
+  useEffect(() => {
+    if (useOrbitStore.getState().scaleTransition.progress >= 1) return;
+    if (window.matchMedia?.('(prefers-reduced-motion: reduce)')?.matches) {
+      setScaleTransitionProgress(1);
+      return;
+    }
+
+    let rafId = 0;
+    const startMs = performance.now();
+    let lastStepMs = startMs;
+
+    const loop = (nowMs: number) => {
+      const progress = (nowMs - startMs) / SCALE_TRANSITION_MS;
+      if (progress >= 1) {
+        setScaleTransitionProgress(1);
+        return;
+      }
+      if (nowMs - lastStepMs >= SCALE_TICK_MS) {
+        lastStepMs = nowMs;
+        setScaleTransitionProgress(progress);
+      }
+      rafId = requestAnimationFrame(loop);
+    };
 
-  // Memoize planet array to prevent recreation
-  const planetEntries = useMemo(() => Array.from(planets.entries()), [planets]);
+    rafId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(rafId);
+  }, [scaleMode, setScaleTransitionProgress]);
+
+  // Memoize heliocentric body array to prevent recreation
+  const planetEntries = useMemo(
+    () =>
+      Array.from(planets.entries()).filter(
+        (entry): entry is [HeliocentricBodyName, PlanetData] => isHeliocentricBody(entry[0])
+      ),
+    [planets]
+  );
   const planetValues = useMemo(() => Array.from(planets.values()), [planets]);
 
+  // Heliocentric content shifts so the frame center sits at the origin
+  const frameOffset = useMemo((): [number, number, number] => {
+    const [x, y, z] = sceneScale.position(getFrameOrigin(referenceFrame, planets));
+    return [-x, -y, -z];
+  }, [referenceFrame, planets, sceneScale]);
+
+  // Moon orbits only show while their planetary system is focused
+  const focusedSystem = selectedPlanet ? getSystemName(selectedPlanet) : null;
+  const focusedSystemMoons = useMemo(
+    () => (focusedSystem ? getMoonsOf(focusedSystem) : []),
+    [focusedSystem]
+  );
+  const focusedSystemPosition = focusedSystem ? planets.get(focusedSystem)?.position : undefined;
+  const { minDistance, maxDistance } = sceneScale.cameraLimits;
+
   // Stable click handler - unused but kept for future use
   const _handlePointerMissed = useCallback(
     (event: MouseEvent) => {
@@ -133,22 +225,86 @@ const SceneContent = memo(function SceneContent({
       <color attach="background" args={['#000000']} />
 
       <StarField count={starCount} />
-      <Sun />
 
-      {/* Orbits - only render when visible */}
-      {showOrbits &&
-        planetEntries.map(([planetName, planetData]) => (
-          <Orbit key={`orbit-${planetName}`} planet={planetName} color={planetData.color} />
+      {/* Body-centered frames draw each orbit as the path seen from the center.
+          Paths are sampled per scale mode, so they sit out scale transitions. */}
+      {showOrbits && referenceFrame !== 'Sun' && !sceneScale.transitioning && (
+        <>
+          <RelativeOrbit
+            key={`path-${referenceFrame}-Sun`}
+            body="Sun"
+            center={referenceFrame}
+            color="#fbbf24"
+            scaleMode={scaleMode}
+          />
+          {planetEntries
+            .filter(([planetName]) => planetName !== referenceFrame)
+            .map(([planetName, planetData]) => (
+              <RelativeOrbit
+                key={`path-${referenceFrame}-${planetName}`}
+                body={planetName}
+                center={referenceFrame}
+                color={planetData.color}
+                scaleMode={scaleMode}
+              />
+            ))}
+        </>
+      )}
+
+      {/* Trails are recorded in frame coordinates */}
+      {showTrails && <Trails />}
+
+      <group position={frameOffset}>
+        <Sun />
+
+        {/* Orbits - only render when visible */}
+        {showOrbits &&
+          referenceFrame === 'Sun' &&
+          planetEntries.map(([planetName, planetData]) => (
+            <Orbit
+              key={`orbit-${planetName}`}
+              planet={planetName}
+              color={planetData.color}
+              selected={planetName === selectedPlanet}
+            />
+          ))}
+
+        {showOrbits &&
+          focusedSystemPosition &&
+          focusedSystemMoons.map((moon) => (
+            <MoonOrbit
+              key={`orbit-${moon}`}
+              moon={moon}
+              color={planets.get(moon)?.color ?? '#ffffff'}
+              parentPosition={focusedSystemPosition}
+              selected={moon === selectedPlanet}
+            />
+          ))}
+
+        {/* Planets */}
+        {planetValues.map((planetData) => (
+          <Planet key={planetData.name} data={planetData} />
         ))}
 
-      {/* Planets */}
-      {planetValues.map((planetData) => (
-        <Planet key={planetData.name} data={planetData} />
-      ))}
+        {/* Asteroids and comets - one draw call for all of them */}
+        <SmallBodies />
+        <CometTails quality={quality} />
+
+        {/* Spacecraft trajectories from bundled or imported vector tables */}
+        <SpacecraftLayer />
+
+        {/* Transfer picked on the porkchop plot */}
+        <TransferArc />
+
+        {/* Shadow cones would surround the sky view camera on Earth */}
+        {cameraMode !== 'sky' && <EclipseShadows />}
+
+        {cameraMode === 'sky' && <SkyHorizon />}
+      </group>
 
       <CameraController />
       <OrbitControls
-        enabled={!cinematicPlaying}
+        enabled={!cinematicPlaying && cameraMode !== 'sky'}
         enablePan
         enableZoom
         enableRotate
@@ -157,8 +313,8 @@ const SceneContent = memo(function SceneContent({
         rotateSpeed={rotateSpeed}
         zoomSpeed={zoomSpeed}
         panSpeed={panSpeed}
-        minDistance={10}
-        maxDistance={500}
+        minDistance={minDistance}
+        maxDistance={maxDistance}
         // Touch-specific settings - use TOUCH enum values
         touches={{
           ONE: 1, // TOUCH.ROTATE
@@ -242,7 +398,7 @@ export default function Scene() {
 
   return (
     <Canvas
-      camera={{ position: [0, 80, 100], fov: 60 }}
+      camera={{ position: [0, 80, 100], fov: 60, far: 4000 }}
       gl={glConfig}
       dpr={qualitySettings.dpr}
       frameloop="always"
@@ -252,6 +408,7 @@ export default function Scene() {
       style={{ touchAction: 'none' }}
     >
       <SceneContent
+        quality={qualitySettings.effectiveQuality}
         starCount={qualitySettings.starCount}
         bloomEnabled={qualitySettings.bloomEnabled}
         bloomIntensity={qualitySettings.bloomIntensity}
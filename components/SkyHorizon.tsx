@@ -0,0 +1,107 @@
+'use client';
+
+import { useMemo, memo, useEffect } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { useOrbitStore } from '@/lib/store';
+import { useShallow } from 'zustand/react/shallow';
+import { computeHorizonFrame, SKY_VIEW_EYE_HEIGHT } from '@/lib/observer';
+import { useSceneScale } from '@/lib/useSceneScale';
+
+/**
+ * Horizon ring and compass labels for the sky view camera mode.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Only mounted while the sky view is active
+ * 3. Horizon frame recomputed per sim tick, geometry reused across ticks
+ * 4. Geometry disposed on unmount
+ * 5. Scale modes resize the whole group with the Earth sphere
+ */
+
+const HORIZON_RADIUS = 6;
+const HORIZON_SEGMENTS = 96;
+
+const CARDINALS = [
+  { label: 'N', north: 1, east: 0 },
+  { label: 'E', north: 0, east: 1 },
+  { label: 'S', north: -1, east: 0 },
+  { label: 'W', north: 0, east: -1 },
+] as const;
+
+function SkyHorizon() {
+  const { earthPosition, observer, currentDate } = useOrbitStore(
+    useShallow((s) => ({
+      earthPosition: s.planets.get('Earth')?.position,
+      observer: s.observer,
+      currentDate: s.currentDate,
+    }))
+  );
+
+  const frame = useMemo(() => computeHorizonFrame(observer, currentDate), [observer, currentDate]);
+  const sceneScale = useSceneScale();
+  const earthScale = sceneScale.bodySizeRatio(1);
+
+  // Unit circle in the XY plane, oriented onto the horizon by the group basis
+  const geometry = useMemo(() => {
+    const positions = new Float32Array(HORIZON_SEGMENTS * 3);
+    for (let i = 0; i < HORIZON_SEGMENTS; i++) {
+      const angle = (2 * Math.PI * i) / HORIZON_SEGMENTS;
+      positions[i * 3] = Math.cos(angle) * HORIZON_RADIUS;
+      positions[i * 3 + 1] = Math.sin(angle) * HORIZON_RADIUS;
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    return geometry;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      geometry.dispose();
+    };
+  }, [geometry]);
+
+  // Horizon basis (right-handed): x = east, y = north, z = zenith
+  const quaternion = useMemo(() => {
+    const basis = new THREE.Matrix4().makeBasis(
+      new THREE.Vector3(...frame.east),
+      new THREE.Vector3(...frame.north),
+      new THREE.Vector3(...frame.zenith)
+    );
+    return new THREE.Quaternion().setFromRotationMatrix(basis);
+  }, [frame]);
+
+  const eyePosition = useMemo(() => {
+    if (!earthPosition) return null;
+    const [x, y, z] = sceneScale.position(earthPosition);
+    const height = SKY_VIEW_EYE_HEIGHT * earthScale;
+    return [
+      x + frame.zenith[0] * height,
+      y + frame.zenith[1] * height,
+      z + frame.zenith[2] * height,
+    ] as [number, number, number];
+  }, [earthPosition, frame, sceneScale, earthScale]);
+
+  if (!eyePosition) return null;
+
+  return (
+    <group position={eyePosition} quaternion={quaternion} scale={earthScale}>
+      <lineLoop geometry={geometry} frustumCulled={false}>
+        <lineBasicMaterial color="#22d3ee" transparent opacity={0.35} depthWrite={false} />
+      </lineLoop>
+
+      {CARDINALS.map(({ label, north, east }) => (
+        <Html
+          key={label}
+          position={[east * HORIZON_RADIUS, north * HORIZON_RADIUS, 0.15]}
+          center
+          style={{ pointerEvents: 'none' }}
+        >
+          <div className="font-mono text-xs font-semibold text-cyan-200/80 select-none">{label}</div>
+        </Html>
+      ))}
+    </group>
+  );
+}
+
+export default memo(SkyHorizon);
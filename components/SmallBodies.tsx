@@ -0,0 +1,238 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, memo, useState } from 'react';
+import { Html } from '@react-three/drei';
+import type { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useShallow } from 'zustand/react/shallow';
+import { useOrbitStore } from '@/lib/store';
+import { useSceneScale } from '@/lib/useSceneScale';
+import {
+  computeSmallBodyOrbitPath,
+  isClosedOrbit,
+  type SmallBody,
+  type SmallBodyKind,
+} from '@/lib/smallBodies';
+
+/**
+ * Asteroids and comets as one cloud of points, with optional orbit lines.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Every body shares one Points draw call; the position buffer is
+ *    rewritten in place each tick instead of rebuilding geometry
+ * 3. Geometry is only rebuilt when the set of bodies changes
+ * 4. All orbit lines are merged into one LineSegments draw call, capped at
+ *    MAX_ORBIT_LINES bodies; two-body orbits never need resampling
+ * 5. Only the selected body gets a DOM label and its own orbit line
+ * 6. Geometry disposed whenever it is rebuilt and on unmount
+ * 7. Orbit segments are sampled once per set of bodies; scale modes only remap them
+ */
+
+/** Most bodies drawn with an orbit line when small-body orbits are on */
+const MAX_ORBIT_LINES = 500;
+
+const KIND_COLORS: Record<SmallBodyKind, string> = {
+  asteroid: '#b8a98f',
+  comet: '#7dd3fc',
+};
+
+const SELECTED_COLOR = '#00ffff';
+
+/**
+ * Line segments tracing each body's orbit, merged into one buffer
+ */
+function buildOrbitSegments(bodies: readonly SmallBody[]): Float32Array {
+  const paths = bodies.map((body) => ({ path: computeSmallBodyOrbitPath(body), closed: isClosedOrbit(body) }));
+  const segmentCount = paths.reduce((sum, { path, closed }) => sum + path.length / 3 - (closed ? 0 : 1), 0);
+  const segments = new Float32Array(segmentCount * 6);
+
+  let offset = 0;
+  for (const { path, closed } of paths) {
+    const points = path.length / 3;
+    const count = closed ? points : points - 1;
+    for (let i = 0; i < count; i++) {
+      const next = (i + 1) % points;
+      segments.set(path.subarray(i * 3, i * 3 + 3), offset);
+      segments.set(path.subarray(next * 3, next * 3 + 3), offset + 3);
+      offset += 6;
+    }
+  }
+
+  return segments;
+}
+
+function SmallBodies() {
+  const {
+    smallBodies,
+    smallBodyPositions,
+    selectedSmallBody,
+    showOrbits,
+    showSmallBodyOrbits,
+    showLabels,
+    setSelectedSmallBody,
+  } = useOrbitStore(
+    useShallow((s) => ({
+      smallBodies: s.smallBodies,
+      smallBodyPositions: s.smallBodyPositions,
+      selectedSmallBody: s.selectedSmallBody,
+      showOrbits: s.showOrbits,
+      showSmallBodyOrbits: s.showSmallBodyOrbits,
+      showLabels: s.showLabels,
+      setSelectedSmallBody: s.setSelectedSmallBody,
+    }))
+  );
+  const [hovered, setHovered] = useState<number | null>(null);
+  const sceneScale = useSceneScale();
+
+  const positions = useMemo(() => sceneScale.path(smallBodyPositions), [sceneScale, smallBodyPositions]);
+
+  // Positions may lag one tick behind an import; draw only bodies that have one
+  const count = Math.min(smallBodies.length, positions.length / 3);
+
+  const pointsGeometry = useMemo(() => {
+    const colors = new Float32Array(smallBodies.length * 3);
+    const color = new THREE.Color();
+    smallBodies.forEach((body, i) => color.set(KIND_COLORS[body.kind]).toArray(colors, i * 3));
+
+    const geometry = new THREE.BufferGeometry();
+    const position = new THREE.BufferAttribute(new Float32Array(smallBodies.length * 3), 3);
+    position.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('position', position);
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    geometry.setDrawRange(0, 0);
+    return geometry;
+  }, [smallBodies]);
+
+  // Write the latest positions into the existing buffer
+  useEffect(() => {
+    const position = pointsGeometry.getAttribute('position') as THREE.BufferAttribute;
+    (position.array as Float32Array).set(positions.subarray(0, count * 3));
+    position.needsUpdate = true;
+    pointsGeometry.setDrawRange(0, count);
+    pointsGeometry.computeBoundingSphere();
+  }, [pointsGeometry, positions, count]);
+
+  const selectedIndex = useMemo(
+    () => (selectedSmallBody ? smallBodies.findIndex((body) => body.id === selectedSmallBody) : -1),
+    [smallBodies, selectedSmallBody]
+  );
+  const selectedBody = selectedIndex >= 0 ? smallBodies[selectedIndex] : null;
+
+  const orbitSegments = useMemo(
+    () => (showOrbits && showSmallBodyOrbits ? buildOrbitSegments(smallBodies.slice(0, MAX_ORBIT_LINES)) : null),
+    [smallBodies, showOrbits, showSmallBodyOrbits]
+  );
+
+  // The selected body's orbit shows even when the others are hidden
+  const selectedOrbitSegments = useMemo(
+    () => (selectedBody ? buildOrbitSegments([selectedBody]) : null),
+    [selectedBody]
+  );
+
+  const orbitsGeometry = useMemo(() => {
+    if (!orbitSegments) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(sceneScale.path(orbitSegments), 3));
+    return geometry;
+  }, [orbitSegments, sceneScale]);
+
+  const selectedOrbitGeometry = useMemo(() => {
+    if (!selectedOrbitSegments) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(sceneScale.path(selectedOrbitSegments), 3));
+    return geometry;
+  }, [selectedOrbitSegments, sceneScale]);
+
+  useEffect(() => {
+    return () => {
+      pointsGeometry.dispose();
+    };
+  }, [pointsGeometry]);
+
+  useEffect(() => {
+    return () => {
+      orbitsGeometry?.dispose();
+    };
+  }, [orbitsGeometry]);
+
+  useEffect(() => {
+    return () => {
+      selectedOrbitGeometry?.dispose();
+    };
+  }, [selectedOrbitGeometry]);
+
+  const handleClick = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      if (e.index === undefined || e.index >= count) return;
+      e.stopPropagation();
+      const id = smallBodies[e.index].id;
+      setSelectedSmallBody(id === selectedSmallBody ? null : id);
+    },
+    [count, smallBodies, selectedSmallBody, setSelectedSmallBody]
+  );
+
+  const handlePointerOver = useCallback((e: ThreeEvent<PointerEvent>) => {
+    if (e.index === undefined) return;
+    e.stopPropagation();
+    setHovered(e.index);
+    document.body.style.cursor = 'pointer';
+  }, []);
+
+  const handlePointerOut = useCallback(() => {
+    setHovered(null);
+    document.body.style.cursor = 'auto';
+  }, []);
+
+  const labelIndex = hovered !== null && hovered < count ? hovered : selectedIndex < count ? selectedIndex : -1;
+  const labelled = labelIndex >= 0 && (showLabels || labelIndex === hovered);
+  const labelPosition = labelled
+    ? (Array.from(positions.subarray(labelIndex * 3, labelIndex * 3 + 3)) as [number, number, number])
+    : null;
+
+  return (
+    <group>
+      <points
+        geometry={pointsGeometry}
+        frustumCulled={false}
+        onClick={handleClick}
+        onPointerOver={handlePointerOver}
+        onPointerOut={handlePointerOut}
+      >
+        <pointsMaterial vertexColors size={3} sizeAttenuation={false} transparent opacity={0.9} depthWrite={false} />
+      </points>
+
+      {orbitsGeometry && (
+        <lineSegments geometry={orbitsGeometry} frustumCulled={false} raycast={() => null}>
+          <lineBasicMaterial color={KIND_COLORS.asteroid} transparent opacity={0.12} depthWrite={false} />
+        </lineSegments>
+      )}
+
+      {selectedOrbitGeometry && (
+        <lineSegments geometry={selectedOrbitGeometry} frustumCulled={false} raycast={() => null}>
+          <lineBasicMaterial color={SELECTED_COLOR} transparent opacity={0.5} depthWrite={false} />
+        </lineSegments>
+      )}
+
+      {selectedIndex >= 0 && selectedIndex < count && (
+        <mesh
+          position={Array.from(positions.subarray(selectedIndex * 3, selectedIndex * 3 + 3)) as [number, number, number]}
+          raycast={() => null}
+        >
+          <sphereGeometry args={[0.15, 12, 12]} />
+          <meshBasicMaterial color={SELECTED_COLOR} />
+        </mesh>
+      )}
+
+      {labelPosition && (
+        <Html position={labelPosition} center style={{ pointerEvents: 'none' }}>
+          <div className="mt-6 bg-black/80 text-white px-2 py-0.5 rounded-full text-xs font-mono border border-cyan-500/50 whitespace-nowrap select-none">
+            {smallBodies[labelIndex].name}
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
+
+export default memo(SmallBodies);
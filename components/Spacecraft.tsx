@@ -0,0 +1,185 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, memo, useState } from 'react';
+import { Html } from '@react-three/drei';
+import type { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useShallow } from 'zustand/react/shallow';
+import { useOrbitStore } from '@/lib/store';
+import { useSceneScale } from '@/lib/useSceneScale';
+import {
+  computeTrajectoryPath,
+  countPathPointsBefore,
+  getSpacecraftScenePosition,
+  type Spacecraft,
+} from '@/lib/spacecraft';
+
+/**
+ * Spacecraft trajectories: the path flown so far, the path still to come and
+ * a marker at the craft's position on the sim date.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Each path is sampled once per trajectory; the flown and remaining parts
+ *    share one position buffer and only their draw ranges change per tick
+ * 3. Lines are built once per trajectory rather than on every render
+ * 4. Markers are hidden (and skip interpolation) outside a trajectory's span
+ * 5. Only hovered, selected or labelled craft get a DOM label
+ * 6. Geometry and materials disposed when a trajectory changes and on unmount
+ * 7. Scale modes remap the sampled path instead of resampling it
+ */
+
+const CRAFT_COLORS = ['#fbbf24', '#f472b6', '#a78bfa', '#34d399', '#fb923c', '#60a5fa'];
+
+const SELECTED_COLOR = '#00ffff';
+
+interface SpacecraftTrackProps {
+  craft: Spacecraft;
+  color: string;
+  date: Date;
+  selected: boolean;
+  showLabel: boolean;
+  onSelect: (id: string) => void;
+}
+
+const SpacecraftTrack = memo(function SpacecraftTrack({
+  craft,
+  color,
+  date,
+  selected,
+  showLabel,
+  onSelect,
+}: SpacecraftTrackProps) {
+  const [hovered, setHovered] = useState(false);
+
+  const path = useMemo(() => computeTrajectoryPath(craft.trajectory), [craft.trajectory]);
+  const sceneScale = useSceneScale();
+  const pathPositions = useMemo(() => sceneScale.path(path.positions), [path, sceneScale]);
+
+  const lines = useMemo(() => {
+    const position = new THREE.BufferAttribute(pathPositions, 3);
+    const flownGeometry = new THREE.BufferGeometry();
+    const remainingGeometry = new THREE.BufferGeometry();
+    flownGeometry.setAttribute('position', position);
+    remainingGeometry.setAttribute('position', position);
+
+    const flown = new THREE.Line(
+      flownGeometry,
+      new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.7, depthWrite: false })
+    );
+    const remaining = new THREE.Line(
+      remainingGeometry,
+      new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.18, depthWrite: false })
+    );
+    for (const line of [flown, remaining]) {
+      line.frustumCulled = false;
+      line.raycast = () => {};
+    }
+    return { flown, remaining };
+  }, [pathPositions, color]);
+
+  // Split the path at the sim date
+  useEffect(() => {
+    const total = path.jd.length;
+    const flownCount = countPathPointsBefore(path, date);
+    lines.flown.geometry.setDrawRange(0, flownCount);
+    const from = Math.max(0, flownCount - 1);
+    lines.remaining.geometry.setDrawRange(from, total - from);
+  }, [lines, path, date]);
+
+  useEffect(() => {
+    return () => {
+      for (const line of [lines.flown, lines.remaining]) {
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
+      }
+    };
+  }, [lines]);
+
+  const position = useMemo(() => {
+    const scenePosition = getSpacecraftScenePosition(craft, date);
+    return scenePosition ? sceneScale.position(scenePosition) : null;
+  }, [craft, date, sceneScale]);
+
+  const handleClick = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      e.stopPropagation();
+      onSelect(craft.id);
+    },
+    [craft.id, onSelect]
+  );
+
+  const handlePointerOver = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    setHovered(true);
+    document.body.style.cursor = 'pointer';
+  }, []);
+
+  const handlePointerOut = useCallback(() => {
+    setHovered(false);
+    document.body.style.cursor = 'auto';
+  }, []);
+
+  return (
+    <group>
+      <primitive object={lines.flown} />
+      <primitive object={lines.remaining} />
+
+      {position && (
+        <group position={position}>
+          <mesh onClick={handleClick} onPointerOver={handlePointerOver} onPointerOut={handlePointerOut}>
+            <octahedronGeometry args={[selected ? 0.3 : 0.2, 0]} />
+            <meshBasicMaterial color={selected ? SELECTED_COLOR : color} />
+          </mesh>
+
+          {(showLabel || hovered || selected) && (
+            <Html center style={{ pointerEvents: 'none' }}>
+              <div className="mt-6 bg-black/80 text-white px-2 py-0.5 rounded-full text-xs font-mono border border-cyan-500/50 whitespace-nowrap select-none">
+                {craft.name}
+              </div>
+            </Html>
+          )}
+        </group>
+      )}
+    </group>
+  );
+});
+
+function SpacecraftLayer() {
+  const { spacecraft, selectedSpacecraft, showSpacecraft, showLabels, currentDate, setSelectedSpacecraft } =
+    useOrbitStore(
+      useShallow((s) => ({
+        spacecraft: s.spacecraft,
+        selectedSpacecraft: s.selectedSpacecraft,
+        showSpacecraft: s.showSpacecraft,
+        showLabels: s.showLabels,
+        currentDate: s.currentDate,
+        setSelectedSpacecraft: s.setSelectedSpacecraft,
+      }))
+    );
+
+  const handleSelect = useCallback(
+    (id: string) => setSelectedSpacecraft(id === selectedSpacecraft ? null : id),
+    [selectedSpacecraft, setSelectedSpacecraft]
+  );
+
+  if (!showSpacecraft) return null;
+
+  return (
+    <group>
+      {spacecraft.map((craft, index) => (
+        <SpacecraftTrack
+          key={craft.id}
+          craft={craft}
+          color={CRAFT_COLORS[index % CRAFT_COLORS.length]}
+          date={currentDate}
+          selected={craft.id === selectedSpacecraft}
+          showLabel={showLabels}
+          onSelect={handleSelect}
+        />
+      ))}
+    </group>
+  );
+}
+
+export default memo(SpacecraftLayer);
@@ -3,6 +3,8 @@
 import { useRef, useMemo, memo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { SUN_BASE_RADIUS } from '@/lib/scaleModes';
+import { useSceneScale } from '@/lib/useSceneScale';
 
 /**
  * PERFORMANCE OPTIMIZATIONS:
@@ -77,12 +79,13 @@ const sunFragmentShader = `
 `;
 
 // Shared geometries - created once, reused
-const SUN_GEOMETRY = new THREE.SphereGeometry(5, 48, 48); // Reduced from 64
-const GLOW_GEOMETRY = new THREE.SphereGeometry(5, 16, 16); // Reduced from 32
+const SUN_GEOMETRY = new THREE.SphereGeometry(SUN_BASE_RADIUS, 48, 48); // Reduced from 64
+const GLOW_GEOMETRY = new THREE.SphereGeometry(SUN_BASE_RADIUS, 16, 16); // Reduced from 32
 
 function Sun() {
   const meshRef = useRef<THREE.Mesh>(null);
   const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const { sunRadius } = useSceneScale();
 
   // Memoize uniforms object to prevent recreation
   const uniforms = useMemo(
@@ -126,7 +129,7 @@ function Sun() {
   });
 
   return (
-    <group>
+    <group scale={sunRadius / SUN_BASE_RADIUS}>
       {/* Core Sun with animated shader */}
       <mesh ref={meshRef} geometry={SUN_GEOMETRY}>
         <shaderMaterial
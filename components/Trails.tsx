@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useMemo, memo } from 'react';
+import * as THREE from 'three';
+import { useShallow } from 'zustand/react/shallow';
+import { useOrbitStore } from '@/lib/store';
+import { isHeliocentricBody } from '@/lib/bodies';
+import { getFrameOrigin } from '@/lib/referenceFrames';
+import { createTrail, fadeTrail, pushTrailSample, resetTrail, type Trail } from '@/lib/trails';
+import { useSceneScale } from '@/lib/useSceneScale';
+
+/**
+ * Fading trails behind the Sun, planets and dwarf planets. Samples are taken
+ * in frame coordinates, so the trails sit outside the scene's frame offset and
+ * show each body's motion as seen from the frame center: retrograde loops in
+ * the geocentric frame, and the Sun's yearly circle. Trails restart when the
+ * frame, the scale, the trail length or the date jumps.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. Trail buffers are the GPU attributes: each tick writes one sample and
+ *    updates alphas in place, with the draw range covering samples in use
+ * 3. Lines are only rebuilt when the set of bodies changes
+ * 4. Lines are excluded from raycasting
+ * 5. Geometry and material disposed whenever lines are rebuilt and on unmount
+ */
+
+const SUN_TRAIL_COLOR = '#fbbf24';
+const SUN_POSITION: [number, number, number] = [0, 0, 0];
+
+interface TrailLine {
+  name: string;
+  trail: Trail;
+  line: THREE.Line;
+}
+
+function Trails() {
+  const { planets, referenceFrame, trailLengthDays, trailResetCount } = useOrbitStore(
+    useShallow((s) => ({
+      planets: s.planets,
+      referenceFrame: s.referenceFrame,
+      trailLengthDays: s.trailLengthDays,
+      trailResetCount: s.trailResetCount,
+    }))
+  );
+  const sceneScale = useSceneScale();
+
+  // The Sun only moves in body-centered frames
+  const bodyKey = useMemo(() => {
+    const names = Array.from(planets.keys()).filter(isHeliocentricBody);
+    return (referenceFrame === 'Sun' ? names : ['Sun', ...names]).join(',');
+  }, [planets, referenceFrame]);
+
+  const lines = useMemo((): TrailLine[] => {
+    if (!bodyKey) return [];
+    const { planets: current } = useOrbitStore.getState();
+    const color = new THREE.Color();
+
+    return bodyKey.split(',').map((name) => {
+      color.set(name === 'Sun' ? SUN_TRAIL_COLOR : current.get(name)?.color ?? '#ffffff');
+      const trail = createTrail([color.r, color.g, color.b]);
+
+      const geometry = new THREE.BufferGeometry();
+      const position = new THREE.BufferAttribute(trail.positions, 3);
+      const colors = new THREE.BufferAttribute(trail.colors, 4);
+      position.setUsage(THREE.DynamicDrawUsage);
+      colors.setUsage(THREE.DynamicDrawUsage);
+      geometry.setAttribute('position', position);
+      geometry.setAttribute('color', colors);
+      geometry.setDrawRange(0, 0);
+
+      const line = new THREE.Line(
+        geometry,
+        new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.8, depthWrite: false })
+      );
+      line.frustumCulled = false;
+      line.raycast = () => {};
+      return { name, trail, line };
+    });
+  }, [bodyKey]);
+
+  useEffect(() => {
+    return () => {
+      for (const { line } of lines) {
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
+      }
+    };
+  }, [lines]);
+
+  // Start over after a date jump, a frame or scale change or a new length
+  useEffect(() => {
+    for (const { trail, line } of lines) {
+      resetTrail(trail);
+      line.geometry.setDrawRange(0, 0);
+    }
+  }, [lines, referenceFrame, sceneScale, trailLengthDays, trailResetCount]);
+
+  // Record the latest positions relative to the frame center
+  useEffect(() => {
+    const timeMs = useOrbitStore.getState().currentDate.getTime();
+    const [ox, oy, oz] = sceneScale.position(getFrameOrigin(referenceFrame, planets));
+
+    for (const { name, trail, line } of lines) {
+      const position = name === 'Sun' ? SUN_POSITION : planets.get(name)?.position;
+      if (!position) continue;
+
+      const [x, y, z] = sceneScale.position(position);
+      pushTrailSample(trail, timeMs, [x - ox, y - oy, z - oz], trailLengthDays);
+      fadeTrail(trail, timeMs, trailLengthDays);
+
+      const { geometry } = line;
+      geometry.getAttribute('position').needsUpdate = true;
+      geometry.getAttribute('color').needsUpdate = true;
+      geometry.setDrawRange(0, trail.count);
+    }
+  }, [lines, planets, referenceFrame, sceneScale, trailLengthDays]);
+
+  return (
+    <group>
+      {lines.map(({ name, line }) => (
+        <primitive key={name} object={line} />
+      ))}
+    </group>
+  );
+}
+
+export default memo(Trails);
@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useMemo, memo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { useShallow } from 'zustand/react/shallow';
+import { useOrbitStore } from '@/lib/store';
+import { ASTRONOMICAL_CONSTANTS } from '@/lib/astronomy-cache';
+import { computeTransferArc, getTransferPosition } from '@/lib/transfers';
+import { useSceneScale } from '@/lib/useSceneScale';
+
+/**
+ * The interplanetary transfer picked on the porkchop plot: the conic from the
+ * origin at departure to the destination at arrival, and a marker riding it
+ * while the sim date is inside the flight.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. React.memo prevents re-renders when parent updates
+ * 2. The arc is sampled once per transfer, not per tick; scale modes remap it
+ * 3. The marker is a single universal-variable propagation per tick
+ * 4. Line is excluded from raycasting
+ * 5. Geometry and material disposed when the transfer changes and on unmount
+ */
+
+const ARC_COLOR = '#fb923c';
+
+function TransferArc() {
+  const { transfer, transferPlaying, currentDate, finishTransfer } = useOrbitStore(
+    useShallow((s) => ({
+      transfer: s.transfer,
+      transferPlaying: s.transferPlaying,
+      currentDate: s.currentDate,
+      finishTransfer: s.finishTransfer,
+    }))
+  );
+
+  const sceneScale = useSceneScale();
+  const samples = useMemo(() => (transfer ? computeTransferArc(transfer) : null), [transfer]);
+
+  const line = useMemo(() => {
+    if (!samples) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(sceneScale.path(samples), 3));
+    const arc = new THREE.Line(
+      geometry,
+      new THREE.LineDashedMaterial({
+        color: ARC_COLOR,
+        dashSize: 0.4,
+        gapSize: 0.25,
+        transparent: true,
+        opacity: 0.85,
+        depthWrite: false,
+      })
+    );
+    arc.computeLineDistances();
+    arc.frustumCulled = false;
+    arc.raycast = () => {};
+    return arc;
+  }, [samples, sceneScale]);
+
+  useEffect(() => {
+    return () => {
+      if (!line) return;
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+    };
+  }, [line]);
+
+  // Stop the playback on arrival
+  useEffect(() => {
+    if (transfer && transferPlaying && currentDate.getTime() >= transfer.arrivalMs) finishTransfer();
+  }, [transfer, transferPlaying, currentDate, finishTransfer]);
+
+  const markerPosition = useMemo((): [number, number, number] | null => {
+    if (!transfer) return null;
+    const position = getTransferPosition(transfer, currentDate);
+    if (!position) return null;
+    const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR;
+    return sceneScale.position([position[0] * scale, position[2] * scale, -position[1] * scale]);
+  }, [transfer, currentDate, sceneScale]);
+
+  if (!transfer || !line) return null;
+
+  return (
+    <group>
+      <primitive object={line} />
+
+      {markerPosition && (
+        <group position={markerPosition}>
+          <mesh raycast={() => null}>
+            <octahedronGeometry args={[0.25, 0]} />
+            <meshBasicMaterial color={ARC_COLOR} />
+          </mesh>
+          <Html center style={{ pointerEvents: 'none' }}>
+            <div className="mt-6 bg-black/80 text-white px-2 py-0.5 rounded-full text-xs font-mono border border-orange-400/50 whitespace-nowrap select-none">
+              {transfer.origin} → {transfer.destination}
+            </div>
+          </Html>
+        </group>
+      )}
+    </group>
+  );
+}
+
+export default memo(TransferArc);
@@ -4,23 +4,43 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import { useOrbitStore } from '@/lib/store';
 import { useShallow } from 'zustand/react/shallow';
 import { useFocusTrap } from '@/lib/useFocusTrap';
-import { PLANET_ORDER } from '@/lib/planets';
+import { DWARF_PLANET_ORDER, PLANET_ORDER } from '@/lib/planets';
+import { MOON_CONFIG, MOON_NAMES } from '@/lib/moons';
+import { isReferenceFrame, getReferenceFrameLabel } from '@/lib/referenceFrames';
+import { getScaleModeDescription, getScaleModeLabel, SCALE_MODES } from '@/lib/scaleModes';
+import { formatTrailLength, getNextTrailLength, TRAIL_LENGTH_OPTIONS_DAYS } from '@/lib/trails';
+import type { SmallBody } from '@/lib/smallBodies';
+import type { Spacecraft } from '@/lib/spacecraft';
 import {
   Battery,
+  CalendarDays,
+  CircleDot,
   Command,
   Compass,
+  Crosshair,
+  FileUp,
   Film,
   Gauge,
   HelpCircle,
+  Moon,
   Orbit as OrbitIcon,
+  Rocket,
+  Route,
+  Ruler,
   Search,
   Sparkles,
+  Sparkle,
+  Spline,
   Tags,
+  Telescope,
   Timer,
   X,
 } from 'lucide-react';
 
-type PaletteGroup = 'Planets' | 'Commands';
+type PaletteGroup = 'Planets' | 'Dwarf planets' | 'Moons' | 'Spacecraft' | 'Asteroids' | 'Comets' | 'Commands';
+
+/** Small bodies only show up once a query is typed, and at most this many */
+const SMALL_BODY_RESULT_LIMIT = 20;
 
 type PaletteItem = {
   id: string;
@@ -49,6 +69,18 @@ function matchesQuery(item: PaletteItem, query: string) {
   return haystack.includes(query);
 }
 
+function describeSmallBody(body: SmallBody) {
+  const kind = body.kind === 'comet' ? 'Comet' : 'Asteroid';
+  const designation = body.id !== body.name ? ` ${body.id}.` : '.';
+  return `${kind}${body.source === 'imported' ? ' (imported)' : ''}${designation}`;
+}
+
+function describeSpacecraft(craft: Spacecraft) {
+  if (craft.source === 'imported') return 'Imported trajectory.';
+  const { agency, launchDate } = craft.mission;
+  return [agency, launchDate ? `launched ${launchDate.slice(0, 4)}` : null].filter(Boolean).join(', ') + '.';
+}
+
 function clampIndex(index: number, max: number) {
   if (max <= 0) return 0;
   return Math.min(Math.max(index, 0), max - 1);
@@ -58,12 +90,20 @@ export default function HUDCommandPalette({
   open,
   onClose,
   onOpenHelp,
+  onOpenEvents,
+  onOpenTransfer,
   onSnapshot,
+  onImportSmallBodies,
+  onImportTrajectory,
 }: {
   open: boolean;
   onClose: () => void;
   onOpenHelp: () => void;
+  onOpenEvents: () => void;
+  onOpenTransfer: () => void;
   onSnapshot: () => void;
+  onImportSmallBodies: () => void;
+  onImportTrajectory: () => void;
 }) {
   const inputRef = useRef<HTMLInputElement>(null);
   const dialogRef = useRef<HTMLDivElement>(null);
@@ -71,30 +111,76 @@ export default function HUDCommandPalette({
   const [activeIndex, setActiveIndex] = useState(0);
 
   const {
+    selectedPlanet,
+    referenceFrame,
+    scaleMode,
     showOrbits,
     showLabels,
+    showTrails,
+    trailLengthDays,
     cinematicPlaying,
+    cameraMode,
     timeSpeed,
     renderQuality,
+    smallBodies,
+    showSmallBodyOrbits,
+    spacecraft,
+    showSpacecraft,
+    transfer,
     setSelectedPlanet,
+    setSelectedSmallBody,
+    setSelectedSpacecraft,
     setTimeSpeed,
     setRenderQuality,
     toggleOrbits,
     toggleLabels,
+    toggleTrails,
+    setTrailLength,
     toggleCinematic,
+    toggleSkyView,
+    toggleSmallBodyOrbits,
+    clearImportedSmallBodies,
+    toggleSpacecraft,
+    clearImportedSpacecraft,
+    setTransfer,
+    setReferenceFrame,
+    setScaleMode,
   } = useOrbitStore(
     useShallow((s) => ({
+      selectedPlanet: s.selectedPlanet,
+      referenceFrame: s.referenceFrame,
+      scaleMode: s.scaleMode,
       showOrbits: s.showOrbits,
       showLabels: s.showLabels,
+      showTrails: s.showTrails,
+      trailLengthDays: s.trailLengthDays,
       cinematicPlaying: s.cinematicPlaying,
+      cameraMode: s.cameraMode,
       timeSpeed: s.timeSpeed,
       renderQuality: s.renderQuality,
+      smallBodies: s.smallBodies,
+      showSmallBodyOrbits: s.showSmallBodyOrbits,
+      spacecraft: s.spacecraft,
+      showSpacecraft: s.showSpacecraft,
+      transfer: s.transfer,
       setSelectedPlanet: s.setSelectedPlanet,
+      setSelectedSmallBody: s.setSelectedSmallBody,
+      setSelectedSpacecraft: s.setSelectedSpacecraft,
       setTimeSpeed: s.setTimeSpeed,
       setRenderQuality: s.setRenderQuality,
       toggleOrbits: s.toggleOrbits,
       toggleLabels: s.toggleLabels,
+      toggleTrails: s.toggleTrails,
+      setTrailLength: s.setTrailLength,
       toggleCinematic: s.toggleCinematic,
+      toggleSkyView: s.toggleSkyView,
+      toggleSmallBodyOrbits: s.toggleSmallBodyOrbits,
+      clearImportedSmallBodies: s.clearImportedSmallBodies,
+      toggleSpacecraft: s.toggleSpacecraft,
+      clearImportedSpacecraft: s.clearImportedSpacecraft,
+      setTransfer: s.setTransfer,
+      setReferenceFrame: s.setReferenceFrame,
+      setScaleMode: s.setScaleMode,
     }))
   );
 
@@ -118,6 +204,59 @@ export default function HUDCommandPalette({
       keywords: [planet, 'planet', 'focus', 'details'],
     }));
 
+    const dwarfItems: PaletteItem[] = DWARF_PLANET_ORDER.map((dwarf) => ({
+      id: `focus-${dwarf}`,
+      label: `Focus ${dwarf}`,
+      description: 'Dwarf planet.',
+      group: 'Dwarf planets',
+      icon: <CircleDot className="size-4 text-cyan-200" />,
+      action: () => setSelectedPlanet(dwarf),
+      keywords: [dwarf, 'dwarf', 'planet', 'focus', 'details'],
+    }));
+
+    const moonItems: PaletteItem[] = MOON_NAMES.map((moon) => ({
+      id: `focus-${moon}`,
+      label: `Focus ${moon}`,
+      description: `Moon of ${MOON_CONFIG[moon].parent}.`,
+      group: 'Moons',
+      icon: <Moon className="size-4 text-cyan-200" />,
+      action: () => setSelectedPlanet(moon),
+      keywords: [moon, MOON_CONFIG[moon].parent, 'moon', 'satellite', 'focus', 'details'],
+    }));
+
+    const spacecraftItems: PaletteItem[] = spacecraft.map((craft) => ({
+      id: `focus-craft-${craft.id}`,
+      label: `Focus ${craft.name}`,
+      description: describeSpacecraft(craft),
+      group: 'Spacecraft',
+      icon: <Rocket className="size-4 text-cyan-200" />,
+      action: () => setSelectedSpacecraft(craft.id),
+      keywords: [craft.id, 'spacecraft', 'probe', 'mission', ...(craft.mission.targets ?? [])],
+    }));
+
+    const q = normalizeQuery(query);
+
+    // Imported sets can hold thousands of bodies, so search them lazily
+    const smallBodyItems: PaletteItem[] = [];
+    if (q) {
+      for (const body of smallBodies) {
+        if (smallBodyItems.length >= SMALL_BODY_RESULT_LIMIT) break;
+        const item: PaletteItem = {
+          id: `focus-small-${body.id}`,
+          label: `Focus ${body.name}`,
+          description: describeSmallBody(body),
+          group: body.kind === 'comet' ? 'Comets' : 'Asteroids',
+          icon: <Sparkle className="size-4 text-cyan-200" />,
+          action: () => setSelectedSmallBody(body.id),
+          keywords: [body.id, body.kind, body.kind === 'comet' ? 'comet' : 'asteroid minor planet'],
+        };
+        if (matchesQuery(item, q)) smallBodyItems.push(item);
+      }
+    }
+
+    const hasImported = smallBodies.some((body) => body.source === 'imported');
+    const hasImportedSpacecraft = spacecraft.some((craft) => craft.source === 'imported');
+
     const commandItems: PaletteItem[] = [
       {
         id: 'quality-high',
@@ -151,6 +290,18 @@ export default function HUDCommandPalette({
         action: () => setRenderQuality('low'),
         keywords: ['graphics', 'quality', 'low', 'battery', 'performance'],
       },
+      ...SCALE_MODES.map((mode) => {
+        const description = getScaleModeDescription(mode);
+        return {
+          id: `scale-${mode}`,
+          label: `Scale: ${getScaleModeLabel(mode)}`,
+          description: scaleMode === mode ? `Current • ${description.toLowerCase()}` : description,
+          group: 'Commands' as const,
+          icon: <Ruler className="size-4 text-cyan-200" />,
+          action: () => setScaleMode(mode),
+          keywords: ['scale', 'distance', 'size', getScaleModeLabel(mode).toLowerCase()],
+        };
+      }),
       {
         id: 'toggle-orbits',
         label: showOrbits ? 'Hide orbits' : 'Show orbits',
@@ -161,6 +312,87 @@ export default function HUDCommandPalette({
         action: toggleOrbits,
         keywords: ['orbits', 'paths'],
       },
+      {
+        id: 'toggle-trails',
+        label: showTrails ? 'Hide trails' : 'Show trails',
+        description: 'Toggle fading trails behind each body.',
+        group: 'Commands',
+        shortcut: 'T',
+        icon: <Spline className="size-4 text-cyan-200" />,
+        action: toggleTrails,
+        keywords: ['trails', 'motion', 'paths', 'history'],
+      },
+      {
+        id: 'trail-length',
+        label: `Trail length: ${formatTrailLength(trailLengthDays)}`,
+        description: `Cycle through ${TRAIL_LENGTH_OPTIONS_DAYS.map(formatTrailLength).join(', ')}.`,
+        group: 'Commands',
+        icon: <Spline className="size-4 text-cyan-200" />,
+        action: () => setTrailLength(getNextTrailLength(trailLengthDays)),
+        keywords: ['trails', 'length', 'days', 'years'],
+      },
+      {
+        id: 'toggle-small-body-orbits',
+        label: showSmallBodyOrbits ? 'Hide asteroid & comet orbits' : 'Show asteroid & comet orbits',
+        description: 'Toggle orbit lines for small bodies.',
+        group: 'Commands',
+        icon: <OrbitIcon className="size-4 text-cyan-200" />,
+        action: toggleSmallBodyOrbits,
+        keywords: ['asteroids', 'comets', 'small bodies', 'orbits', 'paths'],
+      },
+      {
+        id: 'import-small-bodies',
+        label: 'Import asteroids & comets',
+        description: 'Load an MPCORB or CometEls file from the Minor Planet Center.',
+        group: 'Commands',
+        icon: <FileUp className="size-4 text-cyan-200" />,
+        action: onImportSmallBodies,
+        keywords: ['import', 'mpc', 'mpcorb', 'cometels', 'asteroids', 'comets', 'file', 'orbital elements'],
+      },
+      ...(hasImported
+        ? [
+            {
+              id: 'clear-small-bodies',
+              label: 'Remove imported small bodies',
+              description: 'Keep only the bundled bright asteroids.',
+              group: 'Commands' as const,
+              icon: <X className="size-4 text-cyan-200" />,
+              action: clearImportedSmallBodies,
+              keywords: ['remove', 'clear', 'imported', 'asteroids', 'comets'],
+            },
+          ]
+        : []),
+      {
+        id: 'toggle-spacecraft',
+        label: showSpacecraft ? 'Hide spacecraft' : 'Show spacecraft',
+        description: 'Toggle spacecraft and their trajectories.',
+        group: 'Commands',
+        icon: <Rocket className="size-4 text-cyan-200" />,
+        action: toggleSpacecraft,
+        keywords: ['spacecraft', 'probes', 'missions', 'trajectories', 'voyager'],
+      },
+      {
+        id: 'import-trajectory',
+        label: 'Import spacecraft trajectory',
+        description: 'Load a JPL Horizons vector table or a CSV of time, x, y, z.',
+        group: 'Commands',
+        icon: <FileUp className="size-4 text-cyan-200" />,
+        action: onImportTrajectory,
+        keywords: ['import', 'horizons', 'jpl', 'vectors', 'csv', 'spacecraft', 'trajectory', 'file'],
+      },
+      ...(hasImportedSpacecraft
+        ? [
+            {
+              id: 'clear-spacecraft',
+              label: 'Remove imported spacecraft',
+              description: 'Keep only the bundled missions.',
+              group: 'Commands' as const,
+              icon: <X className="size-4 text-cyan-200" />,
+              action: clearImportedSpacecraft,
+              keywords: ['remove', 'clear', 'imported', 'spacecraft', 'trajectories'],
+            },
+          ]
+        : []),
       {
         id: 'toggle-labels',
         label: showLabels ? 'Hide labels' : 'Show labels',
@@ -181,6 +413,90 @@ export default function HUDCommandPalette({
         action: toggleCinematic,
         keywords: ['cinematic', 'tour', 'autoplay'],
       },
+      ...(referenceFrame !== 'Sun'
+        ? [
+            {
+              id: 'frame-heliocentric',
+              label: 'Heliocentric frame',
+              description: `Hold the Sun still again (now ${getReferenceFrameLabel(referenceFrame).toLowerCase()}).`,
+              group: 'Commands' as const,
+              icon: <Crosshair className="size-4 text-cyan-200" />,
+              action: () => setReferenceFrame('Sun'),
+              keywords: ['frame', 'reference', 'heliocentric', 'sun', 'center'],
+            },
+          ]
+        : []),
+      ...(referenceFrame !== 'Earth'
+        ? [
+            {
+              id: 'frame-geocentric',
+              label: 'Geocentric frame',
+              description: 'Hold the Earth still to see retrograde loops.',
+              group: 'Commands' as const,
+              icon: <Crosshair className="size-4 text-cyan-200" />,
+              action: () => setReferenceFrame('Earth'),
+              keywords: ['frame', 'reference', 'geocentric', 'earth', 'retrograde', 'ptolemy', 'center'],
+            },
+          ]
+        : []),
+      ...(selectedPlanet &&
+      selectedPlanet !== 'Earth' &&
+      selectedPlanet !== referenceFrame &&
+      isReferenceFrame(selectedPlanet)
+        ? [
+            {
+              id: 'frame-selected',
+              label: `Center frame on ${selectedPlanet}`,
+              description: `Hold ${selectedPlanet} still and draw every path as seen from it.`,
+              group: 'Commands' as const,
+              icon: <Crosshair className="size-4 text-cyan-200" />,
+              action: () => setReferenceFrame(selectedPlanet),
+              keywords: ['frame', 'reference', 'center', selectedPlanet],
+            },
+          ]
+        : []),
+      {
+        id: 'toggle-sky-view',
+        label: cameraMode === 'sky' ? 'Leave sky view' : 'Sky view',
+        description: 'See the sky from your observer location.',
+        group: 'Commands',
+        shortcut: 'V',
+        icon: <Telescope className="size-4 text-cyan-200" />,
+        action: toggleSkyView,
+        keywords: ['sky', 'horizon', 'observer', 'altitude', 'azimuth', 'ground'],
+      },
+      {
+        id: 'open-events',
+        label: 'Upcoming events',
+        description: 'Conjunctions, oppositions, elongations and seasons.',
+        group: 'Commands',
+        shortcut: 'E',
+        icon: <CalendarDays className="size-4 text-cyan-200" />,
+        action: onOpenEvents,
+        keywords: ['events', 'calendar', 'conjunction', 'opposition', 'elongation', 'equinox', 'solstice', 'perihelion'],
+      },
+      {
+        id: 'open-transfer',
+        label: 'Interplanetary transfer',
+        description: 'Plan a launch window on a porkchop plot and fly the transfer.',
+        group: 'Commands',
+        icon: <Route className="size-4 text-cyan-200" />,
+        action: onOpenTransfer,
+        keywords: ['transfer', 'hohmann', 'lambert', 'porkchop', 'launch', 'window', 'c3', 'delta-v', 'mission'],
+      },
+      ...(transfer
+        ? [
+            {
+              id: 'clear-transfer',
+              label: 'Clear transfer',
+              description: `Remove the ${transfer.origin} to ${transfer.destination} transfer from the scene.`,
+              group: 'Commands' as const,
+              icon: <X className="size-4 text-cyan-200" />,
+              action: () => setTransfer(null),
+              keywords: ['remove', 'clear', 'transfer', 'trajectory', 'arc'],
+            },
+          ]
+        : []),
       {
         id: 'snapshot',
         label: 'Take snapshot',
@@ -235,9 +551,8 @@ export default function HUDCommandPalette({
       },
     ];
 
-    const allItems = [...planetItems, ...commandItems];
-    const q = normalizeQuery(query);
-    const filtered = allItems.filter((item) => matchesQuery(item, q));
+    const allItems = [...planetItems, ...dwarfItems, ...moonItems, ...spacecraftItems, ...commandItems];
+    const filtered = [...allItems.filter((item) => matchesQuery(item, q)), ...smallBodyItems];
 
     if (!q) return filtered;
 
@@ -246,20 +561,47 @@ export default function HUDCommandPalette({
       return a.group === 'Commands' ? -1 : 1;
     });
   }, [
+    cameraMode,
     cinematicPlaying,
     onOpenHelp,
+    onOpenEvents,
+    onOpenTransfer,
     onSnapshot,
+    onImportSmallBodies,
+    onImportTrajectory,
+    clearImportedSmallBodies,
+    clearImportedSpacecraft,
     query,
     renderQuality,
     setSelectedPlanet,
+    setSelectedSmallBody,
+    setSelectedSpacecraft,
     setRenderQuality,
     setTimeSpeed,
     showLabels,
     showOrbits,
+    showSmallBodyOrbits,
+    smallBodies,
+    spacecraft,
+    showSpacecraft,
+    setTransfer,
+    transfer,
+    selectedPlanet,
+    referenceFrame,
+    setReferenceFrame,
+    scaleMode,
+    setScaleMode,
     timeSpeed,
     toggleCinematic,
     toggleLabels,
     toggleOrbits,
+    toggleSkyView,
+    toggleSmallBodyOrbits,
+    toggleSpacecraft,
+    showTrails,
+    trailLengthDays,
+    toggleTrails,
+    setTrailLength,
   ]);
 
   useEffect(() => {
@@ -319,7 +661,7 @@ export default function HUDCommandPalette({
                 }
               }}
               className="h-10 w-full bg-transparent text-sm text-white placeholder:text-white/40 focus:outline-none"
-              placeholder="Search planets and commands…"
+              placeholder="Search planets, moons, spacecraft, asteroids and commands…"
               autoComplete="off"
               autoCorrect="off"
               spellCheck={false}
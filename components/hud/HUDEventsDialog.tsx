@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useOrbitStore } from '@/lib/store';
+import { useFocusTrap } from '@/lib/useFocusTrap';
+import { getEventKey, searchUpcomingEvents, UPCOMING_EVENTS_DAYS } from '@/lib/events';
+import type { AstronomicalEvent, AstronomicalEventType } from '@/lib/api-design';
+import { CalendarDays, Loader2, X } from 'lucide-react';
+
+type EventFilter = 'all' | 'conjunction' | 'opposition' | 'elongation' | 'eclipse' | 'apsis' | 'season';
+
+const EVENT_FILTERS: readonly { value: EventFilter; label: string; types: readonly AstronomicalEventType[] }[] = [
+  { value: 'all', label: 'All', types: [] },
+  { value: 'conjunction', label: 'Conjunctions', types: ['conjunction'] },
+  { value: 'opposition', label: 'Oppositions', types: ['opposition'] },
+  { value: 'elongation', label: 'Elongations', types: ['elongation'] },
+  { value: 'eclipse', label: 'Eclipses', types: ['eclipse'] },
+  { value: 'apsis', label: 'Perihelion & aphelion', types: ['perihelion', 'aphelion'] },
+  { value: 'season', label: 'Equinoxes & solstices', types: ['equinox', 'solstice'] },
+];
+
+const EVENT_TYPE_LABELS: Record<AstronomicalEventType, string> = {
+  conjunction: 'CONJUNCTION',
+  opposition: 'OPPOSITION',
+  elongation: 'ELONGATION',
+  transit: 'TRANSIT',
+  eclipse: 'ECLIPSE',
+  perihelion: 'PERIHELION',
+  aphelion: 'APHELION',
+  equinox: 'EQUINOX',
+  solstice: 'SOLSTICE',
+};
+
+const dateFormatter = new Intl.DateTimeFormat('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+/**
+ * Upcoming events for the year after the sim date, with "jump to event".
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. Searched once per open, from the sim date at that moment
+ * 2. Search deferred a tick so the dialog paints before the work starts
+ * 3. Filtering is done on the cached results
+ */
+export default function HUDEventsDialog({
+  open,
+  onClose,
+  onJumpToEvent,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onJumpToEvent: (event: AstronomicalEvent) => void;
+}) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const previousFocusRef = useRef<HTMLElement | null>(null);
+  const [filter, setFilter] = useState<EventFilter>('all');
+  const [events, setEvents] = useState<AstronomicalEvent[] | null>(null);
+  const [searchError, setSearchError] = useState(false);
+  const [fromDate] = useState(() => useOrbitStore.getState().currentDate);
+
+  useFocusTrap(open, dialogRef);
+
+  useEffect(() => {
+    if (!open) return;
+    previousFocusRef.current = document.activeElement as HTMLElement;
+    closeButtonRef.current?.focus();
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const timer = window.setTimeout(() => {
+      try {
+        setEvents(searchUpcomingEvents(fromDate));
+      } catch {
+        setSearchError(true);
+      }
+    }, 0);
+    return () => window.clearTimeout(timer);
+  }, [open, fromDate]);
+
+  const visibleEvents = useMemo(() => {
+    if (!events) return [];
+    const active = EVENT_FILTERS.find((option) => option.value === filter);
+    if (!active || active.types.length === 0) return events;
+    return events.filter((event) => active.types.includes(event.type));
+  }, [events, filter]);
+
+  const handleClose = () => {
+    onClose();
+    previousFocusRef.current?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      handleClose();
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60]" onClick={handleClose} onKeyDown={handleKeyDown}>
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm hud-backdrop"
+        role="presentation"
+        aria-hidden="true"
+      />
+
+      <div className="absolute inset-0 flex items-start justify-center p-4 pt-20 md:pt-28">
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="events-dialog-title"
+          aria-describedby="events-dialog-description"
+          className="ui-panel ui-panel-strong hud-dialog w-full max-w-2xl overflow-hidden"
+          ref={dialogRef}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-start justify-between gap-6 p-6">
+            <div className="space-y-1">
+              <div className="text-xs font-mono text-white/50 tracking-wider" aria-hidden="true">
+                SKY CALENDAR
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <CalendarDays className="size-5 text-cyan-200" aria-hidden="true" />
+                <h2 id="events-dialog-title" className="text-2xl font-semibold tracking-tight">
+                  Upcoming events
+                </h2>
+              </div>
+              <p id="events-dialog-description" className="text-sm text-white/75">
+                The next {UPCOMING_EVENTS_DAYS} days from {dateFormatter.format(fromDate)}. Jump to an
+                event to pause there and focus the planets involved.
+              </p>
+            </div>
+
+            <button
+              ref={closeButtonRef}
+              type="button"
+              className="ui-icon-btn"
+              aria-label="Close upcoming events"
+              onClick={handleClose}
+            >
+              <X className="size-5" aria-hidden="true" />
+            </button>
+          </div>
+
+          <div className="ui-divider" role="separator" />
+
+          <div className="space-y-4 p-6">
+            <div role="radiogroup" aria-label="Event type" className="flex flex-wrap items-center gap-2">
+              {EVENT_FILTERS.map((option) => {
+                const active = option.value === filter;
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={active}
+                    className="ui-btn px-3 py-1.5 text-xs"
+                    data-active={active}
+                    onClick={() => setFilter(option.value)}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="max-h-[50dvh] overflow-auto" aria-live="polite" aria-busy={!events && !searchError}>
+              {searchError ? (
+                <p className="text-sm text-white/70">Event search failed. Try again from a different date.</p>
+              ) : !events ? (
+                <div className="flex items-center gap-2 text-sm text-white/70">
+                  <Loader2 className="size-4 animate-spin" aria-hidden="true" />
+                  Searching for events…
+                </div>
+              ) : visibleEvents.length === 0 ? (
+                <p className="text-sm text-white/70">No events of this type in the next year.</p>
+              ) : (
+                <ol className="space-y-2" aria-label="Events">
+                  {visibleEvents.map((event) => (
+                    <li
+                      key={getEventKey(event)}
+                      className="flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 p-3"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="text-[11px] font-mono text-white/50 tracking-wider">
+                          {EVENT_TYPE_LABELS[event.type]} · {dateFormatter.format(new Date(event.date))}
+                        </div>
+                        <div className="mt-1 text-sm text-white">{event.description}</div>
+                        {event.visibility && (
+                          <div className="mt-0.5 text-xs text-white/55">{event.visibility.bestLocation}</div>
+                        )}
+                      </div>
+                      <button
+                        type="button"
+                        className="ui-btn shrink-0 px-3 py-1.5 text-xs"
+                        aria-label={`Jump to ${event.description}`}
+                        onClick={() => onJumpToEvent(event)}
+                      >
+                        Jump
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -119,6 +119,10 @@ export default function HUDHelpDialog({
                   <kbd className="ui-kbd" aria-hidden="true">O</kbd>
                   <span className="sr-only">O key:</span> Toggle orbits
                 </li>
+                <li>
+                  <kbd className="ui-kbd" aria-hidden="true">T</kbd>
+                  <span className="sr-only">T key:</span> Toggle trails
+                </li>
                 <li>
                   <kbd className="ui-kbd" aria-hidden="true">L</kbd>
                   <span className="sr-only">L key:</span> Toggle labels
@@ -127,10 +131,18 @@ export default function HUDHelpDialog({
                   <kbd className="ui-kbd" aria-hidden="true">C</kbd>
                   <span className="sr-only">C key:</span> Cinematic mode
                 </li>
+                <li>
+                  <kbd className="ui-kbd" aria-hidden="true">V</kbd>
+                  <span className="sr-only">V key:</span> Sky view
+                </li>
                 <li>
                   <kbd className="ui-kbd" aria-hidden="true">K</kbd>
                   <span className="sr-only">K key:</span> Command palette
                 </li>
+                <li>
+                  <kbd className="ui-kbd" aria-hidden="true">E</kbd>
+                  <span className="sr-only">E key:</span> Upcoming events
+                </li>
                 <li>
                   <kbd className="ui-kbd" aria-hidden="true">M</kbd>
                   <span className="sr-only">M key:</span> Mission control
@@ -1,12 +1,19 @@
 'use client';
 
-import { useEffect, useMemo, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useOrbitStore } from '@/lib/store';
 import { useShallow } from 'zustand/react/shallow';
 import { useFocusTrap } from '@/lib/useFocusTrap';
-import { PLANET_ORDER } from '@/lib/planets';
+import HUDObserverPicker from './HUDObserverPicker';
+import {
+  BODY_CATEGORIES,
+  BODY_CATEGORY_LABELS,
+  getBodiesByCategory,
+  type BodyCategory,
+} from '@/lib/bodies';
 import {
   Battery,
+  CalendarDays,
   Camera,
   CircleHelp,
   Command as CommandIcon,
@@ -15,9 +22,11 @@ import {
   Orbit as OrbitIcon,
   Rocket,
   RotateCcw,
+  Route,
   Share2,
   Sparkles,
   Tags,
+  Telescope,
   X,
 } from 'lucide-react';
 
@@ -27,6 +36,8 @@ export default function HUDMenuDialog({
   onOpenHelp,
   onOpenPalette,
   onOpenMission,
+  onOpenEvents,
+  onOpenTransfer,
   onSnapshot,
   onShare,
   onOpenTutorial,
@@ -36,41 +47,50 @@ export default function HUDMenuDialog({
   onOpenHelp: () => void;
   onOpenPalette: () => void;
   onOpenMission: () => void;
+  onOpenEvents: () => void;
+  onOpenTransfer: () => void;
   onSnapshot: () => void;
   onShare: () => void;
   onOpenTutorial: () => void;
 }) {
   const closeButtonRef = useRef<HTMLButtonElement>(null);
   const dialogRef = useRef<HTMLDivElement>(null);
+  const [bodyCategory, setBodyCategory] = useState<BodyCategory>('planet');
 
   const {
     selectedPlanet,
     showOrbits,
     showLabels,
     cinematicPlaying,
+    cameraMode,
     renderQuality,
     setSelectedPlanet,
     setRenderQuality,
     toggleOrbits,
     toggleLabels,
     toggleCinematic,
+    toggleSkyView,
   } = useOrbitStore(
     useShallow((s) => ({
       selectedPlanet: s.selectedPlanet,
       showOrbits: s.showOrbits,
       showLabels: s.showLabels,
       cinematicPlaying: s.cinematicPlaying,
+      cameraMode: s.cameraMode,
       renderQuality: s.renderQuality,
       setSelectedPlanet: s.setSelectedPlanet,
       setRenderQuality: s.setRenderQuality,
       toggleOrbits: s.toggleOrbits,
       toggleLabels: s.toggleLabels,
       toggleCinematic: s.toggleCinematic,
+      toggleSkyView: s.toggleSkyView,
     }))
   );
 
   useFocusTrap(open, dialogRef);
 
+  const bodies = useMemo(() => getBodiesByCategory(bodyCategory), [bodyCategory]);
+
   const qualityOptions = useMemo(() => {
     return [
       {
@@ -182,6 +202,24 @@ export default function HUDMenuDialog({
                       onOpenMission();
                     }}
                   />
+                  <ActionButton
+                    icon={<CalendarDays className="size-4 text-cyan-200" />}
+                    title="Upcoming events"
+                    description="Conjunctions, oppositions and more."
+                    onClick={() => {
+                      onClose();
+                      onOpenEvents();
+                    }}
+                  />
+                  <ActionButton
+                    icon={<Route className="size-4 text-cyan-200" />}
+                    title="Transfer planner"
+                    description="Launch windows and porkchop plots."
+                    onClick={() => {
+                      onClose();
+                      onOpenTransfer();
+                    }}
+                  />
                   <ActionButton
                     icon={<Camera className="size-4 text-cyan-200" />}
                     title="Snapshot"
@@ -224,6 +262,12 @@ export default function HUDMenuDialog({
                     label="Cinematic"
                     onClick={toggleCinematic}
                   />
+                  <ToggleButton
+                    active={cameraMode === 'sky'}
+                    icon={<Telescope className="size-4" />}
+                    label="Sky view"
+                    onClick={toggleSkyView}
+                  />
                   <button
                     type="button"
                     className="ui-btn px-3 py-2"
@@ -236,9 +280,27 @@ export default function HUDMenuDialog({
                 </div>
               </Section>
 
-              <Section title="Planets">
+              <Section title="Bodies">
+                <div role="radiogroup" aria-label="Body type" className="flex flex-wrap items-center gap-2">
+                  {BODY_CATEGORIES.map((category) => {
+                    const active = category === bodyCategory;
+                    return (
+                      <button
+                        key={category}
+                        type="button"
+                        role="radio"
+                        aria-checked={active}
+                        className="ui-btn px-3 py-1.5 text-xs"
+                        data-active={active}
+                        onClick={() => setBodyCategory(category)}
+                      >
+                        {BODY_CATEGORY_LABELS[category]}
+                      </button>
+                    );
+                  })}
+                </div>
                 <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
-                  {PLANET_ORDER.map((planet) => {
+                  {bodies.map((planet) => {
                     const active = selectedPlanet === planet;
                     return (
                       <button
@@ -259,6 +321,10 @@ export default function HUDMenuDialog({
                 </div>
               </Section>
 
+              <Section title="Observer">
+                <HUDObserverPicker />
+              </Section>
+
               <Section title="Graphics">
                 <div role="radiogroup" aria-label="Graphics quality" className="grid gap-2 sm:grid-cols-3">
                   {qualityOptions.map((option) => {
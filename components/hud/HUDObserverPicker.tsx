@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { useOrbitStore } from '@/lib/store';
+import { useShallow } from 'zustand/react/shallow';
+import {
+  CUSTOM_LOCATION_NAME,
+  OBSERVER_CITIES,
+  formatCoordinates,
+} from '@/lib/observer';
+import { MAX_OBSERVER_ELEVATION, MIN_OBSERVER_ELEVATION } from '@/lib/validation';
+import { MapPin } from 'lucide-react';
+
+/**
+ * Observer location picker: an offline city list plus typed coordinates.
+ */
+export default function HUDObserverPicker() {
+  const { observer, setObserver } = useOrbitStore(
+    useShallow((s) => ({
+      observer: s.observer,
+      setObserver: s.setObserver,
+    }))
+  );
+
+  const id = useId();
+  const [latitude, setLatitude] = useState(observer.latitude.toString());
+  const [longitude, setLongitude] = useState(observer.longitude.toString());
+  const [elevation, setElevation] = useState(observer.elevation.toString());
+
+  // Keep the typed fields in sync when a city is picked
+  useEffect(() => {
+    setLatitude(observer.latitude.toString());
+    setLongitude(observer.longitude.toString());
+    setElevation(observer.elevation.toString());
+  }, [observer]);
+
+  const isCity = OBSERVER_CITIES.some((city) => city.name === observer.name);
+
+  const lat = Number(latitude);
+  const lon = Number(longitude);
+  const elev = Number(elevation);
+  const customValid =
+    latitude.trim() !== '' &&
+    longitude.trim() !== '' &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lon) &&
+    Number.isFinite(elev) &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180 &&
+    elev >= MIN_OBSERVER_ELEVATION &&
+    elev <= MAX_OBSERVER_ELEVATION;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-xs text-white/60">
+        <MapPin className="size-4 text-cyan-200" aria-hidden="true" />
+        <span className="font-mono">
+          {observer.name} · {formatCoordinates(observer)} · {Math.round(observer.elevation)} m
+        </span>
+      </div>
+
+      <label className="block space-y-1" htmlFor={`${id}-city`}>
+        <span className="text-xs text-white/60">City</span>
+        <select
+          id={`${id}-city`}
+          className="ui-input"
+          value={isCity ? observer.name : CUSTOM_LOCATION_NAME}
+          onChange={(event) => {
+            const city = OBSERVER_CITIES.find((c) => c.name === event.target.value);
+            if (city) setObserver(city);
+          }}
+        >
+          {OBSERVER_CITIES.map((city) => (
+            <option key={city.name} value={city.name}>
+              {city.name}
+            </option>
+          ))}
+          <option value={CUSTOM_LOCATION_NAME} disabled>
+            Custom coordinates
+          </option>
+        </select>
+      </label>
+
+      <form
+        className="grid grid-cols-3 gap-2"
+        aria-label="Custom observer coordinates"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!customValid) return;
+          setObserver({
+            name: CUSTOM_LOCATION_NAME,
+            latitude: lat,
+            longitude: lon,
+            elevation: elev,
+          });
+        }}
+      >
+        <label className="space-y-1" htmlFor={`${id}-lat`}>
+          <span className="text-xs text-white/60">Latitude °</span>
+          <input
+            id={`${id}-lat`}
+            className="ui-input"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            min={-90}
+            max={90}
+            value={latitude}
+            onChange={(event) => setLatitude(event.target.value)}
+          />
+        </label>
+        <label className="space-y-1" htmlFor={`${id}-lon`}>
+          <span className="text-xs text-white/60">Longitude °</span>
+          <input
+            id={`${id}-lon`}
+            className="ui-input"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            min={-180}
+            max={180}
+            value={longitude}
+            onChange={(event) => setLongitude(event.target.value)}
+          />
+        </label>
+        <label className="space-y-1" htmlFor={`${id}-elev`}>
+          <span className="text-xs text-white/60">Elevation m</span>
+          <input
+            id={`${id}-elev`}
+            className="ui-input"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            min={MIN_OBSERVER_ELEVATION}
+            max={MAX_OBSERVER_ELEVATION}
+            value={elevation}
+            onChange={(event) => setElevation(event.target.value)}
+          />
+        </label>
+        <button
+          type="submit"
+          className="ui-btn col-span-3 px-3 py-2"
+          disabled={!customValid}
+        >
+          Use these coordinates
+        </button>
+      </form>
+    </div>
+  );
+}
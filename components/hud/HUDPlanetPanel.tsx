@@ -2,17 +2,40 @@
 
 import { useMemo } from 'react';
 import { useOrbitStore } from '@/lib/store';
+import { KM_PER_AU } from 'astronomy-engine';
 import { useShallow } from 'zustand/react/shallow';
-import { Camera, ExternalLink, X } from 'lucide-react';
+import { Camera, ExternalLink, Eye, Orbit, Sunrise, Telescope, X } from 'lucide-react';
+import { formatDeclination, formatRightAscension, getCompassPoint } from '@/lib/observer';
+import { getCachedSkyDay } from '@/lib/astronomy-cache';
+import {
+  TWILIGHT_ALTITUDES,
+  formatLocalTime,
+  formatTimeZoneLabel,
+  type RiseSetTimes,
+  type SkyDay,
+  type TwilightKind,
+} from '@/lib/riseSet';
+import {
+  describePhase,
+  formatAngularSize,
+  formatLightTime,
+  formatMagnitude,
+  type BodyAppearance,
+} from '@/lib/appearance';
+import { formatOrbitDistance, formatPeriod, getApsisNames } from '@/lib/orbitalElements';
+import type { OsculatingElements } from '@/lib/kepler';
+import type { BodyName } from '@/lib/bodies';
 
 export default function HUDPlanetPanel() {
-  const { selectedPlanet, planetData, setSelectedPlanet } = useOrbitStore(
+  const { selectedPlanet, planetData, observer, currentDate, setSelectedPlanet } = useOrbitStore(
     useShallow((s) => {
       const selectedPlanet = s.selectedPlanet;
       const planetData = selectedPlanet ? s.planets.get(selectedPlanet) ?? null : null;
       return {
         selectedPlanet,
         planetData,
+        observer: s.observer,
+        currentDate: s.currentDate,
         setSelectedPlanet: s.setSelectedPlanet,
       };
     })
@@ -30,6 +53,16 @@ export default function HUDPlanetPanel() {
       Saturn: 'Opposition is best; ring tilt changes over the years.',
       Uranus: 'A tracking mount and longer exposures help reveal its blue-green tint.',
       Neptune: 'A larger aperture and steady seeing are key—aim for crisp, high-magnification shots.',
+      Moon: 'Shoot along the terminator near first quarter—low sun angles make craters pop.',
+      Io: 'Time-lapse Jupiter to catch Io and its shadow crossing the disk.',
+      Europa: 'Bracket exposures: Europa is bright next to Jupiter’s glare.',
+      Ganymede: 'The largest moon in the Solar System shows a tiny disk at high magnification.',
+      Callisto: 'Callisto strays farthest from Jupiter—frame wide to keep all four moons in shot.',
+      Ceres: 'Binoculars can pick up Ceres near opposition—shoot the field on consecutive nights to see it move.',
+      Pluto: 'At magnitude 14 Pluto needs a large aperture and stacked exposures; confirm it by its motion.',
+      Haumea: 'A faint magnitude-17 target—long stacked exposures from a dark site are a must.',
+      Makemake: 'Plate-solve deep exposures and compare nights to pick out its slow drift.',
+      Eris: 'Near magnitude 19, Eris is a challenge even for large amateur telescopes.',
     };
 
     return tips[planetData.name] ?? 'Point your telescope and capture the cosmos.';
@@ -47,8 +80,20 @@ export default function HUDPlanetPanel() {
     return `${base}?${params.toString()}`;
   }, [planetData]);
 
+  // Cached per local day, so this only searches when the day or observer changes
+  const skyDay = useMemo(() => {
+    if (!selectedPlanet) return null;
+    try {
+      return getCachedSkyDay(selectedPlanet as BodyName, observer, currentDate);
+    } catch {
+      return null;
+    }
+  }, [selectedPlanet, observer, currentDate]);
+
   if (!selectedPlanet || !planetData) return null;
 
+  const observerName = observer.name;
+
   return (
     <aside
       className="fixed left-4 right-4 bottom-4 z-30 md:left-auto md:right-6 md:top-24 md:bottom-auto md:w-[26rem]"
@@ -59,7 +104,11 @@ export default function HUDPlanetPanel() {
         <div className="flex items-start justify-between gap-4 p-4">
           <div className="min-w-0">
             <div className="text-xs font-mono text-white/50 tracking-wider" aria-hidden="true">
-              PLANET
+              {planetData.parent
+                ? `MOON OF ${planetData.parent.toUpperCase()}`
+                : planetData.category === 'dwarf'
+                  ? 'DWARF PLANET'
+                  : 'PLANET'}
             </div>
             <h2 className="truncate text-2xl font-semibold tracking-tight" id="planet-panel-title">
               {planetData.name}
@@ -84,14 +133,76 @@ export default function HUDPlanetPanel() {
             role="list"
             aria-label={`${planetData.name} statistics`}
           >
-            <StatItem label="Distance" value={`${planetData.distance.toFixed(2)} AU`} unit="astronomical units" />
-            <StatItem label="Velocity" value={`${planetData.velocity.toFixed(1)} km/s`} unit="kilometers per second" />
-            <StatItem label="Temperature" value={`${planetData.temperature} K`} unit="Kelvin" />
-            <StatItem label="Mass" value={`${planetData.mass.toFixed(2)} M⊕`} unit="Earth masses" />
-            <StatItem label="Moons" value={planetData.moons.toString()} />
-            <StatItem label="Radius" value={`${planetData.radius.toFixed(2)} R⊕`} unit="Earth radii" />
+            {planetData.parent ? (
+              <>
+                <StatItem
+                  label={`From ${planetData.parent}`}
+                  value={`${Math.round(planetData.parentDistanceKm ?? 0).toLocaleString('en-US')} km`}
+                  unit="kilometers"
+                />
+                <StatItem label="Velocity" value={`${planetData.velocity.toFixed(2)} km/s`} unit="kilometers per second" />
+                <StatItem label="Temperature" value={`${planetData.temperature} K`} unit="Kelvin" />
+                <StatItem label="Mass" value={`${planetData.mass.toFixed(4)} M⊕`} unit="Earth masses" />
+                <StatItem label="Orbits" value={planetData.parent} />
+                <StatItem label="Radius" value={`${planetData.radius.toFixed(3)} R⊕`} unit="Earth radii" />
+              </>
+            ) : (
+              <>
+                <StatItem label="Distance" value={`${planetData.distance.toFixed(2)} AU`} unit="astronomical units" />
+                <StatItem label="Velocity" value={`${planetData.velocity.toFixed(1)} km/s`} unit="kilometers per second" />
+                <StatItem label="Temperature" value={`${planetData.temperature} K`} unit="Kelvin" />
+                <StatItem label="Mass" value={`${planetData.mass.toFixed(2)} M⊕`} unit="Earth masses" />
+                <StatItem label="Moons" value={planetData.moons.toString()} />
+                <StatItem label="Radius" value={`${planetData.radius.toFixed(2)} R⊕`} unit="Earth radii" />
+              </>
+            )}
           </div>
 
+          {planetData.orbit && (
+            <OrbitSection
+              apsides={getApsisNames(planetData.name as BodyName)}
+              orbit={planetData.orbit}
+              parent={planetData.parent}
+            />
+          )}
+
+          {planetData.appearance && (
+            <AppearanceSection appearance={planetData.appearance} lightTimeSeconds={planetData.lightTimeSeconds} />
+          )}
+
+          {planetData.sky && (
+            <div className="mt-4" role="region" aria-labelledby="sky-position-heading">
+              <div className="mb-2 flex items-center gap-2">
+                <Telescope className="size-4 text-cyan-200" aria-hidden="true" />
+                <h3
+                  id="sky-position-heading"
+                  className="text-xs font-mono text-white/60 tracking-wider"
+                >
+                  IN THE SKY FROM {observerName.toUpperCase()}
+                </h3>
+              </div>
+              <div className="grid grid-cols-2 gap-3" role="list">
+                <StatItem
+                  label={planetData.sky.altitude >= 0 ? 'Altitude' : 'Altitude (below horizon)'}
+                  value={`${planetData.sky.altitude.toFixed(1).replace('-', '−')}°`}
+                />
+                <StatItem
+                  label="Azimuth"
+                  value={`${planetData.sky.azimuth.toFixed(1)}° ${getCompassPoint(planetData.sky.azimuth)}`}
+                />
+                <StatItem label="Right ascension" value={formatRightAscension(planetData.sky.ra)} />
+                <StatItem label="Declination" value={formatDeclination(planetData.sky.dec)} />
+                <StatItem label="Constellation" value={planetData.sky.constellationName} />
+                <StatItem
+                  label="From observer"
+                  value={`${planetData.sky.distanceAu.toFixed(planetData.sky.distanceAu < 0.1 ? 5 : 3)} AU`}
+                />
+              </div>
+            </div>
+          )}
+
+          {skyDay && <RiseSetSection name={planetData.name} day={skyDay} />}
+
           <div
             className="mt-4 rounded-xl border border-white/10 bg-white/5 p-4"
             role="region"
@@ -129,7 +240,7 @@ export default function HUDPlanetPanel() {
   );
 }
 
-function StatItem({ label, value, unit }: { label: string; value: string; unit?: string }) {
+export function StatItem({ label, value, unit }: { label: string; value: string; unit?: string }) {
   const srValue = unit ? `${value.replace(/[^\d.]/g, '')} ${unit}` : value;
 
   return (
@@ -143,3 +254,147 @@ function StatItem({ label, value, unit }: { label: string; value: string; unit?:
     </div>
   );
 }
+
+export function OrbitSection({
+  apsides,
+  orbit,
+  parent,
+}: {
+  apsides: { periapsis: string; apoapsis: string };
+  orbit: OsculatingElements;
+  parent?: string;
+}) {
+  const inKm = parent !== undefined;
+
+  return (
+    <div className="mt-4" role="region" aria-labelledby="orbit-heading">
+      <div className="mb-2 flex items-center gap-2">
+        <Orbit className="size-4 text-cyan-200" aria-hidden="true" />
+        <h3 id="orbit-heading" className="text-xs font-mono text-white/60 tracking-wider">
+          ORBIT {parent ? `AROUND ${parent.toUpperCase()}` : 'AROUND THE SUN'}
+        </h3>
+      </div>
+      <div className="grid grid-cols-2 gap-3" role="list">
+        <StatItem label="Semi-major axis" value={orbit.e < 1 ? formatOrbitDistance(orbit.a, inKm) : '—'} />
+        <StatItem label="Eccentricity" value={orbit.e.toFixed(4)} />
+        <StatItem label="Inclination" value={`${orbit.i.toFixed(2)}° to ecliptic`} />
+        <StatItem label="Period" value={formatPeriod(orbit.periodDays)} />
+        <StatItem label={apsides.periapsis} value={formatOrbitDistance(orbit.periapsis, inKm)} />
+        <StatItem label={apsides.apoapsis} value={formatOrbitDistance(orbit.apoapsis, inKm)} />
+        <StatItem label="Ascending node" value={`${orbit.node.toFixed(2)}°`} />
+        <StatItem label={`Arg. of ${apsides.periapsis.toLowerCase()}`} value={`${orbit.argPeri.toFixed(2)}°`} />
+        <StatItem label="Mean anomaly" value={`${orbit.meanAnomaly.toFixed(2).replace('-', '−')}°`} />
+      </div>
+    </div>
+  );
+}
+
+function AppearanceSection({
+  appearance,
+  lightTimeSeconds,
+}: {
+  appearance: BodyAppearance;
+  lightTimeSeconds?: number;
+}) {
+  const distance =
+    appearance.earthDistanceAu < 0.01
+      ? `${Math.round(appearance.earthDistanceAu * KM_PER_AU).toLocaleString('en-US')} km`
+      : `${appearance.earthDistanceAu.toFixed(3)} AU`;
+
+  return (
+    <div className="mt-4" role="region" aria-labelledby="appearance-heading">
+      <div className="mb-2 flex items-center gap-2">
+        <Eye className="size-4 text-cyan-200" aria-hidden="true" />
+        <h3 id="appearance-heading" className="text-xs font-mono text-white/60 tracking-wider">
+          AS SEEN FROM EARTH
+        </h3>
+      </div>
+      <div className="grid grid-cols-2 gap-3" role="list">
+        <StatItem label="Magnitude" value={formatMagnitude(appearance.magnitude)} />
+        <StatItem
+          label="Illuminated"
+          value={`${Math.round(appearance.illuminatedFraction * 100)}% · ${describePhase(appearance.illuminatedFraction)}`}
+        />
+        <StatItem label="Phase angle" value={`${appearance.phaseAngle.toFixed(1)}°`} />
+        <StatItem label="Angular size" value={formatAngularSize(appearance.angularDiameterArcsec)} />
+        <StatItem label="Elongation" value={`${appearance.elongation.toFixed(1)}° from Sun`} />
+        <StatItem label="From Earth" value={distance} />
+        {lightTimeSeconds !== undefined && (
+          <StatItem label="Light time" value={formatLightTime(lightTimeSeconds)} />
+        )}
+        {appearance.ringTilt !== undefined && (
+          <StatItem label="Ring tilt" value={`${appearance.ringTilt.toFixed(1).replace('-', '−')}°`} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+const TWILIGHT_LABELS: Record<TwilightKind, string> = {
+  civil: 'Civil',
+  nautical: 'Nautical',
+  astronomical: 'Astronomical',
+};
+
+function formatTransit(times: RiseSetTimes, timeZone: string): string {
+  if (!times.transit) return '—';
+  return `${formatLocalTime(times.transit, timeZone)} · ${times.transitAltitude.toFixed(0).replace('-', '−')}°`;
+}
+
+function RiseSetSection({ name, day }: { name: string; day: SkyDay }) {
+  const { body, sun, timeZone } = day;
+  const zoneLabel = formatTimeZoneLabel(day.start, timeZone);
+  const dateLabel = day.start.toLocaleDateString('en-US', { timeZone, month: 'short', day: 'numeric' });
+
+  const bodyNote =
+    body?.status === 'circumpolar'
+      ? `Circumpolar: ${name} stays above the horizon all day.`
+      : body?.status === 'never-rises'
+        ? `${name} does not rise from here today.`
+        : null;
+
+  const sunNote =
+    sun.status === 'circumpolar'
+      ? 'Midnight sun: the Sun stays above the horizon all day.'
+      : sun.status === 'never-rises'
+        ? 'Polar night: the Sun does not rise today.'
+        : null;
+
+  return (
+    <div className="mt-4" role="region" aria-labelledby="rise-set-heading">
+      <div className="mb-2 flex items-center gap-2">
+        <Sunrise className="size-4 text-cyan-200" aria-hidden="true" />
+        <h3 id="rise-set-heading" className="text-xs font-mono text-white/60 tracking-wider">
+          RISE &amp; SET · {dateLabel.toUpperCase()} ({zoneLabel})
+        </h3>
+      </div>
+
+      {body && (
+        <>
+          {bodyNote && <p className="mb-2 text-sm text-white/80">{bodyNote}</p>}
+          <div className="grid grid-cols-3 gap-3" role="list">
+            <StatItem label="Rise" value={formatLocalTime(body.rise, timeZone)} />
+            <StatItem label="Transit" value={formatTransit(body, timeZone)} />
+            <StatItem label="Set" value={formatLocalTime(body.set, timeZone)} />
+          </div>
+        </>
+      )}
+
+      {sunNote && <p className="mt-3 text-sm text-white/80">{sunNote}</p>}
+      <div className="mt-3 grid grid-cols-2 gap-3" role="list">
+        <StatItem label="Sunrise" value={formatLocalTime(sun.rise, timeZone)} />
+        <StatItem label="Sunset" value={formatLocalTime(sun.set, timeZone)} />
+      </div>
+      <div className="mt-3 mb-2 text-[11px] font-mono text-white/50 tracking-wider">TWILIGHT · DAWN – DUSK</div>
+      <div className="grid grid-cols-3 gap-3" role="list" aria-label="Twilight, dawn to dusk">
+        {(Object.keys(TWILIGHT_ALTITUDES) as TwilightKind[]).map((kind) => {
+          const window = day.twilight[kind];
+          const value = window.allDay
+            ? `Sun ${window.allDay} ${TWILIGHT_ALTITUDES[kind].toString().replace('-', '−')}°`
+            : `${formatLocalTime(window.dawn, timeZone)} – ${formatLocalTime(window.dusk, timeZone)}`;
+          return <StatItem key={kind} label={TWILIGHT_LABELS[kind]} value={value} />;
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useOrbitStore } from '@/lib/store';
+import { useShallow } from 'zustand/react/shallow';
+import { X } from 'lucide-react';
+import { describeSmallBody } from '@/lib/smallBodies';
+import { formatMagnitude } from '@/lib/appearance';
+import { julianDayToDate } from '@/lib/kepler';
+import { StatItem, OrbitSection } from '@/components/hud/HUDPlanetPanel';
+
+const SOLAR_APSIDES = { periapsis: 'Perihelion', apoapsis: 'Aphelion' };
+
+function formatJulianDate(jd: number): string {
+  return julianDayToDate(jd).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Details of the selected asteroid or comet, laid out like HUDPlanetPanel
+ */
+export default function HUDSmallBodyPanel() {
+  const { body, currentDate, setSelectedSmallBody } = useOrbitStore(
+    useShallow((s) => ({
+      body: s.selectedSmallBody
+        ? s.smallBodies.find((candidate) => candidate.id === s.selectedSmallBody) ?? null
+        : null,
+      currentDate: s.currentDate,
+      setSelectedSmallBody: s.setSelectedSmallBody,
+    }))
+  );
+
+  const details = useMemo(() => {
+    if (!body) return null;
+    try {
+      return describeSmallBody(body, currentDate);
+    } catch {
+      return null;
+    }
+  }, [body, currentDate]);
+
+  if (!body || !details) return null;
+
+  return (
+    <aside
+      className="fixed left-4 right-4 bottom-4 z-30 md:left-auto md:right-6 md:top-24 md:bottom-auto md:w-[26rem]"
+      role="complementary"
+      aria-label={`${body.name} information panel`}
+    >
+      <div className="ui-panel ui-panel-strong max-h-[70dvh] overflow-hidden md:max-h-[calc(100dvh-8.5rem)]">
+        <div className="flex items-start justify-between gap-4 p-4">
+          <div className="min-w-0">
+            <div className="text-xs font-mono text-white/50 tracking-wider" aria-hidden="true">
+              {body.kind === 'comet' ? 'COMET' : 'ASTEROID'}
+              {body.source === 'imported' ? ' · IMPORTED' : ''}
+            </div>
+            <h2 className="truncate text-2xl font-semibold tracking-tight" id="small-body-panel-title">
+              {body.name}
+            </h2>
+            {body.id !== body.name && <div className="text-xs font-mono text-white/50">{body.id}</div>}
+          </div>
+
+          <button
+            type="button"
+            className="ui-icon-btn"
+            aria-label={`Close ${body.name} panel`}
+            onClick={() => setSelectedSmallBody(null)}
+          >
+            <X className="size-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="ui-divider" role="separator" />
+
+        <div className="max-h-[calc(70dvh-64px)] overflow-auto p-4 md:max-h-[calc(100dvh-8.5rem-64px)]">
+          <div className="grid grid-cols-2 gap-3" role="list" aria-label={`${body.name} statistics`}>
+            <StatItem label="Distance" value={`${details.distanceAu.toFixed(2)} AU`} unit="astronomical units" />
+            <StatItem label="From Earth" value={`${details.earthDistanceAu.toFixed(3)} AU`} unit="astronomical units" />
+            <StatItem label="Velocity" value={`${details.velocity.toFixed(1)} km/s`} unit="kilometers per second" />
+            <StatItem
+              label="Magnitude"
+              value={details.magnitude !== null ? formatMagnitude(details.magnitude) : '—'}
+            />
+            <StatItem
+              label="Absolute magnitude"
+              value={body.absoluteMagnitude !== null ? body.absoluteMagnitude.toFixed(2) : '—'}
+            />
+            {body.kind === 'comet' ? (
+              <StatItem label="Perihelion passage" value={formatJulianDate(body.elements.perihelionJd)} />
+            ) : (
+              <StatItem label="Elements epoch" value={formatJulianDate(body.elements.epochJd)} />
+            )}
+          </div>
+
+          <OrbitSection apsides={SOLAR_APSIDES} orbit={details.orbit} />
+
+          <p className="mt-4 text-xs text-white/50 leading-relaxed">
+            Two-body orbit from MPC elements; accuracy falls off with time from the
+            {body.kind === 'comet' ? ' perihelion passage' : ' epoch'}.
+          </p>
+        </div>
+      </div>
+    </aside>
+  );
+}
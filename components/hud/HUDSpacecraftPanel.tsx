@@ -0,0 +1,123 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useOrbitStore } from '@/lib/store';
+import { useShallow } from 'zustand/react/shallow';
+import { Rocket, X } from 'lucide-react';
+import { describeSpacecraft, getTrajectoryRange } from '@/lib/spacecraft';
+import { formatLightTime } from '@/lib/appearance';
+import { StatItem } from '@/components/hud/HUDPlanetPanel';
+
+const MS_PER_DAY = 86_400_000;
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Live position and mission details of the selected spacecraft, laid out like
+ * HUDPlanetPanel
+ */
+export default function HUDSpacecraftPanel() {
+  const { craft, currentDate, setSelectedSpacecraft } = useOrbitStore(
+    useShallow((s) => ({
+      craft: s.selectedSpacecraft
+        ? s.spacecraft.find((candidate) => candidate.id === s.selectedSpacecraft) ?? null
+        : null,
+      currentDate: s.currentDate,
+      setSelectedSpacecraft: s.setSelectedSpacecraft,
+    }))
+  );
+
+  const details = useMemo(() => (craft ? describeSpacecraft(craft, currentDate) : null), [craft, currentDate]);
+  const range = useMemo(() => (craft ? getTrajectoryRange(craft.trajectory) : null), [craft]);
+
+  if (!craft || !range) return null;
+
+  const { mission } = craft;
+  const launch = mission.launchDate ? new Date(`${mission.launchDate}T00:00:00Z`) : null;
+  const missionDay = launch ? Math.floor((currentDate.getTime() - launch.getTime()) / MS_PER_DAY) : null;
+
+  return (
+    <aside
+      className="fixed left-4 right-4 bottom-4 z-30 md:left-auto md:right-6 md:top-24 md:bottom-auto md:w-[26rem]"
+      role="complementary"
+      aria-label={`${craft.name} information panel`}
+    >
+      <div className="ui-panel ui-panel-strong max-h-[70dvh] overflow-hidden md:max-h-[calc(100dvh-8.5rem)]">
+        <div className="flex items-start justify-between gap-4 p-4">
+          <div className="min-w-0">
+            <div className="text-xs font-mono text-white/50 tracking-wider" aria-hidden="true">
+              SPACECRAFT
+              {craft.source === 'imported' ? ' · IMPORTED' : mission.agency ? ` · ${mission.agency}` : ''}
+            </div>
+            <h2 className="truncate text-2xl font-semibold tracking-tight" id="spacecraft-panel-title">
+              {craft.name}
+            </h2>
+            {mission.status && <div className="text-xs text-white/60">{mission.status}</div>}
+          </div>
+
+          <button
+            type="button"
+            className="ui-icon-btn"
+            aria-label={`Close ${craft.name} panel`}
+            onClick={() => setSelectedSpacecraft(null)}
+          >
+            <X className="size-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="ui-divider" role="separator" />
+
+        <div className="max-h-[calc(70dvh-64px)] overflow-auto p-4 md:max-h-[calc(100dvh-8.5rem-64px)]">
+          {details ? (
+            <div className="grid grid-cols-2 gap-3" role="list" aria-label={`${craft.name} statistics`}>
+              <StatItem label="Distance" value={`${details.distanceAu.toFixed(2)} AU`} unit="astronomical units" />
+              <StatItem
+                label="From Earth"
+                value={`${details.earthDistanceAu.toFixed(2)} AU`}
+                unit="astronomical units"
+              />
+              <StatItem label="Velocity" value={`${details.velocity.toFixed(1)} km/s`} unit="kilometers per second" />
+              <StatItem label="Light time" value={formatLightTime(details.lightTimeSeconds)} />
+              {launch && <StatItem label="Launched" value={formatDate(launch)} />}
+              {missionDay !== null && missionDay >= 0 && (
+                <StatItem label="Mission day" value={missionDay.toLocaleString('en-US')} />
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-white/70" role="status">
+              No trajectory data for this date. The table covers {formatDate(range.start)} to{' '}
+              {formatDate(range.end)}.
+            </p>
+          )}
+
+          {Boolean(mission.description || mission.targets?.length) && (
+            <div className="mt-4" role="region" aria-labelledby="mission-heading">
+              <div className="mb-2 flex items-center gap-2">
+                <Rocket className="size-4 text-cyan-200" aria-hidden="true" />
+                <h3 id="mission-heading" className="text-xs font-mono text-white/60 tracking-wider">
+                  MISSION
+                </h3>
+              </div>
+              {mission.description && <p className="text-sm text-white/80 leading-relaxed">{mission.description}</p>}
+              {mission.targets && mission.targets.length > 0 && (
+                <p className="mt-2 text-xs text-white/60">Targets: {mission.targets.join(', ')}</p>
+              )}
+            </div>
+          )}
+
+          <p className="mt-4 text-xs text-white/50 leading-relaxed">
+            Trajectory {formatDate(range.start)} – {formatDate(range.end)}, {craft.trajectory.jd.length} samples
+            {craft.source === 'bundled' ? ' (coarse reconstruction; import a Horizons table for precision)' : ''}.
+          </p>
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -3,18 +3,37 @@
 import { useEffect, useMemo, useRef } from 'react';
 import { useOrbitStore } from '@/lib/store';
 import { useShallow } from 'zustand/react/shallow';
-import { Pause, Play, RotateCcw } from 'lucide-react';
-
-const MAX_SPEED = 365;
-const QUICK_SPEEDS = [0, 1, 30, 365];
+import { ArrowLeftRight, Pause, Play, RotateCcw } from 'lucide-react';
+import {
+  TIME_SPEED_PRESETS,
+  TIME_SPEED_SLIDER_STEPS,
+  describeTimeSpeed,
+  formatTimeSpeed,
+  sliderValueToTimeSpeed,
+  timeSpeedToSliderValue,
+} from '@/lib/timeSpeed';
+import { getReferenceFrameLabel } from '@/lib/referenceFrames';
+
+const SLIDER_MIN = -TIME_SPEED_SLIDER_STEPS;
+const SLIDER_MAX = TIME_SPEED_SLIDER_STEPS;
 
 export default function HUDTimePanel() {
-  const { timeSpeed, currentDate, setTimeSpeed, setCurrentDate, updatePlanetPositions } = useOrbitStore(
+  const {
+    timeSpeed,
+    currentDate,
+    referenceFrame,
+    setTimeSpeed,
+    setCurrentDate,
+    setReferenceFrame,
+    updatePlanetPositions,
+  } = useOrbitStore(
     useShallow((s) => ({
       timeSpeed: s.timeSpeed,
       currentDate: s.currentDate,
+      referenceFrame: s.referenceFrame,
       setTimeSpeed: s.setTimeSpeed,
       setCurrentDate: s.setCurrentDate,
+      setReferenceFrame: s.setReferenceFrame,
       updatePlanetPositions: s.updatePlanetPositions,
     }))
   );
@@ -22,7 +41,7 @@ export default function HUDTimePanel() {
   const lastRunningSpeed = useRef<number>(30);
 
   useEffect(() => {
-    if (timeSpeed > 0) lastRunningSpeed.current = timeSpeed;
+    if (timeSpeed !== 0) lastRunningSpeed.current = timeSpeed;
   }, [timeSpeed]);
 
   const dateLabel = useMemo(() => {
@@ -37,24 +56,18 @@ export default function HUDTimePanel() {
     return formatter.format(currentDate);
   }, [currentDate]);
 
-  const speedLabel =
-    timeSpeed === 0
-      ? 'Paused'
-      : timeSpeed === 365
-        ? '1 yr / sec'
-        : `${timeSpeed} d / sec`;
-
-  const speedLabelSR =
-    timeSpeed === 0
-      ? 'Paused'
-      : timeSpeed === 365
-        ? '1 year per second'
-        : `${timeSpeed} days per second`;
+  const speedLabel = formatTimeSpeed(timeSpeed);
+  const speedLabelSR = describeTimeSpeed(timeSpeed);
+  const sliderValue = timeSpeedToSliderValue(timeSpeed);
 
   const togglePause = () => {
     setTimeSpeed(timeSpeed === 0 ? lastRunningSpeed.current : 0);
   };
 
+  const reverseDirection = () => {
+    setTimeSpeed(-(timeSpeed === 0 ? lastRunningSpeed.current : timeSpeed));
+  };
+
   return (
     <section
       className="fixed bottom-4 left-4 z-20 md:bottom-6 md:left-6"
@@ -75,6 +88,16 @@ export default function HUDTimePanel() {
             >
               {dateLabel}
             </div>
+            {referenceFrame !== 'Sun' && (
+              <button
+                type="button"
+                className="mt-1 text-[11px] font-mono tracking-wider text-amber-200/80 hover:text-amber-100"
+                aria-label={`${getReferenceFrameLabel(referenceFrame)} frame. Switch back to heliocentric`}
+                onClick={() => setReferenceFrame('Sun')}
+              >
+                {getReferenceFrameLabel(referenceFrame).toUpperCase()} FRAME ×
+              </button>
+            )}
           </div>
 
           <div className="text-right">
@@ -100,15 +123,15 @@ export default function HUDTimePanel() {
           <input
             id="time-speed-slider"
             type="range"
-            min={0}
-            max={MAX_SPEED}
+            min={SLIDER_MIN}
+            max={SLIDER_MAX}
             step={1}
-            value={timeSpeed}
-            onChange={(e) => setTimeSpeed(Number(e.target.value))}
+            value={sliderValue}
+            onChange={(e) => setTimeSpeed(sliderValueToTimeSpeed(Number(e.target.value)))}
             className="w-full h-2 rounded-lg appearance-none cursor-pointer bg-white/10 accent-cyan-400"
-            aria-valuemin={0}
-            aria-valuemax={MAX_SPEED}
-            aria-valuenow={timeSpeed}
+            aria-valuemin={SLIDER_MIN}
+            aria-valuemax={SLIDER_MAX}
+            aria-valuenow={sliderValue}
             aria-valuetext={speedLabelSR}
           />
 
@@ -137,28 +160,41 @@ export default function HUDTimePanel() {
               Now
             </button>
 
-            <div className="ml-auto flex items-center gap-1" role="group" aria-label="Quick speed presets">
-              {QUICK_SPEEDS.map((speed) => (
-                <button
-                  key={speed}
-                  type="button"
-                  className="ui-btn px-3 py-2"
-                  data-active={timeSpeed === speed}
-                  aria-label={`Set speed to ${speed === 0 ? 'paused' : speed === 365 ? '365 days per second (1 year)' : `${speed} days per second`}`}
-                  aria-pressed={timeSpeed === speed}
-                  onClick={() => setTimeSpeed(speed)}
-                >
-                  <span className="font-mono text-xs" aria-hidden="true">
-                    {speed === 0 ? '0' : speed === 365 ? '365' : speed}
-                  </span>
-                </button>
-              ))}
-            </div>
+            <button
+              type="button"
+              className="ui-btn px-3 py-2"
+              aria-label={timeSpeed < 0 ? 'Run time forwards' : 'Run time backwards'}
+              aria-pressed={timeSpeed < 0}
+              data-active={timeSpeed < 0}
+              onClick={reverseDirection}
+            >
+              <ArrowLeftRight className="size-4" aria-hidden="true" />
+              Reverse
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between gap-1" role="group" aria-label="Quick speed presets">
+            {TIME_SPEED_PRESETS.map((speed) => (
+              <button
+                key={speed}
+                type="button"
+                className="ui-btn flex-1 px-2 py-2"
+                data-active={timeSpeed === speed}
+                aria-label={`Set speed to ${speed === 0 ? 'paused' : describeTimeSpeed(speed)}`}
+                aria-pressed={timeSpeed === speed}
+                onClick={() => setTimeSpeed(speed)}
+              >
+                <span className="font-mono text-xs" aria-hidden="true">
+                  {speed < 0 ? `−${-speed}` : speed}
+                </span>
+              </button>
+            ))}
           </div>
 
           <div className="flex items-center justify-between text-xs text-white/40" aria-hidden="true">
-            <span className="font-mono">0 = pause</span>
-            <span className="font-mono">{MAX_SPEED} = 1 year/sec</span>
+            <span className="font-mono">◀ 1 century/sec</span>
+            <span className="font-mono">pause</span>
+            <span className="font-mono">1 century/sec ▶</span>
           </div>
         </div>
       </div>
@@ -3,6 +3,7 @@
 import { useOrbitStore } from '@/lib/store';
 import { useShallow } from 'zustand/react/shallow';
 import {
+  CalendarDays,
   Camera,
   CircleHelp,
   Command as CommandIcon,
@@ -21,12 +22,14 @@ export default function HUDTopBar({
   onOpenHelp,
   onOpenPalette,
   onOpenMission,
+  onOpenEvents,
   onOpenMenu,
 }: {
   onSnapshot: () => void;
   onOpenHelp: () => void;
   onOpenPalette: () => void;
   onOpenMission: () => void;
+  onOpenEvents: () => void;
   onOpenMenu: () => void;
 }) {
   const {
@@ -175,6 +178,16 @@ export default function HUDTopBar({
             <Rocket className="size-5" aria-hidden="true" />
           </button>
 
+          <button
+            type="button"
+            className="ui-icon-btn"
+            aria-label="Open upcoming events (keyboard shortcut: E)"
+            title="Upcoming events (E)"
+            onClick={onOpenEvents}
+          >
+            <CalendarDays className="size-5" aria-hidden="true" />
+          </button>
+
           <button
             type="button"
             className="ui-icon-btn"
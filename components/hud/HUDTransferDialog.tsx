@@ -0,0 +1,433 @@
+'use client';
+
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { useOrbitStore } from '@/lib/store';
+import { useFocusTrap } from '@/lib/useFocusTrap';
+import { useEphemeris } from '@/lib/useEphemeris';
+import { PLANET_ORDER, DWARF_PLANET_ORDER } from '@/lib/planets';
+import type { HeliocentricBodyName } from '@/lib/bodies';
+import {
+  estimateHohmannTransfer,
+  getDefaultTransferWindow,
+  getPorkchopTransfer,
+  type PorkchopCell,
+  type PorkchopGrid,
+  type TransferSolution,
+} from '@/lib/transfers';
+import { ChevronLeft, ChevronRight, Loader2, Rocket, X } from 'lucide-react';
+
+type PorkchopMetric = 'c3' | 'deltaV';
+
+const METRICS: readonly { value: PorkchopMetric; label: string }[] = [
+  { value: 'c3', label: 'C3' },
+  { value: 'deltaV', label: 'Δv' },
+];
+
+/** Values above this multiple of the minimum are drawn as background */
+const METRIC_SPAN: Record<PorkchopMetric, number> = { c3: 3, deltaV: 1.6 };
+
+/** Color bands between the minimum and the cut-off, read like contours */
+const COLOR_BANDS = 12;
+
+const TRANSFER_BODIES: readonly HeliocentricBodyName[] = [...PLANET_ORDER, ...DWARF_PLANET_ORDER];
+
+const PLOT_WIDTH = 520;
+const PLOT_HEIGHT = 360;
+const AXIS_LEFT = 64;
+const AXIS_BOTTOM = 28;
+
+const MS_PER_DAY = 86_400_000;
+
+const dateFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'UTC',
+  year: 'numeric',
+  month: 'short',
+  day: '2-digit',
+});
+
+const axisFormatter = new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', year: '2-digit', month: 'short' });
+
+/**
+ * Cold-to-hot ramp: band 0 (the minimum) is brightest
+ */
+function bandColor(band: number): string {
+  const t = band / (COLOR_BANDS - 1);
+  const hue = 50 + t * 200;
+  const lightness = 62 - t * 30;
+  return `hsl(${hue} 90% ${lightness}%)`;
+}
+
+function cellValue(grid: PorkchopGrid, metric: PorkchopMetric, cell: PorkchopCell): number {
+  return grid[metric][cell.arrivalIndex * grid.departureMs.length + cell.departureIndex];
+}
+
+function minCell(grid: PorkchopGrid, metric: PorkchopMetric): PorkchopCell | null {
+  return metric === 'c3' ? grid.minC3 : grid.minDeltaV;
+}
+
+function drawPorkchop(
+  canvas: HTMLCanvasElement,
+  grid: PorkchopGrid,
+  metric: PorkchopMetric,
+  selected: PorkchopCell | null
+): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = PLOT_WIDTH * ratio;
+  canvas.height = PLOT_HEIGHT * ratio;
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.clearRect(0, 0, PLOT_WIDTH, PLOT_HEIGHT);
+
+  const steps = grid.departureMs.length;
+  const plotWidth = PLOT_WIDTH - AXIS_LEFT;
+  const plotHeight = PLOT_HEIGHT - AXIS_BOTTOM;
+  const cellWidth = plotWidth / steps;
+  const cellHeight = plotHeight / steps;
+  const best = minCell(grid, metric);
+  const floor = best ? cellValue(grid, metric, best) : 0;
+  const ceiling = floor * METRIC_SPAN[metric];
+
+  // Arrival runs bottom to top, departure left to right
+  const values = grid[metric];
+  for (let row = 0; row < steps; row++) {
+    for (let col = 0; col < steps; col++) {
+      const value = values[row * steps + col];
+      if (Number.isNaN(value)) continue;
+      const band = Math.floor(((value - floor) / (ceiling - floor)) * COLOR_BANDS);
+      ctx.fillStyle = band < COLOR_BANDS ? bandColor(band) : 'rgba(255, 255, 255, 0.06)';
+      ctx.fillRect(
+        AXIS_LEFT + col * cellWidth,
+        plotHeight - (row + 1) * cellHeight,
+        Math.ceil(cellWidth),
+        Math.ceil(cellHeight)
+      );
+    }
+  }
+
+  const ring = (cell: PorkchopCell, color: string) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(
+      AXIS_LEFT + (cell.departureIndex + 0.5) * cellWidth,
+      plotHeight - (cell.arrivalIndex + 0.5) * cellHeight,
+      Math.max(cellWidth, cellHeight) * 1.2 + 2,
+      0,
+      Math.PI * 2
+    );
+    ctx.stroke();
+  };
+  if (best) ring(best, '#ffffff');
+  if (selected) ring(selected, '#fb923c');
+
+  // Axes: a handful of date ticks on each
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = '10px ui-monospace, monospace';
+  const ticks = 5;
+  for (let i = 0; i < ticks; i++) {
+    const index = Math.round((i * (steps - 1)) / (ticks - 1));
+    ctx.textAlign = i === 0 ? 'left' : i === ticks - 1 ? 'right' : 'center';
+    ctx.fillText(
+      axisFormatter.format(grid.departureMs[index]),
+      AXIS_LEFT + (index + 0.5) * cellWidth,
+      PLOT_HEIGHT - 10
+    );
+    ctx.textAlign = 'right';
+    ctx.fillText(
+      axisFormatter.format(grid.arrivalMs[index]),
+      AXIS_LEFT - 6,
+      Math.min(plotHeight - 4, Math.max(10, plotHeight - (index + 0.5) * cellHeight + 3))
+    );
+  }
+}
+
+/**
+ * Launch window planner: a porkchop plot of C3 or Δv over departure and
+ * arrival dates between two bodies. Picking a cell flies that transfer.
+ *
+ * PERFORMANCE OPTIMIZATIONS:
+ * 1. The grid is solved in the ephemeris worker and kept while a new one computes
+ * 2. Drawn to one canvas, redrawn only when the grid, metric or pick changes
+ * 3. Hover readout reads the grid; only a click solves a transfer
+ */
+export default function HUDTransferDialog({
+  open,
+  onClose,
+  onFlyTransfer,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onFlyTransfer: (transfer: TransferSolution) => void;
+}) {
+  const id = useId();
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previousFocusRef = useRef<HTMLElement | null>(null);
+  const [origin, setOrigin] = useState<HeliocentricBodyName>(
+    () => useOrbitStore.getState().transfer?.origin ?? 'Earth'
+  );
+  const [destination, setDestination] = useState<HeliocentricBodyName>(
+    () => useOrbitStore.getState().transfer?.destination ?? 'Mars'
+  );
+  const [fromMs, setFromMs] = useState(() => useOrbitStore.getState().currentDate.getTime());
+  const [metric, setMetric] = useState<PorkchopMetric>('c3');
+  const [hovered, setHovered] = useState<PorkchopCell | null>(null);
+  const [selected, setSelected] = useState<PorkchopCell | null>(null);
+
+  useFocusTrap(open, dialogRef);
+
+  useEffect(() => {
+    if (!open) return;
+    previousFocusRef.current = document.activeElement as HTMLElement;
+    closeButtonRef.current?.focus();
+  }, [open]);
+
+  const hohmann = useMemo(() => estimateHohmannTransfer(origin, destination), [origin, destination]);
+
+  const query = useMemo(
+    () => ({
+      kind: 'porkchop' as const,
+      origin,
+      destination,
+      window: getDefaultTransferWindow(origin, destination, new Date(fromMs)),
+    }),
+    [origin, destination, fromMs]
+  );
+  const result = useEphemeris(query);
+  // The previous pair's grid stays up while the new one computes, but isn't clickable
+  const grid = result && result.origin === origin && result.destination === destination ? result : null;
+  const stale = !grid || grid.departureMs[0] !== query.window.departureStartMs;
+
+  useEffect(() => setSelected(null), [query]);
+
+  useEffect(() => {
+    if (canvasRef.current && result) drawPorkchop(canvasRef.current, result, metric, stale ? null : selected);
+  }, [result, metric, selected, stale]);
+
+  const handleClose = () => {
+    onClose();
+    previousFocusRef.current?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      handleClose();
+    }
+  };
+
+  const cellAt = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>): PorkchopCell | null => {
+      if (!grid) return null;
+      const rect = event.currentTarget.getBoundingClientRect();
+      const x = ((event.clientX - rect.left) / rect.width) * PLOT_WIDTH - AXIS_LEFT;
+      const y = PLOT_HEIGHT - AXIS_BOTTOM - ((event.clientY - rect.top) / rect.height) * PLOT_HEIGHT;
+      const steps = grid.departureMs.length;
+      const departureIndex = Math.floor((x / (PLOT_WIDTH - AXIS_LEFT)) * steps);
+      const arrivalIndex = Math.floor((y / (PLOT_HEIGHT - AXIS_BOTTOM)) * steps);
+      if (departureIndex < 0 || departureIndex >= steps || arrivalIndex < 0 || arrivalIndex >= steps) return null;
+      return { departureIndex, arrivalIndex };
+    },
+    [grid]
+  );
+
+  const fly = (cell: PorkchopCell | null) => {
+    if (!grid || stale || !cell) return;
+    const transfer = getPorkchopTransfer(grid, cell);
+    if (!transfer) return;
+    setSelected(cell);
+    onFlyTransfer(transfer);
+  };
+
+  const shiftWindow = (direction: 1 | -1) => {
+    const span = query.window.departureEndMs - query.window.departureStartMs;
+    setFromMs((ms) => ms + direction * span);
+  };
+
+  const readoutCell = hovered ?? selected ?? (grid ? minCell(grid, metric) : null);
+  const readout = grid && !stale && readoutCell ? describeCell(grid, readoutCell) : null;
+  const activeMetric = METRICS.find((option) => option.value === metric)!;
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60]" onClick={handleClose} onKeyDown={handleKeyDown}>
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm hud-backdrop"
+        role="presentation"
+        aria-hidden="true"
+      />
+
+      <div className="absolute inset-0 flex items-start justify-center p-4 pt-20 md:pt-28">
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="transfer-dialog-title"
+          aria-describedby="transfer-dialog-description"
+          className="ui-panel ui-panel-strong hud-dialog w-full max-w-2xl overflow-hidden"
+          ref={dialogRef}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-start justify-between gap-6 p-6">
+            <div className="space-y-1">
+              <div className="text-xs font-mono text-white/50 tracking-wider" aria-hidden="true">
+                LAUNCH WINDOWS
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Rocket className="size-5 text-cyan-200" aria-hidden="true" />
+                <h2 id="transfer-dialog-title" className="text-2xl font-semibold tracking-tight">
+                  Interplanetary transfer
+                </h2>
+              </div>
+              <p id="transfer-dialog-description" className="text-sm text-white/75">
+                Launch energy and Δv for every departure and arrival date. Pick a cell to draw the transfer
+                and fly it. Hohmann estimate: {Math.round(hohmann.timeOfFlightDays)} days, C3{' '}
+                {hohmann.c3.toFixed(1)} km²/s², a window every {Math.round(hohmann.synodicPeriodDays)} days.
+              </p>
+            </div>
+
+            <button
+              ref={closeButtonRef}
+              type="button"
+              className="ui-icon-btn"
+              aria-label="Close interplanetary transfer"
+              onClick={handleClose}
+            >
+              <X className="size-5" aria-hidden="true" />
+            </button>
+          </div>
+
+          <div className="ui-divider" role="separator" />
+
+          <div className="max-h-[65dvh] space-y-4 overflow-auto p-6">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block space-y-1" htmlFor={`${id}-origin`}>
+                <span className="text-xs text-white/60">From</span>
+                <select
+                  id={`${id}-origin`}
+                  className="ui-input"
+                  value={origin}
+                  onChange={(event) => {
+                    const next = event.target.value as HeliocentricBodyName;
+                    if (next === destination) setDestination(origin);
+                    setOrigin(next);
+                  }}
+                >
+                  {TRANSFER_BODIES.map((body) => (
+                    <option key={body} value={body}>
+                      {body}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1" htmlFor={`${id}-destination`}>
+                <span className="text-xs text-white/60">To</span>
+                <select
+                  id={`${id}-destination`}
+                  className="ui-input"
+                  value={destination}
+                  onChange={(event) => {
+                    const next = event.target.value as HeliocentricBodyName;
+                    if (next === origin) setOrigin(destination);
+                    setDestination(next);
+                  }}
+                >
+                  {TRANSFER_BODIES.map((body) => (
+                    <option key={body} value={body}>
+                      {body}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div role="radiogroup" aria-label="Plotted quantity" className="flex items-center gap-2">
+                {METRICS.map((option) => {
+                  const active = option.value === metric;
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      role="radio"
+                      aria-checked={active}
+                      className="ui-btn px-3 py-1.5 text-xs"
+                      data-active={active}
+                      onClick={() => setMetric(option.value)}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="ui-icon-btn"
+                  aria-label="Previous launch window"
+                  onClick={() => shiftWindow(-1)}
+                >
+                  <ChevronLeft className="size-4" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  className="ui-icon-btn"
+                  aria-label="Next launch window"
+                  onClick={() => shiftWindow(1)}
+                >
+                  <ChevronRight className="size-4" aria-hidden="true" />
+                </button>
+              </div>
+            </div>
+
+            <div className="relative" aria-busy={stale}>
+              <canvas
+                ref={canvasRef}
+                role="img"
+                aria-label={`Porkchop plot of ${activeMetric.label} from ${origin} to ${destination}, departure date across, arrival date up`}
+                className="block h-auto w-full cursor-crosshair rounded-xl border border-white/10 bg-black/40"
+                style={{ aspectRatio: `${PLOT_WIDTH} / ${PLOT_HEIGHT}` }}
+                onMouseMove={(event) => setHovered(cellAt(event))}
+                onMouseLeave={() => setHovered(null)}
+                onClick={(event) => fly(cellAt(event))}
+              />
+              {stale && (
+                <div className="absolute inset-0 flex items-center justify-center gap-2 text-sm text-white/70">
+                  <Loader2 className="size-4 animate-spin" aria-hidden="true" />
+                  Solving transfers…
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3" aria-live="polite">
+              <p className="text-xs font-mono text-white/70">
+                {readout ?? (stale ? ' ' : 'No transfer for this cell.')}
+              </p>
+              <button
+                type="button"
+                className="ui-btn px-3 py-1.5 text-xs"
+                disabled={stale || !grid || !minCell(grid, metric)}
+                onClick={() => grid && fly(minCell(grid, metric))}
+              >
+                Fly lowest {activeMetric.label}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function describeCell(grid: PorkchopGrid, cell: PorkchopCell): string | null {
+  const c3 = cellValue(grid, 'c3', cell);
+  if (Number.isNaN(c3)) return null;
+  const departure = grid.departureMs[cell.departureIndex];
+  const arrival = grid.arrivalMs[cell.arrivalIndex];
+  const days = Math.round((arrival - departure) / MS_PER_DAY);
+  const deltaV = cellValue(grid, 'deltaV', cell);
+  return `${dateFormatter.format(departure)} → ${dateFormatter.format(arrival)} · ${days} d · C3 ${c3.toFixed(1)} km²/s² · Δv ${deltaV.toFixed(2)} km/s`;
+}
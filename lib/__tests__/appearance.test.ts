@@ -0,0 +1,116 @@
+/**
+ * Appearance From Earth Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeAppearance,
+  magnitudeFromAbsolute,
+  formatMagnitude,
+  formatAngularSize,
+  formatLightTime,
+  describePhase,
+  describeAppearance,
+} from '../appearance';
+import { BODY_NAMES } from '../bodies';
+
+const DATE = new Date('2025-01-10T00:00:00Z');
+
+describe('Appearance', () => {
+  it('should describe every body except Earth', () => {
+    for (const name of BODY_NAMES) {
+      const appearance = computeAppearance(name, DATE);
+      if (name === 'Earth') {
+        expect(appearance).toBeNull();
+        continue;
+      }
+      expect(appearance, name).not.toBeNull();
+      expect(Number.isFinite(appearance!.magnitude)).toBe(true);
+      expect(appearance!.illuminatedFraction).toBeGreaterThanOrEqual(0);
+      expect(appearance!.illuminatedFraction).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should show Venus near half phase at greatest elongation', () => {
+    const venus = computeAppearance('Venus', DATE)!;
+    expect(venus.elongation).toBeCloseTo(47, 0);
+    expect(venus.illuminatedFraction).toBeCloseTo(0.5, 1);
+    expect(venus.magnitude).toBeLessThan(-4.3);
+    expect(venus.angularDiameterArcsec).toBeGreaterThan(20);
+  });
+
+  it('should show Mars nearly full and bright near opposition', () => {
+    const mars = computeAppearance('Mars', DATE)!;
+    expect(mars.elongation).toBeGreaterThan(165);
+    expect(mars.illuminatedFraction).toBeGreaterThan(0.99);
+    expect(mars.magnitude).toBeLessThan(-1);
+  });
+
+  it('should include the ring tilt for Saturn only', () => {
+    const saturn = computeAppearance('Saturn', new Date('2024-01-01T00:00:00Z'))!;
+    expect(Math.abs(saturn.ringTilt!)).toBeGreaterThan(5);
+    expect(computeAppearance('Jupiter', DATE)!.ringTilt).toBeUndefined();
+  });
+
+  it('should dim Saturn as its rings close', () => {
+    const open = computeAppearance('Saturn', new Date('2017-06-15T00:00:00Z'))!;
+    const edgeOn = computeAppearance('Saturn', new Date('2025-03-23T00:00:00Z'))!;
+    expect(Math.abs(edgeOn.ringTilt!)).toBeLessThan(2);
+    // Compare at similar distances: brightness from the rings alone is worth several tenths
+    expect(open.magnitude + 5 * Math.log10(9.0 / open.earthDistanceAu)).toBeLessThan(edgeOn.magnitude);
+  });
+
+  it('should rate the Galilean moons and dwarf planets from their absolute magnitude', () => {
+    expect(computeAppearance('Ganymede', DATE)!.magnitude).toBeCloseTo(5.1, 0);
+    expect(computeAppearance('Eris', DATE)!.magnitude).toBeCloseTo(18.7, 0);
+  });
+
+  it('should give the Moon about half a degree across', () => {
+    const moon = computeAppearance('Moon', DATE)!;
+    expect(moon.angularDiameterArcsec / 60).toBeGreaterThan(29);
+    expect(moon.angularDiameterArcsec / 60).toBeLessThan(34);
+  });
+
+  describe('magnitudeFromAbsolute', () => {
+    it('should equal H at 1 AU from both Sun and Earth at zero phase', () => {
+      expect(magnitudeFromAbsolute(3.33, 1, 1, 0)).toBeCloseTo(3.33, 6);
+    });
+
+    it('should fade with phase angle', () => {
+      expect(magnitudeFromAbsolute(3.33, 1, 1, 20)).toBeGreaterThan(3.33);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format magnitudes with a true minus sign', () => {
+      expect(formatMagnitude(-4.349)).toBe('−4.3');
+      expect(formatMagnitude(14.5)).toBe('14.5');
+    });
+
+    it('should switch to arcminutes for large discs', () => {
+      expect(formatAngularSize(17.63)).toBe('17.6″');
+      expect(formatAngularSize(0.091)).toBe('0.09″');
+      expect(formatAngularSize(1872)).toBe('31.2′');
+    });
+
+    it('should format light times from seconds to hours', () => {
+      expect(formatLightTime(1.2834)).toBe('1.28 s');
+      expect(formatLightTime(499)).toBe('8 min 19 s');
+      expect(formatLightTime(15_010)).toBe('4 h 10 min');
+    });
+
+    it('should name phases', () => {
+      expect(describePhase(1)).toBe('Full');
+      expect(describePhase(0.75)).toBe('Gibbous');
+      expect(describePhase(0.5)).toBe('Quarter');
+      expect(describePhase(0.2)).toBe('Crescent');
+      expect(describePhase(0)).toBe('New');
+    });
+
+    it('should describe an appearance for screen readers', () => {
+      const text = describeAppearance(computeAppearance('Saturn', DATE)!);
+      expect(text).toMatch(/^Seen from Earth: magnitude \d\.\d, 100 percent lit \(full\), .* arcseconds across/);
+      expect(text).toMatch(/Rings tilted \d\.\d degrees\.$/);
+    });
+  });
+});
@@ -10,12 +10,24 @@ import * as Astronomy from 'astronomy-engine';
 import {
   calculatePlanetPositionCached,
   calculateOrbitalVelocityCached,
+  calculateHelioDistanceCached,
+  calculateEarthDistanceCached,
+  calculateLightTimeCached,
   getCachedHelioVector,
+  getCachedHelioState,
+  getCachedMoonState,
+  getCachedSkyPosition,
+  getCachedSkyDay,
+  getCachedAppearance,
+  getCachedOsculatingElements,
+  calculateMoonOffsetCached,
   clearAstronomyCaches,
   getCacheStats,
   batchCalculatePositions,
   ASTRONOMICAL_CONSTANTS,
 } from '../astronomy-cache';
+import { DEFAULT_OBSERVER } from '../observer';
+import { CHEBYSHEV_ERROR_BOUNDS } from '../chebyshev';
 
 describe('Astronomy Cache', () => {
   beforeEach(() => {
@@ -110,6 +122,51 @@ describe('Astronomy Cache', () => {
       expect(earthVelocity).toBeGreaterThan(28);
       expect(earthVelocity).toBeLessThan(32);
     });
+
+    it('should follow the real orbit: faster at perihelion than aphelion', () => {
+      // Mars perihelion 2022-06-21, aphelion 2023-05-30
+      const perihelion = calculateOrbitalVelocityCached('Mars', new Date('2022-06-21T00:00:00Z'));
+      const aphelion = calculateOrbitalVelocityCached('Mars', new Date('2023-05-30T00:00:00Z'));
+      expect(perihelion).toBeCloseTo(26.5, 0);
+      expect(aphelion).toBeCloseTo(22.0, 0);
+    });
+
+    it('should match the cached state vector', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const state = getCachedHelioState('Ceres', date);
+      const speed = (Math.hypot(state.vx, state.vy, state.vz) * Astronomy.KM_PER_AU) / 86_400;
+      expect(calculateOrbitalVelocityCached('Ceres', date)).toBeCloseTo(speed, 9);
+      expect(getCacheStats().helioStateCacheSize).toBe(1);
+    });
+  });
+
+  describe('calculateHelioDistanceCached', () => {
+    it('should return the live distance, not the mean', () => {
+      expect(calculateHelioDistanceCached('Mars', new Date('2022-06-21T00:00:00Z'))).toBeCloseTo(1.381, 2);
+      expect(calculateHelioDistanceCached('Mars', new Date('2023-05-30T00:00:00Z'))).toBeCloseTo(1.666, 2);
+    });
+  });
+
+  describe('calculateEarthDistanceCached', () => {
+    it('should return the distance from Earth and light time', () => {
+      const date = new Date('2025-01-12T00:00:00Z');
+      const distance = calculateEarthDistanceCached('Mars', date)!;
+      // Mars closest approach in January 2025: about 0.642 AU
+      expect(distance).toBeCloseTo(0.642, 2);
+      expect(calculateLightTimeCached('Mars', date)).toBeCloseTo(distance * 499.005, 0);
+      expect(getCacheStats().earthDistanceCacheSize).toBe(1);
+    });
+
+    it('should give the Moon a light time near 1.3 seconds', () => {
+      const seconds = calculateLightTimeCached('Moon', new Date('2024-01-01T00:00:00Z'))!;
+      expect(seconds).toBeGreaterThan(1.1);
+      expect(seconds).toBeLessThan(1.4);
+    });
+
+    it('should return null for Earth', () => {
+      expect(calculateEarthDistanceCached('Earth', new Date())).toBeNull();
+      expect(calculateLightTimeCached('Earth', new Date())).toBeNull();
+    });
   });
 
   describe('getCachedHelioVector', () => {
@@ -123,15 +180,124 @@ describe('Astronomy Cache', () => {
       expect(vector).toHaveProperty('t');
     });
 
-    it('should match direct astronomy-engine calculation', () => {
+    it('should match direct astronomy-engine calculation within the Chebyshev error bound', () => {
       const date = new Date('2024-06-21T00:00:00Z');
 
       const cached = getCachedHelioVector('Mars', date);
       const direct = Astronomy.HelioVector('Mars', date);
+      const error = Math.hypot(cached.x - direct.x, cached.y - direct.y, cached.z - direct.z);
+
+      expect(error).toBeLessThan(CHEBYSHEV_ERROR_BOUNDS.default.positionAu);
+    });
+
+    it('should keep Chebyshev tables when the caches are cleared', () => {
+      getCachedHelioVector('Mars', new Date('2024-06-21T00:00:00Z'));
+      const segments = getCacheStats().chebyshevSegmentCount;
+
+      clearAstronomyCaches();
+      expect(segments).toBeGreaterThan(0);
+      expect(getCacheStats().chebyshevSegmentCount).toBe(segments);
+    });
+  });
+
+  describe('getCachedMoonState', () => {
+    it('should match the direct moon ephemeris', () => {
+      const date = new Date('2024-02-10T00:00:00Z');
+
+      const cached = getCachedMoonState('Moon', date);
+      const direct = Astronomy.GeoMoonState(date);
 
       expect(cached.x).toBeCloseTo(direct.x, 10);
-      expect(cached.y).toBeCloseTo(direct.y, 10);
-      expect(cached.z).toBeCloseTo(direct.z, 10);
+      expect(cached.vy).toBeCloseTo(direct.vy, 10);
+    });
+
+    it('should fill the cache for sibling moons in one call', () => {
+      const date = new Date('2024-02-10T00:00:00Z');
+
+      getCachedMoonState('Io', date);
+      const stats1 = getCacheStats();
+      expect(stats1.moonStateCacheSize).toBe(4);
+
+      getCachedMoonState('Callisto', date);
+      expect(getCacheStats().moonStateCacheSize).toBe(4);
+    });
+  });
+
+  describe('getCachedSkyPosition', () => {
+    it('should return the same object for the same observer and time', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const first = getCachedSkyPosition('Jupiter', DEFAULT_OBSERVER, date);
+      const second = getCachedSkyPosition('Jupiter', { ...DEFAULT_OBSERVER }, date);
+      expect(first).not.toBeNull();
+      expect(second).toBe(first);
+    });
+
+    it('should key positions by observer location', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const london = getCachedSkyPosition('Jupiter', DEFAULT_OBSERVER, date);
+      const south = getCachedSkyPosition('Jupiter', { ...DEFAULT_OBSERVER, latitude: -45 }, date);
+      expect(south).not.toBe(london);
+      expect(south!.altitude).not.toBeCloseTo(london!.altitude, 1);
+    });
+
+    it('should return null for Earth', () => {
+      expect(getCachedSkyPosition('Earth', DEFAULT_OBSERVER, new Date())).toBeNull();
+    });
+  });
+
+  describe('getCachedSkyDay', () => {
+    it('should reuse the same day for times within one local day', () => {
+      const morning = getCachedSkyDay('Mars', DEFAULT_OBSERVER, new Date('2024-01-15T08:00:00Z'));
+      const evening = getCachedSkyDay('Mars', DEFAULT_OBSERVER, new Date('2024-01-15T20:00:00Z'));
+      expect(evening).toBe(morning);
+    });
+
+    it('should compute a new day after local midnight', () => {
+      const today = getCachedSkyDay('Mars', DEFAULT_OBSERVER, new Date('2024-01-15T20:00:00Z'));
+      const tomorrow = getCachedSkyDay('Mars', DEFAULT_OBSERVER, new Date('2024-01-16T01:00:00Z'));
+      expect(tomorrow).not.toBe(today);
+      expect(tomorrow.start.getTime()).toBe(today.end.getTime());
+    });
+  });
+
+  describe('getCachedAppearance', () => {
+    it('should return the same result within the time tolerance', () => {
+      const first = getCachedAppearance('Venus', new Date('2024-01-01T00:00:00.000Z'));
+      const second = getCachedAppearance('Venus', new Date('2024-01-01T00:00:00.010Z'));
+      expect(second).toBe(first);
+      expect(getCacheStats().appearanceCacheSize).toBe(1);
+    });
+
+    it('should return null for Earth', () => {
+      expect(getCachedAppearance('Earth', new Date())).toBeNull();
+    });
+  });
+
+  describe('getCachedOsculatingElements', () => {
+    it('should fit heliocentric elements for planets', () => {
+      const mars = getCachedOsculatingElements('Mars', new Date('2024-01-01T00:00:00Z'));
+      expect(mars.a).toBeCloseTo(1.524, 2);
+      expect(mars.e).toBeCloseTo(0.093, 2);
+      expect(mars.i).toBeCloseTo(1.85, 1);
+      expect(getCacheStats().elementsCacheSize).toBe(1);
+    });
+
+    it('should fit moons around their parent', () => {
+      const moon = getCachedOsculatingElements('Moon', new Date('2024-01-01T00:00:00Z'));
+      expect(moon.a * Astronomy.KM_PER_AU).toBeGreaterThan(370_000);
+      expect(moon.a * Astronomy.KM_PER_AU).toBeLessThan(400_000);
+      expect(moon.periodDays).toBeGreaterThan(26);
+      expect(moon.periodDays).toBeLessThan(29);
+    });
+  });
+
+  describe('calculateMoonOffsetCached', () => {
+    it('should exaggerate the Moon offset outside the Earth sphere', () => {
+      const offset = calculateMoonOffsetCached('Moon', new Date('2024-01-01T00:00:00Z'));
+      const distance = Math.sqrt(offset[0] ** 2 + offset[1] ** 2 + offset[2] ** 2);
+
+      expect(distance).toBeGreaterThan(1);
+      expect(distance).toBeLessThan(5);
     });
   });
 
@@ -185,6 +351,13 @@ describe('Astronomy Cache', () => {
       expect(statsAfter.positionCacheSize).toBe(0);
       expect(statsAfter.velocityCacheSize).toBe(0);
       expect(statsAfter.helioVectorCacheSize).toBe(0);
+      expect(statsAfter.moonStateCacheSize).toBe(0);
+      expect(statsAfter.skyPositionCacheSize).toBe(0);
+      expect(statsAfter.skyDayCacheSize).toBe(0);
+      expect(statsAfter.appearanceCacheSize).toBe(0);
+      expect(statsAfter.helioStateCacheSize).toBe(0);
+      expect(statsAfter.earthDistanceCacheSize).toBe(0);
+      expect(statsAfter.elementsCacheSize).toBe(0);
     });
   });
 
@@ -0,0 +1,378 @@
+/**
+ * Astronomy API Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  calculateBatchPositions,
+  calculateEphemeris,
+  buildEventDeepLink,
+  calculatePositions,
+  clearEphemerisCache,
+  clearEventsCache,
+  clearPositionsCache,
+  createEphemerisNdjsonStream,
+  formatEphemerisCsv,
+  formatEventsIcs,
+  MAX_BATCH_DATES,
+  parseBatchPositionsRequest,
+  parseBooleanParam,
+  parseEphemerisQuery,
+  parseEventsIcsQuery,
+  parseEventsQuery,
+  parsePositionsQuery,
+  resolveEphemerisFormat,
+  searchEvents,
+  toAPIError,
+} from '../astronomyApi';
+import { API_ERROR_CODES } from '../api-design';
+import { getCachedHelioVector } from '../astronomy-cache';
+import { CalculationError, ValidationError } from '../errors';
+import { VALID_BODIES } from '../validation';
+
+vi.mock('../astronomy-cache', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../astronomy-cache')>();
+  return { ...actual, getCachedHelioVector: vi.fn(actual.getCachedHelioVector) };
+});
+
+function query(search: string) {
+  return parsePositionsQuery(new URLSearchParams(search));
+}
+
+function errorFor(search: string) {
+  try {
+    query(search);
+  } catch (error) {
+    return toAPIError(error, 'req-1');
+  }
+  throw new Error(`Expected ${search} to be rejected`);
+}
+
+describe('Astronomy API', () => {
+  beforeEach(() => {
+    clearPositionsCache();
+    clearEphemerisCache();
+    clearEventsCache();
+  });
+
+  describe('parsePositionsQuery', () => {
+    it('should parse the date, planets and flags', () => {
+      const parsed = query('date=2025-01-01T00:00:00Z&planets=Mars, Earth,Mars&includeVelocity=true');
+
+      expect(parsed.date.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+      expect(parsed.bodies).toEqual(['Mars', 'Earth']);
+      expect(parsed.includeVelocity).toBe(true);
+      expect(parsed.includeOrbitalData).toBe(false);
+    });
+
+    it('should default to every planet and dwarf planet', () => {
+      expect(query('date=2025-01-01').bodies).toEqual(VALID_BODIES);
+    });
+
+    it('should accept bare and numeric flags', () => {
+      expect(parseBooleanParam('', 'flag')).toBe(true);
+      expect(parseBooleanParam('0', 'flag')).toBe(false);
+      expect(parseBooleanParam(null, 'flag')).toBe(false);
+    });
+  });
+
+  describe('toAPIError', () => {
+    it('should reject missing and malformed dates', () => {
+      expect(errorFor('planets=Mars').body.code).toBe(API_ERROR_CODES.INVALID_DATE);
+
+      const { status, body } = errorFor('date=yesterday');
+      expect(status).toBe(400);
+      expect(body.code).toBe(API_ERROR_CODES.INVALID_DATE);
+      expect(body.details).toMatchObject({ field: 'date', value: 'yesterday' });
+      expect(body.requestId).toBe('req-1');
+    });
+
+    it('should reject dates outside the ephemeris range', () => {
+      expect(errorFor('date=%2B012000-01-01T00:00:00Z').body.code).toBe(API_ERROR_CODES.DATE_OUT_OF_RANGE);
+    });
+
+    it('should reject unknown planets and list the valid ones', () => {
+      const { body } = errorFor('date=2025-01-01&planets=Mars,Vulcan');
+
+      expect(body.code).toBe(API_ERROR_CODES.INVALID_PLANET);
+      expect(body.details?.validBodies).toEqual(VALID_BODIES);
+    });
+
+    it('should reject flags that are not booleans', () => {
+      expect(errorFor('date=2025-01-01&includeVelocity=yes').body.code).toBe(API_ERROR_CODES.INVALID_PARAMETER);
+    });
+
+    it('should hide unexpected errors behind a generic message', () => {
+      const calculation = toAPIError(new CalculationError('Failed to calculate position for Mars', { body: 'Mars' }));
+      expect(calculation.status).toBe(500);
+      expect(calculation.body.code).toBe(API_ERROR_CODES.CALCULATION_ERROR);
+
+      const internal = toAPIError(new TypeError('x is undefined'));
+      expect(internal.body).toEqual({
+        code: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Internal server error',
+        requestId: undefined,
+      });
+    });
+  });
+
+  describe('calculatePositions', () => {
+    it('should return heliocentric positions in AU and scene units', () => {
+      const response = calculatePositions(query('date=2025-01-01T00:00:00Z&planets=Earth'));
+      const [earth] = response.planets;
+
+      expect(response.date).toBe('2025-01-01T00:00:00.000Z');
+      expect(earth.name).toBe('Earth');
+      expect(earth.distanceAU).toBeCloseTo(0.983, 2); // Near perihelion
+      expect(earth.position3D[0]).toBeCloseTo(earth.positionAU[0] * 10, 10);
+      expect(earth.position3D[2]).toBeCloseTo(-earth.positionAU[1] * 10, 10);
+      expect(earth.velocity).toBeUndefined();
+      expect(earth.orbital).toBeUndefined();
+    });
+
+    it('should include velocity and orbital data on request', () => {
+      const response = calculatePositions(
+        query('date=2025-01-01&planets=Mars&includeVelocity=1&includeOrbitalData=1')
+      );
+      const [mars] = response.planets;
+
+      expect(mars.velocity).toBeGreaterThan(21);
+      expect(mars.velocity).toBeLessThan(27);
+      expect(mars.orbital?.semiMajorAxis).toBeCloseTo(1.524, 2);
+      expect(mars.orbital?.period).toBeCloseTo(687, -1);
+    });
+
+    it('should reuse identical requests within the TTL', () => {
+      const first = calculatePositions(query('date=2025-01-01&planets=Venus'));
+      const second = calculatePositions(query('date=2025-01-01&planets=Venus'));
+      const withVelocity = calculatePositions(query('date=2025-01-01&planets=Venus&includeVelocity'));
+
+      expect(first.meta.cached).toBe(false);
+      expect(second.meta.cached).toBe(true);
+      expect(second.planets).toEqual(first.planets);
+      expect(withVelocity.meta.cached).toBe(false);
+    });
+  });
+
+  describe('batch positions', () => {
+    it('should reject malformed and oversized batches as a whole', () => {
+      expect(() => parseBatchPositionsRequest([])).toThrow(ValidationError);
+      expect(() => parseBatchPositionsRequest({ dates: [] })).toThrow(ValidationError);
+      expect(() => parseBatchPositionsRequest({ dates: ['2025-01-01'], includeVelocity: 'yes' })).toThrow(
+        ValidationError
+      );
+
+      const dates = Array.from({ length: MAX_BATCH_DATES + 1 }, () => '2025-01-01');
+      expect(() => parseBatchPositionsRequest({ dates })).toThrow(/at most/);
+
+      expect(() => parseBatchPositionsRequest({ dates: ['2025-01-01'], planets: ['Vulcan'] })).toThrow(
+        /Invalid celestial body/
+      );
+    });
+
+    it('should fail bad dates on their own and keep request order', () => {
+      const query = parseBatchPositionsRequest({
+        dates: ['2025-01-01', 'not a date', 42, '2025-07-01'],
+        planets: ['Earth'],
+      });
+      const response = calculateBatchPositions(query, 'req-2');
+      const [first, bad, wrongType, last] = response.results;
+
+      expect(response.meta).toMatchObject({ dateCount: 4, errorCount: 2 });
+      expect('planets' in first && first.planets[0].name).toBe('Earth');
+      expect('error' in bad && bad.error).toMatchObject({
+        code: API_ERROR_CODES.INVALID_DATE,
+        requestId: 'req-2',
+      });
+      expect('error' in wrongType && wrongType.date).toBe('42');
+      expect('date' in last && last.date).toBe('2025-07-01T00:00:00.000Z');
+    });
+
+    it('should share the positions cache with single requests', () => {
+      calculatePositions(query('date=2025-01-01&planets=Mars'));
+      const response = calculateBatchPositions(parseBatchPositionsRequest({ dates: ['2025-01-01'], planets: ['Mars'] }));
+      const [result] = response.results;
+
+      expect('meta' in result && result.meta.cached).toBe(true);
+    });
+  });
+
+  describe('ephemeris', () => {
+    const week = 'startDate=2025-01-01&endDate=2025-01-08';
+
+    function ephemerisError(planet: string, search: string) {
+      try {
+        parseEphemerisQuery(planet, new URLSearchParams(search));
+      } catch (error) {
+        return toAPIError(error).body;
+      }
+      throw new Error(`Expected ${search} to be rejected`);
+    }
+
+    it('should sample both ends of the range at the step', () => {
+      const ephemeris = calculateEphemeris(parseEphemerisQuery('Mars', new URLSearchParams(`${week}&stepHours=12`)));
+
+      expect(ephemeris.meta.pointCount).toBe(15);
+      expect(ephemeris.positions[1].date).toBe('2025-01-01T12:00:00.000Z');
+      expect(ephemeris.positions[14].date).toBe('2025-01-08T00:00:00.000Z');
+      expect(ephemeris.positions[0].velocity).toBeUndefined();
+    });
+
+    it('should enforce maxPoints and the range limits', () => {
+      expect(ephemerisError('Mars', `${week}&stepHours=1&maxPoints=100`)).toMatchObject({
+        code: API_ERROR_CODES.INVALID_PARAMETER,
+        details: { pointCount: 169 },
+      });
+      expect(ephemerisError('Mars', 'startDate=2025-01-08&endDate=2025-01-01').code).toBe(
+        API_ERROR_CODES.INVALID_DATE
+      );
+      expect(ephemerisError('Mars', 'startDate=1900-01-01&endDate=2100-01-01&stepHours=8784').code).toBe(
+        API_ERROR_CODES.DATE_OUT_OF_RANGE
+      );
+      expect(ephemerisError('Mars', `${week}&maxPoints=100000`).code).toBe(API_ERROR_CODES.INVALID_PARAMETER);
+      expect(ephemerisError('Vulcan', week).code).toBe(API_ERROR_CODES.INVALID_PLANET);
+    });
+
+    it('should choose the format from the parameter, then the Accept header', () => {
+      expect(resolveEphemerisFormat('CSV', 'application/json')).toBe('csv');
+      expect(resolveEphemerisFormat(null, 'text/html, application/x-ndjson;q=0.9')).toBe('ndjson');
+      expect(resolveEphemerisFormat(null, 'text/csv, application/json')).toBe('csv');
+      expect(resolveEphemerisFormat(null, null)).toBe('json');
+      expect(() => resolveEphemerisFormat('xlsx', null)).toThrow(ValidationError);
+    });
+
+    it('should write CSV rows for spreadsheets', () => {
+      const query = parseEphemerisQuery('Earth', new URLSearchParams(`${week}&includeVelocity=true`));
+      const lines = formatEphemerisCsv(calculateEphemeris(query)).trimEnd().split('\r\n');
+
+      expect(lines[0]).toBe('date,x_au,y_au,z_au,velocity_km_s');
+      expect(lines).toHaveLength(9);
+
+      const [date, x, y, z, speed] = lines[1].split(',');
+      expect(date).toBe('2025-01-01T00:00:00.000Z');
+      expect(Math.hypot(Number(x), Number(y), Number(z))).toBeCloseTo(0.983, 2);
+      expect(Number(speed)).toBeCloseTo(30.3, 0);
+    });
+
+    it('should stream the same points as NDJSON', async () => {
+      const query = parseEphemerisQuery('Venus', new URLSearchParams('startDate=2025-01-01&endDate=2026-01-01'));
+      const text = await new Response(createEphemerisNdjsonStream(query)).text();
+      const points = text.trimEnd().split('\n').map((line) => JSON.parse(line));
+
+      expect(points).toEqual(calculateEphemeris(query).positions);
+    });
+
+    it('should end the NDJSON stream with an error line when a point fails', async () => {
+      const helioVector = vi.mocked(getCachedHelioVector);
+      const original = helioVector.getMockImplementation()!;
+      const failFrom = new Date('2025-10-01T00:00:00Z');
+      helioVector.mockImplementation((body, date) => {
+        if (date >= failFrom) throw new Error('No ephemeris data');
+        return original(body, date);
+      });
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      try {
+        const query = parseEphemerisQuery('Venus', new URLSearchParams('startDate=2025-01-01&endDate=2026-01-01'));
+        const text = await new Response(createEphemerisNdjsonStream(query, 'req-1')).text();
+        const lines = text.trimEnd().split('\n').map((line) => JSON.parse(line));
+
+        expect(lines).toHaveLength(274);
+        expect(lines[272].date).toBe('2025-09-30T00:00:00.000Z');
+        expect(lines[273].error).toMatchObject({ code: API_ERROR_CODES.CALCULATION_ERROR, requestId: 'req-1' });
+      } finally {
+        helioVector.mockImplementation(original);
+        consoleError.mockRestore();
+      }
+    });
+  });
+
+  describe('events', () => {
+    const events = (search: string) => parseEventsQuery(new URLSearchParams(search));
+
+    it('should default to the year from the start of today', () => {
+      const query = parseEventsQuery(new URLSearchParams(), new Date('2025-06-15T18:30:00Z'));
+
+      expect(query.startDate.toISOString()).toBe('2025-06-15T00:00:00.000Z');
+      expect(query.endDate.toISOString()).toBe('2026-06-15T00:00:00.000Z');
+      expect(query.types).toBeUndefined();
+    });
+
+    it('should filter by event types and planets', () => {
+      const response = searchEvents(
+        events('startDate=2025-01-01&endDate=2026-01-01&eventTypes=opposition,conjunction&planets=Mars')
+      );
+
+      expect(response.meta.eventCount).toBeGreaterThan(0);
+      expect(response.events.every((event) => event.planets.includes('Mars'))).toBe(true);
+      expect(response.events.some((event) => event.type === 'opposition')).toBe(true);
+      expect(response.events.every((event) => event.type === 'opposition' || event.type === 'conjunction')).toBe(true);
+    });
+
+    it('should find transits for eventTypes=transit', () => {
+      const transits = searchEvents(events('startDate=2019-01-01&endDate=2020-01-01&eventTypes=transit'));
+
+      expect(transits.events.map((event) => event.description)).toEqual(['Transit of Mercury across the Sun']);
+    });
+
+    it('should reject unknown types, planets and inverted ranges', () => {
+      const codeFor = (search: string) => {
+        try {
+          events(search);
+        } catch (error) {
+          return toAPIError(error).body.code;
+        }
+      };
+
+      expect(codeFor('types=meteor')).toBe(API_ERROR_CODES.INVALID_PARAMETER);
+      expect(codeFor('planets=Vulcan')).toBe(API_ERROR_CODES.INVALID_PLANET);
+      expect(codeFor('startDate=2025-06-01&endDate=2025-01-01')).toBe(API_ERROR_CODES.INVALID_DATE);
+      expect(codeFor('startDate=2000-01-01&endDate=2040-01-01')).toBe(API_ERROR_CODES.DATE_OUT_OF_RANGE);
+    });
+
+    it('should deep link into the simulator paused at the event', () => {
+      const url = new URL(
+        buildEventDeepLink(
+          { type: 'opposition', date: '2025-01-16T02:38:00.000Z', planets: ['Mars'], description: 'Mars at opposition' },
+          'https://example.com'
+        )
+      );
+
+      expect(url.origin).toBe('https://example.com');
+      expect(url.searchParams.get('planet')).toBe('Mars');
+      expect(url.searchParams.get('t')).toBe(String(Date.parse('2025-01-16T02:38:00.000Z')));
+      expect(url.searchParams.get('speed')).toBe('0');
+    });
+
+    it('should write a VEVENT with the description and link for each event', () => {
+      const response = searchEvents(events('startDate=2025-01-01&endDate=2025-12-31&eventTypes=equinox,solstice'));
+      const ics = formatEventsIcs(response, 'https://example.com');
+      const unfolded = ics.replace(/\r\n /g, '');
+
+      expect(response.events).toHaveLength(4);
+      expect(unfolded.match(/BEGIN:VEVENT/g)).toHaveLength(4);
+      expect(unfolded).toContain(`SUMMARY:${response.events[0].description}`);
+      expect(unfolded).toContain(`URL:${buildEventDeepLink(response.events[0], 'https://example.com')}`);
+      expect(unfolded).toMatch(/UID:equinox:2025-03-20T\d{2}:\d{2}:\d{2}\.\d{3}Z:Earth@example\.com/);
+    });
+
+    it('should keep the iCalendar feed to four-digit years', () => {
+      const icsError = (search: string) => {
+        try {
+          parseEventsIcsQuery(new URLSearchParams(search));
+        } catch (error) {
+          return toAPIError(error).body;
+        }
+      };
+
+      expect(icsError('startDate=-000500-01-01T00:00:00Z&endDate=-000499-01-01T00:00:00Z')).toMatchObject({
+        code: API_ERROR_CODES.DATE_OUT_OF_RANGE,
+        details: { year: -500, minYear: 0, maxYear: 9999 },
+      });
+      expect(icsError('startDate=0000-06-01&endDate=0001-01-01')).toBeUndefined();
+      // The JSON endpoint still serves them
+      const query = events('startDate=-000500-01-01T00:00:00Z&endDate=-000499-01-01T00:00:00Z');
+      expect(query.startDate.getUTCFullYear()).toBe(-500);
+    });
+  });
+});
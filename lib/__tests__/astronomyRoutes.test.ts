@@ -0,0 +1,69 @@
+/**
+ * Astronomy API Route Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as getPositions } from '@/app/api/v1/astronomy/positions/route';
+import { POST as postBatchPositions } from '@/app/api/v1/astronomy/positions/batch/route';
+import { API_ERROR_CODES, FEATURE_FLAGS, isFeatureEnabled } from '../api-design';
+import { clearPositionsCache } from '../astronomyApi';
+
+vi.mock('../api-design', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../api-design')>();
+  return { ...actual, isFeatureEnabled: vi.fn(actual.isFeatureEnabled) };
+});
+
+const BASE_URL = 'http://localhost/api/v1/astronomy';
+
+function disableOrbitalData() {
+  vi.mocked(isFeatureEnabled).mockImplementation((flag) => flag !== 'enableOrbitalData' && FEATURE_FLAGS[flag]);
+}
+
+describe('Astronomy API routes', () => {
+  beforeEach(() => {
+    vi.mocked(isFeatureEnabled).mockImplementation((flag) => FEATURE_FLAGS[flag]);
+    clearPositionsCache();
+  });
+
+  describe('GET /positions', () => {
+    it('should include osculating elements when orbital data is enabled', async () => {
+      const response = await getPositions(
+        new NextRequest(`${BASE_URL}/positions?date=2025-01-01&planets=Mars&includeOrbitalData=true`)
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.planets[0].orbital.semiMajorAxis).toBeCloseTo(1.524, 2);
+    });
+
+    it('should refuse orbital data while its flag is off', async () => {
+      disableOrbitalData();
+      const response = await getPositions(
+        new NextRequest(`${BASE_URL}/positions?date=2025-01-01&planets=Mars&includeOrbitalData=true`)
+      );
+
+      expect(response.status).toBe(404);
+      expect((await response.json()).code).toBe(API_ERROR_CODES.FEATURE_DISABLED);
+      expect(response.headers.get('Cache-Control')).toBe('no-store');
+
+      const plain = await getPositions(new NextRequest(`${BASE_URL}/positions?date=2025-01-01&planets=Mars`));
+      expect(plain.status).toBe(200);
+    });
+  });
+
+  describe('POST /positions/batch', () => {
+    it('should refuse orbital data while its flag is off', async () => {
+      disableOrbitalData();
+      const response = await postBatchPositions(
+        new NextRequest(`${BASE_URL}/positions/batch`, {
+          method: 'POST',
+          body: JSON.stringify({ dates: ['2025-01-01'], planets: ['Mars'], includeOrbitalData: true }),
+        })
+      );
+
+      expect(response.status).toBe(404);
+      expect((await response.json()).code).toBe(API_ERROR_CODES.FEATURE_DISABLED);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Body Catalog Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as Astronomy from 'astronomy-engine';
+import {
+  BODY_CATALOG,
+  BODY_NAMES,
+  BODY_CATEGORIES,
+  BODY_CATEGORY_LABELS,
+  isBodyName,
+  isHeliocentricBody,
+  getBodyConfig,
+  getBodiesByCategory,
+  getOrbitalElements,
+  computeHelioVector,
+  computeHelioState,
+  getHelioPeriodDays,
+} from '../bodies';
+
+function norm(v: { x: number; y: number; z: number }) {
+  return Math.sqrt(v.x ** 2 + v.y ** 2 + v.z ** 2);
+}
+
+describe('Body Catalog', () => {
+  describe('BODY_CATALOG', () => {
+    it('should be frozen', () => {
+      expect(Object.isFrozen(BODY_CATALOG)).toBe(true);
+    });
+
+    it('should list every parent before its moons', () => {
+      for (const name of BODY_NAMES) {
+        const config = getBodyConfig(name);
+        if (config.category === 'moon') {
+          expect(BODY_NAMES.indexOf(config.parent as never)).toBeLessThan(BODY_NAMES.indexOf(name));
+        }
+      }
+    });
+
+    it('should order heliocentric bodies by distance from the Sun', () => {
+      const distances = getBodiesByCategory('planet', 'dwarf').map((name) => BODY_CATALOG[name].distance);
+      expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    });
+
+    it('should tag every body with a known category', () => {
+      for (const name of BODY_NAMES) {
+        expect(BODY_CATEGORIES).toContain(getBodyConfig(name).category);
+      }
+      expect(Object.keys(BODY_CATEGORY_LABELS)).toEqual([...BODY_CATEGORIES]);
+    });
+  });
+
+  describe('getBodiesByCategory', () => {
+    it('should return the eight planets', () => {
+      expect(getBodiesByCategory('planet')).toHaveLength(8);
+    });
+
+    it('should return the dwarf planets by distance', () => {
+      expect(getBodiesByCategory('dwarf')).toEqual(['Ceres', 'Pluto', 'Haumea', 'Makemake', 'Eris']);
+    });
+
+    it('should combine categories in catalog order', () => {
+      const names = getBodiesByCategory('planet', 'dwarf');
+      expect(names.indexOf('Ceres')).toBe(names.indexOf('Mars') + 1);
+      expect(names).not.toContain('Moon');
+    });
+  });
+
+  describe('isBodyName / isHeliocentricBody', () => {
+    it('should accept catalog bodies', () => {
+      expect(isBodyName('Eris')).toBe(true);
+      expect(isBodyName('Io')).toBe(true);
+      expect(isHeliocentricBody('Pluto')).toBe(true);
+    });
+
+    it('should reject moons as heliocentric bodies', () => {
+      expect(isHeliocentricBody('Moon')).toBe(false);
+      expect(isHeliocentricBody('Sun')).toBe(false);
+      expect(isBodyName('Sedna')).toBe(false);
+    });
+  });
+
+  describe('getOrbitalElements', () => {
+    it('should leave astronomy-engine bodies without elements', () => {
+      expect(getOrbitalElements('Earth')).toBeNull();
+      expect(getOrbitalElements('Pluto')).toBeNull();
+    });
+
+    it('should provide elements for the other dwarf planets', () => {
+      for (const name of ['Ceres', 'Haumea', 'Makemake', 'Eris'] as const) {
+        expect(getOrbitalElements(name)).not.toBeNull();
+      }
+    });
+  });
+
+  describe('computeHelioVector', () => {
+    it('should use astronomy-engine for Pluto', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const pluto = computeHelioVector('Pluto', date);
+      const direct = Astronomy.HelioVector(Astronomy.Body.Pluto, date);
+      expect(pluto.x).toBe(direct.x);
+    });
+
+    it('should place element bodies at plausible distances', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      // Eris is near aphelion this century, Ceres stays in the main belt
+      expect(norm(computeHelioVector('Eris', date))).toBeCloseTo(95.8, 0);
+      const ceres = norm(computeHelioVector('Ceres', date));
+      expect(ceres).toBeGreaterThan(2.5);
+      expect(ceres).toBeLessThan(3.0);
+    });
+
+    it('should agree with computeHelioState', () => {
+      const date = new Date('2030-05-05T00:00:00Z');
+      const vector = computeHelioVector('Haumea', date);
+      const state = computeHelioState('Haumea', date);
+      expect(vector.x).toBeCloseTo(state.x, 12);
+      expect(vector.z).toBeCloseTo(state.z, 12);
+    });
+  });
+
+  describe('getHelioPeriodDays', () => {
+    it('should cover both ephemeris sources', () => {
+      expect(getHelioPeriodDays('Pluto') / 365.25).toBeCloseTo(248, -1);
+      expect(getHelioPeriodDays('Makemake') / 365.25).toBeCloseTo(306, -1);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Chebyshev Ephemeris Table Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  evaluateChebyshevVector,
+  evaluateChebyshevState,
+  getChebyshevErrorBound,
+  getChebyshevSegmentDays,
+  getChebyshevSegmentCount,
+  clearChebyshevTables,
+  CHEBYSHEV_WINDOW_SEGMENTS,
+} from '../chebyshev';
+import { computeHelioState, computeHelioVector, getBodiesByCategory, type HeliocentricBodyName } from '../bodies';
+
+const MS_PER_DAY = 86_400_000;
+const START_MS = Date.parse('1950-01-01T00:00:00Z');
+
+const BODIES: HeliocentricBodyName[] = [...getBodiesByCategory('planet'), ...getBodiesByCategory('dwarf')];
+
+describe('Chebyshev Tables', () => {
+  beforeEach(() => {
+    clearChebyshevTables();
+  });
+
+  describe('error bound', () => {
+    it.each(BODIES)('should keep %s within its documented bound', (body) => {
+      const bound = getChebyshevErrorBound(body);
+      let positionError = 0;
+      let speedError = 0;
+
+      // 120 dates over a century, at varying offsets into their segments
+      for (let i = 0; i < 120; i++) {
+        const date = new Date(START_MS + i * 304.1 * MS_PER_DAY + i * 7919 * 60_000);
+        const fitted = evaluateChebyshevState(body, date);
+        const direct = computeHelioState(body, date);
+
+        positionError = Math.max(
+          positionError,
+          Math.hypot(fitted.x - direct.x, fitted.y - direct.y, fitted.z - direct.z)
+        );
+        speedError = Math.max(
+          speedError,
+          Math.hypot(fitted.vx - direct.vx, fitted.vy - direct.vy, fitted.vz - direct.vz) /
+            Math.hypot(direct.vx, direct.vy, direct.vz)
+        );
+      }
+
+      expect(positionError).toBeLessThan(bound.positionAu);
+      expect(speedError).toBeLessThan(bound.relativeSpeed);
+    });
+  });
+
+  describe('evaluateChebyshevVector', () => {
+    it('should agree with the state evaluation', () => {
+      const date = new Date('2024-03-01T12:00:00Z');
+      const vector = evaluateChebyshevVector('Jupiter', date);
+      const state = evaluateChebyshevState('Jupiter', date);
+
+      expect(vector.x).toBe(state.x);
+      expect(vector.y).toBe(state.y);
+      expect(vector.z).toBe(state.z);
+      expect(vector.t.date.getTime()).toBe(date.getTime());
+    });
+
+    it('should be continuous across segment boundaries', () => {
+      const segmentMs = getChebyshevSegmentDays('Mercury') * MS_PER_DAY;
+      const boundary = Math.ceil(Date.parse('2024-01-01T00:00:00Z') / segmentMs) * segmentMs;
+
+      const before = evaluateChebyshevVector('Mercury', new Date(boundary - 1));
+      const after = evaluateChebyshevVector('Mercury', new Date(boundary));
+      const direct = computeHelioVector('Mercury', new Date(boundary));
+
+      expect(Math.hypot(before.x - after.x, before.y - after.y, before.z - after.z)).toBeLessThan(1e-8);
+      expect(Math.hypot(after.x - direct.x, after.y - direct.y, after.z - direct.z)).toBeLessThan(1e-8);
+    });
+  });
+
+  describe('window', () => {
+    it('should fit segments lazily', () => {
+      expect(getChebyshevSegmentCount()).toBe(0);
+
+      const date = new Date('2024-01-01T00:00:00Z');
+      evaluateChebyshevVector('Mars', date);
+      evaluateChebyshevVector('Mars', new Date(date.getTime() + MS_PER_DAY));
+      expect(getChebyshevSegmentCount()).toBe(1);
+    });
+
+    it('should drop segments that fall behind as the date slides', () => {
+      const segmentMs = getChebyshevSegmentDays('Mercury') * MS_PER_DAY;
+      const start = Date.parse('2024-01-01T00:00:00Z');
+
+      // High-speed playback through many segments
+      for (let i = 0; i < 4 * CHEBYSHEV_WINDOW_SEGMENTS; i++) {
+        evaluateChebyshevVector('Mercury', new Date(start + i * segmentMs));
+      }
+
+      expect(getChebyshevSegmentCount()).toBeLessThanOrEqual(2 * CHEBYSHEV_WINDOW_SEGMENTS + 2);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Comet Tail Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  COMET_PARTICLE_COUNTS,
+  TAIL_MAX_AU,
+  createParticleTemplate,
+  getCometActivity,
+  getTailAxes,
+  layoutParticles,
+  shadeParticles,
+} from '../cometTails';
+
+function dot(a: readonly number[], b: readonly number[]) {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+describe('Comet Tails', () => {
+  describe('getCometActivity', () => {
+    it('should switch tails off beyond TAIL_MAX_AU', () => {
+      expect(getCometActivity(TAIL_MAX_AU)).toEqual({ brightness: 0, ionLength: 0, dustLength: 0, comaRadius: 0 });
+      expect(getCometActivity(30).brightness).toBe(0);
+    });
+
+    it('should grow and brighten toward the Sun', () => {
+      const far = getCometActivity(4);
+      const mid = getCometActivity(2);
+      const near = getCometActivity(0.6);
+
+      expect(far.brightness).toBeGreaterThan(0);
+      expect(mid.brightness).toBeGreaterThan(far.brightness);
+      expect(near.brightness).toBeGreaterThan(mid.brightness);
+      expect(mid.ionLength).toBeGreaterThan(far.ionLength);
+      expect(near.ionLength).toBeGreaterThan(mid.ionLength);
+      expect(near.comaRadius).toBeGreaterThan(mid.comaRadius);
+      // The ion tail outruns the dust tail
+      expect(near.ionLength).toBeGreaterThan(near.dustLength);
+    });
+  });
+
+  describe('getTailAxes', () => {
+    it('should point away from the Sun and back along the orbit', () => {
+      const axes = getTailAxes([10, 0, 0], [0.3, 0, 1]);
+
+      expect(axes.antiSun).toEqual([1, 0, 0]);
+      expect(dot(axes.trailing, axes.antiSun)).toBeCloseTo(0, 10);
+      expect(axes.trailing[2]).toBeCloseTo(-1, 10);
+      expect(dot(axes.normal, axes.antiSun)).toBeCloseTo(0, 10);
+      expect(dot(axes.normal, axes.trailing)).toBeCloseTo(0, 10);
+    });
+
+    it('should still give a frame for purely radial motion', () => {
+      const axes = getTailAxes([0, 0, 5], [0, 0, 2]);
+      expect(Math.hypot(...axes.trailing)).toBeCloseTo(1, 10);
+      expect(dot(axes.trailing, axes.antiSun)).toBeCloseTo(0, 10);
+    });
+  });
+
+  describe('createParticleTemplate', () => {
+    it('should size templates from COMET_PARTICLE_COUNTS', () => {
+      const counts = COMET_PARTICLE_COUNTS.low;
+      expect(createParticleTemplate('coma', counts.coma)).toHaveLength(counts.coma * 3);
+      expect(createParticleTemplate('dust', counts.dust)).toHaveLength(counts.dust * 3);
+      expect(COMET_PARTICLE_COUNTS.high.dust).toBeGreaterThan(COMET_PARTICLE_COUNTS.balanced.dust);
+      expect(COMET_PARTICLE_COUNTS.balanced.dust).toBeGreaterThan(COMET_PARTICLE_COUNTS.low.dust);
+    });
+
+    it('should be deterministic', () => {
+      expect(createParticleTemplate('ion', 50)).toEqual(createParticleTemplate('ion', 50));
+      expect(createParticleTemplate('ion', 50, 2)).not.toEqual(createParticleTemplate('ion', 50));
+    });
+  });
+
+  describe('layoutParticles', () => {
+    const axes = getTailAxes([10, 0, 0], [0, 0, 1]);
+    const activity = getCometActivity(1);
+
+    it('should stream the ion tail straight away from the Sun', () => {
+      const template = createParticleTemplate('ion', 200);
+      const offsets = new Float32Array(template.length);
+      layoutParticles(offsets, template, 'ion', axes, activity);
+
+      for (let i = 0; i < offsets.length; i += 3) {
+        expect(offsets[i]).toBeGreaterThanOrEqual(0);
+        expect(offsets[i]).toBeLessThanOrEqual(activity.ionLength + 1e-5);
+        expect(Math.abs(offsets[i + 2])).toBeLessThan(activity.ionLength * 0.1);
+      }
+    });
+
+    it('should bend the dust tail back along the orbit', () => {
+      const template = createParticleTemplate('dust', 400);
+      const offsets = new Float32Array(template.length);
+      layoutParticles(offsets, template, 'dust', axes, activity);
+
+      let trailing = 0;
+      for (let i = 0; i < offsets.length; i += 3) trailing += dot([offsets[i], offsets[i + 1], offsets[i + 2]], axes.trailing);
+      expect(trailing / 400).toBeGreaterThan(0);
+    });
+
+    it('should keep the coma within its radius', () => {
+      const template = createParticleTemplate('coma', 100);
+      const offsets = new Float32Array(template.length);
+      layoutParticles(offsets, template, 'coma', axes, activity);
+
+      for (let i = 0; i < offsets.length; i += 3) {
+        expect(Math.hypot(offsets[i], offsets[i + 1], offsets[i + 2])).toBeLessThanOrEqual(activity.comaRadius + 1e-5);
+      }
+    });
+  });
+
+  describe('shadeParticles', () => {
+    it('should dim colours with the comet brightness', () => {
+      const template = createParticleTemplate('ion', 10);
+      const bright = new Float32Array(template.length);
+      const faint = new Float32Array(template.length);
+      shadeParticles(bright, template, [1, 1, 1], 1);
+      shadeParticles(faint, template, [1, 1, 1], 0.25);
+
+      for (let i = 0; i < bright.length; i++) {
+        expect(faint[i]).toBeCloseTo(bright[i] * 0.25, 6);
+      }
+    });
+  });
+});
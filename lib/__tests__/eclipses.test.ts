@@ -0,0 +1,115 @@
+/**
+ * Eclipse Prediction Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  searchEclipses,
+  eclipseToEvent,
+  describeEclipseKind,
+  computeEclipseShadows,
+  describeEclipseInProgress,
+} from '../eclipses';
+import { ValidationError } from '../errors';
+
+const MINUTE_MS = 60_000;
+
+function near(date: Date, expected: string, toleranceMinutes: number): boolean {
+  return Math.abs(date.getTime() - Date.parse(expected)) <= toleranceMinutes * MINUTE_MS;
+}
+
+describe('Eclipses', () => {
+  const eclipses = searchEclipses(new Date('2024-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z'));
+
+  it('should find every eclipse in the range, sorted by peak', () => {
+    expect(eclipses.map((e) => `${e.kind} ${e.body}`)).toEqual([
+      'penumbral lunar',
+      'total solar',
+      'partial lunar',
+      'annular solar',
+      'total lunar',
+      'partial solar',
+      'total lunar',
+      'partial solar',
+    ]);
+  });
+
+  it('should report the peak and path of a central solar eclipse', () => {
+    const april = eclipses[1];
+    expect(near(april.peak, '2024-04-08T18:17:00Z', 5)).toBe(true);
+    expect(april.latitude).toBeCloseTo(25.3, 0);
+    expect(april.longitude).toBeCloseTo(-104.1, 0);
+    expect(april.visibility).toBe(
+      'Greatest eclipse at 25.3° N, 104.1° W; partial across a wide area around the path of totality'
+    );
+  });
+
+  it('should name the hemisphere for partial solar eclipses', () => {
+    expect(eclipses[5].latitude).toBeNull();
+    expect(eclipses[5].visibility).toBe('Partial from high northern latitudes');
+    expect(eclipses[7].visibility).toBe('Partial from high southern latitudes');
+  });
+
+  it('should give lunar eclipses contacts and the length of the deepest phase', () => {
+    const march = eclipses[4];
+    expect(near(march.peak, '2025-03-14T06:59:00Z', 5)).toBe(true);
+    expect(march.start!.getTime()).toBeLessThan(march.peak.getTime());
+    expect(march.end!.getTime()).toBeGreaterThan(march.peak.getTime());
+    expect(march.visibility).toMatch(/^Night side of Earth; Moon overhead at .*\. Totality lasts 6\d min$/);
+  });
+
+  it('should convert eclipses to events', () => {
+    const event = eclipseToEvent(eclipses[4]);
+    expect(event.type).toBe('eclipse');
+    expect(event.date).toBe(eclipses[4].peak.toISOString());
+    expect(event.planets).toEqual(['Moon', 'Earth']);
+    expect(event.description).toBe('Total lunar eclipse');
+    expect(event.visibility?.duration).toMatch(/^\d+ min$/);
+  });
+
+  it('should reject reversed and invalid ranges', () => {
+    expect(() => searchEclipses(new Date('2025-01-01'), new Date('2024-01-01'))).toThrow(ValidationError);
+    expect(() => searchEclipses(new Date('nope'), new Date('2024-01-01'))).toThrow(ValidationError);
+  });
+
+  describe('describeEclipseKind', () => {
+    it('should capitalize the kind', () => {
+      expect(describeEclipseKind('solar', 'annular')).toBe('Annular solar eclipse');
+    });
+  });
+
+  describe('computeEclipseShadows', () => {
+    it('should put the Moon inside the umbra during a total lunar eclipse', () => {
+      const shadows = computeEclipseShadows(eclipses[4].peak);
+      expect(shadows.lunar).toBe('total');
+      expect(shadows.solar).toBeNull();
+      expect(shadows.earthShadow.umbraRadiusKm).toBeGreaterThan(shadows.earthShadow.offsetKm);
+      expect(describeEclipseInProgress(shadows)).toBe('Total lunar eclipse in progress.');
+    });
+
+    it('should tell total from annular solar eclipses by the umbra tip', () => {
+      const total = computeEclipseShadows(eclipses[1].peak);
+      expect(total.solar).toBe('total');
+      expect(total.moonShadow.umbraRadiusKm).toBeGreaterThan(0);
+
+      const annular = computeEclipseShadows(eclipses[3].peak);
+      expect(annular.solar).toBe('annular');
+      expect(annular.moonShadow.umbraRadiusKm).toBeLessThan(0);
+    });
+
+    it('should report no eclipse away from eclipse seasons', () => {
+      const shadows = computeEclipseShadows(new Date('2024-06-01T00:00:00Z'));
+      expect(shadows.lunar).toBeNull();
+      expect(shadows.solar).toBeNull();
+      expect(describeEclipseInProgress(shadows)).toBeNull();
+    });
+
+    it('should point the shadow axes away from the Sun', () => {
+      const { earthShadow, moonShadow } = computeEclipseShadows(eclipses[1].peak);
+      expect(Math.hypot(...earthShadow.axis)).toBeCloseTo(1, 6);
+      // During a solar eclipse the Moon sits between the Sun and Earth, so both axes agree
+      const dot = earthShadow.axis.reduce((sum, v, i) => sum + v * moonShadow.axis[i], 0);
+      expect(dot).toBeGreaterThan(0.999);
+    });
+  });
+});
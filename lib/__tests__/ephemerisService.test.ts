@@ -0,0 +1,159 @@
+/**
+ * Ephemeris Service Tests
+ *
+ * The worker is replaced by an in-process one running the real worker-side
+ * handler, so the protocol is exercised end to end without a Worker.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  calculateAllPlanets,
+  createEphemerisWorkerHandler,
+  type EphemerisWorkerMessage,
+  type EphemerisWorkerResponse,
+} from '../ephemeris';
+import {
+  createEphemerisService,
+  getEphemerisService,
+  type EphemerisWorkerLike,
+} from '../ephemerisService';
+import { computeOrbitPath } from '../orbitPaths';
+import { CalculationError } from '../errors';
+import { DEFAULT_OBSERVER } from '../observer';
+
+const DATE_MS = Date.parse('2024-01-01T00:00:00Z');
+
+function createInProcessWorker() {
+  const messages: EphemerisWorkerMessage[] = [];
+  const responses: EphemerisWorkerResponse[] = [];
+
+  const worker: EphemerisWorkerLike = {
+    onmessage: null,
+    onerror: null,
+    terminate: vi.fn(),
+    postMessage(message) {
+      messages.push(message);
+      handle(message);
+    },
+  };
+
+  const handle = createEphemerisWorkerHandler((response) => {
+    responses.push(response);
+    worker.onmessage?.({ data: response } as MessageEvent<EphemerisWorkerResponse>);
+  });
+
+  return { worker, messages, responses };
+}
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Ephemeris Service', () => {
+  describe('without a worker', () => {
+    it('should run queries on the main thread', async () => {
+      const service = createEphemerisService(null);
+      expect(service.mode).toBe('sync');
+
+      const planets = await service.request({ kind: 'planets', dateMs: DATE_MS, observer: DEFAULT_OBSERVER });
+      const expected = calculateAllPlanets(new Date(DATE_MS), DEFAULT_OBSERVER);
+      expect(planets.get('Mars')?.position).toEqual(expected.get('Mars')?.position);
+    });
+
+    it('should reject queries whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        createEphemerisService(null).request(
+          { kind: 'orbitPath', body: 'Mars', epochMs: DATE_MS },
+          { signal: controller.signal }
+        )
+      ).rejects.toBeDefined();
+    });
+
+    it('should fall back to the main thread where Worker is unavailable', () => {
+      expect(getEphemerisService().mode).toBe('sync');
+    });
+  });
+
+  describe('with a worker', () => {
+    it('should post queries made in the same tick as one batch', async () => {
+      const { worker, messages } = createInProcessWorker();
+      const service = createEphemerisService(worker);
+      expect(service.mode).toBe('worker');
+
+      const results = await Promise.all([
+        service.request({ kind: 'orbitPath', body: 'Mars', epochMs: DATE_MS }),
+        service.request({ kind: 'orbitPath', body: 'Venus', epochMs: DATE_MS }),
+        service.request({ kind: 'moonOrbitPath', body: 'Moon', epochMs: DATE_MS }),
+      ]);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].type).toBe('batch');
+      expect(results[0]).toEqual(computeOrbitPath('Mars', new Date(DATE_MS)));
+      expect(results[2]).toBeInstanceOf(Float32Array);
+    });
+
+    it('should drop a cancelled query before it is posted', async () => {
+      const { worker, messages } = createInProcessWorker();
+      const service = createEphemerisService(worker);
+      const controller = new AbortController();
+
+      const kept = service.request({ kind: 'orbitPath', body: 'Mars', epochMs: DATE_MS });
+      const cancelled = service.request(
+        { kind: 'orbitPath', body: 'Venus', epochMs: DATE_MS },
+        { signal: controller.signal }
+      );
+      controller.abort();
+
+      await expect(cancelled).rejects.toBeDefined();
+      await kept;
+      expect(messages).toHaveLength(1);
+      expect(messages[0].type === 'batch' && messages[0].jobs).toHaveLength(1);
+    });
+
+    it('should skip a cancelled query the worker has not started', async () => {
+      const { worker, messages, responses } = createInProcessWorker();
+      const service = createEphemerisService(worker);
+      const controller = new AbortController();
+
+      const kept = service.request({ kind: 'orbitPath', body: 'Mars', epochMs: DATE_MS });
+      const cancelled = service.request(
+        { kind: 'orbitPath', body: 'Venus', epochMs: DATE_MS },
+        { signal: controller.signal }
+      );
+
+      // Let the batch go out, then cancel while both jobs are queued
+      await Promise.resolve();
+      controller.abort();
+
+      await expect(cancelled).rejects.toBeDefined();
+      await kept;
+      await nextTask();
+      await nextTask();
+
+      expect(messages.map((m) => m.type)).toEqual(['batch', 'cancel']);
+      expect(responses).toHaveLength(1);
+    });
+
+    it('should switch to the main thread when the worker fails', async () => {
+      const worker: EphemerisWorkerLike = {
+        onmessage: null,
+        onerror: null,
+        terminate: vi.fn(),
+        postMessage: vi.fn(),
+      };
+      const service = createEphemerisService(worker);
+
+      const pending = service.request({ kind: 'orbitPath', body: 'Mars', epochMs: DATE_MS });
+      await Promise.resolve();
+      worker.onerror?.({ message: 'boom', preventDefault: vi.fn() } as unknown as ErrorEvent);
+
+      await expect(pending).rejects.toBeInstanceOf(CalculationError);
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(service.mode).toBe('sync');
+      await expect(
+        service.request({ kind: 'orbitPath', body: 'Mars', epochMs: DATE_MS })
+      ).resolves.toBeInstanceOf(Float32Array);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Astronomical Events Engine Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  searchAstronomicalEvents,
+  searchUpcomingEvents,
+  getEventKey,
+  EVENT_SEARCH_MAX_DAYS,
+  UPCOMING_EVENTS_DAYS,
+} from '../events';
+import { ValidationError } from '../errors';
+
+const START = new Date('2024-01-01T00:00:00Z');
+const END = new Date('2025-01-01T00:00:00Z');
+const HOUR_MS = 3_600_000;
+
+function near(date: string, expected: string, toleranceHours: number): boolean {
+  return Math.abs(Date.parse(date) - Date.parse(expected)) <= toleranceHours * HOUR_MS;
+}
+
+describe('Astronomical Events', () => {
+  const events2024 = searchAstronomicalEvents(START, END);
+
+  it('should return events sorted by date inside the range', () => {
+    const times = events2024.map((event) => Date.parse(event.date));
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(times[0]).toBeGreaterThanOrEqual(START.getTime());
+    expect(times[times.length - 1]).toBeLessThanOrEqual(END.getTime());
+  });
+
+  it('should give every event a unique key', () => {
+    const keys = new Set(events2024.map(getEventKey));
+    expect(keys.size).toBe(events2024.length);
+  });
+
+  it('should find oppositions of the outer planets', () => {
+    const saturn = events2024.find((e) => e.type === 'opposition' && e.planets[0] === 'Saturn');
+    expect(saturn && near(saturn.date, '2024-09-08T04:00:00Z', 12)).toBe(true);
+    const jupiter = events2024.find((e) => e.type === 'opposition' && e.planets[0] === 'Jupiter');
+    expect(jupiter && near(jupiter.date, '2024-12-07T21:00:00Z', 12)).toBe(true);
+  });
+
+  it('should distinguish inferior and superior conjunctions', () => {
+    const venus = events2024.filter((e) => e.type === 'conjunction' && e.planets.length === 1 && e.planets[0] === 'Venus');
+    expect(venus).toHaveLength(1);
+    expect(venus[0].description).toBe('Venus at superior conjunction with the Sun');
+    expect(near(venus[0].date, '2024-06-04T15:00:00Z', 12)).toBe(true);
+  });
+
+  it('should find greatest elongations with their visibility', () => {
+    const mercury = events2024.filter((e) => e.type === 'elongation' && e.planets[0] === 'Mercury');
+    expect(mercury).toHaveLength(7);
+    const march = mercury.find((e) => e.date.startsWith('2024-03'));
+    expect(march?.description).toContain('eastern');
+    expect(march?.visibility?.bestLocation).toMatch(/Evening/);
+  });
+
+  it('should find planet-planet conjunctions', () => {
+    const pair = events2024.find(
+      (e) => e.type === 'conjunction' && e.planets.includes('Jupiter') && e.planets.includes('Uranus')
+    );
+    expect(pair && near(pair.date, '2024-04-21T00:00:00Z', 24)).toBe(true);
+    expect(pair?.description).toMatch(/0\.\d° apart/);
+  });
+
+  it('should find perihelion and aphelion', () => {
+    const earth = events2024.filter((e) => e.planets[0] === 'Earth' && (e.type === 'perihelion' || e.type === 'aphelion'));
+    expect(earth.map((e) => e.type)).toEqual(['perihelion', 'aphelion']);
+    expect(near(earth[0].date, '2024-01-03T01:00:00Z', 12)).toBe(true);
+  });
+
+  it('should find equinoxes and solstices', () => {
+    const seasons = events2024.filter((e) => e.type === 'equinox' || e.type === 'solstice');
+    expect(seasons.map((e) => e.description)).toEqual([
+      'March equinox',
+      'June solstice',
+      'September equinox',
+      'December solstice',
+    ]);
+    expect(near(seasons[0].date, '2024-03-20T03:06:00Z', 1)).toBe(true);
+  });
+
+  it('should include solar and lunar eclipses', () => {
+    const eclipses = events2024.filter((e) => e.type === 'eclipse');
+    expect(eclipses.map((e) => e.description)).toEqual([
+      'Penumbral lunar eclipse',
+      'Total solar eclipse',
+      'Partial lunar eclipse',
+      'Annular solar eclipse',
+    ]);
+    expect(eclipses[1].planets).toEqual(['Earth', 'Moon']);
+  });
+
+  it('should find transits of Mercury and Venus', () => {
+    const events = searchAstronomicalEvents(new Date('2012-01-01T00:00:00Z'), new Date('2020-01-01T00:00:00Z'), {
+      types: ['transit'],
+    });
+    expect(events.map((e) => e.planets[0])).toEqual(['Venus', 'Mercury', 'Mercury']);
+    expect(near(events[0].date, '2012-06-06T01:29:00Z', 1)).toBe(true);
+    expect(near(events[2].date, '2019-11-11T15:20:00Z', 1)).toBe(true);
+    expect(events[2].description).toBe('Transit of Mercury across the Sun');
+    expect(events[2].visibility?.duration).toMatch(/^32\d min$/);
+    expect(events2024.some((e) => e.type === 'transit')).toBe(false);
+  });
+
+  describe('filters', () => {
+    it('should only return the requested types', () => {
+      const events = searchAstronomicalEvents(START, END, { types: ['opposition'] });
+      expect(events.length).toBeGreaterThan(0);
+      expect(events.every((e) => e.type === 'opposition')).toBe(true);
+    });
+
+    it('should only return events involving the requested planets', () => {
+      const events = searchAstronomicalEvents(START, END, { planets: ['Mars'] });
+      expect(events.length).toBeGreaterThan(0);
+      expect(events.every((e) => e.planets.includes('Mars'))).toBe(true);
+    });
+
+    it('should widen planet-pair conjunctions with maxSeparationDeg', () => {
+      const narrow = searchAstronomicalEvents(START, END, { types: ['conjunction'], maxSeparationDeg: 1 });
+      const wide = searchAstronomicalEvents(START, END, { types: ['conjunction'], maxSeparationDeg: 5 });
+      expect(wide.length).toBeGreaterThan(narrow.length);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject reversed ranges', () => {
+      expect(() => searchAstronomicalEvents(END, START)).toThrow(ValidationError);
+    });
+
+    it('should reject ranges that are too long', () => {
+      const end = new Date(START.getTime() + (EVENT_SEARCH_MAX_DAYS + 1) * 86_400_000);
+      expect(() => searchAstronomicalEvents(START, end)).toThrow(ValidationError);
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => searchAstronomicalEvents(new Date('nope'), END)).toThrow(ValidationError);
+    });
+  });
+
+  describe('searchUpcomingEvents', () => {
+    it('should cover the year after the date', () => {
+      const events = searchUpcomingEvents(START, { types: ['equinox', 'solstice'] });
+      expect(events).toHaveLength(4);
+      const last = Date.parse(events[events.length - 1].date);
+      expect(last - START.getTime()).toBeLessThanOrEqual(UPCOMING_EVENTS_DAYS * 86_400_000);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * iCalendar Writer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeIcsText, foldIcsLine, formatICalendar, formatIcsDate } from '../icalendar';
+
+const encoder = new TextEncoder();
+
+describe('iCalendar writer', () => {
+  it('should escape text values', () => {
+    expect(escapeIcsText('Mars; Jupiter, Saturn\\\nand more')).toBe(String.raw`Mars\; Jupiter\, Saturn\\\nand more`);
+  });
+
+  it('should write UTC timestamps without separators', () => {
+    expect(formatIcsDate(new Date('2025-03-20T09:01:25.123Z'))).toBe('20250320T090125Z');
+  });
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const line = `DESCRIPTION:${'Venus 45.9° from the Sun '.repeat(8)}`;
+    const folded = foldIcsLine(line).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    for (const part of folded) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(folded.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+    expect(foldIcsLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+  });
+
+  it('should wrap events in a calendar with CRLF line endings', () => {
+    const ics = formatICalendar(
+      [
+        {
+          uid: 'opposition:2025-01-16T02:38:00.000Z:Mars@example.com',
+          start: new Date('2025-01-16T02:38:00Z'),
+          summary: 'Mars at opposition',
+          url: 'https://example.com/?t=1',
+          categories: ['opposition'],
+        },
+      ],
+      { productId: '-//Test//EN', name: 'Test', refreshHours: 24, generatedAt: new Date('2025-01-01T00:00:00Z') }
+    );
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT24H');
+    expect(lines).toContain('DTSTART:20250116T023800Z');
+    expect(lines).toContain('DTSTAMP:20250101T000000Z');
+    expect(lines).toContain('CATEGORIES:opposition');
+    expect(lines.at(-2)).toBe('END:VCALENDAR');
+    expect(ics).not.toMatch(/[^\r]\n/);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Two-Body Propagation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as Astronomy from 'astronomy-engine';
+import {
+  propagateElements,
+  solveKepler,
+  getEccentricAnomaly,
+  getElementsPeriodDays,
+  dateToJulianDay,
+  stateToElements,
+  positionAtTrueAnomaly,
+  propagatePerihelionElements,
+  solveHyperbolicKepler,
+  SUN_GM_AU3_PER_DAY2,
+  type OrbitalElements,
+  type PerihelionElements,
+} from '../kepler';
+
+// Earth-Moon barycenter mean elements at J2000 (Standish, JPL)
+const EARTH_ELEMENTS: OrbitalElements = {
+  epochJd: 2451545.0,
+  a: 1.00000261,
+  e: 0.01671123,
+  i: 0,
+  node: 0,
+  argPeri: 102.93768193,
+  meanAnomaly: -2.47311027,
+};
+
+const CERES_LIKE: OrbitalElements = {
+  epochJd: 2459600.5,
+  a: 2.7675,
+  e: 0.0785,
+  i: 10.5868,
+  node: 80.2686,
+  argPeri: 73.6383,
+  meanAnomaly: 291.4,
+};
+
+function norm(v: { x: number; y: number; z: number }) {
+  return Math.sqrt(v.x ** 2 + v.y ** 2 + v.z ** 2);
+}
+
+describe('Kepler Propagation', () => {
+  describe('dateToJulianDay', () => {
+    it('should convert the J2000 epoch', () => {
+      expect(dateToJulianDay(new Date('2000-01-01T12:00:00Z'))).toBe(2451545.0);
+    });
+  });
+
+  describe('solveKepler', () => {
+    it('should satisfy Kepler equation', () => {
+      for (const e of [0, 0.1, 0.5, 0.9, 0.99]) {
+        for (const M of [-3, -1, 0.1, 1, 2.5, 3.1]) {
+          const E = solveKepler(M, e);
+          expect(E - e * Math.sin(E)).toBeCloseTo(M, 10);
+        }
+      }
+    });
+
+    it('should wrap mean anomalies outside -pi..pi', () => {
+      const E = solveKepler(2 * Math.PI + 1, 0.2);
+      expect(E - 0.2 * Math.sin(E)).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('getElementsPeriodDays', () => {
+    it('should follow Kepler third law', () => {
+      expect(getElementsPeriodDays(EARTH_ELEMENTS)).toBeCloseTo(365.256, 1);
+      expect(getElementsPeriodDays(CERES_LIKE) / 365.25).toBeCloseTo(4.6, 1);
+    });
+  });
+
+  describe('propagateElements', () => {
+    it('should match astronomy-engine for Earth mean elements', () => {
+      const date = new Date('2000-04-10T12:00:00Z');
+      const state = propagateElements(EARTH_ELEMENTS, date);
+      const earth = Astronomy.HelioVector(Astronomy.Body.Earth, date);
+
+      expect(state.x).toBeCloseTo(earth.x, 2);
+      expect(state.y).toBeCloseTo(earth.y, 2);
+      expect(state.z).toBeCloseTo(earth.z, 2);
+    });
+
+    it('should keep the radius between perihelion and aphelion', () => {
+      const { a, e } = CERES_LIKE;
+      for (let year = 2000; year <= 2030; year += 3) {
+        const r = norm(propagateElements(CERES_LIKE, new Date(`${year}-06-01T00:00:00Z`)));
+        expect(r).toBeGreaterThanOrEqual(a * (1 - e) - 1e-9);
+        expect(r).toBeLessThanOrEqual(a * (1 + e) + 1e-9);
+      }
+    });
+
+    it('should satisfy the vis-viva equation', () => {
+      const state = propagateElements(CERES_LIKE, new Date('2024-01-01T00:00:00Z'));
+      const r = norm(state);
+      const v2 = state.vx ** 2 + state.vy ** 2 + state.vz ** 2;
+      expect(v2).toBeCloseTo(SUN_GM_AU3_PER_DAY2 * (2 / r - 1 / CERES_LIKE.a), 12);
+    });
+
+    it('should return to the same place after one period', () => {
+      const start = new Date('2024-01-01T00:00:00Z');
+      const later = new Date(start.getTime() + getElementsPeriodDays(CERES_LIKE) * 86_400_000);
+      const a = propagateElements(CERES_LIKE, start);
+      const b = propagateElements(CERES_LIKE, later);
+      expect(b.x).toBeCloseTo(a.x, 6);
+      expect(b.y).toBeCloseTo(a.y, 6);
+      expect(b.z).toBeCloseTo(a.z, 6);
+    });
+
+    it('should be at perihelion when the eccentric anomaly is zero', () => {
+      // Mean anomaly 291.4 deg at the epoch reaches perihelion 68.6 deg later
+      const n = 360 / getElementsPeriodDays(CERES_LIKE);
+      const perihelion = new Date(
+        (CERES_LIKE.epochJd - 2440587.5 + (360 - CERES_LIKE.meanAnomaly) / n) * 86_400_000
+      );
+      expect(getEccentricAnomaly(CERES_LIKE, perihelion)).toBeCloseTo(0, 6);
+      expect(norm(propagateElements(CERES_LIKE, perihelion))).toBeCloseTo(
+        CERES_LIKE.a * (1 - CERES_LIKE.e),
+        6
+      );
+    });
+  });
+
+  describe('stateToElements', () => {
+    it('should recover the elements a state was propagated from', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const elements = stateToElements(propagateElements(CERES_LIKE, date));
+
+      expect(elements.a).toBeCloseTo(CERES_LIKE.a, 8);
+      expect(elements.e).toBeCloseTo(CERES_LIKE.e, 8);
+      expect(elements.i).toBeCloseTo(CERES_LIKE.i, 6);
+      expect(elements.node).toBeCloseTo(CERES_LIKE.node, 6);
+      expect(elements.argPeri).toBeCloseTo(CERES_LIKE.argPeri, 6);
+      expect(elements.periodDays).toBeCloseTo(getElementsPeriodDays(CERES_LIKE), 4);
+      expect(elements.periapsis).toBeCloseTo(CERES_LIKE.a * (1 - CERES_LIKE.e), 8);
+      expect(elements.apoapsis).toBeCloseTo(CERES_LIKE.a * (1 + CERES_LIKE.e), 8);
+
+      // Propagating the fitted elements lands on the same state
+      const again = propagateElements(elements, date);
+      const original = propagateElements(CERES_LIKE, date);
+      expect(again.x).toBeCloseTo(original.x, 8);
+      expect(again.y).toBeCloseTo(original.y, 8);
+      expect(again.z).toBeCloseTo(original.z, 8);
+    });
+
+    it('should report unbound orbits with an infinite period', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const escape = Math.sqrt(2 * SUN_GM_AU3_PER_DAY2);
+      const state = new Astronomy.StateVector(1, 0, 0, 0, escape * 1.2, 0, new Astronomy.AstroTime(date));
+      const elements = stateToElements(state);
+
+      expect(elements.e).toBeGreaterThan(1);
+      expect(elements.periodDays).toBe(Infinity);
+      expect(elements.apoapsis).toBe(Infinity);
+      expect(elements.periapsis).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('positionAtTrueAnomaly', () => {
+    it('should place periapsis and apoapsis at the apsidal distances', () => {
+      const peri = positionAtTrueAnomaly(CERES_LIKE, 0);
+      const apo = positionAtTrueAnomaly(CERES_LIKE, 180);
+
+      expect(Math.hypot(...peri)).toBeCloseTo(CERES_LIKE.a * (1 - CERES_LIKE.e), 10);
+      expect(Math.hypot(...apo)).toBeCloseTo(CERES_LIKE.a * (1 + CERES_LIKE.e), 10);
+      // Opposite sides of the Sun
+      expect(peri[0] * apo[0] + peri[1] * apo[1] + peri[2] * apo[2]).toBeLessThan(0);
+    });
+
+    it('should put the nodes on the ecliptic', () => {
+      const obliquity = (23.4392911 * Math.PI) / 180;
+      for (const nu of [-CERES_LIKE.argPeri, 180 - CERES_LIKE.argPeri]) {
+        const [, y, z] = positionAtTrueAnomaly(CERES_LIKE, nu);
+        // Height above the ecliptic plane
+        expect(-y * Math.sin(obliquity) + z * Math.cos(obliquity)).toBeCloseTo(0, 10);
+      }
+    });
+  });
+
+  describe('propagatePerihelionElements', () => {
+    const perihelionJd = 2460000.5;
+    const perihelionDate = new Date((perihelionJd - 2440587.5) * 86_400_000);
+    const orbit = (e: number): PerihelionElements => ({ perihelionJd, q: 0.8, e, i: 30, node: 50, argPeri: 120 });
+
+    it('should match propagateElements for elliptical orbits', () => {
+      const date = new Date('2023-09-01T00:00:00Z');
+      const a = 0.8 / (1 - 0.6);
+      const expected = propagateElements(
+        { epochJd: perihelionJd, a, e: 0.6, i: 30, node: 50, argPeri: 120, meanAnomaly: 0 },
+        date
+      );
+      const state = propagatePerihelionElements(orbit(0.6), date);
+
+      expect(state.x).toBeCloseTo(expected.x, 12);
+      expect(state.vz).toBeCloseTo(expected.vz, 12);
+    });
+
+    it.each([1, 1.5, 4])('should pass perihelion at q and conserve energy for e = %s', (e) => {
+      const atPerihelion = propagatePerihelionElements(orbit(e), perihelionDate);
+      expect(norm(atPerihelion)).toBeCloseTo(0.8, 10);
+
+      for (const days of [-400, -30, 45, 900]) {
+        const state = propagatePerihelionElements(orbit(e), new Date(perihelionDate.getTime() + days * 86_400_000));
+        const r = norm(state);
+        const v2 = state.vx ** 2 + state.vy ** 2 + state.vz ** 2;
+        // Vis-viva: v^2 = mu (2/r - 1/a), with 1/a = (1 - e) / q
+        expect(v2 / (SUN_GM_AU3_PER_DAY2 * (2 / r - (1 - e) / 0.8))).toBeCloseTo(1, 8);
+        expect(stateToElements(state).e).toBeCloseTo(e, 6);
+      }
+    });
+
+    it('should move outbound after perihelion and inbound before it', () => {
+      for (const e of [1, 2]) {
+        const before = propagatePerihelionElements(orbit(e), new Date(perihelionDate.getTime() - 86_400_000));
+        const after = propagatePerihelionElements(orbit(e), new Date(perihelionDate.getTime() + 86_400_000));
+        expect(before.x * before.vx + before.y * before.vy + before.z * before.vz).toBeLessThan(0);
+        expect(after.x * after.vx + after.y * after.vy + after.z * after.vz).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('solveHyperbolicKepler', () => {
+    it('should satisfy the hyperbolic Kepler equation', () => {
+      for (const e of [1.01, 1.5, 5]) {
+        for (const M of [-50, -1, 0, 0.3, 10, 1000]) {
+          const H = solveHyperbolicKepler(M, e);
+          expect(e * Math.sinh(H) - H).toBeCloseTo(M, 8);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Moons Module Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MOON_CONFIG,
+  MOON_NAMES,
+  isMoonName,
+  getMoonsOf,
+  getParentBody,
+  getSystemName,
+  computeMoonStates,
+  computeMoonState,
+} from '../moons';
+
+const KM_PER_AU = 149597870.7;
+
+function distanceKm(state: { x: number; y: number; z: number }) {
+  return Math.sqrt(state.x ** 2 + state.y ** 2 + state.z ** 2) * KM_PER_AU;
+}
+
+describe('Moons Module', () => {
+  describe('MOON_NAMES', () => {
+    it('should include the Moon and the Galilean moons', () => {
+      expect(MOON_NAMES).toEqual(['Moon', 'Io', 'Europa', 'Ganymede', 'Callisto']);
+    });
+  });
+
+  describe('isMoonName', () => {
+    it('should recognise moons', () => {
+      expect(isMoonName('Moon')).toBe(true);
+      expect(isMoonName('Ganymede')).toBe(true);
+    });
+
+    it('should reject planets and unknown names', () => {
+      expect(isMoonName('Earth')).toBe(false);
+      expect(isMoonName('Titan')).toBe(false);
+      expect(isMoonName('moon')).toBe(false);
+    });
+  });
+
+  describe('getMoonsOf', () => {
+    it('should list moons by parent, innermost first', () => {
+      expect(getMoonsOf('Earth')).toEqual(['Moon']);
+      expect(getMoonsOf('Jupiter')).toEqual(['Io', 'Europa', 'Ganymede', 'Callisto']);
+    });
+
+    it('should return an empty list for bodies without modeled moons', () => {
+      expect(getMoonsOf('Venus')).toEqual([]);
+      expect(getMoonsOf('Moon')).toEqual([]);
+    });
+  });
+
+  describe('getParentBody / getSystemName', () => {
+    it('should resolve moons to their parent', () => {
+      expect(getParentBody('Io')).toBe('Jupiter');
+      expect(getSystemName('Moon')).toBe('Earth');
+    });
+
+    it('should treat planets as their own system', () => {
+      expect(getParentBody('Mars')).toBeNull();
+      expect(getSystemName('Mars')).toBe('Mars');
+    });
+  });
+
+  describe('computeMoonStates', () => {
+    const date = new Date('2024-01-01T00:00:00Z');
+
+    it('should place the Moon about 384,000 km from Earth', () => {
+      const { Moon } = computeMoonStates('Earth', date);
+      expect(Moon).toBeDefined();
+      expect(distanceKm(Moon!)).toBeGreaterThan(356_000);
+      expect(distanceKm(Moon!)).toBeLessThan(407_000);
+    });
+
+    it('should return all four Galilean moons in orbital order', () => {
+      const states = computeMoonStates('Jupiter', date);
+      const distances = (['Io', 'Europa', 'Ganymede', 'Callisto'] as const).map((m) =>
+        distanceKm(states[m]!)
+      );
+      expect(distances[0]).toBeCloseTo(421_700, -4);
+      expect(distances[0]).toBeLessThan(distances[1]);
+      expect(distances[1]).toBeLessThan(distances[2]);
+      expect(distances[2]).toBeLessThan(distances[3]);
+    });
+
+    it('should return nothing for planets without modeled moons', () => {
+      expect(computeMoonStates('Mars', date)).toEqual({});
+    });
+  });
+
+  describe('computeMoonState', () => {
+    it('should return finite velocity', () => {
+      const state = computeMoonState('Europa', new Date('2024-06-01T00:00:00Z'));
+      expect(Number.isFinite(state.vx)).toBe(true);
+      expect(Number.isFinite(state.vy)).toBe(true);
+      expect(Number.isFinite(state.vz)).toBe(true);
+    });
+  });
+
+  describe('MOON_CONFIG', () => {
+    it('should scale every moon orbit outside its parent sphere', () => {
+      // Planet spheres are drawn at radius * 0.5 scene units, 1 AU = 10 units
+      const parentDisplayRadius = { Earth: 0.5, Jupiter: 11.21 * 0.5 };
+      const date = new Date('2024-01-01T00:00:00Z');
+
+      for (const moon of MOON_NAMES) {
+        const { parent, orbitScale } = MOON_CONFIG[moon];
+        const state = computeMoonState(moon, date);
+        const displayDistance =
+          Math.sqrt(state.x ** 2 + state.y ** 2 + state.z ** 2) * 10 * orbitScale;
+        expect(displayDistance).toBeGreaterThan(parentDisplayRadius[parent as 'Earth' | 'Jupiter']);
+      }
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Observer and Sky Position Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  OBSERVER_CITIES,
+  DEFAULT_OBSERVER,
+  computeGeocentricVector,
+  computeSkyPosition,
+  computeHorizonFrame,
+  formatRightAscension,
+  formatDeclination,
+  formatCoordinates,
+  formatLatLon,
+  getCompassPoint,
+  getObserverKey,
+  describeSkyPosition,
+  type ObserverLocation,
+} from '../observer';
+
+const DATE = new Date('2024-01-01T00:00:00Z');
+
+const SYDNEY = OBSERVER_CITIES.find((city) => city.name === 'Sydney') as ObserverLocation;
+
+function dot(a: readonly number[], b: readonly number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+describe('Observer', () => {
+  describe('OBSERVER_CITIES', () => {
+    it('should have unique names and valid coordinates', () => {
+      const names = new Set(OBSERVER_CITIES.map((city) => city.name));
+      expect(names.size).toBe(OBSERVER_CITIES.length);
+      for (const city of OBSERVER_CITIES) {
+        expect(Math.abs(city.latitude)).toBeLessThanOrEqual(90);
+        expect(Math.abs(city.longitude)).toBeLessThanOrEqual(180);
+      }
+    });
+  });
+
+  describe('getObserverKey', () => {
+    it('should ignore the display name', () => {
+      expect(getObserverKey({ ...DEFAULT_OBSERVER, name: 'Home' })).toBe(getObserverKey(DEFAULT_OBSERVER));
+      expect(getObserverKey(SYDNEY)).not.toBe(getObserverKey(DEFAULT_OBSERVER));
+    });
+  });
+
+  describe('computeGeocentricVector', () => {
+    it('should return null for Earth', () => {
+      expect(computeGeocentricVector('Earth', DATE)).toBeNull();
+    });
+
+    it('should place the Moon about 0.0026 AU away', () => {
+      const v = computeGeocentricVector('Moon', DATE)!;
+      expect(Math.hypot(v.x, v.y, v.z)).toBeCloseTo(0.0026, 3);
+    });
+
+    it('should place Galilean moons next to Jupiter', () => {
+      const jupiter = computeGeocentricVector('Jupiter', DATE)!;
+      const io = computeGeocentricVector('Io', DATE)!;
+      expect(Math.hypot(io.x - jupiter.x, io.y - jupiter.y, io.z - jupiter.z)).toBeLessThan(0.003);
+    });
+
+    it('should handle element-based dwarf planets', () => {
+      const v = computeGeocentricVector('Eris', DATE)!;
+      expect(Math.hypot(v.x, v.y, v.z)).toBeGreaterThan(90);
+    });
+  });
+
+  describe('computeSkyPosition', () => {
+    it('should return null for Earth', () => {
+      expect(computeSkyPosition('Earth', DEFAULT_OBSERVER, DATE)).toBeNull();
+    });
+
+    it('should find Jupiter in Aries at the start of 2024', () => {
+      const sky = computeSkyPosition('Jupiter', DEFAULT_OBSERVER, DATE)!;
+      expect(sky.constellation).toBe('Ari');
+      expect(sky.constellationName).toBe('Aries');
+      expect(sky.ra).toBeGreaterThanOrEqual(0);
+      expect(sky.ra).toBeLessThan(24);
+    });
+
+    it('should return altitude and azimuth in range', () => {
+      const sky = computeSkyPosition('Mars', SYDNEY, DATE)!;
+      expect(Math.abs(sky.altitude)).toBeLessThanOrEqual(90);
+      expect(sky.azimuth).toBeGreaterThanOrEqual(0);
+      expect(sky.azimuth).toBeLessThan(360);
+    });
+
+    it('should show lunar parallax between distant observers', () => {
+      const london = computeSkyPosition('Moon', DEFAULT_OBSERVER, DATE)!;
+      const sydney = computeSkyPosition('Moon', SYDNEY, DATE)!;
+      // Up to about a degree of parallax for the Moon
+      expect(Math.abs(london.dec - sydney.dec)).toBeGreaterThan(0.1);
+    });
+  });
+
+  describe('computeHorizonFrame', () => {
+    it('should return an orthonormal basis', () => {
+      const { zenith, north, east } = computeHorizonFrame(DEFAULT_OBSERVER, DATE);
+      expect(dot(zenith, zenith)).toBeCloseTo(1, 6);
+      expect(dot(north, north)).toBeCloseTo(1, 6);
+      expect(dot(east, east)).toBeCloseTo(1, 6);
+      expect(dot(zenith, north)).toBeCloseTo(0, 6);
+      expect(dot(zenith, east)).toBeCloseTo(0, 6);
+      expect(dot(north, east)).toBeCloseTo(0, 6);
+    });
+
+    it('should point the zenith towards the pole at the North Pole', () => {
+      const { zenith } = computeHorizonFrame({ name: 'Pole', latitude: 90, longitude: 0, elevation: 0 }, DATE);
+      // Celestial north is +Y in scene coordinates
+      expect(zenith[1]).toBeGreaterThan(0.99);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format right ascension', () => {
+      expect(formatRightAscension(2.5)).toBe('2h 30m 00s');
+      expect(formatRightAscension(-1)).toBe('23h 00m 00s');
+      expect(formatRightAscension(23.99999999)).toBe('0h 00m 00s');
+    });
+
+    it('should format declination', () => {
+      expect(formatDeclination(12.5)).toBe('+12° 30′ 00″');
+      expect(formatDeclination(-0.25)).toBe('−0° 15′ 00″');
+    });
+
+    it('should format coordinates', () => {
+      expect(formatCoordinates(SYDNEY)).toMatch(/° S, .*° E$/);
+    });
+
+    it('should format raw latitude and longitude', () => {
+      expect(formatLatLon(25.29, -104.14, 1)).toBe('25.3° N, 104.1° W');
+    });
+
+    it('should map azimuths to compass points', () => {
+      expect(getCompassPoint(0)).toBe('N');
+      expect(getCompassPoint(359)).toBe('N');
+      expect(getCompassPoint(90)).toBe('E');
+      expect(getCompassPoint(157.5)).toBe('SSE');
+      expect(getCompassPoint(-90)).toBe('W');
+    });
+
+    it('should describe sky positions for screen readers', () => {
+      const text = describeSkyPosition(
+        {
+          ra: 0,
+          dec: 0,
+          altitude: -12.4,
+          azimuth: 180,
+          distanceAu: 1,
+          constellation: 'Psc',
+          constellationName: 'Pisces',
+        },
+        'Paris'
+      );
+      expect(text).toBe('Seen from Paris: 12 degrees below the horizon toward the south, in Pisces.');
+    });
+  });
+});
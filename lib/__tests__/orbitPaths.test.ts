@@ -0,0 +1,189 @@
+/**
+ * Orbit Path Sampling Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as Astronomy from 'astronomy-engine';
+import {
+  computeOrbitPath,
+  getOrbitEpochMs,
+  getOrbitStepCount,
+  getOrbitalPeriodDays,
+  computeMoonOrbitPath,
+  getMoonOrbitEpochMs,
+  computeOrbitMarkers,
+  getOrbitMarkerEpochMs,
+  ORBIT_MIN_STEPS,
+  ORBIT_MAX_STEPS,
+  ORBIT_REFRESH_MIN_DAYS,
+} from '../orbitPaths';
+
+const MS_PER_DAY = 86_400_000;
+
+function radii(path: Float32Array): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < path.length; i += 3) {
+    result.push(Math.hypot(path[i], path[i + 1], path[i + 2]));
+  }
+  return result;
+}
+
+describe('Orbit Paths', () => {
+  describe('getOrbitalPeriodDays', () => {
+    it('should return sidereal periods', () => {
+      expect(getOrbitalPeriodDays('Earth')).toBeCloseTo(365.256, 1);
+      expect(getOrbitalPeriodDays('Neptune')).toBeGreaterThan(60000);
+    });
+  });
+
+  describe('getOrbitStepCount', () => {
+    it('should use the minimum for circular orbits', () => {
+      expect(getOrbitStepCount(0)).toBe(ORBIT_MIN_STEPS);
+    });
+
+    it('should add samples for eccentric orbits', () => {
+      expect(getOrbitStepCount(0.2)).toBeGreaterThan(getOrbitStepCount(0.01));
+    });
+
+    it('should clamp to the maximum', () => {
+      expect(getOrbitStepCount(0.99)).toBe(ORBIT_MAX_STEPS);
+      expect(getOrbitStepCount(NaN)).toBe(ORBIT_MIN_STEPS);
+    });
+  });
+
+  describe('getOrbitEpochMs', () => {
+    it('should stay stable for small date changes', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const later = new Date(date.getTime() + 30 * MS_PER_DAY);
+      expect(getOrbitEpochMs('Mars', date)).toBe(getOrbitEpochMs('Mars', later));
+    });
+
+    it('should change after a large jump', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const past = new Date('1500-01-01T00:00:00Z');
+      expect(getOrbitEpochMs('Mars', date)).not.toBe(getOrbitEpochMs('Mars', past));
+    });
+
+    it('should stay within half a refresh window of the date', () => {
+      const date = new Date('2024-06-15T00:00:00Z');
+      const epoch = getOrbitEpochMs('Jupiter', date);
+      const windowDays = Math.max(ORBIT_REFRESH_MIN_DAYS, getOrbitalPeriodDays('Jupiter'));
+      expect(Math.abs(epoch - date.getTime()) / MS_PER_DAY).toBeLessThanOrEqual(windowDays / 2);
+    });
+  });
+
+  describe('computeOrbitPath', () => {
+    it('should cover the full orbit of outer planets', () => {
+      const path = computeOrbitPath('Neptune', new Date('2024-01-01T00:00:00Z'));
+      const r = radii(path);
+
+      // Consecutive samples on a full loop are all short hops, including the closing segment
+      const n = r.length;
+      const hop = (i: number, j: number) =>
+        Math.hypot(
+          path[i * 3] - path[j * 3],
+          path[i * 3 + 1] - path[j * 3 + 1],
+          path[i * 3 + 2] - path[j * 3 + 2]
+        );
+      const circumference = 2 * Math.PI * 300;
+      expect(hop(n - 1, 0)).toBeLessThan((circumference / n) * 2);
+      expect(Math.min(...r)).toBeGreaterThan(290);
+      expect(Math.max(...r)).toBeLessThan(310);
+    });
+
+    it('should pass through the body position at the epoch', () => {
+      const epoch = new Date('2024-03-01T00:00:00Z');
+      const path = computeOrbitPath('Mars', epoch);
+      const v = Astronomy.HelioVector(Astronomy.Body.Mars, epoch);
+      const target = [v.x * 10, v.z * 10, -v.y * 10];
+
+      let best = Infinity;
+      for (let i = 0; i < path.length; i += 3) {
+        best = Math.min(best, Math.hypot(path[i] - target[0], path[i + 1] - target[1], path[i + 2] - target[2]));
+      }
+      expect(best).toBeLessThan(0.01);
+    });
+
+    it('should sample eccentric orbits more densely', () => {
+      const epoch = new Date('2024-01-01T00:00:00Z');
+      const mercury = computeOrbitPath('Mercury', epoch);
+      const venus = computeOrbitPath('Venus', epoch);
+      expect(mercury.length).toBeGreaterThan(venus.length);
+    });
+
+    it('should return finite coordinates', () => {
+      const path = computeOrbitPath('Earth', new Date('1500-01-01T00:00:00Z'));
+      expect(Array.from(path).every(Number.isFinite)).toBe(true);
+    });
+  });
+
+  describe('dwarf planets', () => {
+    it('should derive periods from orbital elements', () => {
+      expect(getOrbitalPeriodDays('Ceres') / 365.25).toBeCloseTo(4.6, 1);
+      expect(getOrbitalPeriodDays('Eris') / 365.25).toBeGreaterThan(550);
+    });
+
+    it('should trace the element ellipse for element-based bodies', () => {
+      const path = computeOrbitPath('Eris', new Date('2024-01-01T00:00:00Z'));
+      const r = radii(path);
+
+      // Perihelion ~38 AU, aphelion ~97 AU
+      expect(Math.min(...r)).toBeCloseTo(382.7, -1);
+      expect(Math.max(...r)).toBeCloseTo(974.6, -1);
+    });
+  });
+
+  describe('computeMoonOrbitPath', () => {
+    it('should sample a closed loop around the parent', () => {
+      const path = computeMoonOrbitPath('Io', new Date('2024-01-01T00:00:00Z'));
+      const r = radii(path);
+
+      expect(path.length).toBe(ORBIT_MIN_STEPS * 3);
+      // Io's orbit is nearly circular
+      expect(Math.max(...r) / Math.min(...r)).toBeLessThan(1.02);
+    });
+  });
+
+  describe('getMoonOrbitEpochMs', () => {
+    it('should hold the epoch for short intervals', () => {
+      const epoch = getMoonOrbitEpochMs('Io', new Date('2024-01-01T00:00:00Z'));
+      const later = new Date(epoch + 2 * MS_PER_DAY);
+      expect(getMoonOrbitEpochMs('Io', later)).toBe(epoch);
+    });
+  });
+
+  describe('computeOrbitMarkers', () => {
+    it('should place apsides at the closest and farthest points of the path', () => {
+      const epoch = new Date(getOrbitMarkerEpochMs('Mars', new Date('2024-01-01T00:00:00Z')));
+      const markers = computeOrbitMarkers('Mars', epoch);
+      const r = radii(computeOrbitPath('Mars', epoch));
+      const distanceOf = (kind: string) => Math.hypot(...markers.find((m) => m.kind === kind)!.position);
+
+      expect(markers.map((m) => m.kind)).toEqual(['periapsis', 'apoapsis', 'ascending-node', 'descending-node']);
+      expect(markers[0].label).toBe('Perihelion');
+      expect(distanceOf('periapsis')).toBeCloseTo(Math.min(...r), 1);
+      expect(distanceOf('apoapsis')).toBeCloseTo(Math.max(...r), 1);
+    });
+
+    it('should put the nodes in the ecliptic plane', () => {
+      const markers = computeOrbitMarkers('Pluto', new Date('2024-01-01T00:00:00Z'));
+      const obliquity = (23.4392911 * Math.PI) / 180;
+
+      for (const marker of markers.filter((m) => m.kind.endsWith('node'))) {
+        // Scene [x, y, z] is equatorial [x, z, -y]
+        const [, sceneY, sceneZ] = marker.position;
+        expect(sceneZ * Math.sin(obliquity) + sceneY * Math.cos(obliquity)).toBeCloseTo(0, 6);
+      }
+    });
+
+    it('should scale moon markers like the moon orbit path', () => {
+      const epoch = new Date(getOrbitMarkerEpochMs('Moon', new Date('2024-01-01T00:00:00Z')));
+      const markers = computeOrbitMarkers('Moon', epoch);
+      const r = radii(computeMoonOrbitPath('Moon', epoch));
+
+      expect(markers[0].label).toBe('Perigee');
+      expect(Math.hypot(...markers[0].position)).toBeGreaterThan(Math.min(...r) * 0.95);
+      expect(Math.hypot(...markers[1].position)).toBeLessThan(Math.max(...r) * 1.05);
+    });
+  });
+});
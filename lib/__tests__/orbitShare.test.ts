@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { buildOrbitShareUrl } from '../orbitShare';
+import { buildOrbitShareUrl, applyOrbitShareStateFromUrl } from '../orbitShare';
+import { useOrbitStore } from '../store';
 
 describe('OrbitShare Module', () => {
   describe('buildOrbitShareUrl', () => {
@@ -178,6 +179,36 @@ describe('OrbitShare Module', () => {
       expect(url).toContain('speed=11');
     });
 
+    it('should keep the sign of reverse speeds', () => {
+      const state = {
+        selectedPlanet: null,
+        timeSpeed: -30,
+        currentDate: new Date('2024-01-01T00:00:00Z'),
+        showOrbits: true,
+        showLabels: true,
+        cinematicPlaying: false,
+        renderQuality: 'balanced' as const,
+      };
+
+      const url = buildOrbitShareUrl(mockLocation, state);
+      expect(url).toContain('speed=-30');
+    });
+
+    it('should keep sub-day speeds instead of rounding them to zero', () => {
+      const state = {
+        selectedPlanet: null,
+        timeSpeed: -1 / 24,
+        currentDate: new Date('2024-01-01T00:00:00Z'),
+        showOrbits: true,
+        showLabels: true,
+        cinematicPlaying: false,
+        renderQuality: 'balanced' as const,
+      };
+
+      const url = buildOrbitShareUrl(mockLocation, state);
+      expect(url).toContain('speed=-0.0417');
+    });
+
     it('should build complete URL with multiple parameters', () => {
       const state = {
         selectedPlanet: 'Jupiter',
@@ -197,5 +228,81 @@ describe('OrbitShare Module', () => {
       expect(url).toContain('o=0');
       expect(url).toContain('l=0');
     });
+
+    it('should include the selected spacecraft', () => {
+      const url = buildOrbitShareUrl(mockLocation, {
+        selectedPlanet: null,
+        selectedSpacecraft: 'voyager-1',
+        timeSpeed: 1,
+        currentDate: new Date('2024-01-01T00:00:00Z'),
+        showOrbits: true,
+        showLabels: true,
+        cinematicPlaying: true,
+        renderQuality: 'balanced' as const,
+      });
+
+      expect(url).toContain('craft=voyager-1');
+      expect(url).not.toContain('cin=');
+    });
+
+    it('should include body-centered reference frames only', () => {
+      const state = {
+        selectedPlanet: null,
+        timeSpeed: 1,
+        currentDate: new Date('2024-01-01T00:00:00Z'),
+        showOrbits: true,
+        showLabels: true,
+        cinematicPlaying: false,
+        renderQuality: 'balanced' as const,
+      };
+
+      expect(buildOrbitShareUrl(mockLocation, { ...state, referenceFrame: 'Earth' })).toContain('frame=Earth');
+      expect(buildOrbitShareUrl(mockLocation, { ...state, referenceFrame: 'Sun' })).not.toContain('frame=');
+    });
+  });
+
+  describe('applyOrbitShareStateFromUrl', () => {
+    beforeEach(() => {
+      useOrbitStore.setState({ timeSpeed: 1 });
+    });
+
+    it('should apply reverse speeds', () => {
+      applyOrbitShareStateFromUrl('?v=1&speed=-365');
+      expect(useOrbitStore.getState().timeSpeed).toBe(-365);
+    });
+
+    it('should apply fractional speeds', () => {
+      applyOrbitShareStateFromUrl('?v=1&speed=0.0417');
+      expect(useOrbitStore.getState().timeSpeed).toBeCloseTo(0.0417, 6);
+    });
+
+    it('should clamp speeds to the supported range', () => {
+      applyOrbitShareStateFromUrl('?v=1&speed=-99999999');
+      expect(useOrbitStore.getState().timeSpeed).toBe(-365 * 100);
+    });
+
+    it('should ignore malformed speeds', () => {
+      applyOrbitShareStateFromUrl('?v=1&speed=fast');
+      expect(useOrbitStore.getState().timeSpeed).toBe(1);
+    });
+
+    it('should select bundled spacecraft and ignore unknown ones', () => {
+      useOrbitStore.setState({ selectedSpacecraft: null });
+      applyOrbitShareStateFromUrl('?v=1&craft=my-probe');
+      expect(useOrbitStore.getState().selectedSpacecraft).toBeNull();
+
+      applyOrbitShareStateFromUrl('?v=1&craft=new-horizons');
+      expect(useOrbitStore.getState().selectedSpacecraft).toBe('new-horizons');
+      expect(useOrbitStore.getState().cameraMode).toBe('focused');
+    });
+
+    it('should apply known reference frames', () => {
+      useOrbitStore.setState({ referenceFrame: 'Sun' });
+      applyOrbitShareStateFromUrl('?v=1&frame=Io');
+      expect(useOrbitStore.getState().referenceFrame).toBe('Sun');
+
+      applyOrbitShareStateFromUrl('?v=1&frame=Mars');
+      expect(useOrbitStore.getState().referenceFrame).toBe('Mars');
+    });
   });
 });
@@ -0,0 +1,86 @@
+/**
+ * Osculating Orbital Elements Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeOsculatingElements,
+  getCentralGm,
+  getApsisNames,
+  formatPeriod,
+  formatOrbitDistance,
+} from '../orbitalElements';
+import { SUN_GM_AU3_PER_DAY2 } from '../kepler';
+
+const DATE = new Date('2024-01-01T00:00:00Z');
+
+describe('Orbital Elements', () => {
+  describe('getCentralGm', () => {
+    it('should add the body mass to the Sun for planets', () => {
+      expect(getCentralGm('Mercury')).toBeCloseTo(SUN_GM_AU3_PER_DAY2, 10);
+      expect(getCentralGm('Jupiter') / SUN_GM_AU3_PER_DAY2).toBeCloseTo(1.000955, 5);
+    });
+
+    it('should use the parent for moons', () => {
+      // Earth + Moon, in AU^3/day^2
+      expect(getCentralGm('Moon')).toBeCloseTo(SUN_GM_AU3_PER_DAY2 / 328_900, 10);
+    });
+  });
+
+  describe('computeOsculatingElements', () => {
+    it('should match the published elements of Mars', () => {
+      const mars = computeOsculatingElements('Mars', DATE);
+      expect(mars.a).toBeCloseTo(1.5237, 2);
+      expect(mars.e).toBeCloseTo(0.0934, 2);
+      expect(mars.i).toBeCloseTo(1.85, 1);
+      expect(mars.node).toBeCloseTo(49.5, 0);
+      expect(mars.argPeri).toBeGreaterThan(284);
+      expect(mars.argPeri).toBeLessThan(289);
+      expect(mars.periodDays).toBeGreaterThan(680);
+      expect(mars.periodDays).toBeLessThan(692);
+      expect(mars.periapsis).toBeLessThan(mars.a);
+      expect(mars.apoapsis).toBeGreaterThan(mars.a);
+    });
+
+    it('should give the Galilean moons near-circular orbits', () => {
+      const io = computeOsculatingElements('Io', DATE);
+      expect(io.e).toBeLessThan(0.02);
+      expect(io.periodDays).toBeCloseTo(1.77, 1);
+    });
+
+    it('should keep angles in range', () => {
+      const pluto = computeOsculatingElements('Pluto', DATE);
+      for (const angle of [pluto.node, pluto.argPeri, pluto.meanAnomaly]) {
+        expect(angle).toBeGreaterThanOrEqual(0);
+        expect(angle).toBeLessThan(360);
+      }
+      expect(pluto.i).toBeCloseTo(17.1, 0);
+    });
+  });
+
+  describe('getApsisNames', () => {
+    it('should name apsides after the central body', () => {
+      expect(getApsisNames('Mars')).toEqual({ periapsis: 'Perihelion', apoapsis: 'Aphelion' });
+      expect(getApsisNames('Moon')).toEqual({ periapsis: 'Perigee', apoapsis: 'Apogee' });
+      expect(getApsisNames('Io')).toEqual({ periapsis: 'Perijove', apoapsis: 'Apojove' });
+    });
+  });
+
+  describe('formatPeriod', () => {
+    it('should format days and years', () => {
+      expect(formatPeriod(1.769)).toBe('1.769 d');
+      expect(formatPeriod(686.98)).toBe('687.0 d');
+      expect(formatPeriod(4332.6)).toBe('11.86 yr');
+      expect(formatPeriod(Infinity)).toBe('Unbound');
+    });
+  });
+
+  describe('formatOrbitDistance', () => {
+    it('should format AU, or km for moons', () => {
+      expect(formatOrbitDistance(1.52368, false)).toBe('1.524 AU');
+      expect(formatOrbitDistance(30.07, false)).toBe('30.07 AU');
+      expect(formatOrbitDistance(0.00257, true)).toBe('384,467 km');
+      expect(formatOrbitDistance(Infinity, false)).toBe('∞');
+    });
+  });
+});
@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { PLANET_ORDER, isPlanetName, type PlanetName } from '../planets';
+import {
+  PLANET_ORDER,
+  BODY_NAVIGATION_ORDER,
+  isPlanetName,
+  isSelectableBody,
+  type PlanetName,
+} from '../planets';
 
 describe('Planets Module', () => {
   describe('PLANET_ORDER', () => {
@@ -89,6 +95,44 @@ describe('Planets Module', () => {
     });
   });
 
+  describe('BODY_NAVIGATION_ORDER', () => {
+    it('should follow each planet with its moons', () => {
+      expect(BODY_NAVIGATION_ORDER.slice(2, 4)).toEqual(['Earth', 'Moon']);
+      const jupiter = BODY_NAVIGATION_ORDER.indexOf('Jupiter');
+      expect(BODY_NAVIGATION_ORDER.slice(jupiter, jupiter + 5)).toEqual([
+        'Jupiter',
+        'Io',
+        'Europa',
+        'Ganymede',
+        'Callisto',
+      ]);
+    });
+
+    it('should place dwarf planets by distance from the Sun', () => {
+      expect(BODY_NAVIGATION_ORDER.indexOf('Ceres')).toBe(BODY_NAVIGATION_ORDER.indexOf('Mars') + 1);
+      expect(BODY_NAVIGATION_ORDER[BODY_NAVIGATION_ORDER.length - 1]).toBe('Eris');
+    });
+
+    it('should include every planet', () => {
+      for (const planet of PLANET_ORDER) {
+        expect(BODY_NAVIGATION_ORDER).toContain(planet);
+      }
+    });
+  });
+
+  describe('isSelectableBody', () => {
+    it('should accept planets and moons', () => {
+      expect(isSelectableBody('Mars')).toBe(true);
+      expect(isSelectableBody('Moon')).toBe(true);
+      expect(isSelectableBody('Europa')).toBe(true);
+    });
+
+    it('should reject unknown bodies', () => {
+      expect(isSelectableBody('Sun')).toBe(false);
+      expect(isSelectableBody('Titan')).toBe(false);
+    });
+  });
+
   describe('PlanetName type', () => {
     it('should be a union of planet names', () => {
       // Type-level test - if this compiles, the type is correct
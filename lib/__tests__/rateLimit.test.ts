@@ -0,0 +1,135 @@
+/**
+ * Rate Limiting Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CLOUDFLARE_IP_HEADER,
+  createKVRateLimitStore,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getRateLimitClientKey,
+  getRateLimitedEndpoint,
+  getRateLimitHeaders,
+  parseApiKeys,
+  rateLimitedError,
+  type KVNamespaceLike,
+} from '../rateLimit';
+import { API_ERROR_CODES, RATE_LIMITS } from '../api-design';
+
+const MINUTE = 60_000;
+
+/** Map-backed stand-in for a Workers KV binding, recording TTLs */
+function createFakeKV() {
+  const values = new Map<string, string>();
+  const ttls = new Map<string, number | undefined>();
+  const kv: KVNamespaceLike = {
+    async get(key) {
+      return values.get(key) ?? null;
+    },
+    async put(key, value, options) {
+      values.set(key, value);
+      ttls.set(key, options?.expirationTtl);
+    },
+  };
+  return { kv, values, ttls };
+}
+
+describe('Rate limiting', () => {
+  it('should map request paths to their endpoint limits', () => {
+    expect(getRateLimitedEndpoint('/api/v1/astronomy/positions')).toBe('positions');
+    expect(getRateLimitedEndpoint('/api/v1/astronomy/positions/batch')).toBe('positionsBatch');
+    expect(getRateLimitedEndpoint('/api/v1/astronomy/ephemeris/Mars')).toBe('ephemeris');
+    expect(getRateLimitedEndpoint('/api/v1/astronomy/events.ics')).toBe('events');
+    expect(getRateLimitedEndpoint('/api/health')).toBeNull();
+  });
+
+  it('should allow up to the limit in a window, then block until it resets', async () => {
+    let now = 10 * MINUTE + 5_000;
+    const limiter = createRateLimiter(createMemoryRateLimitStore(() => now), () => now);
+    const { maxRequests } = RATE_LIMITS.positionsBatch;
+
+    for (let i = 0; i < maxRequests; i++) {
+      expect((await limiter.check('positionsBatch', 'ip:1.2.3.4')).allowed).toBe(true);
+    }
+    const blocked = await limiter.check('positionsBatch', 'ip:1.2.3.4');
+    expect(blocked).toMatchObject({ allowed: false, remaining: 0, resetAt: 11 * MINUTE });
+
+    // Other clients and endpoints have their own counts
+    expect((await limiter.check('positionsBatch', 'ip:5.6.7.8')).allowed).toBe(true);
+    expect((await limiter.check('positions', 'ip:1.2.3.4')).allowed).toBe(true);
+
+    now = 11 * MINUTE;
+    expect(await limiter.check('positionsBatch', 'ip:1.2.3.4')).toMatchObject({
+      allowed: true,
+      remaining: maxRequests - 1,
+    });
+  });
+
+  it('should count in KV with expiring keys', async () => {
+    const { kv, values, ttls } = createFakeKV();
+    const limiter = createRateLimiter(createKVRateLimitStore(kv), () => 0);
+
+    await limiter.check('events', 'ip:1.2.3.4');
+    const result = await limiter.check('events', 'ip:1.2.3.4');
+
+    expect(result.remaining).toBe(RATE_LIMITS.events.maxRequests - 2);
+    expect(values.get('rate-limit:events:ip:1.2.3.4:0')).toBe('2');
+    expect(ttls.get('rate-limit:events:ip:1.2.3.4:0')).toBe(60);
+  });
+
+  it('should keep blocking a client at its limit when KV rejects the write', async () => {
+    const { kv, values } = createFakeKV();
+    const limiter = createRateLimiter(createKVRateLimitStore(kv), () => 0);
+    const { maxRequests } = RATE_LIMITS.events;
+    values.set('rate-limit:events:ip:1.2.3.4:0', String(maxRequests));
+    // KV takes about one write per second to a key
+    kv.put = () => Promise.reject(new Error('KV PUT failed: 429 Too Many Requests'));
+
+    expect((await limiter.check('events', 'ip:1.2.3.4')).allowed).toBe(false);
+    expect((await limiter.check('events', 'ip:1.2.3.4')).allowed).toBe(false);
+  });
+
+  it('should key clients by configured API key, else by IP', async () => {
+    const apiKeys = parseApiKeys(' alpha , beta,');
+    const byKey = await getRateLimitClientKey(new Headers({ 'x-api-key': 'alpha', 'cf-connecting-ip': '1.1.1.1' }), apiKeys);
+    const byBearer = await getRateLimitClientKey(new Headers({ authorization: 'Bearer alpha' }), apiKeys);
+
+    expect(apiKeys.size).toBe(2);
+    expect(byKey).toMatch(/^key:[0-9a-f]{32}$/);
+    expect(byKey).not.toContain('alpha');
+    expect(byBearer).toBe(byKey);
+
+    const madeUp = new Headers({ 'x-api-key': 'made-up', 'cf-connecting-ip': '1.1.1.1' });
+    expect(await getRateLimitClientKey(madeUp, apiKeys, CLOUDFLARE_IP_HEADER)).toBe('ip:1.1.1.1');
+  });
+
+  it('should only take the IP from the trusted header', async () => {
+    const spoofed = new Headers({ 'x-forwarded-for': '2.2.2.2, 10.0.0.1', 'cf-connecting-ip': '1.1.1.1' });
+
+    expect(await getRateLimitClientKey(spoofed, new Set(), CLOUDFLARE_IP_HEADER)).toBe('ip:1.1.1.1');
+    expect(await getRateLimitClientKey(new Headers({ 'x-forwarded-for': '2.2.2.2' }), new Set(), CLOUDFLARE_IP_HEADER)).toBe(
+      'ip:unknown'
+    );
+    expect(await getRateLimitClientKey(spoofed, new Set())).toBe('ip:unknown');
+  });
+
+  it('should describe the limit in headers and the APIError body', () => {
+    const result = { allowed: false, limit: 10, remaining: 0, resetAt: 60_000, windowMs: MINUTE };
+    const headers = getRateLimitHeaders(result, 45_500);
+
+    expect(headers).toEqual({
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '15',
+      'RateLimit-Policy': '10;w=60',
+      'Retry-After': '15',
+    });
+    expect(getRateLimitHeaders({ ...result, allowed: true }, 45_500)['Retry-After']).toBeUndefined();
+
+    const error = rateLimitedError(result, 'req-1', 45_500);
+    expect(error.code).toBe(API_ERROR_CODES.RATE_LIMITED);
+    expect(error.details).toEqual({ limit: 10, windowMs: MINUTE, retryAfterSeconds: 15 });
+    expect(error.requestId).toBe('req-1');
+  });
+});
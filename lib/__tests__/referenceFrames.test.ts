@@ -0,0 +1,109 @@
+/**
+ * Reference Frame Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeRelativeOrbitPath,
+  getFrameOrigin,
+  getReferenceFrameLabel,
+  getRelativePathEpochMs,
+  getRelativePathStepCount,
+  isReferenceFrame,
+  RELATIVE_PATH_MAX_STEPS,
+} from '../referenceFrames';
+import { calculatePlanetPositionCached } from '../astronomy-cache';
+import { scalePosition } from '../scaleModes';
+
+const EPOCH = new Date('2025-01-01T00:00:00Z');
+
+/** Right ascension of a scene position, unwrapped along a path */
+function rightAscensions(path: Float32Array): number[] {
+  const angles: number[] = [];
+  for (let i = 0; i < path.length; i += 3) {
+    let angle = Math.atan2(-path[i + 2], path[i]);
+    const previous = angles[angles.length - 1];
+    if (previous !== undefined) {
+      while (angle - previous > Math.PI) angle -= 2 * Math.PI;
+      while (angle - previous < -Math.PI) angle += 2 * Math.PI;
+    }
+    angles.push(angle);
+  }
+  return angles;
+}
+
+function hasRetrogradeMotion(path: Float32Array): boolean {
+  const angles = rightAscensions(path);
+  return angles.some((angle, i) => i > 0 && angle < angles[i - 1]);
+}
+
+describe('Reference frames', () => {
+  it('should accept the Sun, planets and dwarf planets as centers', () => {
+    expect(isReferenceFrame('Sun')).toBe(true);
+    expect(isReferenceFrame('Earth')).toBe(true);
+    expect(isReferenceFrame('Pluto')).toBe(true);
+    expect(isReferenceFrame('Moon')).toBe(false);
+    expect(isReferenceFrame('Vulcan')).toBe(false);
+  });
+
+  it('should name frames', () => {
+    expect(getReferenceFrameLabel('Sun')).toBe('Heliocentric');
+    expect(getReferenceFrameLabel('Earth')).toBe('Geocentric');
+    expect(getReferenceFrameLabel('Jupiter')).toBe('Jupiter-centered');
+  });
+
+  it('should put the frame center at the origin', () => {
+    const planets = new Map([['Earth', { position: [3, 0, -9] as [number, number, number] }]]);
+
+    expect(getFrameOrigin('Sun', planets)).toEqual([0, 0, 0]);
+    expect(getFrameOrigin('Earth', planets)).toEqual([3, 0, -9]);
+    expect(getFrameOrigin('Mars', planets)).toEqual([0, 0, 0]);
+  });
+
+  it('should quantize path epochs to a year', () => {
+    const later = new Date(EPOCH.getTime() + 30 * 86_400_000);
+    expect(getRelativePathEpochMs(later)).toBe(getRelativePathEpochMs(EPOCH));
+  });
+
+  describe('computeRelativeOrbitPath', () => {
+    it('should circle the Sun around the Earth once a year at 1 AU', () => {
+      const path = computeRelativeOrbitPath('Sun', 'Earth', EPOCH);
+      const middle = ((path.length / 3 - 1) / 2) * 3;
+      const earth = calculatePlanetPositionCached('Earth', EPOCH);
+
+      for (let i = 0; i < path.length; i += 3) {
+        expect(Math.hypot(path[i], path[i + 1], path[i + 2])).toBeCloseTo(10, 0);
+      }
+      // The middle sample is the epoch, where the Sun sits opposite the Earth's heliocentric position
+      expect(path[middle]).toBeCloseTo(-earth[0], 4);
+      expect(path[middle + 1]).toBeCloseTo(-earth[1], 4);
+      expect(path[middle + 2]).toBeCloseTo(-earth[2], 4);
+    });
+
+    it('should show Mars looping backwards from Earth but not from the Sun', () => {
+      expect(hasRetrogradeMotion(computeRelativeOrbitPath('Mars', 'Earth', EPOCH))).toBe(true);
+      expect(hasRetrogradeMotion(computeRelativeOrbitPath('Mars', 'Sun', EPOCH))).toBe(false);
+    });
+
+    it("should close Venus's pentagram after eight years", () => {
+      const path = computeRelativeOrbitPath('Venus', 'Earth', EPOCH);
+      const last = path.length - 3;
+
+      expect(Math.hypot(path[0] - path[last], path[1] - path[last + 1], path[2] - path[last + 2])).toBeLessThan(0.5);
+    });
+
+    it('should subtract scaled heliocentric positions in scaled modes', () => {
+      const path = computeRelativeOrbitPath('Sun', 'Earth', EPOCH, 'log');
+      const middle = ((path.length / 3 - 1) / 2) * 3;
+      const earth = scalePosition(calculatePlanetPositionCached('Earth', EPOCH), 'log');
+
+      expect(path[middle]).toBeCloseTo(-earth[0], 4);
+      expect(path[middle + 2]).toBeCloseTo(-earth[2], 4);
+    });
+
+    it('should sample faster orbits more densely, within a cap', () => {
+      expect(getRelativePathStepCount('Jupiter', 'Earth')).toBeLessThan(getRelativePathStepCount('Venus', 'Earth'));
+      expect(getRelativePathStepCount('Mercury', 'Earth')).toBe(RELATIVE_PATH_MAX_STEPS);
+    });
+  });
+});
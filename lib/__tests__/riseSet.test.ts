@@ -0,0 +1,168 @@
+/**
+ * Rise, Transit, Set and Twilight Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as Astronomy from 'astronomy-engine';
+import {
+  computeSkyDay,
+  getLocalDayStart,
+  getTimeZoneOffsetMs,
+  formatLocalTime,
+  describeRiseSet,
+  describeTwilight,
+  type RiseSetTimes,
+} from '../riseSet';
+import { OBSERVER_CITIES, getObserverTimeZone, toAstronomyObserver, type ObserverLocation } from '../observer';
+
+const HOUR_MS = 3_600_000;
+
+function city(name: string): ObserverLocation {
+  return OBSERVER_CITIES.find((c) => c.name === name) as ObserverLocation;
+}
+
+const LONDON = city('London (Greenwich)');
+const LONGYEARBYEN = city('Longyearbyen');
+const REYKJAVIK = city('Reykjavík');
+const SYDNEY = city('Sydney');
+
+const MIDSUMMER = new Date('2024-06-21T12:00:00Z');
+const MIDWINTER = new Date('2024-12-21T12:00:00Z');
+
+describe('Rise, Transit and Set', () => {
+  describe('time zones', () => {
+    it('should read offsets including daylight saving time', () => {
+      expect(getTimeZoneOffsetMs(new Date('2024-01-15T12:00:00Z'), 'Europe/Paris')).toBe(HOUR_MS);
+      expect(getTimeZoneOffsetMs(new Date('2024-07-15T12:00:00Z'), 'Europe/Paris')).toBe(2 * HOUR_MS);
+      expect(getTimeZoneOffsetMs(new Date('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(-4 * HOUR_MS);
+    });
+
+    it('should handle offsets that cross the UTC date line', () => {
+      // 23:00 UTC is 09:00 the next day in Sydney (winter, UTC+10)
+      expect(getTimeZoneOffsetMs(new Date('2024-06-21T23:00:00Z'), 'Australia/Sydney')).toBe(10 * HOUR_MS);
+    });
+
+    it('should find local midnight', () => {
+      expect(getLocalDayStart(MIDSUMMER, 'Europe/London').toISOString()).toBe('2024-06-20T23:00:00.000Z');
+      expect(getLocalDayStart(MIDSUMMER, 'Australia/Sydney').toISOString()).toBe('2024-06-20T14:00:00.000Z');
+      expect(getLocalDayStart(new Date('2024-01-01T03:00:00Z'), 'America/New_York').toISOString()).toBe(
+        '2023-12-31T05:00:00.000Z'
+      );
+    });
+
+    it('should use the longitude zone for custom coordinates', () => {
+      expect(getObserverTimeZone({ name: 'Custom', latitude: 0, longitude: 151, elevation: 0 })).toBe('Etc/GMT-10');
+      expect(getObserverTimeZone({ name: 'Custom', latitude: 0, longitude: -75, elevation: 0 })).toBe('Etc/GMT+5');
+      expect(getObserverTimeZone({ name: 'Custom', latitude: 0, longitude: 3, elevation: 0 })).toBe('UTC');
+      expect(getObserverTimeZone(LONDON)).toBe('Europe/London');
+    });
+  });
+
+  describe('computeSkyDay', () => {
+    it('should match published sunrise and sunset for London at midsummer', () => {
+      const day = computeSkyDay('Earth', LONDON, MIDSUMMER);
+      expect(day.body).toBeNull();
+      expect(day.sun.status).toBe('rises-and-sets');
+      // Greenwich: sunrise 04:43 BST, sunset 21:21 BST
+      expect(Math.abs(day.sun.rise!.getTime() - Date.parse('2024-06-21T03:43:00Z'))).toBeLessThan(2 * 60_000);
+      expect(Math.abs(day.sun.set!.getTime() - Date.parse('2024-06-21T20:21:00Z'))).toBeLessThan(2 * 60_000);
+    });
+
+    it('should order twilight around sunrise and sunset', () => {
+      const day = computeSkyDay('Mars', SYDNEY, MIDSUMMER);
+      const { civil, nautical, astronomical } = day.twilight;
+      expect(astronomical.dawn!.getTime()).toBeLessThan(nautical.dawn!.getTime());
+      expect(nautical.dawn!.getTime()).toBeLessThan(civil.dawn!.getTime());
+      expect(civil.dawn!.getTime()).toBeLessThan(day.sun.rise!.getTime());
+      expect(day.sun.set!.getTime()).toBeLessThan(civil.dusk!.getTime());
+      expect(civil.dusk!.getTime()).toBeLessThan(nautical.dusk!.getTime());
+      expect(nautical.dusk!.getTime()).toBeLessThan(astronomical.dusk!.getTime());
+    });
+
+    it('should keep every event inside the local day', () => {
+      const day = computeSkyDay('Moon', LONDON, MIDSUMMER);
+      const times = [day.body!.rise, day.body!.transit, day.body!.set, day.sun.rise, day.sun.set].filter(
+        (t): t is Date => t !== null
+      );
+      for (const time of times) {
+        expect(time.getTime()).toBeGreaterThanOrEqual(day.start.getTime());
+        expect(time.getTime()).toBeLessThan(day.end.getTime());
+      }
+    });
+
+    it('should report the midnight sun and polar night', () => {
+      const summer = computeSkyDay('Earth', LONGYEARBYEN, MIDSUMMER);
+      expect(summer.sun.status).toBe('circumpolar');
+      expect(summer.sun.rise).toBeNull();
+      expect(summer.twilight.civil.allDay).toBe('above');
+
+      const winter = computeSkyDay('Earth', LONGYEARBYEN, MIDWINTER);
+      expect(winter.sun.status).toBe('never-rises');
+      expect(winter.twilight.civil.allDay).toBe('below');
+    });
+
+    it('should report circumpolar and never-rising bodies', () => {
+      // High northern declination Mars and southern Ceres seen from 78° N
+      expect(computeSkyDay('Mars', LONGYEARBYEN, MIDSUMMER).body!.status).toBe('circumpolar');
+      const ceres = computeSkyDay('Ceres', LONGYEARBYEN, MIDSUMMER).body!;
+      expect(ceres.status).toBe('never-rises');
+      expect(ceres.rise).toBeNull();
+      expect(ceres.set).toBeNull();
+      expect(ceres.transitAltitude).toBeLessThan(0);
+    });
+
+    it('should take the altitude from within the day when the body culminates on another', () => {
+      // The Moon stays down all day and next culminates just after midnight
+      const day = computeSkyDay('Moon', REYKJAVIK, new Date('2024-07-19T12:00:00Z'));
+      const moon = day.body!;
+      expect(moon.status).toBe('never-rises');
+      expect(moon.transit).toBeNull();
+
+      const observer = toAstronomyObserver(REYKJAVIK);
+      const altitudes: number[] = [];
+      for (let time = day.start.getTime(); time <= day.end.getTime(); time += HOUR_MS) {
+        const equatorial = Astronomy.Equator(Astronomy.Body.Moon, new Date(time), observer, true, true);
+        altitudes.push(Astronomy.Horizon(new Date(time), observer, equatorial.ra, equatorial.dec, 'normal').altitude);
+      }
+      expect(moon.transitAltitude).toBeCloseTo(Math.max(...altitudes), 1);
+    });
+
+    it('should rise and set Galilean moons with Jupiter', () => {
+      const jupiter = computeSkyDay('Jupiter', LONDON, MIDSUMMER).body!;
+      const io = computeSkyDay('Io', LONDON, MIDSUMMER).body!;
+      expect(io).toEqual(jupiter);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format local times', () => {
+      expect(formatLocalTime(new Date('2024-06-21T03:43:00Z'), 'Europe/London')).toBe('04:43');
+      expect(formatLocalTime(null, 'Europe/London')).toBe('—');
+    });
+
+    it('should describe events in time order', () => {
+      const times: RiseSetTimes = {
+        status: 'rises-and-sets',
+        rise: new Date('2024-06-21T20:00:00Z'),
+        transit: new Date('2024-06-21T01:00:00Z'),
+        transitAltitude: 12.4,
+        set: new Date('2024-06-21T05:00:00Z'),
+      };
+      expect(describeRiseSet('Moon', times, 'UTC')).toBe(
+        'Moon culminates at 01:00 at 12 degrees, sets at 05:00 and rises at 20:00 local time.'
+      );
+    });
+
+    it('should describe circumpolar and never-rising bodies', () => {
+      const base = { rise: null, transit: null, transitAltitude: 0, set: null };
+      expect(describeRiseSet('Mars', { ...base, status: 'circumpolar' }, 'UTC')).toContain('circumpolar');
+      expect(describeRiseSet('Ceres', { ...base, status: 'never-rises' }, 'UTC')).toBe('Ceres does not rise today.');
+    });
+
+    it('should describe twilight, including days without darkness', () => {
+      const text = describeTwilight(computeSkyDay('Earth', LONDON, MIDSUMMER));
+      expect(text).toMatch(/^Civil dawn \d\d:\d\d, dusk \d\d:\d\d; nautical dawn/);
+      expect(text).toContain('astronomical: the Sun stays above -18 degrees');
+    });
+  });
+});
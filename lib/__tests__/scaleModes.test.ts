@@ -0,0 +1,116 @@
+/**
+ * Scale Mode Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSceneScale,
+  getBodyRadius,
+  getCameraLimits,
+  getMoonOffsetScale,
+  getSunRadius,
+  isScaleMode,
+  scaleDistance,
+  scalePosition,
+  SCALE_MODES,
+} from '../scaleModes';
+
+const EARTH_DISTANCE = 10; // 1 AU
+const NEPTUNE_DISTANCE = 300; // 30 AU
+
+describe('Scale modes', () => {
+  it('should recognise mode names', () => {
+    expect(isScaleMode('log')).toBe(true);
+    expect(isScaleMode('logarithmic')).toBe(false);
+  });
+
+  it('should keep distances in the linear and true modes', () => {
+    expect(scaleDistance(NEPTUNE_DISTANCE, 'linear')).toBe(NEPTUNE_DISTANCE);
+    expect(scaleDistance(NEPTUNE_DISTANCE, 'true')).toBe(NEPTUNE_DISTANCE);
+  });
+
+  it('should pull the outer planets in without reordering anything', () => {
+    for (const mode of ['log', 'compressed'] as const) {
+      const ratio = scaleDistance(NEPTUNE_DISTANCE, mode) / scaleDistance(EARTH_DISTANCE, mode);
+      expect(ratio).toBeGreaterThan(1);
+      expect(ratio).toBeLessThan(NEPTUNE_DISTANCE / EARTH_DISTANCE / 2);
+      expect(scaleDistance(0, mode)).toBe(0);
+    }
+  });
+
+  it('should keep directions when remapping positions', () => {
+    const [x, y, z] = scalePosition([30, 0, -40], 'log');
+    expect(y).toBe(0);
+    expect(x / z).toBeCloseTo(30 / -40, 12);
+    expect(Math.hypot(x, y, z)).toBeCloseTo(scaleDistance(50, 'log'), 12);
+  });
+
+  it('should draw true sizes to the same scale as distances', () => {
+    // The Earth's radius is about 1/23,450 AU
+    expect(getBodyRadius(1, 'true') * 23_450).toBeCloseTo(EARTH_DISTANCE, 0);
+    expect(getSunRadius('true') / getBodyRadius(1, 'true')).toBeCloseTo(109, 0);
+    expect(getBodyRadius(1, 'compressed')).toBeGreaterThan(getBodyRadius(1, 'linear'));
+  });
+
+  it('should give moons their true offsets in the true mode', () => {
+    // The Moon's offset is exaggerated 80 times for display
+    expect(getMoonOffsetScale('Moon', 'true')).toBeCloseTo(1 / 80);
+    expect(getMoonOffsetScale('Moon', 'linear')).toBe(1);
+  });
+
+  it('should allow zooming in close to true-scale specks', () => {
+    for (const mode of SCALE_MODES) {
+      const { minDistance, maxDistance } = getCameraLimits(mode);
+      expect(minDistance).toBeLessThan(maxDistance);
+    }
+    expect(getCameraLimits('true').minDistance).toBeLessThan(getBodyRadius(1, 'linear'));
+  });
+
+  describe('createSceneScale', () => {
+    it('should map through the target mode once settled', () => {
+      const scale = createSceneScale({ from: 'linear', to: 'log', progress: 1 });
+
+      expect(scale.transitioning).toBe(false);
+      expect(scale.position([NEPTUNE_DISTANCE, 0, 0])[0]).toBeCloseTo(scaleDistance(NEPTUNE_DISTANCE, 'log'));
+      expect(scale.bodyRadius(1)).toBe(getBodyRadius(1, 'log'));
+    });
+
+    it('should blend distances and sizes during a transition', () => {
+      const start = createSceneScale({ from: 'linear', to: 'true', progress: 0 });
+      const middle = createSceneScale({ from: 'linear', to: 'true', progress: 0.5 });
+
+      expect(start.bodyRadius(1)).toBeCloseTo(getBodyRadius(1, 'linear'));
+      expect(middle.transitioning).toBe(true);
+      // Geometric blend: halfway in log space between the two sizes
+      expect(middle.bodyRadius(1)).toBeCloseTo(Math.sqrt(getBodyRadius(1, 'linear') * getBodyRadius(1, 'true')));
+
+      const log = createSceneScale({ from: 'linear', to: 'log', progress: 0.5 });
+      const [x] = log.position([NEPTUNE_DISTANCE, 0, 0]);
+      expect(x).toBeCloseTo((NEPTUNE_DISTANCE + scaleDistance(NEPTUNE_DISTANCE, 'log')) / 2);
+    });
+
+    it('should place moons around their scaled parent', () => {
+      const scale = createSceneScale({ from: 'true', to: 'true', progress: 1 });
+      const earth: [number, number, number] = [10, 0, 0];
+      const moon = scale.body('Moon', [12, 0, 0], earth);
+
+      expect(moon[0]).toBeCloseTo(10 + 2 / 80);
+      expect(scale.body('Mars', [15, 0, 0])).toEqual([15, 0, 0]);
+    });
+
+    it('should reuse paths when the mapping is the identity', () => {
+      const path = new Float32Array([10, 0, 0, 0, 0, -20]);
+
+      expect(createSceneScale({ from: 'log', to: 'linear', progress: 1 }).path(path)).toBe(path);
+      expect(createSceneScale({ from: 'log', to: 'compressed', progress: 1 }).path(path)[0]).toBeCloseTo(
+        scaleDistance(10, 'compressed'),
+        5
+      );
+    });
+
+    it('should loosen camera limits while blending', () => {
+      const scale = createSceneScale({ from: 'true', to: 'linear', progress: 0.2 });
+      expect(scale.cameraLimits.minDistance).toBe(getCameraLimits('true').minDistance);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Small Body Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BRIGHT_ASTEROIDS,
+  OPEN_ORBIT_MAX_AU,
+  computeSmallBodyOrbitPath,
+  computeSmallBodyPositions,
+  computeSmallBodyState,
+  describeSmallBody,
+  detectSmallBodyFormat,
+  mergeSmallBodies,
+  parseCometElsLine,
+  parseMpcorbLine,
+  parsePackedDate,
+  parseSmallBodyFile,
+  type CometBody,
+} from '../smallBodies';
+import { runEphemerisQuery } from '../ephemeris';
+import { dateToJulianDay, julianDayToDate } from '../kepler';
+import { ValidationError } from '../errors';
+
+const VESTA =
+  '00004    3.25  0.32 K24AH  19.20000  151.50000  103.70000    7.14000  0.0902000  0.27159524   2.3615000  0                                                            (4) Vesta';
+const HALLEY =
+  '0001P         1986 02  9.4590  0.587104  0.967277  111.8657   58.8601  162.2422  19860220   5.5  4.0  1P/Halley';
+const BORISOV =
+  '    CK19Q040  2019 12  8.5536  2.006548  3.356476  209.1246  308.1487   44.0526  20191117  13.0  4.0  C/2019 Q4 (Borisov)';
+
+const DATE = new Date('2025-03-01T00:00:00Z');
+
+function distance(x: number, y: number, z: number) {
+  return Math.hypot(x, y, z);
+}
+
+describe('Small Bodies', () => {
+  describe('parsePackedDate', () => {
+    it('should decode century, month and day letters', () => {
+      expect(parsePackedDate('K24AH')).toBe(dateToJulianDay(new Date('2024-10-17T00:00:00Z')));
+      expect(parsePackedDate('J9611')).toBe(dateToJulianDay(new Date('1996-01-01T00:00:00Z')));
+      expect(parsePackedDate('K25CV')).toBe(dateToJulianDay(new Date('2025-12-31T00:00:00Z')));
+    });
+
+    it('should reject malformed dates', () => {
+      expect(() => parsePackedDate('X24AH')).toThrow(ValidationError);
+      expect(() => parsePackedDate('K24DA')).toThrow(ValidationError);
+      expect(() => parsePackedDate('K24A')).toThrow(ValidationError);
+    });
+  });
+
+  describe('parseMpcorbLine', () => {
+    it('should read the fixed-width columns', () => {
+      const vesta = parseMpcorbLine(VESTA);
+
+      expect(vesta.kind).toBe('asteroid');
+      expect(vesta.id).toBe('(4) Vesta');
+      expect(vesta.name).toBe('Vesta');
+      expect(vesta.source).toBe('imported');
+      expect(vesta.absoluteMagnitude).toBe(3.25);
+      expect(vesta.slope).toBe(0.32);
+      expect(vesta.elements).toEqual({
+        epochJd: 2460600.5,
+        meanAnomaly: 19.2,
+        argPeri: 151.5,
+        node: 103.7,
+        i: 7.14,
+        e: 0.0902,
+        a: 2.3615,
+      });
+    });
+
+    it('should reject unbound or out-of-range elements', () => {
+      expect(() => parseMpcorbLine(VESTA.replace('0.0902000', '1.0902000'))).toThrow(ValidationError);
+      expect(() => parseMpcorbLine(VESTA.replace('  7.14000', '197.14000'))).toThrow(ValidationError);
+      expect(() => parseMpcorbLine(VESTA.replace(' 19.20000', '  abcdefg'))).toThrow(ValidationError);
+    });
+  });
+
+  describe('parseCometElsLine', () => {
+    it('should read the fixed-width columns', () => {
+      const halley = parseCometElsLine(HALLEY);
+
+      expect(halley.kind).toBe('comet');
+      expect(halley.id).toBe('1P/Halley');
+      expect(halley.absoluteMagnitude).toBe(5.5);
+      expect(halley.slope).toBe(4);
+      expect(halley.elements.q).toBe(0.587104);
+      expect(halley.elements.e).toBe(0.967277);
+      expect(halley.elements.i).toBe(162.2422);
+      expect(halley.elements.perihelionJd).toBeCloseTo(2446470.959, 6);
+    });
+  });
+
+  describe('detectSmallBodyFormat', () => {
+    it('should tell the two formats apart', () => {
+      expect(detectSmallBodyFormat(VESTA)).toBe('mpcorb');
+      expect(detectSmallBodyFormat(HALLEY)).toBe('cometels');
+      expect(detectSmallBodyFormat(BORISOV)).toBe('cometels');
+      expect(detectSmallBodyFormat('Des\'n     H     G   Epoch     M')).toBeNull();
+    });
+  });
+
+  describe('parseSmallBodyFile', () => {
+    it('should skip the MPCORB preamble and blank lines', () => {
+      const file = ['MINOR PLANET CENTER ORBIT DATABASE (MPCORB)', 'Des\'n     H     G   Epoch', '-'.repeat(160), VESTA, '', HALLEY, ''].join('\r\n');
+      const { bodies, errors } = parseSmallBodyFile(file);
+
+      expect(bodies.map((body) => body.id)).toEqual(['(4) Vesta', '1P/Halley']);
+      expect(errors).toEqual([]);
+    });
+
+    it('should report bad lines by number and keep the rest', () => {
+      const { bodies, errors } = parseSmallBodyFile([VESTA, 'garbage', BORISOV, VESTA].join('\n'));
+
+      expect(bodies.map((body) => body.id)).toEqual(['(4) Vesta', 'C/2019 Q4 (Borisov)']);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].line).toBe(2);
+    });
+  });
+
+  describe('BRIGHT_ASTEROIDS', () => {
+    it('should parse every bundled line', () => {
+      expect(BRIGHT_ASTEROIDS).toHaveLength(10);
+      expect(BRIGHT_ASTEROIDS.every((body) => body.kind === 'asteroid' && body.source === 'bundled')).toBe(true);
+      expect(BRIGHT_ASTEROIDS.map((body) => body.name)).toContain('Vesta');
+    });
+
+    it('should place them between the Sun and Jupiter', () => {
+      const positions = computeSmallBodyPositions(BRIGHT_ASTEROIDS, DATE);
+      for (let i = 0; i < BRIGHT_ASTEROIDS.length; i++) {
+        const r = distance(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]) / 10;
+        expect(r).toBeGreaterThan(1);
+        expect(r).toBeLessThan(4);
+      }
+    });
+  });
+
+  describe('computeSmallBodyState', () => {
+    it('should put comets at q on their perihelion date', () => {
+      for (const line of [HALLEY, BORISOV]) {
+        const comet = parseCometElsLine(line);
+        const state = computeSmallBodyState(comet, julianDayToDate(comet.elements.perihelionJd));
+        expect(distance(state.x, state.y, state.z)).toBeCloseTo(comet.elements.q, 8);
+      }
+    });
+
+    it('should carry an interstellar comet away on an open orbit', () => {
+      const borisov = parseCometElsLine(BORISOV);
+      const state = computeSmallBodyState(borisov, DATE);
+      expect(distance(state.x, state.y, state.z)).toBeGreaterThan(15);
+    });
+  });
+
+  describe('computeSmallBodyPositions', () => {
+    it('should lay out scene coordinates in input order, Y-up', () => {
+      const bodies = [parseMpcorbLine(VESTA), parseCometElsLine(HALLEY)];
+      const positions = computeSmallBodyPositions(bodies, DATE);
+      const halley = computeSmallBodyState(bodies[1], DATE);
+
+      expect(positions).toHaveLength(6);
+      expect(positions[3]).toBeCloseTo(halley.x * 10, 4);
+      expect(positions[4]).toBeCloseTo(halley.z * 10, 4);
+      expect(positions[5]).toBeCloseTo(-halley.y * 10, 4);
+    });
+
+    it('should run as an ephemeris query', () => {
+      const bodies = [parseMpcorbLine(VESTA)];
+      expect(runEphemerisQuery({ kind: 'smallBodies', dateMs: DATE.getTime(), bodies })).toEqual(
+        computeSmallBodyPositions(bodies, DATE)
+      );
+    });
+  });
+
+  describe('computeSmallBodyOrbitPath', () => {
+    it('should keep a closed orbit between perihelion and aphelion', () => {
+      const halley = parseCometElsLine(HALLEY);
+      const path = computeSmallBodyOrbitPath(halley);
+      const q = halley.elements.q;
+      const Q = (q * (1 + halley.elements.e)) / (1 - halley.elements.e);
+
+      for (let i = 0; i < path.length; i += 3) {
+        const r = distance(path[i], path[i + 1], path[i + 2]) / 10;
+        expect(r).toBeGreaterThan(q - 1e-4);
+        expect(r).toBeLessThan(Q + 1e-3);
+      }
+    });
+
+    it('should cut open orbits off at OPEN_ORBIT_MAX_AU', () => {
+      const path = computeSmallBodyOrbitPath(parseCometElsLine(BORISOV));
+      const last = path.length - 3;
+
+      expect(distance(path[0], path[1], path[2]) / 10).toBeCloseTo(OPEN_ORBIT_MAX_AU, 2);
+      expect(distance(path[last], path[last + 1], path[last + 2]) / 10).toBeCloseTo(OPEN_ORBIT_MAX_AU, 2);
+    });
+  });
+
+  describe('describeSmallBody', () => {
+    it('should give distances, speed, magnitude and elements', () => {
+      const vesta = parseMpcorbLine(VESTA);
+      const details = describeSmallBody(vesta, DATE);
+
+      expect(details.distanceAu).toBeGreaterThan(2.1);
+      expect(details.distanceAu).toBeLessThan(2.6);
+      expect(details.velocity).toBeGreaterThan(17);
+      expect(details.velocity).toBeLessThan(22);
+      // Vesta ranges between about magnitude 5 and 8.5
+      expect(details.magnitude).toBeGreaterThan(5);
+      expect(details.magnitude).toBeLessThan(8.6);
+      expect(details.orbit.a).toBeCloseTo(2.3615, 3);
+      expect(details.orbit.e).toBeCloseTo(0.0902, 4);
+    });
+  });
+
+  describe('mergeSmallBodies', () => {
+    it('should replace bodies with the same id and append new ones', () => {
+      const updated = { ...parseMpcorbLine(VESTA), absoluteMagnitude: 3.2 };
+      const comet: CometBody = parseCometElsLine(HALLEY);
+      const merged = mergeSmallBodies(BRIGHT_ASTEROIDS, [updated, comet]);
+
+      expect(merged).toHaveLength(BRIGHT_ASTEROIDS.length + 1);
+      expect(merged.findIndex((body) => body.id === '(4) Vesta')).toBe(
+        BRIGHT_ASTEROIDS.findIndex((body) => body.id === '(4) Vesta')
+      );
+      expect(merged.find((body) => body.id === '(4) Vesta')?.absoluteMagnitude).toBe(3.2);
+      expect(merged[merged.length - 1]).toBe(comet);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Spacecraft Trajectory Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as Astronomy from 'astronomy-engine';
+import {
+  BUNDLED_SPACECRAFT,
+  computeTrajectoryPath,
+  countPathPointsBefore,
+  describeSpacecraft,
+  detectTrajectoryFormat,
+  getSpacecraftScenePosition,
+  getTrajectoryRange,
+  interpolateTrajectory,
+  mergeSpacecraft,
+  parseHorizonsVectors,
+  parseTrajectoryCsv,
+  parseTrajectoryFile,
+} from '../spacecraft';
+import { dateToJulianDay, eclipticToEquatorial, julianDayToDate } from '../kepler';
+import { getCachedHelioVector } from '../astronomy-cache';
+import { ValidationError } from '../errors';
+
+// A circular 1 AU orbit in the ecliptic, sampled every 10 days
+const START_JD = 2460676.5; // 2025-01-01
+const RATE = (2 * Math.PI) / 365.25; // rad/day
+const SAMPLES = Array.from({ length: 6 }, (_, i) => {
+  const jd = START_JD + i * 10;
+  const angle = RATE * (jd - START_JD);
+  return {
+    jd,
+    x: Math.cos(angle),
+    y: Math.sin(angle),
+    vx: -Math.sin(angle) * RATE,
+    vy: Math.cos(angle) * RATE,
+  };
+});
+
+const KM_S = Astronomy.KM_PER_AU / 86_400;
+
+function horizonsText(header: string, rows: string[]) {
+  return [
+    '*******************************************************************************',
+    'Target body name: Test Probe (spacecraft) (-999)   {source: test}',
+    header,
+    'Output units    : KM-S',
+    '*******************************************************************************',
+    '$$SOE',
+    ...rows,
+    '$$EOE',
+    '*******************************************************************************',
+  ].join('\n');
+}
+
+const HORIZONS_TEXT = horizonsText(
+  'Center body name: Sun (10)                        {source: DE441}',
+  SAMPLES.flatMap((s) => [
+    `${s.jd.toFixed(9)} = A.D. 2025-Jan-01 00:00:00.0000 TDB `,
+    ` X =${(s.x * Astronomy.KM_PER_AU).toExponential(15)} Y =${(s.y * Astronomy.KM_PER_AU).toExponential(15)} Z = 0.000000000000000E+00`,
+    ` VX=${(s.vx * KM_S).toExponential(15)} VY=${(s.vy * KM_S).toExponential(15)} VZ= 0.000000000000000E+00`,
+    ' LT= 4.990047838061357E+02 RG= 1.495978707000000E+08 RR= 0.000000000000000E+00',
+  ])
+);
+
+function distance(v: { x: number; y: number; z: number }) {
+  return Math.hypot(v.x, v.y, v.z);
+}
+
+describe('Spacecraft', () => {
+  describe('parseHorizonsVectors', () => {
+    it('should read the text layout, converting km to AU and ecliptic to equatorial', () => {
+      const { name, trajectory } = parseHorizonsVectors(HORIZONS_TEXT);
+      const [x, y, z] = eclipticToEquatorial(SAMPLES[2].x, SAMPLES[2].y, 0);
+
+      expect(name).toBe('Test Probe');
+      expect(trajectory.jd).toHaveLength(6);
+      expect(trajectory.position[6]).toBeCloseTo(x, 10);
+      expect(trajectory.position[7]).toBeCloseTo(y, 10);
+      expect(trajectory.position[8]).toBeCloseTo(z, 10);
+      expect(Math.hypot(trajectory.velocity[6], trajectory.velocity[7], trajectory.velocity[8])).toBeCloseTo(RATE, 10);
+    });
+
+    it('should read the CSV layout in an equatorial frame', () => {
+      const text = horizonsText(
+        'Center body name: Solar System Barycenter (0)\nReference plane : FRAME',
+        SAMPLES.map(
+          (s) =>
+            `${s.jd}, A.D. 2025-Jan-01 00:00:00.0000, ${s.x * Astronomy.KM_PER_AU}, ${s.y * Astronomy.KM_PER_AU}, 0, ${s.vx * KM_S}, ${s.vy * KM_S}, 0,`
+        )
+      );
+      const { trajectory } = parseHorizonsVectors(text);
+
+      expect(trajectory.position[3]).toBeCloseTo(SAMPLES[1].x, 10);
+      expect(trajectory.position[4]).toBeCloseTo(SAMPLES[1].y, 10);
+      expect(trajectory.position[5]).toBe(0);
+    });
+
+    it('should reject tables not centered on the Sun', () => {
+      const text = HORIZONS_TEXT.replace('Sun (10)', 'Earth (399)');
+      expect(() => parseHorizonsVectors(text)).toThrow(ValidationError);
+      expect(() => parseHorizonsVectors('no markers')).toThrow(ValidationError);
+    });
+  });
+
+  describe('parseTrajectoryCsv', () => {
+    it('should read a header, ISO times and estimate missing velocities', () => {
+      const csv = [
+        '# circular test orbit',
+        'date,x,y,z',
+        ...SAMPLES.map((s) => `${julianDayToDate(s.jd).toISOString().slice(0, 16)},${s.x},${s.y},0`),
+      ].join('\n');
+      const { trajectory } = parseTrajectoryCsv(csv);
+
+      expect(trajectory.jd[0]).toBeCloseTo(START_JD, 6);
+      // Three-point derivative of a circle sampled every 10 days
+      expect(Math.hypot(trajectory.velocity[6], trajectory.velocity[7], trajectory.velocity[8])).toBeCloseTo(RATE, 3);
+    });
+
+    it('should take headerless columns in order, with Julian dates', () => {
+      const csv = SAMPLES.map((s) => `${s.jd},${s.x},${s.y},0,${s.vx},${s.vy},0`).join('\n');
+      const { trajectory } = parseTrajectoryCsv(csv);
+
+      expect(trajectory.jd[5]).toBe(SAMPLES[5].jd);
+      expect(trajectory.velocity[0]).toBeCloseTo(SAMPLES[0].vx, 12);
+    });
+
+    it('should report the line of a bad value', () => {
+      expect(() => parseTrajectoryCsv('time,x,y,z\n2025-01-01,1,0,0\n2025-01-02,oops,0,0')).toThrow(/line 3/);
+      expect(() => parseTrajectoryCsv('time,x,y\n2025-01-01,1,0')).toThrow(ValidationError);
+      expect(() => parseTrajectoryCsv('2025-01-01,1,0,0')).toThrow(ValidationError);
+    });
+  });
+
+  describe('parseTrajectoryFile', () => {
+    it('should detect the format and fall back to the file name', () => {
+      const csv = SAMPLES.map((s) => `${s.jd},${s.x},${s.y},0`).join('\n');
+
+      expect(detectTrajectoryFormat(HORIZONS_TEXT)).toBe('horizons');
+      expect(detectTrajectoryFormat(csv)).toBe('csv');
+      expect(parseTrajectoryFile(HORIZONS_TEXT, 'ignored').id).toBe('test-probe');
+      expect(parseTrajectoryFile(csv, 'My Probe')).toMatchObject({ id: 'my-probe', name: 'My Probe', source: 'imported' });
+    });
+  });
+
+  describe('interpolateTrajectory', () => {
+    const { trajectory } = parseHorizonsVectors(HORIZONS_TEXT);
+
+    it('should pass through the samples', () => {
+      const state = interpolateTrajectory(trajectory, julianDayToDate(SAMPLES[3].jd))!;
+      expect(state.x).toBeCloseTo(trajectory.position[9], 9);
+      expect(state.vx).toBeCloseTo(trajectory.velocity[9], 9);
+    });
+
+    it('should follow the curve between samples', () => {
+      const state = interpolateTrajectory(trajectory, julianDayToDate(START_JD + 25))!;
+      expect(distance(state)).toBeCloseTo(1, 5);
+      expect(Math.hypot(state.vx, state.vy, state.vz)).toBeCloseTo(RATE, 6);
+    });
+
+    it('should have no position outside the table', () => {
+      expect(interpolateTrajectory(trajectory, julianDayToDate(START_JD - 1))).toBeNull();
+      expect(interpolateTrajectory(trajectory, julianDayToDate(START_JD + 51))).toBeNull();
+      expect(getTrajectoryRange(trajectory).end).toEqual(julianDayToDate(START_JD + 50));
+    });
+  });
+
+  describe('computeTrajectoryPath', () => {
+    const { trajectory } = parseHorizonsVectors(HORIZONS_TEXT);
+
+    it('should fill in sparse tables and end on the last sample', () => {
+      const path = computeTrajectoryPath(trajectory);
+      const last = path.positions.length - 3;
+
+      expect(path.jd).toHaveLength(5 * 12 + 1);
+      expect(path.positions[last]).toBeCloseTo(trajectory.position[15] * 10, 4);
+      expect(countPathPointsBefore(path, julianDayToDate(START_JD + 10))).toBe(13);
+    });
+
+    it('should thin dense tables', () => {
+      expect(computeTrajectoryPath(trajectory, 4).jd).toHaveLength(4);
+    });
+  });
+
+  describe('BUNDLED_SPACECRAFT', () => {
+    it('should ship the teaching set', () => {
+      expect(BUNDLED_SPACECRAFT.map((craft) => craft.name)).toEqual([
+        'Voyager 1',
+        'Voyager 2',
+        'New Horizons',
+        'Parker Solar Probe',
+      ]);
+      expect(BUNDLED_SPACECRAFT.every((craft) => craft.source === 'bundled' && craft.mission.launchDate)).toBe(true);
+    });
+
+    it('should meet the planets on their flyby dates', () => {
+      const voyager2 = BUNDLED_SPACECRAFT.find((craft) => craft.id === 'voyager-2')!;
+      for (const [body, date] of [
+        ['Jupiter', '1979-07-09'],
+        ['Neptune', '1989-08-25'],
+      ] as const) {
+        const state = interpolateTrajectory(voyager2.trajectory, new Date(date))!;
+        const planet = getCachedHelioVector(body, new Date(date));
+        expect(Math.hypot(state.x - planet.x, state.y - planet.y, state.z - planet.z)).toBeLessThan(0.01);
+      }
+    });
+
+    it('should put Voyager 1 at the heliopause in August 2012', () => {
+      const voyager1 = BUNDLED_SPACECRAFT.find((craft) => craft.id === 'voyager-1')!;
+      const details = describeSpacecraft(voyager1, new Date('2012-08-25T00:00:00Z'))!;
+
+      expect(details.distanceAu).toBeGreaterThan(119);
+      expect(details.distanceAu).toBeLessThan(124);
+      expect(details.velocity).toBeGreaterThan(16);
+      expect(details.velocity).toBeLessThan(18);
+      expect(details.lightTimeSeconds / 3600).toBeGreaterThan(16);
+    });
+
+    it('should dive Parker Solar Probe to 10 solar radii', () => {
+      const parker = BUNDLED_SPACECRAFT.find((craft) => craft.id === 'parker-solar-probe')!;
+      const state = interpolateTrajectory(parker.trajectory, new Date('2024-12-24T11:53:00Z'))!;
+
+      expect(distance(state)).toBeGreaterThan(0.04);
+      expect(distance(state)).toBeLessThan(0.055);
+      expect(getSpacecraftScenePosition(parker, new Date('2020-01-01'))).toBeNull();
+    });
+  });
+
+  describe('mergeSpacecraft', () => {
+    it('should replace craft with the same id and append new ones', () => {
+      const csv = SAMPLES.map((s) => `${s.jd},${s.x},${s.y},0`).join('\n');
+      const replacement = parseTrajectoryFile(csv, 'Voyager 1');
+      const probe = parseTrajectoryFile(csv, 'Probe');
+      const merged = mergeSpacecraft(BUNDLED_SPACECRAFT, [replacement, probe]);
+
+      expect(merged).toHaveLength(BUNDLED_SPACECRAFT.length + 1);
+      expect(merged[0]).toBe(replacement);
+      expect(merged[merged.length - 1]).toBe(probe);
+      expect(dateToJulianDay(getTrajectoryRange(merged[0].trajectory).start)).toBeCloseTo(START_JD, 6);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Time Speed Scale Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MIN_TIME_SPEED_MAGNITUDE,
+  TIME_SPEED_PRESETS,
+  TIME_SPEED_SLIDER_STEPS,
+  describeTimeSpeed,
+  formatTimeSpeed,
+  sliderValueToTimeSpeed,
+  timeSpeedToSliderValue,
+} from '../timeSpeed';
+import { MAX_TIME_SPEED, validateTimeSpeed } from '../validation';
+
+describe('Time Speed Module', () => {
+  describe('sliderValueToTimeSpeed', () => {
+    it('should pause at the center detent', () => {
+      expect(sliderValueToTimeSpeed(0)).toBe(0);
+    });
+
+    it('should span one second per second to the maximum speed', () => {
+      expect(sliderValueToTimeSpeed(1)).toBeCloseTo(MIN_TIME_SPEED_MAGNITUDE, 10);
+      expect(sliderValueToTimeSpeed(TIME_SPEED_SLIDER_STEPS)).toBeCloseTo(MAX_TIME_SPEED, 6);
+    });
+
+    it('should run backwards for negative positions', () => {
+      expect(sliderValueToTimeSpeed(-TIME_SPEED_SLIDER_STEPS)).toBeCloseTo(-MAX_TIME_SPEED, 6);
+      expect(sliderValueToTimeSpeed(-500)).toBeCloseTo(-sliderValueToTimeSpeed(500), 10);
+    });
+
+    it('should be logarithmic', () => {
+      const a = sliderValueToTimeSpeed(200);
+      const b = sliderValueToTimeSpeed(400);
+      const c = sliderValueToTimeSpeed(600);
+      expect(b / a).toBeCloseTo(c / b, 6);
+    });
+
+    it('should clamp out-of-range positions', () => {
+      expect(sliderValueToTimeSpeed(TIME_SPEED_SLIDER_STEPS * 2)).toBeCloseTo(MAX_TIME_SPEED, 6);
+      expect(sliderValueToTimeSpeed(NaN)).toBe(0);
+    });
+
+    it('should always produce speeds accepted by validation', () => {
+      for (let v = -TIME_SPEED_SLIDER_STEPS; v <= TIME_SPEED_SLIDER_STEPS; v += 37) {
+        expect(() => validateTimeSpeed(sliderValueToTimeSpeed(v))).not.toThrow();
+      }
+    });
+  });
+
+  describe('timeSpeedToSliderValue', () => {
+    it('should round-trip slider positions', () => {
+      for (const v of [-1000, -731, -1, 0, 1, 250, 999]) {
+        expect(timeSpeedToSliderValue(sliderValueToTimeSpeed(v))).toBe(v);
+      }
+    });
+
+    it('should keep the sign of presets', () => {
+      expect(timeSpeedToSliderValue(-365)).toBeLessThan(0);
+      expect(timeSpeedToSliderValue(365)).toBeGreaterThan(0);
+      expect(timeSpeedToSliderValue(0)).toBe(0);
+    });
+
+    it('should clamp speeds below one second per second to the first step', () => {
+      expect(timeSpeedToSliderValue(1e-9)).toBe(1);
+      expect(timeSpeedToSliderValue(-1e-9)).toBe(-1);
+    });
+  });
+
+  describe('formatTimeSpeed', () => {
+    it('should label paused time', () => {
+      expect(formatTimeSpeed(0)).toBe('Paused');
+    });
+
+    it('should pick a readable unit', () => {
+      expect(formatTimeSpeed(1 / 86400)).toBe('1 s / sec');
+      expect(formatTimeSpeed(1 / 24)).toBe('1 h / sec');
+      expect(formatTimeSpeed(30)).toBe('30 d / sec');
+      expect(formatTimeSpeed(365)).toBe('1 yr / sec');
+      expect(formatTimeSpeed(MAX_TIME_SPEED)).toBe('1 cent / sec');
+    });
+
+    it('should mark reverse speeds', () => {
+      expect(formatTimeSpeed(-30)).toBe('−30 d / sec');
+    });
+  });
+
+  describe('describeTimeSpeed', () => {
+    it('should describe speeds for screen readers', () => {
+      expect(describeTimeSpeed(0)).toBe('Paused');
+      expect(describeTimeSpeed(1)).toBe('1 day per second');
+      expect(describeTimeSpeed(730)).toBe('2 years per second');
+      expect(describeTimeSpeed(-30)).toBe('30 days per second in reverse');
+    });
+  });
+
+  describe('TIME_SPEED_PRESETS', () => {
+    it('should include reverse presets and pause', () => {
+      expect(TIME_SPEED_PRESETS).toContain(0);
+      expect(TIME_SPEED_PRESETS.some((speed) => speed < 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Motion Trail Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTrail,
+  fadeTrail,
+  formatTrailLength,
+  getNextTrailLength,
+  pushTrailSample,
+  resetTrail,
+  type Trail,
+} from '../trails';
+import { ValidationError } from '../errors';
+
+const DAY_MS = 86_400_000;
+const START = Date.UTC(2025, 0, 1);
+
+/** Push one sample a day from `fromDay` to `toDay`, stepping either way */
+function run(trail: Trail, fromDay: number, toDay: number, lengthDays: number): void {
+  const step = toDay >= fromDay ? 1 : -1;
+  for (let day = fromDay; day !== toDay + step; day += step) {
+    pushTrailSample(trail, START + day * DAY_MS, [day, 0, 0], lengthDays);
+  }
+}
+
+function sampleDays(trail: Trail): number[] {
+  return Array.from(trail.times.subarray(0, trail.count), (time) => (time - START) / DAY_MS);
+}
+
+describe('Motion trails', () => {
+  it('should fill every sample with the trail color', () => {
+    const trail = createTrail([1, 0.5, 0], 4);
+
+    expect(trail.positions).toHaveLength(12);
+    expect(Array.from(trail.colors.subarray(12))).toEqual([1, 0.5, 0, 0]);
+    expect(() => createTrail([1, 1, 1], 1)).toThrow(ValidationError);
+  });
+
+  it('should keep samples oldest first within the trail length', () => {
+    const trail = createTrail([1, 1, 1], 64);
+    run(trail, 0, 20, 10);
+
+    expect(sampleDays(trail)).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+    expect(trail.positions[trail.count * 3 - 3]).toBe(20);
+  });
+
+  it('should reuse its buffers when full', () => {
+    const trail = createTrail([1, 1, 1], 4);
+    const { positions } = trail;
+    run(trail, 0, 100, 3);
+
+    expect(trail.positions).toBe(positions);
+    expect(trail.count).toBe(4);
+    expect(sampleDays(trail)).toEqual([97, 98, 99, 100]);
+  });
+
+  it('should let the newest sample follow the body between intervals', () => {
+    const trail = createTrail([1, 1, 1], 11);
+    pushTrailSample(trail, START, [0, 0, 0], 10);
+    pushTrailSample(trail, START + DAY_MS, [1, 0, 0], 10);
+    pushTrailSample(trail, START + 1.5 * DAY_MS, [1.5, 0, 0], 10);
+    pushTrailSample(trail, START + 1.8 * DAY_MS, [1.8, 0, 0], 10);
+
+    expect(trail.count).toBe(3);
+    expect(trail.positions[6]).toBeCloseTo(1.8);
+  });
+
+  it('should retrace the trail when time runs backwards, then grow behind', () => {
+    const trail = createTrail([1, 1, 1], 64);
+    run(trail, 0, 10, 30);
+    run(trail, 9, 6, 30);
+
+    expect(sampleDays(trail)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+
+    run(trail, 5, -5, 30);
+    expect(sampleDays(trail)).toEqual([0, -1, -2, -3, -4, -5]);
+  });
+
+  it('should fade with age and empty on reset', () => {
+    const trail = createTrail([1, 1, 1], 16);
+    run(trail, 0, 10, 10);
+    fadeTrail(trail, START + 10 * DAY_MS, 10);
+
+    expect(trail.colors[3]).toBeCloseTo(0);
+    expect(trail.colors[5 * 4 + 3]).toBeCloseTo(0.5);
+    expect(trail.colors[trail.count * 4 - 1]).toBe(1);
+
+    resetTrail(trail);
+    expect(trail.count).toBe(0);
+  });
+
+  it('should format and cycle trail lengths', () => {
+    expect(formatTrailLength(30)).toBe('30 days');
+    expect(formatTrailLength(365)).toBe('1 year');
+    expect(formatTrailLength(1826)).toBe('5 years');
+    expect(getNextTrailLength(90)).toBe(365);
+    expect(getNextTrailLength(1826)).toBe(30);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Interplanetary Transfer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computePorkchop,
+  computeTransfer,
+  computeTransferArc,
+  estimateHohmannTransfer,
+  getDefaultTransferWindow,
+  getPorkchopTransfer,
+  getTransferPosition,
+  propagateUniversal,
+  solveLambert,
+} from '../transfers';
+import { eclipticToEquatorial, SUN_GM_AU3_PER_DAY2 } from '../kepler';
+import { calculatePlanetPositionCached } from '../astronomy-cache';
+import { ValidationError } from '../errors';
+
+const CIRCULAR_SPEED = Math.sqrt(SUN_GM_AU3_PER_DAY2); // AU/day at 1 AU
+const YEAR_DAYS = (2 * Math.PI) / CIRCULAR_SPEED;
+
+describe('Transfers', () => {
+  describe('solveLambert', () => {
+    it('should recover a circular orbit the short way round', () => {
+      const r1 = eclipticToEquatorial(1, 0, 0);
+      const r2 = eclipticToEquatorial(0, 1, 0);
+      const { v1, v2 } = solveLambert(r1, r2, YEAR_DAYS / 4)!;
+      const expected1 = eclipticToEquatorial(0, CIRCULAR_SPEED, 0);
+      const expected2 = eclipticToEquatorial(-CIRCULAR_SPEED, 0, 0);
+
+      v1.forEach((value, k) => expect(value).toBeCloseTo(expected1[k], 8));
+      v2.forEach((value, k) => expect(value).toBeCloseTo(expected2[k], 8));
+    });
+
+    it('should go the long way to stay prograde', () => {
+      const r1 = eclipticToEquatorial(1, 0, 0);
+      const r2 = eclipticToEquatorial(0, -1, 0);
+      const { v1 } = solveLambert(r1, r2, (3 * YEAR_DAYS) / 4)!;
+      const expected = eclipticToEquatorial(0, CIRCULAR_SPEED, 0);
+
+      v1.forEach((value, k) => expect(value).toBeCloseTo(expected[k], 8));
+    });
+
+    it('should have no solution for opposite points', () => {
+      expect(solveLambert([1, 0, 0], [-1.5, 0, 0], 200)).toBeNull();
+      expect(solveLambert([1, 0, 0], [0, 1, 0], 0)).toBeNull();
+    });
+  });
+
+  describe('propagateUniversal', () => {
+    it('should fly a Lambert solution to its end point, on ellipses and hyperbolas', () => {
+      const r1 = eclipticToEquatorial(1, 0, 0);
+      const r2 = eclipticToEquatorial(-1, 4, 0.2);
+      for (const days of [40, 400]) {
+        const { v1 } = solveLambert(r1, r2, days)!;
+        const end = propagateUniversal(r1, v1, days);
+        end.forEach((value, k) => expect(value).toBeCloseTo(r2[k], 7));
+      }
+    });
+  });
+
+  describe('estimateHohmannTransfer', () => {
+    it('should match the textbook Earth to Mars figures', () => {
+      const estimate = estimateHohmannTransfer('Earth', 'Mars');
+
+      expect(estimate.timeOfFlightDays).toBeGreaterThan(255);
+      expect(estimate.timeOfFlightDays).toBeLessThan(262);
+      expect(estimate.departureVInf).toBeCloseTo(2.94, 1);
+      expect(estimate.arrivalVInf).toBeCloseTo(2.65, 1);
+      expect(estimate.synodicPeriodDays).toBeCloseTo(780, -1);
+    });
+
+    it('should reject a transfer to the same body', () => {
+      expect(() => estimateHohmannTransfer('Mars', 'Mars')).toThrow(ValidationError);
+    });
+  });
+
+  describe('computePorkchop', () => {
+    const window = {
+      departureStartMs: Date.parse('2026-08-01T00:00:00Z'),
+      departureEndMs: Date.parse('2027-02-01T00:00:00Z'),
+      arrivalStartMs: Date.parse('2027-05-01T00:00:00Z'),
+      arrivalEndMs: Date.parse('2028-03-01T00:00:00Z'),
+      steps: 24,
+    };
+    const grid = computePorkchop('Earth', 'Mars', window);
+
+    it('should find the late-2026 Mars launch window', () => {
+      const cell = grid.minC3!;
+      const best = grid.c3[cell.arrivalIndex * window.steps + cell.departureIndex];
+      const departure = new Date(grid.departureMs[cell.departureIndex]);
+
+      expect(best).toBeGreaterThan(7);
+      expect(best).toBeLessThan(12);
+      expect(departure.getTime()).toBeGreaterThan(Date.parse('2026-09-15'));
+      expect(departure.getTime()).toBeLessThan(Date.parse('2027-01-01'));
+      expect(grid.minDeltaV).not.toBeNull();
+    });
+
+    it('should leave cells arriving before departure empty', () => {
+      const steps = 4;
+      const overlapping = computePorkchop('Earth', 'Venus', {
+        departureStartMs: window.departureStartMs,
+        departureEndMs: window.departureStartMs + 90 * 86_400_000,
+        arrivalStartMs: window.departureStartMs,
+        arrivalEndMs: window.departureStartMs + 180 * 86_400_000,
+        steps,
+      });
+
+      expect(overlapping.c3[0]).toBeNaN();
+      expect(overlapping.deltaV[steps - 1]).toBeNaN();
+      expect(overlapping.c3[steps * steps - steps]).toBeGreaterThan(0);
+    });
+
+    it('should rebuild the transfer of a cell', () => {
+      const cell = grid.minDeltaV!;
+      const transfer = getPorkchopTransfer(grid, cell)!;
+
+      expect(transfer.deltaV).toBeCloseTo(grid.deltaV[cell.arrivalIndex * window.steps + cell.departureIndex], 3);
+      expect(transfer.departureDeltaV).toBeGreaterThan(3);
+      expect(transfer.arrivalDeltaV).toBeGreaterThan(1);
+    });
+
+    it('should validate the grid size', () => {
+      expect(() => computePorkchop('Earth', 'Mars', { ...window, steps: 1 })).toThrow(ValidationError);
+      expect(() => computePorkchop('Earth', 'Mars', { ...window, steps: 1000 })).toThrow(ValidationError);
+    });
+  });
+
+  describe('getDefaultTransferWindow', () => {
+    it('should span a synodic period of departures', () => {
+      const from = new Date('2026-01-01T00:00:00Z');
+      const window = getDefaultTransferWindow('Earth', 'Mars', from);
+      const days = (window.departureEndMs - window.departureStartMs) / 86_400_000;
+
+      expect(window.departureStartMs).toBe(from.getTime());
+      expect(days).toBeCloseTo(780, -1);
+      expect(window.arrivalEndMs).toBeGreaterThan(window.departureEndMs);
+    });
+  });
+
+  describe('computeTransferArc', () => {
+    const departure = new Date('2026-11-01T00:00:00Z');
+    const arrival = new Date('2027-09-01T00:00:00Z');
+    const transfer = computeTransfer('Earth', 'Mars', departure, arrival)!;
+
+    it('should run from the origin to the destination in scene space', () => {
+      const arc = computeTransferArc(transfer, 64);
+      const start = calculatePlanetPositionCached('Earth', departure);
+      const end = calculatePlanetPositionCached('Mars', arrival);
+
+      start.forEach((value, k) => expect(arc[k]).toBeCloseTo(value, 4));
+      end.forEach((value, k) => expect(arc[arc.length - 3 + k]).toBeCloseTo(value, 4));
+    });
+
+    it('should only have a position during the flight', () => {
+      expect(getTransferPosition(transfer, new Date('2027-03-01T00:00:00Z'))).not.toBeNull();
+      expect(getTransferPosition(transfer, new Date('2026-10-01T00:00:00Z'))).toBeNull();
+      expect(getTransferPosition(transfer, new Date('2027-10-01T00:00:00Z'))).toBeNull();
+    });
+  });
+});
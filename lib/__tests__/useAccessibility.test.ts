@@ -134,6 +134,10 @@ describe('useAccessibility', () => {
       expect(KEYBOARD_SHORTCUTS.TOGGLE_ORBITS).toBe('o');
     });
 
+    it('should have toggle trails shortcut', () => {
+      expect(KEYBOARD_SHORTCUTS.TOGGLE_TRAILS).toBe('t');
+    });
+
     it('should have toggle labels shortcut', () => {
       expect(KEYBOARD_SHORTCUTS.TOGGLE_LABELS).toBe('l');
     });
@@ -142,10 +146,18 @@ describe('useAccessibility', () => {
       expect(KEYBOARD_SHORTCUTS.CINEMATIC_MODE).toBe('c');
     });
 
+    it('should have sky view shortcut', () => {
+      expect(KEYBOARD_SHORTCUTS.SKY_VIEW).toBe('v');
+    });
+
     it('should have command palette shortcut', () => {
       expect(KEYBOARD_SHORTCUTS.COMMAND_PALETTE).toBe('k');
     });
 
+    it('should have upcoming events shortcut', () => {
+      expect(KEYBOARD_SHORTCUTS.UPCOMING_EVENTS).toBe('e');
+    });
+
     it('should have mission control shortcut', () => {
       expect(KEYBOARD_SHORTCUTS.MISSION_CONTROL).toBe('m');
     });
@@ -20,7 +20,10 @@ import {
   safeParseFloat,
   isDefined,
   assertDefined,
+  validateObserverLocation,
   VALID_BODIES,
+  MAX_TIME_SPEED,
+  MAX_OBSERVER_ELEVATION,
 } from '../validation';
 import { ValidationError } from '../errors';
 
@@ -37,8 +40,13 @@ describe('Validation Utilities', () => {
       expect(isValidBody('Neptune')).toBe(true);
     });
 
+    it('should return true for dwarf planets', () => {
+      expect(isValidBody('Pluto')).toBe(true);
+      expect(isValidBody('Ceres')).toBe(true);
+      expect(isValidBody('Eris')).toBe(true);
+    });
+
     it('should return false for invalid names', () => {
-      expect(isValidBody('Pluto')).toBe(false);
       expect(isValidBody('Sun')).toBe(false);
       expect(isValidBody('Moon')).toBe(false);
       expect(isValidBody('')).toBe(false);
@@ -53,7 +61,7 @@ describe('Validation Utilities', () => {
     });
 
     it('should throw ValidationError for invalid body', () => {
-      expect(() => validateBody('Pluto')).toThrow(ValidationError);
+      expect(() => validateBody('Sun')).toThrow(ValidationError);
       expect(() => validateBody('invalid')).toThrow(ValidationError);
     });
 
@@ -101,8 +109,14 @@ describe('Validation Utilities', () => {
       expect(validateTimeSpeed(100)).toBe(100);
     });
 
-    it('should throw for negative speeds', () => {
-      expect(() => validateTimeSpeed(-1)).toThrow(ValidationError);
+    it('should accept negative speeds for reverse playback', () => {
+      expect(validateTimeSpeed(-1)).toBe(-1);
+      expect(validateTimeSpeed(-365)).toBe(-365);
+      expect(validateTimeSpeed(-MAX_TIME_SPEED)).toBe(-MAX_TIME_SPEED);
+    });
+
+    it('should accept fractional speeds', () => {
+      expect(validateTimeSpeed(1 / 86400)).toBe(1 / 86400);
     });
 
     it('should throw for non-finite values', () => {
@@ -112,6 +126,7 @@ describe('Validation Utilities', () => {
 
     it('should throw for speeds exceeding maximum', () => {
       expect(() => validateTimeSpeed(365 * 100 + 1)).toThrow(ValidationError);
+      expect(() => validateTimeSpeed(-(365 * 100 + 1))).toThrow(ValidationError);
     });
   });
 
@@ -286,4 +301,33 @@ describe('Validation Utilities', () => {
       expect(() => assertDefined(undefined, 'test')).toThrow(ValidationError);
     });
   });
+
+  describe('validateObserverLocation', () => {
+    const paris = { name: 'Paris', latitude: 48.8566, longitude: 2.3522, elevation: 35 };
+
+    it('should accept valid locations', () => {
+      expect(validateObserverLocation(paris)).toEqual(paris);
+    });
+
+    it('should keep known time zones and drop unknown ones', () => {
+      expect(validateObserverLocation({ ...paris, timeZone: 'Europe/Paris' }).timeZone).toBe('Europe/Paris');
+      expect(validateObserverLocation({ ...paris, timeZone: 'Mars/Olympus_Mons' }).timeZone).toBeUndefined();
+    });
+
+    it('should default a blank name', () => {
+      expect(validateObserverLocation({ ...paris, name: ' ' }).name).toBe('Custom');
+    });
+
+    it('should reject out-of-range coordinates', () => {
+      expect(() => validateObserverLocation({ ...paris, latitude: 91 })).toThrow(ValidationError);
+      expect(() => validateObserverLocation({ ...paris, longitude: -181 })).toThrow(ValidationError);
+      expect(() => validateObserverLocation({ ...paris, elevation: MAX_OBSERVER_ELEVATION + 1 })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject non-numeric coordinates', () => {
+      expect(() => validateObserverLocation({ ...paris, latitude: NaN })).toThrow(ValidationError);
+    });
+  });
 });
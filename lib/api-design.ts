@@ -1,9 +1,9 @@
 /**
  * API Design Document for Orbit Command
  *
- * This module defines the API structure for potential server-side
- * astronomy calculations. Currently client-side only, but designed
- * for future scalability.
+ * This module defines the API structure for server-side astronomy
+ * calculations, served from app/api/v1/astronomy (see astronomyApi.ts).
+ * The API client below is still a placeholder.
  */
 
 // =============================================================================
@@ -71,6 +71,38 @@ export interface CalculatePositionsResponse {
   };
 }
 
+/**
+ * Request to calculate positions at many dates at once
+ */
+export interface BatchPositionsRequest {
+  /** ISO 8601 date strings */
+  dates: string[];
+  /** List of planet names to calculate (optional, defaults to all) */
+  planets?: string[];
+  /** Include velocity calculations */
+  includeVelocity?: boolean;
+  /** Include extended orbital data */
+  includeOrbitalData?: boolean;
+}
+
+/**
+ * Positions for one date of a batch, or why that date failed
+ */
+export type BatchPositionsResult = CalculatePositionsResponse | { date: string; error: APIError };
+
+/**
+ * Batch response, with one result per requested date in request order
+ */
+export interface BatchPositionsResponse {
+  results: BatchPositionsResult[];
+  meta: {
+    dateCount: number;
+    errorCount: number;
+    calculationTimeMs: number;
+    version: string;
+  };
+}
+
 /**
  * Request for time range calculations (ephemeris)
  */
@@ -108,11 +140,28 @@ export interface EphemerisResponse {
   };
 }
 
+/**
+ * Kinds of astronomical event
+ */
+export const ASTRONOMICAL_EVENT_TYPES = [
+  'conjunction',
+  'opposition',
+  'elongation',
+  'transit',
+  'eclipse',
+  'perihelion',
+  'aphelion',
+  'equinox',
+  'solstice',
+] as const;
+
+export type AstronomicalEventType = (typeof ASTRONOMICAL_EVENT_TYPES)[number];
+
 /**
  * Astronomical event (conjunction, opposition, etc.)
  */
 export interface AstronomicalEvent {
-  type: 'conjunction' | 'opposition' | 'elongation' | 'transit' | 'eclipse';
+  type: AstronomicalEventType;
   date: string;
   planets: string[];
   description: string;
@@ -159,9 +208,11 @@ export interface APIError {
 export const API_ERROR_CODES = {
   INVALID_DATE: 'INVALID_DATE',
   INVALID_PLANET: 'INVALID_PLANET',
+  INVALID_PARAMETER: 'INVALID_PARAMETER',
   DATE_OUT_OF_RANGE: 'DATE_OUT_OF_RANGE',
   RATE_LIMITED: 'RATE_LIMITED',
   CALCULATION_ERROR: 'CALCULATION_ERROR',
+  FEATURE_DISABLED: 'FEATURE_DISABLED',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
 } as const;
 
@@ -182,20 +233,27 @@ export const API_ERROR_CODES = {
  *   Rate limit: 100 requests/minute
  *
  * POST /positions/batch
- *   Body: { dates: string[], planets?: string[] }
- *   Response: { results: CalculatePositionsResponse[] }
+ *   Body: BatchPositionsRequest (at most MAX_BATCH_DATES dates)
+ *   Response: BatchPositionsResponse; a bad date fails only its own result
  *   Rate limit: 10 requests/minute
  *
  * GET /ephemeris/:planet
- *   Query params: startDate, endDate, stepHours, maxPoints
- *   Response: EphemerisResponse
+ *   Query params: startDate, endDate, stepHours, maxPoints, includeVelocity, format
+ *   Response: EphemerisResponse as JSON, or CSV or streamed NDJSON rows, chosen
+ *   by the format param (json, csv, ndjson) or else the Accept header
  *   Rate limit: 20 requests/minute
  *
  * GET /events
- *   Query params: startDate, endDate, types (comma-separated), planets (comma-separated)
- *   Response: EventsResponse
+ *   Query params: startDate, endDate, eventTypes or types (comma-separated), planets (comma-separated)
+ *   Response: EventsResponse; the next year from today when no dates are given
  *   Rate limit: 50 requests/minute
  *
+ * GET /events.ics
+ *   Query params: as GET /events, with dates limited to the years 0000-9999
+ *   Response: iCalendar feed for calendar subscriptions, linking each event
+ *   back into the simulator at its date
+ *   Rate limit: shared with GET /events
+ *
  * GET /health
  *   Response: { status: 'ok', version: string, uptime: number }
  *   No rate limit
@@ -205,6 +263,7 @@ export const API_ERROR_CODES = {
 // Rate Limiting Configuration
 // =============================================================================
 
+// Enforced per client IP or API key by middleware.ts, see rateLimit.ts
 export const RATE_LIMITS = {
   positions: {
     windowMs: 60 * 1000, // 1 minute
@@ -261,6 +320,20 @@ export function generateEphemerisCacheKey(
   return `${CACHE_CONFIG.keyPrefix}eph:${planet}:${startDate}:${endDate}:${stepHours}`;
 }
 
+/**
+ * Generate cache key for events request
+ */
+export function generateEventsCacheKey(
+  startDate: string,
+  endDate: string,
+  types: string[] = [],
+  planets: string[] = []
+): string {
+  const sortedTypes = [...types].sort().join(',');
+  const sortedPlanets = [...planets].sort().join(',');
+  return `${CACHE_CONFIG.keyPrefix}evt:${startDate}:${endDate}:${sortedTypes}:${sortedPlanets}`;
+}
+
 // =============================================================================
 // API Client (for future use)
 // =============================================================================
@@ -310,13 +383,13 @@ export const FEATURE_FLAGS = {
   /** Use server-side calculations instead of client-side */
   useServerCalculations: false,
   /** Enable ephemeris endpoint */
-  enableEphemeris: false,
+  enableEphemeris: true,
   /** Enable events endpoint */
-  enableEvents: false,
+  enableEvents: true,
   /** Enable batch position requests */
-  enableBatchPositions: false,
-  /** Enable detailed orbital data */
-  enableOrbitalData: false,
+  enableBatchPositions: true,
+  /** Enable detailed orbital data (includeOrbitalData on the positions endpoints) */
+  enableOrbitalData: true,
 } as const;
 
 /**
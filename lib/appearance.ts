@@ -0,0 +1,172 @@
+/**
+ * Appearance From Earth
+ *
+ * Phase, brightness and apparent size of a body as seen from Earth's centre.
+ * astronomy-engine rates the Moon, the planets and Pluto (including Saturn's
+ * rings); other bodies use their absolute magnitude with the IAU H-G phase
+ * law.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { getBodyConfig, isHeliocentricBody, getOrbitalElements, type BodyName } from './bodies';
+import { computeGeocentricVector } from './observer';
+import { EARTH_RADIUS_KM } from './eclipses';
+
+const RAD_TO_DEG = 180 / Math.PI;
+const ARCSEC_PER_RADIAN = 206_264.806;
+
+/** Slope parameter for bodies without a measured one */
+const DEFAULT_SLOPE_PARAMETER = 0.15;
+
+export interface BodyAppearance {
+  /** Sun-body-Earth angle in degrees; 0 is full, 180 is new */
+  phaseAngle: number;
+  /** Lit fraction of the disc, 0 to 1 */
+  illuminatedFraction: number;
+  /** Apparent visual magnitude */
+  magnitude: number;
+  /** Apparent diameter of the globe in arcseconds */
+  angularDiameterArcsec: number;
+  /** Angle from the Sun in Earth's sky, degrees */
+  elongation: number;
+  /** Distance from Earth's centre in AU */
+  earthDistanceAu: number;
+  /** Saturn only: tilt of the rings toward Earth in degrees; 0 is edge-on */
+  ringTilt?: number;
+}
+
+function length(v: { x: number; y: number; z: number }): number {
+  return Math.sqrt(v.x ** 2 + v.y ** 2 + v.z ** 2);
+}
+
+/**
+ * Bodies astronomy-engine's Illumination() supports
+ */
+function isEngineBody(name: BodyName): boolean {
+  if (name === 'Moon') return true;
+  return isHeliocentricBody(name) && getOrbitalElements(name) === null;
+}
+
+/**
+ * Apparent magnitude from absolute magnitude H and slope parameter G (IAU 1985)
+ */
+export function magnitudeFromAbsolute(
+  absoluteMagnitude: number,
+  sunDistanceAu: number,
+  earthDistanceAu: number,
+  phaseAngleDeg: number,
+  slope = DEFAULT_SLOPE_PARAMETER
+): number {
+  const halfTan = Math.tan(phaseAngleDeg / RAD_TO_DEG / 2);
+  const phi1 = Math.exp(-3.33 * halfTan ** 0.63);
+  const phi2 = Math.exp(-1.87 * halfTan ** 1.22);
+  return (
+    absoluteMagnitude +
+    5 * Math.log10(sunDistanceAu * earthDistanceAu) -
+    2.5 * Math.log10((1 - slope) * phi1 + slope * phi2)
+  );
+}
+
+/**
+ * Phase, magnitude, apparent size and solar elongation of a body seen from
+ * Earth. Returns null for Earth, and when a body has no magnitude data.
+ */
+export function computeAppearance(name: BodyName, date: Date): BodyAppearance | null {
+  const geocentric = computeGeocentricVector(name, date);
+  if (!geocentric) return null;
+
+  const sun = Astronomy.GeoVector(Astronomy.Body.Sun, date, true);
+  const earthDistanceAu = length(geocentric);
+  const radiusKm = getBodyConfig(name).radius * EARTH_RADIUS_KM;
+
+  const common = {
+    angularDiameterArcsec: 2 * Math.atan(radiusKm / (earthDistanceAu * Astronomy.KM_PER_AU)) * ARCSEC_PER_RADIAN,
+    elongation: Astronomy.AngleBetween(geocentric, sun),
+    earthDistanceAu,
+  };
+
+  if (isEngineBody(name)) {
+    const illumination = Astronomy.Illumination(name as Astronomy.Body, date);
+    return {
+      phaseAngle: illumination.phase_angle,
+      illuminatedFraction: illumination.phase_fraction,
+      magnitude: illumination.mag,
+      ...common,
+      ...(illumination.ring_tilt !== undefined ? { ringTilt: illumination.ring_tilt } : {}),
+    };
+  }
+
+  const absoluteMagnitude = getBodyConfig(name).absoluteMagnitude;
+  if (absoluteMagnitude === undefined) return null;
+
+  // Body-to-Sun and body-to-Earth directions give the phase angle
+  const toSun = new Astronomy.Vector(sun.x - geocentric.x, sun.y - geocentric.y, sun.z - geocentric.z, sun.t);
+  const toEarth = new Astronomy.Vector(-geocentric.x, -geocentric.y, -geocentric.z, geocentric.t);
+  const phaseAngle = Astronomy.AngleBetween(toSun, toEarth);
+
+  return {
+    phaseAngle,
+    illuminatedFraction: (1 + Math.cos(phaseAngle / RAD_TO_DEG)) / 2,
+    magnitude: magnitudeFromAbsolute(absoluteMagnitude, length(toSun), earthDistanceAu, phaseAngle),
+    ...common,
+  };
+}
+
+/**
+ * Format a magnitude with a true minus sign, e.g. "−4.3"
+ */
+export function formatMagnitude(magnitude: number): string {
+  return magnitude.toFixed(1).replace('-', '−');
+}
+
+/**
+ * Format an angular size as arcseconds, or arcminutes above 2′, e.g. "17.6″" or "31.2′"
+ */
+export function formatAngularSize(arcsec: number): string {
+  if (arcsec >= 120) return `${(arcsec / 60).toFixed(1)}′`;
+  return arcsec >= 10 ? `${arcsec.toFixed(1)}″` : `${arcsec.toFixed(2)}″`;
+}
+
+/**
+ * Format a one-way light time, e.g. "1.28 s", "8 min 19 s" or "4 h 10 min"
+ */
+export function formatLightTime(seconds: number): string {
+  if (seconds < 60) return `${seconds.toFixed(2)} s`;
+  const rounded = Math.round(seconds);
+  if (rounded < 3600) return `${Math.floor(rounded / 60)} min ${rounded % 60} s`;
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+/**
+ * Common name for a phase from its lit fraction: "Full", "Gibbous",
+ * "Quarter", "Crescent" or "New"
+ */
+export function describePhase(illuminatedFraction: number): string {
+  if (illuminatedFraction >= 0.97) return 'Full';
+  if (illuminatedFraction > 0.53) return 'Gibbous';
+  if (illuminatedFraction >= 0.47) return 'Quarter';
+  if (illuminatedFraction > 0.03) return 'Crescent';
+  return 'New';
+}
+
+/**
+ * Screen-reader sentence, e.g. "Seen from Earth: magnitude −4.3, 45 percent lit
+ * (crescent), 32.1 arcseconds across, 46 degrees from the Sun, 0.72 AU away."
+ */
+export function describeAppearance(appearance: BodyAppearance): string {
+  const size =
+    appearance.angularDiameterArcsec >= 120
+      ? `${(appearance.angularDiameterArcsec / 60).toFixed(1)} arcminutes`
+      : `${appearance.angularDiameterArcsec.toFixed(1)} arcseconds`;
+  const rings =
+    appearance.ringTilt !== undefined ? ` Rings tilted ${Math.abs(appearance.ringTilt).toFixed(1)} degrees.` : '';
+
+  return (
+    `Seen from Earth: magnitude ${formatMagnitude(appearance.magnitude)}, ` +
+    `${Math.round(appearance.illuminatedFraction * 100)} percent lit (${describePhase(appearance.illuminatedFraction).toLowerCase()}), ` +
+    `${size} across, ${Math.round(appearance.elongation)} degrees from the Sun, ` +
+    `${appearance.earthDistanceAu.toFixed(appearance.earthDistanceAu < 0.1 ? 5 : 2)} AU away.` +
+    rings
+  );
+}
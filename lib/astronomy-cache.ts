@@ -6,11 +6,28 @@
  */
 
 import * as Astronomy from 'astronomy-engine';
+import type { BodyName, HeliocentricBodyName } from './bodies';
+import { MOON_CONFIG, computeMoonStates, isMoonName, type MoonName } from './moons';
+import {
+  computeGeocentricVector,
+  computeSkyPosition,
+  getObserverKey,
+  getObserverTimeZone,
+  type ObserverLocation,
+  type SkyPosition,
+} from './observer';
+import { computeSkyDay, getLocalDayStart, type SkyDay } from './riseSet';
+import { computeAppearance, type BodyAppearance } from './appearance';
+import { stateToElements, type OsculatingElements } from './kepler';
+import { getCentralGm } from './orbitalElements';
+import { evaluateChebyshevState, evaluateChebyshevVector, getChebyshevSegmentCount } from './chebyshev';
 
 // Cache configuration
 const POSITION_CACHE_SIZE = 1000;
 const VELOCITY_CACHE_SIZE = 500;
+const SKY_DAY_CACHE_SIZE = 100;
 const CACHE_TIME_TOLERANCE_MS = 50; // Positions within 50ms are considered equivalent
+const SECONDS_PER_DAY = 86_400;
 
 interface CacheEntry<T> {
   value: T;
@@ -73,15 +90,37 @@ const velocityCache = new LRUCache<string, number>(VELOCITY_CACHE_SIZE);
 // Helio vector cache (raw astronomy-engine results)
 const helioVectorCache = new LRUCache<string, Astronomy.Vector>(POSITION_CACHE_SIZE);
 
+// Helio state cache (position and velocity), for speeds
+const helioStateCache = new LRUCache<string, Astronomy.StateVector>(VELOCITY_CACHE_SIZE);
+
+// Light-time corrected distance from Earth in AU; null for Earth
+const earthDistanceCache = new LRUCache<string, number | null>(POSITION_CACHE_SIZE);
+
+// Parent-relative moon state cache (raw astronomy-engine results)
+const moonStateCache = new LRUCache<string, Astronomy.StateVector>(POSITION_CACHE_SIZE);
+
+// Topocentric sky position cache, keyed by body, observer and time
+const skyPositionCache = new LRUCache<string, SkyPosition | null>(POSITION_CACHE_SIZE);
+
+// Rise/set searches are expensive but only change once per local day
+const skyDayCache = new LRUCache<string, SkyDay>(SKY_DAY_CACHE_SIZE);
+
+// Phase, magnitude and apparent size as seen from Earth
+const appearanceCache = new LRUCache<string, BodyAppearance | null>(POSITION_CACHE_SIZE);
+
+// Osculating elements fitted to the cached state vectors
+const elementsCache = new LRUCache<string, OsculatingElements>(VELOCITY_CACHE_SIZE);
+
 /**
- * Get cached heliocentric vector or compute and cache it
+ * Get cached heliocentric vector or evaluate it from the body's Chebyshev
+ * table (see chebyshev.ts for the error bound) and cache it
  */
-export function getCachedHelioVector(body: Astronomy.Body, date: Date): Astronomy.Vector {
+export function getCachedHelioVector(body: HeliocentricBodyName, date: Date): Astronomy.Vector {
   const key = generateCacheKey(body, date.getTime(), CACHE_TIME_TOLERANCE_MS);
 
   let vector = helioVectorCache.get(key);
   if (!vector) {
-    vector = Astronomy.HelioVector(body, date);
+    vector = evaluateChebyshevVector(body, date);
     helioVectorCache.set(key, vector);
   }
 
@@ -93,7 +132,7 @@ export function getCachedHelioVector(body: Astronomy.Body, date: Date): Astronom
  * Returns [x, y, z] in 3D space units (1 AU = 10 units)
  */
 export function calculatePlanetPositionCached(
-  body: Astronomy.Body,
+  body: HeliocentricBodyName,
   date: Date
 ): [number, number, number] {
   const key = generateCacheKey(body, date.getTime(), CACHE_TIME_TOLERANCE_MS);
@@ -113,36 +152,194 @@ export function calculatePlanetPositionCached(
   return position;
 }
 
+/**
+ * Get cached heliocentric state (AU, AU/day) or evaluate it from the body's
+ * Chebyshev table and cache it
+ */
+export function getCachedHelioState(body: HeliocentricBodyName, date: Date): Astronomy.StateVector {
+  const key = generateCacheKey(body, date.getTime(), CACHE_TIME_TOLERANCE_MS);
+
+  let state = helioStateCache.get(key);
+  if (!state) {
+    state = evaluateChebyshevState(body, date);
+    helioStateCache.set(key, state);
+  }
+
+  return state;
+}
+
 /**
  * Calculate orbital velocity with caching
- * Returns velocity in km/s
+ * Returns heliocentric speed in km/s, from the body's state vector
  */
 export function calculateOrbitalVelocityCached(
-  body: Astronomy.Body,
+  body: HeliocentricBodyName,
   date: Date
 ): number {
   const key = generateCacheKey(body, date.getTime(), CACHE_TIME_TOLERANCE_MS);
 
   let velocity = velocityCache.get(key);
-  if (!velocity) {
-    const vector = getCachedHelioVector(body, date);
-    const distance = Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2);
-    // Simplified orbital velocity: v = sqrt(GM/r)
-    const GM = 1.327e20; // Sun's gravitational parameter (m^3/s^2)
-    const AU_TO_METERS = 1.496e11;
-    velocity = Math.sqrt(GM / (distance * AU_TO_METERS)) / 1000; // Convert to km/s
+  if (velocity === undefined) {
+    const state = getCachedHelioState(body, date);
+    const auPerDay = Math.sqrt(state.vx ** 2 + state.vy ** 2 + state.vz ** 2);
+    velocity = (auPerDay * Astronomy.KM_PER_AU) / SECONDS_PER_DAY;
     velocityCache.set(key, velocity);
   }
 
   return velocity;
 }
 
+/**
+ * Live distance from the Sun in AU, from the cached heliocentric vector
+ */
+export function calculateHelioDistanceCached(body: HeliocentricBodyName, date: Date): number {
+  const vector = getCachedHelioVector(body, date);
+  return Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2);
+}
+
+/**
+ * Distance from Earth's centre in AU, corrected for light travel time, with
+ * caching. Returns null for Earth.
+ */
+export function calculateEarthDistanceCached(body: BodyName, date: Date): number | null {
+  const key = generateCacheKey(body, date.getTime(), CACHE_TIME_TOLERANCE_MS);
+
+  let distance = earthDistanceCache.get(key);
+  if (distance === undefined) {
+    const vector = computeGeocentricVector(body, date);
+    distance = vector ? Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2) : null;
+    earthDistanceCache.set(key, distance);
+  }
+
+  return distance;
+}
+
+/**
+ * One-way light time from a body to Earth in seconds. Returns null for Earth.
+ */
+export function calculateLightTimeCached(body: BodyName, date: Date): number | null {
+  const distance = calculateEarthDistanceCached(body, date);
+  return distance === null ? null : (distance / Astronomy.C_AUDAY) * SECONDS_PER_DAY;
+}
+
+/**
+ * Get cached parent-relative moon state or compute and cache it.
+ * Moons of the same planet come from one ephemeris call, so a miss fills
+ * the cache for all of its siblings.
+ */
+export function getCachedMoonState(moon: MoonName, date: Date): Astronomy.StateVector {
+  const dateMs = date.getTime();
+  const key = generateCacheKey(moon, dateMs, CACHE_TIME_TOLERANCE_MS);
+
+  let state = moonStateCache.get(key);
+  if (!state) {
+    const states = computeMoonStates(MOON_CONFIG[moon].parent, date);
+    for (const [name, value] of Object.entries(states)) {
+      if (value) moonStateCache.set(generateCacheKey(name, dateMs, CACHE_TIME_TOLERANCE_MS), value);
+    }
+    state = states[moon];
+    if (!state) {
+      throw new Error(`No ephemeris available for ${moon}`);
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Calculate a moon's display offset from its parent with caching
+ * Returns [x, y, z] in 3D space units, exaggerated by the moon's orbitScale
+ */
+export function calculateMoonOffsetCached(
+  moon: MoonName,
+  date: Date
+): [number, number, number] {
+  const state = getCachedMoonState(moon, date);
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR * MOON_CONFIG[moon].orbitScale;
+  return [
+    state.x * scale,
+    state.z * scale, // Y-up in Three.js
+    -state.y * scale,
+  ];
+}
+
+/**
+ * Get cached sky position of a body for an observer, or compute and cache it.
+ * Returns null for Earth.
+ */
+export function getCachedSkyPosition(
+  body: BodyName,
+  observer: ObserverLocation,
+  date: Date
+): SkyPosition | null {
+  const key = generateCacheKey(`${body}@${getObserverKey(observer)}`, date.getTime(), CACHE_TIME_TOLERANCE_MS);
+
+  let position = skyPositionCache.get(key);
+  if (position === undefined) {
+    position = computeSkyPosition(body, observer, date);
+    skyPositionCache.set(key, position);
+  }
+
+  return position;
+}
+
+/**
+ * Get cached rise/transit/set and twilight times for the observer's local day
+ * containing `date`, or compute and cache them
+ */
+export function getCachedSkyDay(body: BodyName, observer: ObserverLocation, date: Date): SkyDay {
+  const timeZone = getObserverTimeZone(observer);
+  const dayStart = getLocalDayStart(date, timeZone).getTime();
+  const key = `${body}@${getObserverKey(observer)}@${timeZone}@${dayStart}`;
+
+  let day = skyDayCache.get(key);
+  if (!day) {
+    day = computeSkyDay(body, observer, date);
+    skyDayCache.set(key, day);
+  }
+
+  return day;
+}
+
+/**
+ * Get cached phase, magnitude and apparent size of a body seen from Earth,
+ * or compute and cache it. Returns null for Earth.
+ */
+export function getCachedAppearance(body: BodyName, date: Date): BodyAppearance | null {
+  const key = generateCacheKey(body, date.getTime(), CACHE_TIME_TOLERANCE_MS);
+
+  let appearance = appearanceCache.get(key);
+  if (appearance === undefined) {
+    appearance = computeAppearance(body, date);
+    appearanceCache.set(key, appearance);
+  }
+
+  return appearance;
+}
+
+/**
+ * Get cached osculating elements of a body (heliocentric, or relative to the
+ * parent for moons), or fit them to the cached state vector and cache them
+ */
+export function getCachedOsculatingElements(body: BodyName, date: Date): OsculatingElements {
+  const key = generateCacheKey(body, date.getTime(), CACHE_TIME_TOLERANCE_MS);
+
+  let elements = elementsCache.get(key);
+  if (!elements) {
+    const state = isMoonName(body) ? getCachedMoonState(body, date) : getCachedHelioState(body, date);
+    elements = stateToElements(state, getCentralGm(body));
+    elementsCache.set(key, elements);
+  }
+
+  return elements;
+}
+
 /**
  * Batch calculate positions for multiple bodies
  * More efficient than individual calls due to reduced overhead
  */
 export function batchCalculatePositions(
-  bodies: Astronomy.Body[],
+  bodies: HeliocentricBodyName[],
   date: Date
 ): Map<string, [number, number, number]> {
   const results = new Map<string, [number, number, number]>();
@@ -161,6 +358,14 @@ export function clearAstronomyCaches(): void {
   positionCache.clear();
   velocityCache.clear();
   helioVectorCache.clear();
+  helioStateCache.clear();
+  earthDistanceCache.clear();
+  moonStateCache.clear();
+  skyPositionCache.clear();
+  skyDayCache.clear();
+  appearanceCache.clear();
+  elementsCache.clear();
+  // Chebyshev tables are kept: fits don't go stale, and the window slides on its own
 }
 
 /**
@@ -170,11 +375,27 @@ export function getCacheStats(): {
   positionCacheSize: number;
   velocityCacheSize: number;
   helioVectorCacheSize: number;
+  helioStateCacheSize: number;
+  earthDistanceCacheSize: number;
+  moonStateCacheSize: number;
+  skyPositionCacheSize: number;
+  skyDayCacheSize: number;
+  appearanceCacheSize: number;
+  elementsCacheSize: number;
+  chebyshevSegmentCount: number;
 } {
   return {
     positionCacheSize: positionCache.size,
     velocityCacheSize: velocityCache.size,
     helioVectorCacheSize: helioVectorCache.size,
+    helioStateCacheSize: helioStateCache.size,
+    earthDistanceCacheSize: earthDistanceCache.size,
+    moonStateCacheSize: moonStateCache.size,
+    skyPositionCacheSize: skyPositionCache.size,
+    skyDayCacheSize: skyDayCache.size,
+    appearanceCacheSize: appearanceCache.size,
+    elementsCacheSize: elementsCache.size,
+    chebyshevSegmentCount: getChebyshevSegmentCount(),
   };
 }
 
@@ -0,0 +1,867 @@
+/**
+ * Astronomy API
+ *
+ * Request parsing, calculations and error mapping behind the
+ * /api/v1/astronomy route handlers (endpoint design in api-design.ts). Route
+ * handlers stay thin: parse the query, calculate, and turn any failure into
+ * an APIError body with its HTTP status.
+ */
+
+import {
+  API_ERROR_CODES,
+  ASTRONOMICAL_EVENT_TYPES,
+  CACHE_CONFIG,
+  generateEphemerisCacheKey,
+  generateEventsCacheKey,
+  generatePositionCacheKey,
+  type APIError,
+  type AstronomicalEvent,
+  type AstronomicalEventType,
+  type BatchPositionsResponse,
+  type BatchPositionsResult,
+  type CalculatePositionsResponse,
+  type EphemerisResponse,
+  type EventsResponse,
+  type PlanetPositionResponse,
+} from './api-design';
+import {
+  calculateHelioDistanceCached,
+  calculateOrbitalVelocityCached,
+  calculatePlanetPositionCached,
+  getCachedHelioVector,
+  getCachedOsculatingElements,
+} from './astronomy-cache';
+import type { HeliocentricBodyName } from './bodies';
+import { CalculationError, OrbitError, ValidationError } from './errors';
+import { EVENT_SEARCH_MAX_DAYS, getEventKey, searchAstronomicalEvents, UPCOMING_EVENTS_DAYS } from './events';
+import { formatICalendar } from './icalendar';
+import { createLogger } from './logger';
+import { buildOrbitShareUrl } from './orbitShare';
+import { isSelectableBody, PLANET_ORDER } from './planets';
+import {
+  safeParseFloat,
+  safeParseInt,
+  VALID_BODIES,
+  validateBody,
+  validateDate,
+  validateRange,
+} from './validation';
+
+export const API_VERSION = process.env.npm_package_version || '0.1.0';
+
+const apiLogger = createLogger('API');
+
+/** Ephemeris limits: points per request, span of the range and step size */
+export const DEFAULT_EPHEMERIS_STEP_HOURS = 24;
+export const DEFAULT_EPHEMERIS_MAX_POINTS = 1000;
+export const MAX_EPHEMERIS_POINTS = 10_000;
+export const MAX_EPHEMERIS_RANGE_DAYS = 36_525; // A century
+export const MIN_EPHEMERIS_STEP_HOURS = 1 / 60;
+export const MAX_EPHEMERIS_STEP_HOURS = 24 * 366;
+
+// Ephemerides are up to MAX_EPHEMERIS_POINTS long, so only a few are kept
+const EPHEMERIS_CACHE_SIZE = 20;
+
+const MS_PER_HOUR = 3_600_000;
+const MS_PER_DAY = 86_400_000;
+
+/** Bodies events can involve: the planets, and the Moon for eclipses */
+const EVENT_BODIES: readonly string[] = [...PLANET_ORDER, 'Moon'];
+
+// Event searches cover days or years, so only a few are kept
+const EVENTS_CACHE_SIZE = 50;
+
+/** Most dates one batch request may ask for */
+export const MAX_BATCH_DATES = 1000;
+
+// Responses are reused for the positions TTL; the oldest are dropped past this,
+// which leaves room for a couple of full batches
+const POSITIONS_CACHE_SIZE = 2 * MAX_BATCH_DATES;
+
+/** Positions request after validation */
+export interface PositionsQuery {
+  date: Date;
+  bodies: HeliocentricBodyName[];
+  includeVelocity: boolean;
+  includeOrbitalData: boolean;
+}
+
+/** Batch request after validation; dates are checked one at a time */
+export interface BatchPositionsQuery {
+  dates: unknown[];
+  bodies: HeliocentricBodyName[];
+  includeVelocity: boolean;
+  includeOrbitalData: boolean;
+}
+
+/** Ephemeris request after validation */
+export interface EphemerisRangeQuery {
+  body: HeliocentricBodyName;
+  startDate: Date;
+  endDate: Date;
+  stepHours: number;
+  maxPoints: number;
+  includeVelocity: boolean;
+}
+
+export const EPHEMERIS_FORMATS = ['json', 'csv', 'ndjson'] as const;
+
+export type EphemerisFormat = (typeof EPHEMERIS_FORMATS)[number];
+
+export const EPHEMERIS_CONTENT_TYPES: Record<EphemerisFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+type EphemerisPoint = EphemerisResponse['positions'][number];
+
+/** Events request after validation; unset filters match everything */
+export interface EventsQuery {
+  startDate: Date;
+  endDate: Date;
+  types?: AstronomicalEventType[];
+  planets?: string[];
+}
+
+/** An APIError body with the HTTP status to send it with */
+export interface APIErrorResponse {
+  status: number;
+  body: APIError;
+}
+
+/**
+ * Parse a date query parameter, or throw ValidationError
+ */
+export function parseDateParam(value: string | null, field: string): Date {
+  if (!value) {
+    throw new ValidationError(`${field} is required`, { field });
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be an ISO 8601 date: ${value}`, { field, value });
+  }
+
+  try {
+    return validateDate(date);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    throw new ValidationError(error.message, { field, value, context: error.context });
+  }
+}
+
+/**
+ * Parse a comma-separated body list; empty or missing means every body
+ */
+export function parseBodiesParam(value: string | null): HeliocentricBodyName[] {
+  const names = (value ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.length === 0) return [...VALID_BODIES];
+
+  return Array.from(new Set(names.map(validateBody)));
+}
+
+/**
+ * Parse a boolean flag: true, false, 1 or 0, and a bare `?flag` is true
+ */
+export function parseBooleanParam(value: string | null, field: string): boolean {
+  if (value === null) return false;
+  switch (value.toLowerCase()) {
+    case '':
+    case 'true':
+    case '1':
+      return true;
+    case 'false':
+    case '0':
+      return false;
+    default:
+      throw new ValidationError(`${field} must be true or false`, { field, value });
+  }
+}
+
+/**
+ * Parse and validate GET /positions query parameters
+ */
+export function parsePositionsQuery(params: URLSearchParams): PositionsQuery {
+  return {
+    date: parseDateParam(params.get('date'), 'date'),
+    bodies: parseBodiesParam(params.get('planets')),
+    includeVelocity: parseBooleanParam(params.get('includeVelocity'), 'includeVelocity'),
+    includeOrbitalData: parseBooleanParam(params.get('includeOrbitalData'), 'includeOrbitalData'),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseBooleanField(value: unknown, field: string): boolean {
+  if (value === undefined) return false;
+  if (typeof value !== 'boolean') {
+    throw new ValidationError(`${field} must be true or false`, { field, value });
+  }
+  return value;
+}
+
+/**
+ * Parse and validate a POST /positions/batch body. The batch as a whole is
+ * rejected for a bad shape, too many dates or an unknown planet; bad dates
+ * are left for calculateBatchPositions to report one by one.
+ */
+export function parseBatchPositionsRequest(body: unknown): BatchPositionsQuery {
+  if (!isRecord(body)) {
+    throw new ValidationError('Request body must be a JSON object', { field: 'request' });
+  }
+
+  const { dates, planets } = body;
+  if (!Array.isArray(dates) || dates.length === 0) {
+    throw new ValidationError('dates must be a non-empty array of ISO 8601 dates', {
+      field: 'dates',
+      value: dates,
+    });
+  }
+  if (dates.length > MAX_BATCH_DATES) {
+    throw new ValidationError(`dates may hold at most ${MAX_BATCH_DATES} dates`, {
+      field: 'dates',
+      value: dates.length,
+      context: { max: MAX_BATCH_DATES },
+    });
+  }
+
+  if (planets !== undefined && (!Array.isArray(planets) || planets.some((name) => typeof name !== 'string'))) {
+    throw new ValidationError('planets must be an array of planet names', { field: 'planets', value: planets });
+  }
+
+  return {
+    dates,
+    bodies: parseBodiesParam(planets === undefined ? null : (planets as string[]).join(',')),
+    includeVelocity: parseBooleanField(body.includeVelocity, 'includeVelocity'),
+    includeOrbitalData: parseBooleanField(body.includeOrbitalData, 'includeOrbitalData'),
+  };
+}
+
+function calculateBodyPosition(
+  body: HeliocentricBodyName,
+  date: Date,
+  includeVelocity: boolean,
+  includeOrbitalData: boolean
+): PlanetPositionResponse {
+  try {
+    const vector = getCachedHelioVector(body, date);
+    const response: PlanetPositionResponse = {
+      name: body,
+      positionAU: [vector.x, vector.y, vector.z],
+      position3D: calculatePlanetPositionCached(body, date),
+      distanceAU: calculateHelioDistanceCached(body, date),
+    };
+
+    if (includeVelocity) {
+      response.velocity = calculateOrbitalVelocityCached(body, date);
+    }
+
+    if (includeOrbitalData) {
+      const elements = getCachedOsculatingElements(body, date);
+      response.orbital = {
+        semiMajorAxis: elements.a,
+        eccentricity: elements.e,
+        inclination: elements.i,
+        period: elements.periodDays,
+      };
+    }
+
+    return response;
+  } catch (error) {
+    if (error instanceof OrbitError) throw error;
+    throw new CalculationError(`Failed to calculate position for ${body}`, {
+      body,
+      date,
+      cause: error as Error,
+    });
+  }
+}
+
+interface PositionsCacheEntry {
+  planets: PlanetPositionResponse[];
+  expiresAt: number;
+}
+
+const positionsCache = new Map<string, PositionsCacheEntry>();
+
+function getPositionsCacheKey(query: PositionsQuery): string {
+  const key = generatePositionCacheKey(query.date.toISOString(), query.bodies);
+  return `${key}:${query.includeVelocity ? 'v' : ''}${query.includeOrbitalData ? 'o' : ''}`;
+}
+
+/**
+ * Calculate positions for a validated query. Identical queries within the
+ * positions TTL reuse the earlier result and report `cached: true`.
+ *
+ * positionAU is heliocentric J2000 equatorial (EQJ); position3D is the
+ * scene's Y-up frame at 1 AU = 10 units.
+ */
+export function calculatePositions(query: PositionsQuery): CalculatePositionsResponse {
+  const start = performance.now();
+  const now = Date.now();
+  const key = getPositionsCacheKey(query);
+
+  const hit = positionsCache.get(key);
+  const cached = hit !== undefined && hit.expiresAt > now;
+  let planets: PlanetPositionResponse[];
+
+  if (cached) {
+    planets = hit.planets;
+  } else {
+    planets = query.bodies.map((body) =>
+      calculateBodyPosition(body, query.date, query.includeVelocity, query.includeOrbitalData)
+    );
+
+    positionsCache.delete(key);
+    if (positionsCache.size >= POSITIONS_CACHE_SIZE) {
+      const oldest = positionsCache.keys().next().value;
+      if (oldest !== undefined) positionsCache.delete(oldest);
+    }
+    positionsCache.set(key, { planets, expiresAt: now + CACHE_CONFIG.positionsTTL * 1000 });
+  }
+
+  return {
+    requestedAt: new Date(now).toISOString(),
+    date: query.date.toISOString(),
+    planets,
+    meta: {
+      calculationTimeMs: Math.round((performance.now() - start) * 100) / 100,
+      cached,
+      version: API_VERSION,
+    },
+  };
+}
+
+/**
+ * Calculate positions for every date of a batch through calculatePositions,
+ * so batches share its cache with single requests. A date that fails to
+ * parse or calculate gets an error result in its place; the rest still run.
+ */
+export function calculateBatchPositions(query: BatchPositionsQuery, requestId?: string): BatchPositionsResponse {
+  const start = performance.now();
+  let errorCount = 0;
+
+  const results = query.dates.map((value): BatchPositionsResult => {
+    try {
+      if (typeof value !== 'string') {
+        throw new ValidationError('date must be an ISO 8601 string', { field: 'date', value });
+      }
+      return calculatePositions({
+        date: parseDateParam(value, 'date'),
+        bodies: query.bodies,
+        includeVelocity: query.includeVelocity,
+        includeOrbitalData: query.includeOrbitalData,
+      });
+    } catch (error) {
+      errorCount++;
+      return { date: String(value), error: toAPIError(error, requestId).body };
+    }
+  });
+
+  return {
+    results,
+    meta: {
+      dateCount: results.length,
+      errorCount,
+      calculationTimeMs: Math.round((performance.now() - start) * 100) / 100,
+      version: API_VERSION,
+    },
+  };
+}
+
+/**
+ * Clear reused position responses
+ */
+export function clearPositionsCache(): void {
+  positionsCache.clear();
+}
+
+/**
+ * Parse and validate GET /ephemeris/:planet. The range must run forwards,
+ * span at most MAX_EPHEMERIS_RANGE_DAYS and fit in maxPoints steps.
+ */
+export function parseEphemerisQuery(planet: string, params: URLSearchParams): EphemerisRangeQuery {
+  const body = validateBody(planet);
+  const startDate = parseDateParam(params.get('startDate'), 'startDate');
+  const endDate = parseDateParam(params.get('endDate'), 'endDate');
+
+  const stepParam = params.get('stepHours');
+  const stepHours = validateRange(
+    stepParam === null ? DEFAULT_EPHEMERIS_STEP_HOURS : safeParseFloat(stepParam, 'stepHours'),
+    MIN_EPHEMERIS_STEP_HOURS,
+    MAX_EPHEMERIS_STEP_HOURS,
+    'stepHours'
+  );
+
+  const maxPointsParam = params.get('maxPoints');
+  const maxPoints = validateRange(
+    maxPointsParam === null ? DEFAULT_EPHEMERIS_MAX_POINTS : safeParseInt(maxPointsParam, 'maxPoints'),
+    1,
+    MAX_EPHEMERIS_POINTS,
+    'maxPoints'
+  );
+
+  const rangeDays = (endDate.getTime() - startDate.getTime()) / MS_PER_DAY;
+  if (rangeDays < 0) {
+    throw new ValidationError('endDate must not be before startDate', {
+      field: 'endDate',
+      value: params.get('endDate'),
+    });
+  }
+  if (rangeDays > MAX_EPHEMERIS_RANGE_DAYS) {
+    throw new ValidationError(`The range may span at most ${MAX_EPHEMERIS_RANGE_DAYS} days`, {
+      field: 'endDate',
+      value: params.get('endDate'),
+      context: { rangeDays, maxRangeDays: MAX_EPHEMERIS_RANGE_DAYS },
+    });
+  }
+
+  const query: EphemerisRangeQuery = {
+    body,
+    startDate,
+    endDate,
+    stepHours,
+    maxPoints,
+    includeVelocity: parseBooleanParam(params.get('includeVelocity'), 'includeVelocity'),
+  };
+
+  const pointCount = getEphemerisPointCount(query);
+  if (pointCount > maxPoints) {
+    throw new ValidationError(
+      `The range needs ${pointCount} points at ${stepHours} h steps, more than maxPoints (${maxPoints})`,
+      { field: 'maxPoints', value: maxPoints, context: { pointCount } }
+    );
+  }
+
+  return query;
+}
+
+/**
+ * Points in an ephemeris: both ends of the range and every step between
+ */
+export function getEphemerisPointCount(query: EphemerisRangeQuery): number {
+  const stepMs = query.stepHours * MS_PER_HOUR;
+  return Math.floor((query.endDate.getTime() - query.startDate.getTime()) / stepMs) + 1;
+}
+
+function calculateEphemerisPoint(query: EphemerisRangeQuery, index: number): EphemerisPoint {
+  const date = new Date(query.startDate.getTime() + index * query.stepHours * MS_PER_HOUR);
+
+  try {
+    const vector = getCachedHelioVector(query.body, date);
+    const point: EphemerisPoint = { date: date.toISOString(), position: [vector.x, vector.y, vector.z] };
+    if (query.includeVelocity) {
+      point.velocity = calculateOrbitalVelocityCached(query.body, date);
+    }
+    return point;
+  } catch (error) {
+    if (error instanceof OrbitError) throw error;
+    throw new CalculationError(`Failed to calculate ephemeris for ${query.body}`, {
+      body: query.body,
+      date,
+      cause: error as Error,
+    });
+  }
+}
+
+const ephemerisCache = new Map<string, { positions: EphemerisPoint[]; expiresAt: number }>();
+
+function getEphemerisCacheKey(query: EphemerisRangeQuery): string {
+  const key = generateEphemerisCacheKey(
+    query.body,
+    query.startDate.toISOString(),
+    query.endDate.toISOString(),
+    query.stepHours
+  );
+  return query.includeVelocity ? `${key}:v` : key;
+}
+
+/**
+ * Calculate an ephemeris for a validated query. Positions are heliocentric
+ * J2000 equatorial in AU, velocities in km/s; identical queries within the
+ * ephemeris TTL reuse the earlier positions.
+ */
+export function calculateEphemeris(query: EphemerisRangeQuery): EphemerisResponse {
+  const start = performance.now();
+  const now = Date.now();
+  const key = getEphemerisCacheKey(query);
+
+  let entry = ephemerisCache.get(key);
+  if (!entry || entry.expiresAt <= now) {
+    const points = Array.from({ length: getEphemerisPointCount(query) }, (_, i) => calculateEphemerisPoint(query, i));
+    entry = { positions: points, expiresAt: now + CACHE_CONFIG.ephemerisTTL * 1000 };
+
+    ephemerisCache.delete(key);
+    if (ephemerisCache.size >= EPHEMERIS_CACHE_SIZE) {
+      const oldest = ephemerisCache.keys().next().value;
+      if (oldest !== undefined) ephemerisCache.delete(oldest);
+    }
+    ephemerisCache.set(key, entry);
+  }
+
+  return {
+    planet: query.body,
+    startDate: query.startDate.toISOString(),
+    endDate: query.endDate.toISOString(),
+    stepHours: query.stepHours,
+    positions: entry.positions,
+    meta: {
+      pointCount: entry.positions.length,
+      calculationTimeMs: Math.round((performance.now() - start) * 100) / 100,
+      version: API_VERSION,
+    },
+  };
+}
+
+/**
+ * Pick the ephemeris format: the `format` parameter if given, else the first
+ * media type in the Accept header we can serve, else JSON
+ */
+export function resolveEphemerisFormat(format: string | null, accept: string | null): EphemerisFormat {
+  if (format !== null) {
+    const normalized = format.toLowerCase();
+    if (!(EPHEMERIS_FORMATS as readonly string[]).includes(normalized)) {
+      throw new ValidationError(`format must be one of ${EPHEMERIS_FORMATS.join(', ')}`, {
+        field: 'format',
+        value: format,
+        context: { validFormats: EPHEMERIS_FORMATS },
+      });
+    }
+    return normalized as EphemerisFormat;
+  }
+
+  for (const part of (accept ?? '').split(',')) {
+    const mediaType = part.split(';')[0].trim().toLowerCase();
+    if (mediaType === 'text/csv') return 'csv';
+    if (mediaType === 'application/x-ndjson' || mediaType === 'application/ndjson') return 'ndjson';
+    if (mediaType === 'application/json') return 'json';
+  }
+  return 'json';
+}
+
+/**
+ * Ephemeris as CSV with a header row, one point per line, for spreadsheets
+ */
+export function formatEphemerisCsv(ephemeris: EphemerisResponse): string {
+  const withVelocity = ephemeris.positions.some((point) => point.velocity !== undefined);
+  const header = ['date', 'x_au', 'y_au', 'z_au', ...(withVelocity ? ['velocity_km_s'] : [])];
+
+  const rows = ephemeris.positions.map(({ date, position, velocity }) =>
+    [date, ...position, ...(withVelocity ? [velocity ?? ''] : [])].join(',')
+  );
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// Points computed per pull of the NDJSON stream
+const NDJSON_CHUNK_POINTS = 250;
+
+/**
+ * Ephemeris as NDJSON, one point per line, computed chunk by chunk as the
+ * client reads so long ranges start arriving at once. The 200 status has
+ * been sent by then, so a failing point ends the stream with an
+ * `{"error": APIError}` line instead.
+ */
+export function createEphemerisNdjsonStream(
+  query: EphemerisRangeQuery,
+  requestId?: string
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pointCount = getEphemerisPointCount(query);
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const end = Math.min(pointCount, index + NDJSON_CHUNK_POINTS);
+      let chunk = '';
+      try {
+        for (; index < end; index++) {
+          chunk += JSON.stringify(calculateEphemerisPoint(query, index)) + '\n';
+        }
+      } catch (error) {
+        chunk += JSON.stringify({ error: toAPIError(error, requestId).body }) + '\n';
+        controller.enqueue(encoder.encode(chunk));
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(chunk));
+      if (index >= pointCount) controller.close();
+    },
+  });
+}
+
+/**
+ * Clear reused ephemerides
+ */
+export function clearEphemerisCache(): void {
+  ephemerisCache.clear();
+}
+
+function parseListParam(value: string | null): string[] | undefined {
+  const items = (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? Array.from(new Set(items)) : undefined;
+}
+
+/**
+ * Parse and validate GET /events and /events.ics. Without dates the search
+ * covers the year from the start of today (UTC), so a subscribed feed rolls
+ * forward and stays cacheable for the day.
+ */
+export function parseEventsQuery(params: URLSearchParams, now: Date = new Date()): EventsQuery {
+  const today = new Date(Math.floor(now.getTime() / MS_PER_DAY) * MS_PER_DAY);
+  const startParam = params.get('startDate');
+  const endParam = params.get('endDate');
+
+  const startDate = startParam === null ? today : parseDateParam(startParam, 'startDate');
+  const endDate =
+    endParam === null
+      ? new Date(startDate.getTime() + UPCOMING_EVENTS_DAYS * MS_PER_DAY)
+      : parseDateParam(endParam, 'endDate');
+
+  const rangeDays = (endDate.getTime() - startDate.getTime()) / MS_PER_DAY;
+  if (rangeDays < 0) {
+    throw new ValidationError('endDate must not be before startDate', { field: 'endDate', value: endParam });
+  }
+  if (rangeDays > EVENT_SEARCH_MAX_DAYS) {
+    throw new ValidationError(`The range may span at most ${EVENT_SEARCH_MAX_DAYS} days`, {
+      field: 'endDate',
+      value: endParam,
+      context: { rangeDays, maxRangeDays: EVENT_SEARCH_MAX_DAYS },
+    });
+  }
+
+  const types = parseListParam(params.get('eventTypes') ?? params.get('types'));
+  for (const type of types ?? []) {
+    if (!(ASTRONOMICAL_EVENT_TYPES as readonly string[]).includes(type)) {
+      throw new ValidationError(`Invalid event type: ${type}`, {
+        field: 'eventTypes',
+        value: type,
+        context: { validTypes: ASTRONOMICAL_EVENT_TYPES },
+      });
+    }
+  }
+
+  const planets = parseListParam(params.get('planets'));
+  for (const planet of planets ?? []) {
+    if (!EVENT_BODIES.includes(planet)) {
+      throw new ValidationError(`Invalid planet name: ${planet}`, {
+        field: 'planets',
+        value: planet,
+        context: { validPlanets: EVENT_BODIES },
+      });
+    }
+  }
+
+  return { startDate, endDate, types: types as AstronomicalEventType[] | undefined, planets };
+}
+
+// RFC 5545 DATE-TIME values have four-digit years
+const ICS_MIN_YEAR = 0;
+const ICS_MAX_YEAR = 9999;
+
+/**
+ * Parse an events.ics query: an events query whose range also fits the
+ * years an iCalendar DATE-TIME can hold
+ */
+export function parseEventsIcsQuery(params: URLSearchParams, now: Date = new Date()): EventsQuery {
+  const query = parseEventsQuery(params, now);
+
+  for (const field of ['startDate', 'endDate'] as const) {
+    const year = query[field].getUTCFullYear();
+    if (year < ICS_MIN_YEAR || year > ICS_MAX_YEAR) {
+      throw new ValidationError(
+        `Date year ${year} is out of the iCalendar range (${ICS_MIN_YEAR} to ${ICS_MAX_YEAR})`,
+        { field, value: params.get(field), context: { year, minYear: ICS_MIN_YEAR, maxYear: ICS_MAX_YEAR } }
+      );
+    }
+  }
+
+  return query;
+}
+
+const eventsCache = new Map<string, { events: AstronomicalEvent[]; expiresAt: number }>();
+
+/**
+ * Search events for a validated query, sorted by date. Identical queries
+ * within the events TTL reuse the earlier search.
+ */
+export function searchEvents(query: EventsQuery): EventsResponse {
+  const now = Date.now();
+  const startDate = query.startDate.toISOString();
+  const endDate = query.endDate.toISOString();
+  const key = generateEventsCacheKey(startDate, endDate, query.types, query.planets);
+
+  let entry = eventsCache.get(key);
+  if (!entry || entry.expiresAt <= now) {
+    let events: AstronomicalEvent[];
+    try {
+      events = searchAstronomicalEvents(query.startDate, query.endDate, {
+        types: query.types,
+        planets: query.planets,
+      });
+    } catch (error) {
+      if (error instanceof OrbitError) throw error;
+      throw new CalculationError('Failed to search for events', {
+        date: query.startDate,
+        context: { endDate },
+        cause: error as Error,
+      });
+    }
+    entry = { events, expiresAt: now + CACHE_CONFIG.eventsTTL * 1000 };
+
+    eventsCache.delete(key);
+    if (eventsCache.size >= EVENTS_CACHE_SIZE) {
+      const oldest = eventsCache.keys().next().value;
+      if (oldest !== undefined) eventsCache.delete(oldest);
+    }
+    eventsCache.set(key, entry);
+  }
+
+  return {
+    startDate,
+    endDate,
+    events: entry.events,
+    meta: { eventCount: entry.events.length, version: API_VERSION },
+  };
+}
+
+/**
+ * Link into the simulator at an event, set up the way "jump to event" leaves
+ * it: paused at the moment with the first body involved selected
+ */
+export function buildEventDeepLink(event: AstronomicalEvent, origin: string): string {
+  return buildOrbitShareUrl(
+    { origin, pathname: '/' },
+    {
+      selectedPlanet: event.planets.find(isSelectableBody) ?? null,
+      timeSpeed: 0,
+      currentDate: new Date(event.date),
+      showOrbits: true,
+      showLabels: true,
+      cinematicPlaying: false,
+      renderQuality: 'balanced',
+    }
+  );
+}
+
+/**
+ * Events as an iCalendar feed, each VEVENT carrying the event description
+ * and a deep link back into the simulator
+ */
+export function formatEventsIcs(response: EventsResponse, origin: string, generatedAt?: Date): string {
+  const host = new URL(origin).host;
+
+  return formatICalendar(
+    response.events.map((event) => {
+      const url = buildEventDeepLink(event, origin);
+      const details = [event.description];
+      if (event.visibility) {
+        details.push(`Best seen from: ${event.visibility.bestLocation}`);
+        if (event.visibility.duration) details.push(`Duration: ${event.visibility.duration}`);
+      }
+      details.push(`Open in Orbit Command: ${url}`);
+
+      return {
+        uid: `${getEventKey(event)}@${host}`,
+        start: new Date(event.date),
+        summary: event.description,
+        description: details.join('\n'),
+        url,
+        categories: [event.type],
+      };
+    }),
+    {
+      productId: '-//Orbit Command//Astronomical Events//EN',
+      name: 'Orbit Command astronomical events',
+      refreshHours: CACHE_CONFIG.eventsTTL / 3600,
+      generatedAt,
+    }
+  );
+}
+
+/**
+ * Clear reused event searches
+ */
+export function clearEventsCache(): void {
+  eventsCache.clear();
+}
+
+const BODY_FIELDS = new Set(['body', 'planet', 'planetName', 'planets']);
+
+function getValidationErrorCode(error: ValidationError): string {
+  if (error.field && BODY_FIELDS.has(error.field)) return API_ERROR_CODES.INVALID_PLANET;
+  if (/date$/i.test(error.field ?? '')) {
+    // Dates that parse but fall outside the supported years or range length
+    const outOfRange = error.context?.minYear !== undefined || error.context?.maxRangeDays !== undefined;
+    return outOfRange ? API_ERROR_CODES.DATE_OUT_OF_RANGE : API_ERROR_CODES.INVALID_DATE;
+  }
+  return API_ERROR_CODES.INVALID_PARAMETER;
+}
+
+/**
+ * Map any thrown value to an APIError body and status. Validation failures
+ * are the caller's (400) and carry their field and context as details;
+ * anything else is ours (500), and unexpected errors are logged rather than
+ * echoed back.
+ */
+export function toAPIError(error: unknown, requestId?: string): APIErrorResponse {
+  if (error instanceof ValidationError) {
+    return {
+      status: 400,
+      body: {
+        code: getValidationErrorCode(error),
+        message: error.message,
+        details: error.context,
+        requestId,
+      },
+    };
+  }
+
+  if (error instanceof CalculationError) {
+    apiLogger.error(error.message, { requestId, ...error.context });
+    return {
+      status: 500,
+      body: {
+        code: API_ERROR_CODES.CALCULATION_ERROR,
+        message: error.message,
+        details: error.body ? { body: error.body } : undefined,
+        requestId,
+      },
+    };
+  }
+
+  apiLogger.error('Unhandled API error', {
+    requestId,
+    error: error instanceof Error ? error.message : String(error),
+  });
+  return {
+    status: 500,
+    body: {
+      code: API_ERROR_CODES.INTERNAL_ERROR,
+      message: 'Internal server error',
+      requestId,
+    },
+  };
+}
+
+/**
+ * Error for an endpoint whose feature flag is off; it is served as missing
+ */
+export function featureDisabledError(feature: string, requestId?: string): APIErrorResponse {
+  return {
+    status: 404,
+    body: {
+      code: API_ERROR_CODES.FEATURE_DISABLED,
+      message: `${feature} is not enabled`,
+      requestId,
+    },
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Body Catalog
+ *
+ * Single source of truth for every body the simulation can show. The store,
+ * validators, HUD and share links all read from this table, so adding a body
+ * is a one-line change here.
+ *
+ * Planets and Pluto are positioned by astronomy-engine. Bodies it does not
+ * model carry mean orbital elements and are propagated as two-body orbits
+ * (see kepler.ts). Moons are positioned relative to their parent (see moons.ts).
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import {
+  propagateElements,
+  getElementsPeriodDays,
+  type OrbitalElements,
+} from './kepler';
+
+export const BODY_CATEGORIES = ['planet', 'dwarf', 'moon'] as const;
+
+export type BodyCategory = (typeof BODY_CATEGORIES)[number];
+
+export const BODY_CATEGORY_LABELS: Readonly<Record<BodyCategory, string>> = Object.freeze({
+  planet: 'Planets',
+  dwarf: 'Dwarf planets',
+  moon: 'Moons',
+});
+
+/**
+ * A body orbiting the Sun. radius/mass are in Earth units, distance is the
+ * mean distance from the Sun in AU, temp is a mean surface temperature in K.
+ * Bodies without elements are positioned by astronomy-engine; bodies with
+ * elements also carry an absolute magnitude (H) for brightness estimates.
+ */
+export interface HeliocentricBodyConfig {
+  readonly category: 'planet' | 'dwarf';
+  readonly radius: number;
+  readonly color: string;
+  readonly distance: number;
+  readonly mass: number;
+  readonly moons: number;
+  readonly temp: number;
+  readonly elements?: OrbitalElements;
+  readonly absoluteMagnitude?: number;
+}
+
+/**
+ * A natural satellite. periodDays is the sidereal period around the parent,
+ * orbitScale multiplies the parent-relative offset for display.
+ * absoluteMagnitude is V(1,0), needed for moons astronomy-engine cannot rate.
+ */
+export interface MoonBodyConfig {
+  readonly category: 'moon';
+  readonly parent: string;
+  readonly radius: number;
+  readonly color: string;
+  readonly mass: number;
+  readonly temp: number;
+  readonly periodDays: number;
+  readonly orbitScale: number;
+  readonly absoluteMagnitude?: number;
+}
+
+export type BodyConfig = HeliocentricBodyConfig | MoonBodyConfig;
+
+// Body configuration with static data - frozen for immutability.
+// Order matters: heliocentric bodies by distance from the Sun, each followed by
+// its moons. Moons are positioned from their parent, so parents come first.
+// Dwarf planet elements and absolute magnitudes are from the JPL Small-Body Database.
+const BODY_CATALOG = Object.freeze({
+  Mercury: { category: 'planet', radius: 0.383, color: '#8C7853', distance: 0.39, mass: 0.055, moons: 0, temp: 440 },
+  Venus: { category: 'planet', radius: 0.949, color: '#FFC649', distance: 0.72, mass: 0.815, moons: 0, temp: 737 },
+  Earth: { category: 'planet', radius: 1.0, color: '#4A90E2', distance: 1.0, mass: 1.0, moons: 1, temp: 288 },
+  Moon: { category: 'moon', parent: 'Earth', radius: 0.273, color: '#C8C8C8', mass: 0.0123, temp: 250, periodDays: 27.3217, orbitScale: 80 },
+  Mars: { category: 'planet', radius: 0.532, color: '#E27B58', distance: 1.52, mass: 0.107, moons: 2, temp: 210 },
+  Ceres: {
+    category: 'dwarf', radius: 0.0738, color: '#9E9A94', distance: 2.77, mass: 0.00016, moons: 0, temp: 168, absoluteMagnitude: 3.33,
+    elements: { epochJd: 2459600.5, a: 2.7675, e: 0.0785, i: 10.5868, node: 80.2686, argPeri: 73.6383, meanAnomaly: 291.4 },
+  },
+  Jupiter: { category: 'planet', radius: 11.21, color: '#C88B3A', distance: 5.2, mass: 317.8, moons: 95, temp: 165 },
+  Io: { category: 'moon', parent: 'Jupiter', radius: 0.286, color: '#E8D35A', mass: 0.015, temp: 110, periodDays: 1.769, orbitScale: 250, absoluteMagnitude: -1.68 },
+  Europa: { category: 'moon', parent: 'Jupiter', radius: 0.245, color: '#CDBA96', mass: 0.008, temp: 102, periodDays: 3.551, orbitScale: 250, absoluteMagnitude: -1.41 },
+  Ganymede: { category: 'moon', parent: 'Jupiter', radius: 0.413, color: '#A89F91', mass: 0.0248, temp: 110, periodDays: 7.155, orbitScale: 250, absoluteMagnitude: -2.09 },
+  Callisto: { category: 'moon', parent: 'Jupiter', radius: 0.378, color: '#8A7B6C', mass: 0.018, temp: 134, periodDays: 16.689, orbitScale: 250, absoluteMagnitude: -1.05 },
+  Saturn: { category: 'planet', radius: 9.45, color: '#FAD5A5', distance: 9.54, mass: 95.2, moons: 146, temp: 134 },
+  Uranus: { category: 'planet', radius: 4.01, color: '#4FD0E7', distance: 19.19, mass: 14.5, moons: 28, temp: 76 },
+  Neptune: { category: 'planet', radius: 3.88, color: '#4166F5', distance: 30.07, mass: 17.1, moons: 16, temp: 72 },
+  Pluto: { category: 'dwarf', radius: 0.186, color: '#D8C3A5', distance: 39.48, mass: 0.0022, moons: 5, temp: 44 },
+  Haumea: {
+    category: 'dwarf', radius: 0.122, color: '#E4E0DA', distance: 43.12, mass: 0.00067, moons: 2, temp: 50, absoluteMagnitude: 0.23,
+    elements: { epochJd: 2459200.5, a: 43.116, e: 0.19642, i: 28.2137, node: 121.79, argPeri: 240.89, meanAnomaly: 218.205 },
+  },
+  Makemake: {
+    category: 'dwarf', radius: 0.112, color: '#C9A27E', distance: 45.43, mass: 0.00052, moons: 1, temp: 40, absoluteMagnitude: 0.05,
+    elements: { epochJd: 2458900.5, a: 45.43, e: 0.16126, i: 28.9835, node: 79.62, argPeri: 294.834, meanAnomaly: 165.514 },
+  },
+  Eris: {
+    category: 'dwarf', radius: 0.183, color: '#E8E8E8', distance: 67.86, mass: 0.0028, moons: 1, temp: 42, absoluteMagnitude: -1.21,
+    elements: { epochJd: 2459000.5, a: 67.864, e: 0.43607, i: 44.04, node: 35.951, argPeri: 151.639, meanAnomaly: 205.989 },
+  },
+} as const satisfies Record<string, BodyConfig>);
+
+type Catalog = typeof BODY_CATALOG;
+
+export type BodyName = keyof Catalog;
+
+/** Names of the catalog bodies in one category, as a literal union */
+export type BodyNameOfCategory<C extends BodyCategory> = {
+  [K in BodyName]: Catalog[K]['category'] extends C ? K : never;
+}[BodyName];
+
+/** Bodies that orbit the Sun directly (planets and dwarf planets) */
+export type HeliocentricBodyName = BodyNameOfCategory<'planet' | 'dwarf'>;
+
+// Pre-computed names array in catalog order (avoids Object.keys on each update)
+const BODY_NAMES = Object.keys(BODY_CATALOG) as BodyName[];
+
+const bodySet: ReadonlySet<string> = new Set(BODY_NAMES);
+
+export function isBodyName(value: string): value is BodyName {
+  return bodySet.has(value);
+}
+
+/**
+ * Static data for a body, widened so optional fields can be read generically
+ */
+export function getBodyConfig(name: BodyName): BodyConfig {
+  return BODY_CATALOG[name];
+}
+
+/**
+ * Catalog bodies in one category, in catalog order
+ */
+export function getBodiesByCategory<C extends BodyCategory>(
+  ...categories: C[]
+): BodyNameOfCategory<C>[] {
+  return BODY_NAMES.filter((name) =>
+    (categories as BodyCategory[]).includes(BODY_CATALOG[name].category)
+  ) as BodyNameOfCategory<C>[];
+}
+
+const heliocentricSet: ReadonlySet<string> = new Set(getBodiesByCategory('planet', 'dwarf'));
+
+export function isHeliocentricBody(value: string): value is HeliocentricBodyName {
+  return heliocentricSet.has(value);
+}
+
+/**
+ * Built-in orbital elements for a body, or null when astronomy-engine models it
+ */
+export function getOrbitalElements(name: HeliocentricBodyName): OrbitalElements | null {
+  const config = getBodyConfig(name);
+  return config.category !== 'moon' && config.elements ? config.elements : null;
+}
+
+/**
+ * Heliocentric position in AU, J2000 equatorial (uncached)
+ */
+export function computeHelioVector(name: HeliocentricBodyName, date: Date): Astronomy.Vector {
+  const elements = getOrbitalElements(name);
+  if (elements) {
+    const state = propagateElements(elements, date);
+    return new Astronomy.Vector(state.x, state.y, state.z, state.t);
+  }
+  // Every catalog body without elements is an astronomy-engine body
+  return Astronomy.HelioVector(name as Astronomy.Body, date);
+}
+
+/**
+ * Heliocentric position (AU) and velocity (AU/day), J2000 equatorial (uncached)
+ */
+export function computeHelioState(name: HeliocentricBodyName, date: Date): Astronomy.StateVector {
+  const elements = getOrbitalElements(name);
+  return elements
+    ? propagateElements(elements, date)
+    : Astronomy.HelioState(name as Astronomy.Body, date);
+}
+
+/**
+ * Sidereal orbital period around the Sun in days
+ */
+export function getHelioPeriodDays(name: HeliocentricBodyName): number {
+  const elements = getOrbitalElements(name);
+  return elements
+    ? getElementsPeriodDays(elements)
+    : Astronomy.PlanetOrbitalPeriod(name as Astronomy.Body);
+}
+
+export { BODY_CATALOG, BODY_NAMES };
@@ -0,0 +1,231 @@
+/**
+ * Chebyshev Ephemeris Tables
+ *
+ * Piecewise Chebyshev fits of each body's heliocentric position, so playback
+ * and timeline scrubbing evaluate a short polynomial instead of the full
+ * ephemeris. Each body's timeline is cut into fixed segments (a fraction of
+ * its orbit); a segment is fitted the first time a date inside it is asked
+ * for, and segments that fall out of the window around the latest request are
+ * dropped, so the table slides along with the sim date.
+ *
+ * Error bound: with CHEBYSHEV_DEGREE and the segment lengths below, fitted
+ * positions stay within 1e-8 AU (1.5 km) of HelioVector and speeds within one
+ * part in a million of HelioState. Pluto is the exception at 1e-6 AU and one
+ * part in 10^4, because astronomy-engine's own Pluto model is piecewise. See
+ * CHEBYSHEV_ERROR_BOUNDS, checked in lib/__tests__/chebyshev.test.ts. At the
+ * scene scale (1 AU = 10 units) even Pluto's bound is invisible.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { computeHelioVector, getHelioPeriodDays, type HeliocentricBodyName } from './bodies';
+
+const MS_PER_DAY = 86_400_000;
+
+/** Polynomial degree of each fit; every coordinate has CHEBYSHEV_DEGREE + 1 coefficients */
+export const CHEBYSHEV_DEGREE = 12;
+
+/** Segments per orbital period */
+const SEGMENTS_PER_ORBIT = 12;
+
+/** Longest segment, for the outer planets whose perturbations still matter over a few years */
+const MAX_SEGMENT_DAYS = 200;
+
+/** Segments kept on each side of the most recently used one */
+export const CHEBYSHEV_WINDOW_SEGMENTS = 32;
+
+export interface ChebyshevErrorBound {
+  /** Position error against HelioVector, AU */
+  positionAu: number;
+  /** Speed error against HelioState, as a fraction of the speed */
+  relativeSpeed: number;
+}
+
+/** Documented worst-case errors of the fits */
+export const CHEBYSHEV_ERROR_BOUNDS = Object.freeze({
+  default: { positionAu: 1e-8, relativeSpeed: 1e-6 },
+  Pluto: { positionAu: 1e-6, relativeSpeed: 1e-4 },
+} as const);
+
+const NODE_COUNT = CHEBYSHEV_DEGREE + 1;
+
+/** Chebyshev nodes on [-1, 1] and the cosines used to turn samples into coefficients */
+const NODES = Array.from({ length: NODE_COUNT }, (_, k) => Math.cos((Math.PI * (k + 0.5)) / NODE_COUNT));
+const BASIS = Array.from({ length: NODE_COUNT }, (_, j) =>
+  Array.from({ length: NODE_COUNT }, (_, k) => Math.cos((Math.PI * j * (k + 0.5)) / NODE_COUNT))
+);
+
+interface ChebyshevSegment {
+  /** x, y, z position coefficients back to back */
+  coefficients: Float64Array;
+  /** Coefficients of the derivative with respect to x, same layout */
+  derivative: Float64Array;
+}
+
+interface BodyTable {
+  segmentMs: number;
+  segments: Map<number, ChebyshevSegment>;
+}
+
+const tables = new Map<HeliocentricBodyName, BodyTable>();
+
+/**
+ * Segment length for a body in days
+ */
+export function getChebyshevSegmentDays(body: HeliocentricBodyName): number {
+  return Math.min(MAX_SEGMENT_DAYS, getHelioPeriodDays(body) / SEGMENTS_PER_ORBIT);
+}
+
+/**
+ * Worst-case error of a body's fits
+ */
+export function getChebyshevErrorBound(body: HeliocentricBodyName): ChebyshevErrorBound {
+  return body === 'Pluto' ? CHEBYSHEV_ERROR_BOUNDS.Pluto : CHEBYSHEV_ERROR_BOUNDS.default;
+}
+
+function getTable(body: HeliocentricBodyName): BodyTable {
+  let table = tables.get(body);
+  if (!table) {
+    table = { segmentMs: getChebyshevSegmentDays(body) * MS_PER_DAY, segments: new Map() };
+    tables.set(body, table);
+  }
+  return table;
+}
+
+/**
+ * Fit one segment by sampling the ephemeris at the Chebyshev nodes
+ */
+function fitSegment(body: HeliocentricBodyName, startMs: number, segmentMs: number): ChebyshevSegment {
+  const coefficients = new Float64Array(3 * NODE_COUNT);
+  const midMs = startMs + segmentMs / 2;
+
+  for (let k = 0; k < NODE_COUNT; k++) {
+    const vector = computeHelioVector(body, new Date(midMs + (NODES[k] * segmentMs) / 2));
+    for (let j = 0; j < NODE_COUNT; j++) {
+      const weight = ((j === 0 ? 1 : 2) / NODE_COUNT) * BASIS[j][k];
+      coefficients[j] += weight * vector.x;
+      coefficients[NODE_COUNT + j] += weight * vector.y;
+      coefficients[2 * NODE_COUNT + j] += weight * vector.z;
+    }
+  }
+
+  return { coefficients, derivative: differentiate(coefficients) };
+}
+
+/**
+ * Coefficients of the derivative of each coordinate's series
+ */
+function differentiate(coefficients: Float64Array): Float64Array {
+  const derivative = new Float64Array(coefficients.length);
+
+  for (let axis = 0; axis < 3; axis++) {
+    const offset = axis * NODE_COUNT;
+    let next = 0; // c'_{j+1}
+    let current = 0; // c'_j
+    for (let j = NODE_COUNT - 1; j >= 1; j--) {
+      const previous = next + 2 * j * coefficients[offset + j];
+      next = current;
+      current = previous;
+      derivative[offset + j - 1] = previous;
+    }
+    derivative[offset] /= 2;
+  }
+
+  return derivative;
+}
+
+/**
+ * Sum a Chebyshev series at x in [-1, 1] (Clenshaw's recurrence)
+ */
+function evaluateSeries(coefficients: Float64Array, offset: number, x: number): number {
+  let b1 = 0;
+  let b2 = 0;
+  for (let j = NODE_COUNT - 1; j >= 1; j--) {
+    const b0 = 2 * x * b1 - b2 + coefficients[offset + j];
+    b2 = b1;
+    b1 = b0;
+  }
+  return x * b1 - b2 + coefficients[offset];
+}
+
+/**
+ * Drop segments outside the window around the one just used
+ */
+function slideWindow(table: BodyTable, index: number): void {
+  if (table.segments.size <= 2 * CHEBYSHEV_WINDOW_SEGMENTS + 1) return;
+  for (const key of table.segments.keys()) {
+    if (Math.abs(key - index) > CHEBYSHEV_WINDOW_SEGMENTS) table.segments.delete(key);
+  }
+}
+
+/**
+ * Segment covering a date, fitting it first if needed, and the date mapped onto [-1, 1]
+ */
+function locate(body: HeliocentricBodyName, date: Date): { table: BodyTable; segment: ChebyshevSegment; x: number } {
+  const table = getTable(body);
+  const dateMs = date.getTime();
+  const index = Math.floor(dateMs / table.segmentMs);
+
+  let segment = table.segments.get(index);
+  if (!segment) {
+    segment = fitSegment(body, index * table.segmentMs, table.segmentMs);
+    table.segments.set(index, segment);
+    slideWindow(table, index);
+  }
+
+  return { table, segment, x: (2 * (dateMs - index * table.segmentMs)) / table.segmentMs - 1 };
+}
+
+/**
+ * Heliocentric position (AU, J2000 equatorial) from the body's Chebyshev
+ * table, fitting the segment first if needed
+ */
+export function evaluateChebyshevVector(body: HeliocentricBodyName, date: Date): Astronomy.Vector {
+  const { segment, x } = locate(body, date);
+  const { coefficients } = segment;
+
+  return new Astronomy.Vector(
+    evaluateSeries(coefficients, 0, x),
+    evaluateSeries(coefficients, NODE_COUNT, x),
+    evaluateSeries(coefficients, 2 * NODE_COUNT, x),
+    new Astronomy.AstroTime(date)
+  );
+}
+
+/**
+ * Heliocentric position (AU) and velocity (AU/day) from the body's Chebyshev
+ * table; the velocity is the derivative of the fitted position
+ */
+export function evaluateChebyshevState(body: HeliocentricBodyName, date: Date): Astronomy.StateVector {
+  const { table, segment, x } = locate(body, date);
+  const { coefficients, derivative } = segment;
+  // dx/dt in 1/day
+  const rate = (2 * MS_PER_DAY) / table.segmentMs;
+
+  return new Astronomy.StateVector(
+    evaluateSeries(coefficients, 0, x),
+    evaluateSeries(coefficients, NODE_COUNT, x),
+    evaluateSeries(coefficients, 2 * NODE_COUNT, x),
+    evaluateSeries(derivative, 0, x) * rate,
+    evaluateSeries(derivative, NODE_COUNT, x) * rate,
+    evaluateSeries(derivative, 2 * NODE_COUNT, x) * rate,
+    new Astronomy.AstroTime(date)
+  );
+}
+
+/**
+ * Number of fitted segments across all bodies
+ */
+export function getChebyshevSegmentCount(): number {
+  let count = 0;
+  tables.forEach((table) => {
+    count += table.segments.size;
+  });
+  return count;
+}
+
+/**
+ * Drop every fitted segment
+ */
+export function clearChebyshevTables(): void {
+  tables.clear();
+}
@@ -0,0 +1,254 @@
+/**
+ * Comet Tails
+ *
+ * Particle layout for a comet's coma and its two tails. The ion tail is
+ * blown straight away from the Sun by the solar wind; the dust tail is pushed
+ * more gently by radiation pressure, so it fans out and curves back along the
+ * orbit. Both grow and brighten as the comet nears the Sun and vanish beyond
+ * TAIL_MAX_AU.
+ *
+ * Particles are laid out once per quality tier as a fixed template (position
+ * along the tail plus a sideways jitter); each tick only the tail axes change,
+ * so offsets are rewritten into the same buffers without allocating.
+ */
+
+import type { RenderQuality } from './store';
+
+/** Scene units per AU, as in calculatePlanetPositionCached */
+const SCENE_UNITS_PER_AU = 10;
+
+/** Tails and coma fade out completely beyond this heliocentric distance, AU */
+export const TAIL_MAX_AU = 5;
+
+/** Distance where tails start fading, AU */
+const TAIL_FADE_START_AU = 3;
+
+/** Tail lengths at 1 AU from the Sun, AU; they scale with 1/r */
+const ION_TAIL_LENGTH_AT_1AU = 0.4;
+const DUST_TAIL_LENGTH_AT_1AU = 0.25;
+
+/** Longest tails drawn, AU, for sungrazers */
+const MAX_TAIL_LENGTH_AU = 1.2;
+
+/** Coma radius at 1 AU from the Sun, AU */
+const COMA_RADIUS_AT_1AU = 0.02;
+
+/** How far the dust tail bends back along the orbit, as a fraction of its length */
+const DUST_CURVATURE = 0.45;
+
+/** Half-width of each tail at its end, as a fraction of its length */
+const ION_SPREAD = 0.04;
+const DUST_SPREAD = 0.16;
+
+export type CometParticleLayer = 'coma' | 'ion' | 'dust';
+
+/** Particles per comet for each layer and quality tier */
+export const COMET_PARTICLE_COUNTS = Object.freeze({
+  high: { coma: 160, ion: 480, dust: 640 },
+  balanced: { coma: 80, ion: 240, dust: 320 },
+  low: { coma: 30, ion: 80, dust: 100 },
+} as const satisfies Record<RenderQuality, Record<CometParticleLayer, number>>);
+
+export interface CometActivity {
+  /** 0 (inactive) to 1 (at or inside 1 AU), scales tail brightness */
+  brightness: number;
+  /** Tail and coma sizes, scene units */
+  ionLength: number;
+  dustLength: number;
+  comaRadius: number;
+}
+
+/**
+ * Unit vectors a comet's tails are laid out along, in scene coordinates
+ */
+export interface CometTailAxes {
+  /** Away from the Sun */
+  antiSun: [number, number, number];
+  /** Backwards along the orbit, perpendicular to antiSun */
+  trailing: [number, number, number];
+  /** Completes the right-handed frame */
+  normal: [number, number, number];
+}
+
+/**
+ * Per-particle template: [t, u, v] where t in [0, 1] is the position along
+ * the tail (or radius in the coma) and u, v are sideways jitter in [-1, 1]
+ */
+export type CometParticleTemplate = Float32Array;
+
+/**
+ * Small deterministic PRNG (mulberry32), so every comet's tail looks the same
+ * from run to run and between renders
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lay out `count` particles for a layer. Tail particles bunch up near the
+ * head, where real tails are brightest; coma particles fill a sphere.
+ */
+export function createParticleTemplate(layer: CometParticleLayer, count: number, seed = 1): CometParticleTemplate {
+  const random = createRandom(seed * 7919 + layer.length);
+  const template = new Float32Array(count * 3);
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    if (layer === 'coma') {
+      // Uniform direction, radius biased toward the centre. Only two
+      // components are stored; the third is recovered when laid out, on the
+      // side of the coma given by the particle's index.
+      const z = 2 * random() - 1;
+      const angle = 2 * Math.PI * random();
+      const ring = Math.sqrt(1 - z * z);
+      template[i3] = random() ** 2;
+      template[i3 + 1] = ring * Math.cos(angle);
+      template[i3 + 2] = ring * Math.sin(angle);
+    } else {
+      template[i3] = random() ** 1.6;
+      // Sum of two uniforms: a soft, centre-weighted spread
+      template[i3 + 1] = random() + random() - 1;
+      template[i3 + 2] = random() + random() - 1;
+    }
+  }
+
+  return template;
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Brightness and size of a comet's coma and tails at a heliocentric distance (AU)
+ */
+export function getCometActivity(distanceAu: number): CometActivity {
+  if (!(distanceAu > 0) || distanceAu >= TAIL_MAX_AU) {
+    return { brightness: 0, ionLength: 0, dustLength: 0, comaRadius: 0 };
+  }
+
+  const fade = 1 - smoothstep(TAIL_FADE_START_AU, TAIL_MAX_AU, distanceAu);
+  const scale = fade / Math.max(distanceAu, 0.1);
+
+  return {
+    brightness: Math.min(1, 1 / distanceAu ** 2) * fade,
+    ionLength: Math.min(MAX_TAIL_LENGTH_AU, ION_TAIL_LENGTH_AT_1AU * scale) * SCENE_UNITS_PER_AU,
+    dustLength: Math.min(MAX_TAIL_LENGTH_AU, DUST_TAIL_LENGTH_AT_1AU * scale) * SCENE_UNITS_PER_AU,
+    comaRadius: COMA_RADIUS_AT_1AU * Math.sqrt(scale) * SCENE_UNITS_PER_AU,
+  };
+}
+
+function normalize(v: [number, number, number]): [number, number, number] {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return length > 0 ? [v[0] / length, v[1] / length, v[2] / length] : [0, 0, 0];
+}
+
+function cross(a: [number, number, number], b: [number, number, number]): [number, number, number] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+/**
+ * Tail axes from a comet's scene position (the Sun is at the origin) and its
+ * velocity in the same frame
+ */
+export function getTailAxes(
+  position: readonly [number, number, number],
+  velocity: readonly [number, number, number]
+): CometTailAxes {
+  const antiSun = normalize([position[0], position[1], position[2]]);
+  const along = velocity[0] * antiSun[0] + velocity[1] * antiSun[1] + velocity[2] * antiSun[2];
+  let trailing = normalize([
+    -(velocity[0] - along * antiSun[0]),
+    -(velocity[1] - along * antiSun[1]),
+    -(velocity[2] - along * antiSun[2]),
+  ]);
+
+  // Purely radial motion: any perpendicular will do
+  if (trailing[0] === 0 && trailing[1] === 0 && trailing[2] === 0) {
+    trailing = normalize(cross(antiSun, Math.abs(antiSun[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]));
+  }
+
+  return { antiSun, trailing, normal: cross(antiSun, trailing) };
+}
+
+/**
+ * Write particle offsets from the comet's centre (scene units) into `target`,
+ * three floats per template particle
+ */
+export function layoutParticles(
+  target: Float32Array,
+  template: CometParticleTemplate,
+  layer: CometParticleLayer,
+  axes: CometTailAxes,
+  activity: CometActivity
+): void {
+  const { antiSun, trailing, normal } = axes;
+  const count = template.length / 3;
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const t = template[i3];
+    const u = template[i3 + 1];
+    const v = template[i3 + 2];
+
+    let along: number;
+    let back: number;
+    let side: number;
+    let up: number;
+
+    if (layer === 'coma') {
+      // Unit direction (w, u, v) scaled by the radius
+      const w = Math.sqrt(Math.max(0, 1 - u * u - v * v)) * (i % 2 === 0 ? 1 : -1);
+      along = t * activity.comaRadius * w;
+      back = t * activity.comaRadius * u;
+      side = 0;
+      up = t * activity.comaRadius * v;
+    } else if (layer === 'ion') {
+      const length = activity.ionLength;
+      const spread = ION_SPREAD * length * (0.2 + t);
+      along = t * length;
+      back = 0;
+      side = u * spread;
+      up = v * spread;
+    } else {
+      const length = activity.dustLength;
+      const spread = DUST_SPREAD * length * (0.1 + t);
+      along = t * length;
+      // Older dust lags further behind the nucleus
+      back = DUST_CURVATURE * t * t * length;
+      side = u * spread;
+      up = v * spread * 0.35;
+    }
+
+    target[i3] = antiSun[0] * along + trailing[0] * (back + side) + normal[0] * up;
+    target[i3 + 1] = antiSun[1] * along + trailing[1] * (back + side) + normal[1] * up;
+    target[i3 + 2] = antiSun[2] * along + trailing[2] * (back + side) + normal[2] * up;
+  }
+}
+
+/**
+ * Per-particle colours (for additive blending, darker reads as fainter):
+ * the base colour dimmed along the tail and by the comet's brightness
+ */
+export function shadeParticles(
+  target: Float32Array,
+  template: CometParticleTemplate,
+  color: readonly [number, number, number],
+  brightness: number
+): void {
+  const count = template.length / 3;
+  for (let i = 0; i < count; i++) {
+    const fade = brightness * (1 - template[i * 3]) ** 1.5;
+    target[i * 3] = color[0] * fade;
+    target[i * 3 + 1] = color[1] * fade;
+    target[i * 3 + 2] = color[2] * fade;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Solar and Lunar Eclipses
+ *
+ * Eclipse search over a date range (peak time, kind and where it can be seen)
+ * and the Earth/Moon shadow geometry at any instant for the scene. Shadows
+ * are modelled as cones from a spherical Sun, Earth and Moon.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { ValidationError } from './errors';
+import { formatLatLon } from './observer';
+import type { AstronomicalEvent } from './api-design';
+
+const MS_PER_MINUTE = 60_000;
+
+/** Radii in km */
+export const SUN_RADIUS_KM = 695_700;
+export const EARTH_RADIUS_KM = 6378.1;
+export const MOON_RADIUS_KM = 1737.4;
+
+/** Earth's mean radius plus ~88 km of atmosphere, which widens its shadow (as astronomy-engine does) */
+const EARTH_SHADOW_RADIUS_KM = 6459;
+
+export type EclipseKind = 'penumbral' | 'partial' | 'annular' | 'total';
+
+/** 'solar' when the Moon hides the Sun, 'lunar' when Earth's shadow falls on the Moon */
+export type EclipseBody = 'solar' | 'lunar';
+
+export interface EclipseInfo {
+  body: EclipseBody;
+  kind: EclipseKind;
+  /** Greatest eclipse */
+  peak: Date;
+  /** First and last penumbral contact for lunar eclipses; null for solar */
+  start: Date | null;
+  end: Date | null;
+  /** Fraction of the Sun's or Moon's disc covered at peak, where known */
+  obscuration: number | null;
+  /**
+   * Solar: where the shadow axis touches Earth at peak, for central eclipses.
+   * Lunar: where the Moon is overhead at peak. Null when not applicable.
+   */
+  latitude: number | null;
+  longitude: number | null;
+  /** Where on Earth the eclipse can be seen */
+  visibility: string;
+}
+
+function normalizeLongitude(degrees: number): number {
+  return ((((degrees + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Point on Earth with the Moon at the zenith, from its geocentric position of date
+ */
+function subLunarPoint(date: Date): { latitude: number; longitude: number } {
+  const ofDate = Astronomy.RotateVector(Astronomy.Rotation_EQJ_EQD(date), Astronomy.GeoMoon(date));
+  const equatorial = Astronomy.EquatorFromVector(ofDate);
+  return {
+    latitude: equatorial.dec,
+    longitude: normalizeLongitude((equatorial.ra - Astronomy.SiderealTime(date)) * 15),
+  };
+}
+
+function lunarEclipse(info: Astronomy.LunarEclipseInfo): EclipseInfo {
+  const peakMs = info.peak.date.getTime();
+  const point = subLunarPoint(info.peak.date);
+  const phase =
+    info.kind === Astronomy.EclipseKind.Total
+      ? { name: 'totality', minutes: info.sd_total }
+      : info.kind === Astronomy.EclipseKind.Partial
+        ? { name: 'partial phase', minutes: info.sd_partial }
+        : { name: 'penumbral phase', minutes: info.sd_penum };
+
+  return {
+    body: 'lunar',
+    kind: info.kind as EclipseKind,
+    peak: info.peak.date,
+    start: new Date(peakMs - info.sd_penum * MS_PER_MINUTE),
+    end: new Date(peakMs + info.sd_penum * MS_PER_MINUTE),
+    obscuration: info.kind === Astronomy.EclipseKind.Total ? 1 : info.obscuration,
+    latitude: point.latitude,
+    longitude: point.longitude,
+    visibility: `Night side of Earth; Moon overhead at ${formatLatLon(point.latitude, point.longitude, 1)}. ` +
+      `${phase.name.charAt(0).toUpperCase()}${phase.name.slice(1)} lasts ${Math.round(2 * phase.minutes)} min`,
+  };
+}
+
+function solarEclipse(info: Astronomy.GlobalSolarEclipseInfo): EclipseInfo {
+  const central = info.latitude !== undefined && info.longitude !== undefined;
+  let visibility: string;
+
+  if (central) {
+    const path = info.kind === Astronomy.EclipseKind.Total ? 'totality' : 'annularity';
+    visibility = `Greatest eclipse at ${formatLatLon(info.latitude!, info.longitude!, 1)}; partial across a wide area around the path of ${path}`;
+  } else {
+    // The shadow misses Earth's centre on the side of the ecliptic the Moon is on
+    const hemisphere = Astronomy.EclipticGeoMoon(info.peak.date).lat >= 0 ? 'northern' : 'southern';
+    visibility = `Partial from high ${hemisphere} latitudes`;
+  }
+
+  return {
+    body: 'solar',
+    kind: info.kind as EclipseKind,
+    peak: info.peak.date,
+    start: null,
+    end: null,
+    obscuration: info.obscuration ?? null,
+    latitude: central ? info.latitude! : null,
+    longitude: central ? info.longitude! : null,
+    visibility,
+  };
+}
+
+/**
+ * Solar and lunar eclipses whose peak falls between two dates, sorted by peak
+ */
+export function searchEclipses(startDate: Date, endDate: Date): EclipseInfo[] {
+  const startMs = startDate.getTime();
+  const endMs = endDate.getTime();
+
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) {
+    throw new ValidationError('Eclipse search dates must be valid', {
+      field: 'dateRange',
+      value: { startDate, endDate },
+    });
+  }
+  if (endMs < startMs) {
+    throw new ValidationError('Eclipse search end date must not be before the start date', {
+      field: 'endDate',
+      value: endDate,
+    });
+  }
+
+  const eclipses: EclipseInfo[] = [];
+
+  let lunar = Astronomy.SearchLunarEclipse(startDate);
+  while (lunar.peak.date.getTime() <= endMs) {
+    eclipses.push(lunarEclipse(lunar));
+    lunar = Astronomy.NextLunarEclipse(lunar.peak.date);
+  }
+
+  let solar = Astronomy.SearchGlobalSolarEclipse(startDate);
+  while (solar.peak.date.getTime() <= endMs) {
+    eclipses.push(solarEclipse(solar));
+    solar = Astronomy.NextGlobalSolarEclipse(solar.peak.date);
+  }
+
+  return eclipses.sort((a, b) => a.peak.getTime() - b.peak.getTime());
+}
+
+/**
+ * Human-readable name, e.g. "Total solar eclipse"
+ */
+export function describeEclipseKind(body: EclipseBody, kind: EclipseKind): string {
+  return `${kind.charAt(0).toUpperCase()}${kind.slice(1)} ${body} eclipse`;
+}
+
+/**
+ * An eclipse as an `AstronomicalEvent`. Lunar eclipses focus the Moon,
+ * solar eclipses focus Earth, where the Moon's shadow lands.
+ */
+export function eclipseToEvent(eclipse: EclipseInfo): AstronomicalEvent {
+  const planets = eclipse.body === 'lunar' ? ['Moon', 'Earth'] : ['Earth', 'Moon'];
+  const visibility: NonNullable<AstronomicalEvent['visibility']> = { bestLocation: eclipse.visibility };
+  if (eclipse.start && eclipse.end) {
+    visibility.duration = `${Math.round((eclipse.end.getTime() - eclipse.start.getTime()) / MS_PER_MINUTE)} min`;
+  }
+
+  return {
+    type: 'eclipse',
+    date: eclipse.peak.toISOString(),
+    planets,
+    description: describeEclipseKind(eclipse.body, eclipse.kind),
+    visibility,
+  };
+}
+
+export interface ShadowCone {
+  /** Unit vector along the shadow axis, away from the Sun, in scene coordinates */
+  axis: [number, number, number];
+  /** Radius of the body casting the shadow, km */
+  casterRadiusKm: number;
+  /** Distance along the axis from the caster to the body the shadow falls on, km */
+  targetDistanceKm: number;
+  /** Length of the umbra from the caster to its tip, km */
+  umbraLengthKm: number;
+  /** Umbra radius at the target; negative past the tip (antumbra) */
+  umbraRadiusKm: number;
+  /** Penumbra radius at the target */
+  penumbraRadiusKm: number;
+  /** Distance of the target's centre from the axis, km */
+  offsetKm: number;
+}
+
+export interface EclipseShadows {
+  /** Kind of lunar eclipse in progress, or null */
+  lunar: EclipseKind | null;
+  /** Kind of solar eclipse in progress somewhere on Earth, or null */
+  solar: EclipseKind | null;
+  /** Earth's shadow, measured at the Moon */
+  earthShadow: ShadowCone;
+  /** The Moon's shadow, measured at Earth */
+  moonShadow: ShadowCone;
+}
+
+type Vec3 = [number, number, number];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const norm = (a: Vec3): number => Math.sqrt(dot(a, a));
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+
+function toKm(vector: Astronomy.Vector): Vec3 {
+  return [vector.x * Astronomy.KM_PER_AU, vector.y * Astronomy.KM_PER_AU, vector.z * Astronomy.KM_PER_AU];
+}
+
+/**
+ * Shadow cast by a sphere at `caster` onto a point at `target` (geocentric km)
+ */
+function shadowCone(sun: Vec3, caster: Vec3, casterRadiusKm: number, target: Vec3): ShadowCone {
+  const fromSun = sub(caster, sun);
+  const sunDistance = norm(fromSun);
+  const axis = scale(fromSun, 1 / sunDistance);
+
+  const toTarget = sub(target, caster);
+  const along = dot(toTarget, axis);
+  const offsetKm = norm(sub(toTarget, scale(axis, along)));
+
+  const umbraAngle = Math.asin((SUN_RADIUS_KM - casterRadiusKm) / sunDistance);
+  const penumbraAngle = Math.asin((SUN_RADIUS_KM + casterRadiusKm) / sunDistance);
+
+  return {
+    axis: [axis[0], axis[2], -axis[1]],
+    casterRadiusKm,
+    targetDistanceKm: along,
+    umbraLengthKm: casterRadiusKm / Math.tan(umbraAngle),
+    umbraRadiusKm: casterRadiusKm - along * Math.tan(umbraAngle),
+    penumbraRadiusKm: casterRadiusKm + along * Math.tan(penumbraAngle),
+    offsetKm,
+  };
+}
+
+/**
+ * Earth and Moon shadow cones at `date`, and which eclipses (if any) are in progress.
+ * Solar kinds are decided at the sub-shadow point, so an umbra that only grazes
+ * Earth's limb reports 'partial'.
+ */
+export function computeEclipseShadows(date: Date): EclipseShadows {
+  const earth: Vec3 = [0, 0, 0];
+  const sun = toKm(Astronomy.GeoVector(Astronomy.Body.Sun, date, true));
+  const moon = toKm(Astronomy.GeoMoon(date));
+
+  const earthShadow = shadowCone(sun, earth, EARTH_SHADOW_RADIUS_KM, moon);
+  const moonShadow = shadowCone(sun, moon, MOON_RADIUS_KM, earth);
+
+  let lunar: EclipseKind | null = null;
+  if (earthShadow.targetDistanceKm > 0) {
+    const { offsetKm, umbraRadiusKm, penumbraRadiusKm } = earthShadow;
+    if (offsetKm + MOON_RADIUS_KM <= umbraRadiusKm) lunar = 'total';
+    else if (offsetKm - MOON_RADIUS_KM < umbraRadiusKm) lunar = 'partial';
+    else if (offsetKm - MOON_RADIUS_KM < penumbraRadiusKm) lunar = 'penumbral';
+  }
+
+  let solar: EclipseKind | null = null;
+  if (moonShadow.targetDistanceKm > 0) {
+    const { offsetKm, umbraRadiusKm, penumbraRadiusKm } = moonShadow;
+    if (offsetKm < EARTH_RADIUS_KM) solar = umbraRadiusKm > 0 ? 'total' : 'annular';
+    else if (offsetKm - EARTH_RADIUS_KM < penumbraRadiusKm) solar = 'partial';
+  }
+
+  return { lunar, solar, earthShadow, moonShadow };
+}
+
+/**
+ * Status text such as "Total lunar eclipse in progress.", or null when there is none
+ */
+export function describeEclipseInProgress(shadows: EclipseShadows): string | null {
+  if (shadows.solar) return `${describeEclipseKind('solar', shadows.solar)} in progress.`;
+  if (shadows.lunar) return `${describeEclipseKind('lunar', shadows.lunar)} in progress.`;
+  return null;
+}
@@ -0,0 +1,462 @@
+/**
+ * Ephemeris Computation
+ *
+ * Everything the scene needs about every body at a date, and the typed
+ * message protocol that lets it run inside a Web Worker. This module has no
+ * DOM or store dependencies, so the worker and the main-thread fallback share
+ * the same code (see ephemerisService.ts).
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import {
+  calculatePlanetPositionCached,
+  calculateOrbitalVelocityCached,
+  calculateHelioDistanceCached,
+  calculateEarthDistanceCached,
+  calculateLightTimeCached,
+  calculateMoonOffsetCached,
+  getCachedMoonState,
+  getCachedSkyPosition,
+  getCachedAppearance,
+  getCachedOsculatingElements,
+  clearAstronomyCaches,
+} from './astronomy-cache';
+import {
+  BODY_CATALOG,
+  BODY_NAMES,
+  type BodyCategory,
+  type BodyName,
+  type HeliocentricBodyName,
+} from './bodies';
+import { isMoonName, type MoonName } from './moons';
+import type { ObserverLocation, SkyPosition } from './observer';
+import type { BodyAppearance } from './appearance';
+import type { OsculatingElements } from './kepler';
+import { computeOrbitPath, computeMoonOrbitPath } from './orbitPaths';
+import { computeRelativeOrbitPath, type ReferenceFrame } from './referenceFrames';
+import type { ScaleMode } from './scaleModes';
+import { computeSmallBodyPositions, type SmallBody } from './smallBodies';
+import { computePorkchop, type PorkchopGrid, type TransferWindow } from './transfers';
+import { CalculationError, reportError, FALLBACK_VALUES } from './errors';
+import { calculationLogger } from './logger';
+import { isValidBody } from './validation';
+
+export interface PlanetData {
+  name: string;
+  category: BodyCategory;
+  position: [number, number, number];
+  radius: number;
+  color: string;
+  texture?: string;
+  distance: number; // Live AU from Sun (the parent's, for moons)
+  velocity: number; // km/s
+  temperature: number; // Kelvin
+  mass: number; // Earth masses
+  moons: number;
+  parent?: string; // Set for moons: the body they orbit
+  parentDistanceKm?: number; // Set for moons: live distance from the parent
+  earthDistanceAu?: number; // Live distance from Earth (unset for Earth)
+  lightTimeSeconds?: number; // One-way light time to Earth (unset for Earth)
+  sky?: SkyPosition; // Where the body appears for the observer (unset for Earth)
+  appearance?: BodyAppearance; // Phase, magnitude and size seen from Earth (unset for Earth)
+  orbit?: OsculatingElements; // Osculating elements around the Sun (the parent, for moons)
+}
+
+/**
+ * Calculate position for a single planet with error handling
+ */
+function safeCalculatePosition(
+  body: HeliocentricBodyName,
+  date: Date
+): [number, number, number] {
+  try {
+    return calculatePlanetPositionCached(body, date);
+  } catch (error) {
+    const calcError = new CalculationError(
+      `Failed to calculate position for ${body}`,
+      { body, date, cause: error as Error }
+    );
+    reportError(calcError);
+    calculationLogger.error(`Position calculation failed for ${body}`, {
+      error: (error as Error).message,
+      date: date.toISOString(),
+    });
+    return FALLBACK_VALUES.position;
+  }
+}
+
+/**
+ * Calculate velocity for a single planet with error handling
+ */
+function safeCalculateVelocity(body: HeliocentricBodyName, date: Date): number {
+  try {
+    return calculateOrbitalVelocityCached(body, date);
+  } catch (error) {
+    const calcError = new CalculationError(
+      `Failed to calculate velocity for ${body}`,
+      { body, date, cause: error as Error }
+    );
+    reportError(calcError);
+    calculationLogger.error(`Velocity calculation failed for ${body}`, {
+      error: (error as Error).message,
+      date: date.toISOString(),
+    });
+    return FALLBACK_VALUES.velocity;
+  }
+}
+
+/**
+ * Calculate live distance from the Sun, falling back to the catalog's mean distance
+ */
+function safeCalculateDistance(body: HeliocentricBodyName, date: Date, meanDistance: number): number {
+  try {
+    return calculateHelioDistanceCached(body, date);
+  } catch (error) {
+    const calcError = new CalculationError(
+      `Failed to calculate distance for ${body}`,
+      { body, date, cause: error as Error }
+    );
+    reportError(calcError);
+    calculationLogger.error(`Distance calculation failed for ${body}`, {
+      error: (error as Error).message,
+      date: date.toISOString(),
+    });
+    return meanDistance;
+  }
+}
+
+/**
+ * Calculate distance from Earth and light time, with error handling.
+ * Both are left unset for Earth or on failure.
+ */
+function safeCalculateEarthDistance(
+  body: BodyName,
+  date: Date
+): Pick<PlanetData, 'earthDistanceAu' | 'lightTimeSeconds'> {
+  try {
+    const earthDistanceAu = calculateEarthDistanceCached(body, date);
+    const lightTimeSeconds = calculateLightTimeCached(body, date);
+    if (earthDistanceAu === null || lightTimeSeconds === null) return {};
+    return { earthDistanceAu, lightTimeSeconds };
+  } catch (error) {
+    const calcError = new CalculationError(
+      `Failed to calculate distance from Earth for ${body}`,
+      { body, date, cause: error as Error }
+    );
+    reportError(calcError);
+    calculationLogger.error(`Earth distance calculation failed for ${body}`, {
+      error: (error as Error).message,
+      date: date.toISOString(),
+    });
+    return {};
+  }
+}
+
+/**
+ * Calculate display position, orbital speed around the parent and parent
+ * distance for a moon, with error handling
+ */
+function safeCalculateMoon(
+  moon: MoonName,
+  parentPosition: [number, number, number],
+  date: Date
+): { position: [number, number, number]; velocity: number; parentDistanceKm: number } {
+  try {
+    const offset = calculateMoonOffsetCached(moon, date);
+    const state = getCachedMoonState(moon, date);
+    const kmPerAu = Astronomy.KM_PER_AU;
+
+    return {
+      position: [
+        parentPosition[0] + offset[0],
+        parentPosition[1] + offset[1],
+        parentPosition[2] + offset[2],
+      ],
+      velocity: (Math.sqrt(state.vx ** 2 + state.vy ** 2 + state.vz ** 2) * kmPerAu) / 86_400,
+      parentDistanceKm: Math.sqrt(state.x ** 2 + state.y ** 2 + state.z ** 2) * kmPerAu,
+    };
+  } catch (error) {
+    const calcError = new CalculationError(
+      `Failed to calculate position for ${moon}`,
+      { body: moon, date, cause: error as Error }
+    );
+    reportError(calcError);
+    calculationLogger.error(`Moon calculation failed for ${moon}`, {
+      error: (error as Error).message,
+      date: date.toISOString(),
+    });
+    return { position: parentPosition, velocity: FALLBACK_VALUES.velocity, parentDistanceKm: 0 };
+  }
+}
+
+/**
+ * Calculate where a body appears in the observer's sky, with error handling
+ */
+function safeCalculateSky(
+  body: BodyName,
+  observer: ObserverLocation,
+  date: Date
+): SkyPosition | undefined {
+  try {
+    return getCachedSkyPosition(body, observer, date) ?? undefined;
+  } catch (error) {
+    const calcError = new CalculationError(
+      `Failed to calculate sky position for ${body}`,
+      { body, date, cause: error as Error }
+    );
+    reportError(calcError);
+    calculationLogger.error(`Sky position calculation failed for ${body}`, {
+      error: (error as Error).message,
+      date: date.toISOString(),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Calculate phase, magnitude and apparent size seen from Earth, with error handling
+ */
+function safeCalculateAppearance(body: BodyName, date: Date): BodyAppearance | undefined {
+  try {
+    return getCachedAppearance(body, date) ?? undefined;
+  } catch (error) {
+    const calcError = new CalculationError(
+      `Failed to calculate appearance for ${body}`,
+      { body, date, cause: error as Error }
+    );
+    reportError(calcError);
+    calculationLogger.error(`Appearance calculation failed for ${body}`, {
+      error: (error as Error).message,
+      date: date.toISOString(),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Fit osculating orbital elements to the current state vector, with error handling
+ */
+function safeCalculateOrbit(body: BodyName, date: Date): OsculatingElements | undefined {
+  try {
+    return getCachedOsculatingElements(body, date);
+  } catch (error) {
+    const calcError = new CalculationError(
+      `Failed to calculate orbital elements for ${body}`,
+      { body, date, cause: error as Error }
+    );
+    reportError(calcError);
+    calculationLogger.error(`Orbital elements calculation failed for ${body}`, {
+      error: (error as Error).message,
+      date: date.toISOString(),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Batch update all body positions - optimized with caching
+ */
+export function calculateAllPlanets(date: Date, observer: ObserverLocation): Map<string, PlanetData> {
+  const planets = new Map<string, PlanetData>();
+
+  // Use for loop instead of forEach for better performance in hot path.
+  // Catalog order lists every parent before its moons.
+  for (let i = 0; i < BODY_NAMES.length; i++) {
+    const name = BODY_NAMES[i];
+    const config = BODY_CATALOG[name];
+
+    if (config.category === 'moon') {
+      const parent = planets.get(config.parent);
+      if (!parent || !isMoonName(name)) continue;
+
+      const { position, velocity, parentDistanceKm } = safeCalculateMoon(name, parent.position, date);
+
+      planets.set(name, {
+        name,
+        category: config.category,
+        position,
+        radius: config.radius,
+        color: config.color,
+        distance: parent.distance,
+        velocity,
+        temperature: config.temp,
+        mass: config.mass,
+        moons: 0,
+        parent: config.parent,
+        parentDistanceKm,
+        ...safeCalculateEarthDistance(name, date),
+        sky: safeCalculateSky(name, observer, date),
+        appearance: safeCalculateAppearance(name, date),
+        orbit: safeCalculateOrbit(name, date),
+      });
+      continue;
+    }
+
+    if (!isValidBody(name)) continue;
+
+    const position = safeCalculatePosition(name, date);
+    const velocity = safeCalculateVelocity(name, date);
+
+    planets.set(name, {
+      name,
+      category: config.category,
+      position,
+      radius: config.radius,
+      color: config.color,
+      distance: safeCalculateDistance(name, date, config.distance),
+      velocity,
+      temperature: config.temp,
+      mass: config.mass,
+      moons: config.moons,
+      ...safeCalculateEarthDistance(name, date),
+      sky: safeCalculateSky(name, observer, date),
+      appearance: safeCalculateAppearance(name, date),
+      orbit: safeCalculateOrbit(name, date),
+    });
+  }
+
+  return planets;
+}
+
+// ---------------------------------------------------------------------------
+// Worker protocol
+// ---------------------------------------------------------------------------
+
+/**
+ * A unit of work. Dates travel as epoch milliseconds.
+ */
+export type EphemerisQuery =
+  | { kind: 'planets'; dateMs: number; observer: ObserverLocation }
+  | { kind: 'orbitPath'; body: HeliocentricBodyName; epochMs: number }
+  | { kind: 'moonOrbitPath'; body: MoonName; epochMs: number }
+  | {
+      kind: 'relativeOrbitPath';
+      body: ReferenceFrame;
+      center: ReferenceFrame;
+      epochMs: number;
+      scaleMode: ScaleMode;
+    }
+  | { kind: 'smallBodies'; dateMs: number; bodies: readonly SmallBody[] }
+  | {
+      kind: 'porkchop';
+      origin: HeliocentricBodyName;
+      destination: HeliocentricBodyName;
+      window: TransferWindow;
+    };
+
+export type EphemerisQueryKind = EphemerisQuery['kind'];
+
+export interface EphemerisResults {
+  planets: Map<string, PlanetData>;
+  orbitPath: Float32Array;
+  moonOrbitPath: Float32Array;
+  relativeOrbitPath: Float32Array;
+  /** Scene positions, [x, y, z] per body in query order */
+  smallBodies: Float32Array;
+  porkchop: PorkchopGrid;
+}
+
+export type EphemerisResult = EphemerisResults[EphemerisQueryKind];
+
+export interface EphemerisJob {
+  id: number;
+  query: EphemerisQuery;
+}
+
+/** Main thread -> worker */
+export type EphemerisWorkerMessage =
+  | { type: 'batch'; jobs: EphemerisJob[] }
+  | { type: 'cancel'; ids: number[] }
+  | { type: 'clearCaches' };
+
+/** Worker -> main thread, one per job */
+export type EphemerisWorkerResponse =
+  | { type: 'result'; id: number; result: EphemerisResult }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Run a query on the current thread
+ */
+export function runEphemerisQuery<K extends EphemerisQueryKind>(
+  query: Extract<EphemerisQuery, { kind: K }>
+): EphemerisResults[K];
+export function runEphemerisQuery(query: EphemerisQuery): EphemerisResult {
+  switch (query.kind) {
+    case 'planets':
+      return calculateAllPlanets(new Date(query.dateMs), query.observer);
+    case 'orbitPath':
+      return computeOrbitPath(query.body, new Date(query.epochMs));
+    case 'moonOrbitPath':
+      return computeMoonOrbitPath(query.body, new Date(query.epochMs));
+    case 'relativeOrbitPath':
+      return computeRelativeOrbitPath(query.body, query.center, new Date(query.epochMs), query.scaleMode);
+    case 'smallBodies':
+      return computeSmallBodyPositions(query.bodies, new Date(query.dateMs));
+    case 'porkchop':
+      return computePorkchop(query.origin, query.destination, query.window);
+  }
+}
+
+/**
+ * Buffers a result can hand over to the other thread instead of copying
+ */
+export function getTransferables(result: EphemerisResult): Transferable[] {
+  if (result instanceof Float32Array) return [result.buffer];
+  if (result instanceof Map) return [];
+  return [result.departureMs.buffer, result.arrivalMs.buffer, result.c3.buffer, result.deltaV.buffer];
+}
+
+/**
+ * Worker-side message handler. Jobs run one per macrotask so that a
+ * 'cancel' arriving mid-batch is seen before the remaining jobs start.
+ */
+export function createEphemerisWorkerHandler(
+  post: (response: EphemerisWorkerResponse, transfer: Transferable[]) => void,
+  schedule: (run: () => void) => void = (run) => setTimeout(run, 0)
+): (message: EphemerisWorkerMessage) => void {
+  const queue: EphemerisJob[] = [];
+  const cancelled = new Set<number>();
+  let draining = false;
+
+  const drain = () => {
+    const job = queue.shift();
+    if (!job) {
+      draining = false;
+      return;
+    }
+
+    if (cancelled.delete(job.id)) {
+      drain();
+      return;
+    }
+
+    try {
+      const result = runEphemerisQuery(job.query);
+      post({ type: 'result', id: job.id, result }, getTransferables(result));
+    } catch (error) {
+      post({ type: 'error', id: job.id, message: (error as Error).message }, []);
+    }
+    schedule(drain);
+  };
+
+  return (message) => {
+    switch (message.type) {
+      case 'batch':
+        queue.push(...message.jobs);
+        if (!draining) {
+          draining = true;
+          schedule(drain);
+        }
+        break;
+      case 'cancel':
+        // Only queued jobs can still be skipped
+        for (const id of message.ids) {
+          if (queue.some((job) => job.id === id)) cancelled.add(id);
+        }
+        break;
+      case 'clearCaches':
+        clearAstronomyCaches();
+        break;
+    }
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Ephemeris Web Worker
+ *
+ * Entry point bundled by `new Worker(new URL('./ephemeris.worker.ts', import.meta.url))`
+ * in ephemerisService.ts. Keeps its own astronomy caches.
+ */
+
+import { createEphemerisWorkerHandler, type EphemerisWorkerMessage } from './ephemeris';
+
+const handleMessage = createEphemerisWorkerHandler((response, transfer) => {
+  self.postMessage(response, { transfer });
+});
+
+self.addEventListener('message', (event: MessageEvent<EphemerisWorkerMessage>) => {
+  handleMessage(event.data);
+});
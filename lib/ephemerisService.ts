@@ -0,0 +1,207 @@
+/**
+ * Ephemeris Service
+ *
+ * Runs ephemeris requests in a Web Worker so date jumps and orbit resampling
+ * don't stall the frame. Requests made in the same tick are posted to the
+ * worker as one batch, and each can be cancelled with an AbortSignal. Where
+ * workers are unavailable (tests, SSR) or the worker fails, requests run on
+ * the main thread instead; `mode` tells callers which one they will get.
+ */
+
+import {
+  runEphemerisQuery,
+  type EphemerisJob,
+  type EphemerisQuery,
+  type EphemerisQueryKind,
+  type EphemerisResult,
+  type EphemerisResults,
+  type EphemerisWorkerMessage,
+  type EphemerisWorkerResponse,
+} from './ephemeris';
+import { clearAstronomyCaches } from './astronomy-cache';
+import { CalculationError, reportError } from './errors';
+import { calculationLogger } from './logger';
+
+export type EphemerisMode = 'worker' | 'sync';
+
+/**
+ * The parts of a Worker the service uses, so tests can supply an in-process one
+ */
+export interface EphemerisWorkerLike {
+  postMessage(message: EphemerisWorkerMessage): void;
+  onmessage: ((event: MessageEvent<EphemerisWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  terminate(): void;
+}
+
+export interface EphemerisRequestOptions {
+  /** Aborting rejects the promise with the signal's reason and skips the job if it hasn't started */
+  signal?: AbortSignal;
+}
+
+export interface EphemerisService {
+  /** 'worker' while requests go to the worker, 'sync' when they run on this thread */
+  readonly mode: EphemerisMode;
+  request<K extends EphemerisQueryKind>(
+    query: Extract<EphemerisQuery, { kind: K }>,
+    options?: EphemerisRequestOptions
+  ): Promise<EphemerisResults[K]>;
+  /** Clear the astronomy caches on this thread and in the worker */
+  clearCaches(): void;
+  /** Stop the worker and reject anything still pending */
+  dispose(): void;
+}
+
+interface PendingJob {
+  kind: EphemerisQueryKind;
+  resolve: (result: EphemerisResult) => void;
+  reject: (error: unknown) => void;
+  cleanup: () => void;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Ephemeris request cancelled', 'AbortError');
+}
+
+function runOnMainThread(query: EphemerisQuery, signal?: AbortSignal): Promise<EphemerisResult> {
+  if (signal?.aborted) return Promise.reject(abortReason(signal));
+  try {
+    return Promise.resolve(runEphemerisQuery(query));
+  } catch (error) {
+    return Promise.reject(
+      new CalculationError(`Ephemeris ${query.kind} request failed`, { cause: error as Error })
+    );
+  }
+}
+
+/**
+ * Create a service backed by `worker`, or running on the main thread when it is null
+ */
+export function createEphemerisService(worker: EphemerisWorkerLike | null): EphemerisService {
+  let activeWorker = worker;
+  let nextId = 1;
+  let batch: EphemerisJob[] = [];
+  const pending = new Map<number, PendingJob>();
+
+  const rejectAll = (error: unknown) => {
+    pending.forEach((job) => {
+      job.cleanup();
+      job.reject(error);
+    });
+    pending.clear();
+    batch = [];
+  };
+
+  const flush = () => {
+    if (batch.length === 0 || !activeWorker) return;
+    activeWorker.postMessage({ type: 'batch', jobs: batch });
+    batch = [];
+  };
+
+  if (activeWorker) {
+    activeWorker.onmessage = (event) => {
+      const response = event.data;
+      const job = pending.get(response.id);
+      // Cancelled while the worker was already running it
+      if (!job) return;
+
+      pending.delete(response.id);
+      job.cleanup();
+      if (response.type === 'result') {
+        job.resolve(response.result);
+      } else {
+        job.reject(new CalculationError(response.message, { context: { kind: job.kind } }));
+      }
+    };
+
+    activeWorker.onerror = (event) => {
+      event.preventDefault();
+      const error = new CalculationError(`Ephemeris worker failed: ${event.message}`);
+      reportError(error);
+      calculationLogger.error('Ephemeris worker failed, computing on the main thread', {
+        error: event.message,
+      });
+
+      activeWorker?.terminate();
+      activeWorker = null;
+      rejectAll(error);
+    };
+  }
+
+  return {
+    get mode(): EphemerisMode {
+      return activeWorker ? 'worker' : 'sync';
+    },
+
+    request<K extends EphemerisQueryKind>(
+      query: Extract<EphemerisQuery, { kind: K }>,
+      { signal }: EphemerisRequestOptions = {}
+    ): Promise<EphemerisResults[K]> {
+      if (!activeWorker) {
+        return runOnMainThread(query, signal) as Promise<EphemerisResults[K]>;
+      }
+      if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+      const id = nextId++;
+
+      return new Promise<EphemerisResults[K]>((resolve, reject) => {
+        const onAbort = () => {
+          pending.delete(id);
+          const queued = batch.findIndex((job) => job.id === id);
+          if (queued >= 0) {
+            batch.splice(queued, 1);
+          } else {
+            activeWorker?.postMessage({ type: 'cancel', ids: [id] });
+          }
+          reject(abortReason(signal!));
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        pending.set(id, {
+          kind: query.kind,
+          resolve: resolve as (result: EphemerisResult) => void,
+          reject,
+          cleanup: () => signal?.removeEventListener('abort', onAbort),
+        });
+
+        batch.push({ id, query });
+        // Everything requested before the microtask runs goes out in one message
+        if (batch.length === 1) queueMicrotask(flush);
+      });
+    },
+
+    clearCaches() {
+      clearAstronomyCaches();
+      activeWorker?.postMessage({ type: 'clearCaches' });
+    },
+
+    dispose() {
+      activeWorker?.terminate();
+      activeWorker = null;
+      rejectAll(new DOMException('Ephemeris service disposed', 'AbortError'));
+    },
+  };
+}
+
+let sharedService: EphemerisService | null = null;
+
+function spawnWorker(): EphemerisWorkerLike | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+
+  try {
+    return new Worker(new URL('./ephemeris.worker.ts', import.meta.url));
+  } catch (error) {
+    calculationLogger.warn('Ephemeris worker unavailable, computing on the main thread', {
+      error: (error as Error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * The app-wide service, created on first use
+ */
+export function getEphemerisService(): EphemerisService {
+  sharedService ??= createEphemerisService(spawnWorker());
+  return sharedService;
+}
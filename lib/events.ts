@@ -0,0 +1,412 @@
+/**
+ * Astronomical Events Engine
+ *
+ * Client-side search for the events in `AstronomicalEvent`: planet-planet and
+ * planet-Sun conjunctions, oppositions, greatest elongations and transits of
+ * Mercury and Venus, perihelion/aphelion, Earth's equinoxes and solstices, and
+ * solar and lunar eclipses. Covers the major planets; dwarf planets and moons other than
+ * ours are not searched.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { ValidationError } from './errors';
+import { eclipseToEvent, searchEclipses } from './eclipses';
+import { PLANET_ORDER, type PlanetName } from './planets';
+import { ASTRONOMICAL_EVENT_TYPES, type AstronomicalEvent, type AstronomicalEventType } from './api-design';
+
+const MS_PER_DAY = 86_400_000;
+const MS_PER_MINUTE = 60_000;
+
+/** Longest range a single search may cover, to bound work on the main thread */
+export const EVENT_SEARCH_MAX_DAYS = 366 * 20;
+
+/** Default window for the "Upcoming events" list */
+export const UPCOMING_EVENTS_DAYS = 365;
+
+/** Planet pairs closer than this in the sky count as a conjunction */
+export const CONJUNCTION_MAX_SEPARATION_DEG = 3;
+
+/** Sampling step for the planet-pair separation scan */
+const SEPARATION_STEP_MS = MS_PER_DAY;
+
+/** Golden-section refinement stops at this bracket width */
+const REFINE_TOLERANCE_MS = 60_000;
+
+const INNER_PLANETS: readonly PlanetName[] = ['Mercury', 'Venus'];
+
+/** Planets other than Earth, as seen from Earth */
+const SKY_PLANETS = PLANET_ORDER.filter((name) => name !== 'Earth');
+
+export interface EventSearchOptions {
+  /** Only these event types (default: all) */
+  types?: readonly AstronomicalEventType[];
+  /** Only events involving at least one of these planets (default: all) */
+  planets?: readonly string[];
+  /** Widest planet-pair separation reported as a conjunction, in degrees */
+  maxSeparationDeg?: number;
+}
+
+interface SearchWindow {
+  startMs: number;
+  endMs: number;
+}
+
+function inWindow(time: Astronomy.AstroTime, window: SearchWindow): boolean {
+  const ms = time.date.getTime();
+  return ms >= window.startMs && ms <= window.endMs;
+}
+
+function toBody(name: PlanetName): Astronomy.Body {
+  return name as Astronomy.Body;
+}
+
+function event(
+  type: AstronomicalEventType,
+  time: Astronomy.AstroTime | Date,
+  planets: string[],
+  description: string,
+  visibility?: AstronomicalEvent['visibility']
+): AstronomicalEvent {
+  const date = time instanceof Date ? time : time.date;
+  return { type, date: date.toISOString(), planets, description, ...(visibility ? { visibility } : {}) };
+}
+
+/**
+ * Conjunctions with the Sun and oppositions, from relative heliocentric longitude:
+ * 0° is inferior conjunction (inner planets) or opposition (outer planets),
+ * 180° is superior conjunction or conjunction with the Sun.
+ */
+function searchSunAlignments(
+  planet: PlanetName,
+  window: SearchWindow,
+  types: ReadonlySet<AstronomicalEventType>
+): AstronomicalEvent[] {
+  const inner = INNER_PLANETS.includes(planet);
+  const events: AstronomicalEvent[] = [];
+
+  for (const targetRelLon of [0, 180]) {
+    const type: AstronomicalEventType = !inner && targetRelLon === 0 ? 'opposition' : 'conjunction';
+    if (!types.has(type)) continue;
+
+    let cursor = new Date(window.startMs);
+    for (;;) {
+      const time = Astronomy.SearchRelativeLongitude(toBody(planet), targetRelLon, cursor);
+      if (time.date.getTime() > window.endMs) break;
+
+      if (inWindow(time, window)) {
+        if (type === 'opposition') {
+          events.push(
+            event('opposition', time, [planet], `${planet} at opposition`, {
+              bestLocation: 'Up all night, highest around midnight',
+            })
+          );
+        } else if (inner) {
+          const kind = targetRelLon === 0 ? 'inferior' : 'superior';
+          events.push(event('conjunction', time, [planet], `${planet} at ${kind} conjunction with the Sun`));
+        } else {
+          events.push(event('conjunction', time, [planet], `${planet} in conjunction with the Sun`));
+        }
+      }
+
+      cursor = new Date(time.date.getTime() + MS_PER_DAY);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Greatest eastern (evening) and western (morning) elongations of Mercury and Venus
+ */
+function searchElongations(planet: PlanetName, window: SearchWindow): AstronomicalEvent[] {
+  const events: AstronomicalEvent[] = [];
+
+  let cursor = new Date(window.startMs);
+  for (;;) {
+    const elongation = Astronomy.SearchMaxElongation(toBody(planet), cursor);
+    if (elongation.time.date.getTime() > window.endMs) break;
+
+    if (inWindow(elongation.time, window)) {
+      const evening = elongation.visibility === 'evening';
+      events.push(
+        event(
+          'elongation',
+          elongation.time,
+          [planet],
+          `${planet} at greatest ${evening ? 'eastern' : 'western'} elongation, ${elongation.elongation.toFixed(1)}° from the Sun`,
+          { bestLocation: evening ? 'Evening sky after sunset' : 'Morning sky before sunrise' }
+        )
+      );
+    }
+
+    cursor = new Date(elongation.time.date.getTime() + MS_PER_DAY);
+  }
+
+  return events;
+}
+
+/**
+ * Transits of Mercury or Venus across the Sun's disc, dated at mid-transit
+ */
+function searchTransits(planet: PlanetName, window: SearchWindow): AstronomicalEvent[] {
+  const events: AstronomicalEvent[] = [];
+
+  let transit = Astronomy.SearchTransit(toBody(planet), new Date(window.startMs));
+  while (transit.peak.date.getTime() <= window.endMs) {
+    if (inWindow(transit.peak, window)) {
+      const minutes = Math.round((transit.finish.date.getTime() - transit.start.date.getTime()) / MS_PER_MINUTE);
+      events.push(
+        event('transit', transit.peak, [planet], `Transit of ${planet} across the Sun`, {
+          bestLocation: 'Daytime side of Earth, through a solar filter',
+          duration: `${minutes} min`,
+        })
+      );
+    }
+    transit = Astronomy.NextTransit(toBody(planet), transit.peak);
+  }
+
+  return events;
+}
+
+/**
+ * Perihelion and aphelion passages
+ */
+function searchApsides(
+  planet: PlanetName,
+  window: SearchWindow,
+  types: ReadonlySet<AstronomicalEventType>
+): AstronomicalEvent[] {
+  const events: AstronomicalEvent[] = [];
+
+  let apsis = Astronomy.SearchPlanetApsis(toBody(planet), new Date(window.startMs));
+  while (apsis.time.date.getTime() <= window.endMs) {
+    const type: AstronomicalEventType =
+      apsis.kind === Astronomy.ApsisKind.Pericenter ? 'perihelion' : 'aphelion';
+    if (types.has(type)) {
+      events.push(
+        event(type, apsis.time, [planet], `${planet} at ${type}, ${apsis.dist_au.toFixed(3)} AU from the Sun`)
+      );
+    }
+    apsis = Astronomy.NextPlanetApsis(toBody(planet), apsis);
+  }
+
+  return events;
+}
+
+/**
+ * Earth's equinoxes and solstices
+ */
+function searchSeasons(
+  window: SearchWindow,
+  types: ReadonlySet<AstronomicalEventType>
+): AstronomicalEvent[] {
+  const events: AstronomicalEvent[] = [];
+  const firstYear = new Date(window.startMs).getUTCFullYear();
+  const lastYear = new Date(window.endMs).getUTCFullYear();
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    const seasons = Astronomy.Seasons(year);
+    const entries: [AstronomicalEventType, Astronomy.AstroTime, string][] = [
+      ['equinox', seasons.mar_equinox, 'March equinox'],
+      ['solstice', seasons.jun_solstice, 'June solstice'],
+      ['equinox', seasons.sep_equinox, 'September equinox'],
+      ['solstice', seasons.dec_solstice, 'December solstice'],
+    ];
+
+    for (const [type, time, description] of entries) {
+      if (types.has(type) && inWindow(time, window)) {
+        events.push(event(type, time, ['Earth'], description));
+      }
+    }
+  }
+
+  return events;
+}
+
+function geoDirection(planet: PlanetName, ms: number): Astronomy.Vector {
+  return Astronomy.GeoVector(toBody(planet), new Date(ms), true);
+}
+
+function separationDeg(a: PlanetName, b: PlanetName, ms: number): number {
+  return Astronomy.AngleBetween(geoDirection(a, ms), geoDirection(b, ms));
+}
+
+/**
+ * Golden-section search for the time of minimum separation within [lowMs, highMs]
+ */
+function refineMinimum(a: PlanetName, b: PlanetName, lowMs: number, highMs: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = lowMs;
+  let high = highMs;
+  let x1 = high - ratio * (high - low);
+  let x2 = low + ratio * (high - low);
+  let f1 = separationDeg(a, b, x1);
+  let f2 = separationDeg(a, b, x2);
+
+  while (high - low > REFINE_TOLERANCE_MS) {
+    if (f1 < f2) {
+      high = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = high - ratio * (high - low);
+      f1 = separationDeg(a, b, x1);
+    } else {
+      low = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = low + ratio * (high - low);
+      f2 = separationDeg(a, b, x2);
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Close approaches of planet pairs in Earth's sky, found by scanning daily
+ * separations for local minima and refining each one
+ */
+function searchPlanetConjunctions(
+  planets: readonly PlanetName[],
+  filter: ReadonlySet<string> | null,
+  window: SearchWindow,
+  maxSeparationDeg: number
+): AstronomicalEvent[] {
+  const pairs: [PlanetName, PlanetName][] = [];
+  for (let i = 0; i < planets.length; i++) {
+    for (let j = i + 1; j < planets.length; j++) {
+      if (!filter || filter.has(planets[i]) || filter.has(planets[j])) {
+        pairs.push([planets[i], planets[j]]);
+      }
+    }
+  }
+  if (pairs.length === 0) return [];
+
+  // One sample either side of the window so minima at the edges are bracketed
+  const times: number[] = [];
+  for (let ms = window.startMs - SEPARATION_STEP_MS; ms <= window.endMs + SEPARATION_STEP_MS; ms += SEPARATION_STEP_MS) {
+    times.push(ms);
+  }
+
+  const directions = new Map<PlanetName, Astronomy.Vector[]>();
+  for (const planet of new Set(pairs.flat())) {
+    directions.set(planet, times.map((ms) => geoDirection(planet, ms)));
+  }
+
+  const events: AstronomicalEvent[] = [];
+  for (const [a, b] of pairs) {
+    const da = directions.get(a)!;
+    const db = directions.get(b)!;
+    const separations = times.map((_, i) => Astronomy.AngleBetween(da[i], db[i]));
+
+    for (let i = 1; i < times.length - 1; i++) {
+      const isMinimum = separations[i] <= separations[i - 1] && separations[i] < separations[i + 1];
+      // Daily samples can miss the true minimum by a little; refine anything close
+      if (!isMinimum || separations[i] > maxSeparationDeg * 1.5) continue;
+
+      const ms = refineMinimum(a, b, times[i - 1], times[i + 1]);
+      const separation = separationDeg(a, b, ms);
+      if (separation > maxSeparationDeg || ms < window.startMs || ms > window.endMs) continue;
+
+      events.push(
+        event('conjunction', new Date(ms), [a, b], `${a} and ${b} in conjunction, ${separation.toFixed(1)}° apart`)
+      );
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Find astronomical events between two dates, sorted by date
+ */
+export function searchAstronomicalEvents(
+  startDate: Date,
+  endDate: Date,
+  options: EventSearchOptions = {}
+): AstronomicalEvent[] {
+  const startMs = startDate.getTime();
+  const endMs = endDate.getTime();
+
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) {
+    throw new ValidationError('Event search dates must be valid', {
+      field: 'dateRange',
+      value: { startDate, endDate },
+    });
+  }
+  if (endMs < startMs) {
+    throw new ValidationError('Event search end date must not be before the start date', {
+      field: 'endDate',
+      value: endDate,
+    });
+  }
+  if ((endMs - startMs) / MS_PER_DAY > EVENT_SEARCH_MAX_DAYS) {
+    throw new ValidationError(`Event search range must not exceed ${EVENT_SEARCH_MAX_DAYS} days`, {
+      field: 'dateRange',
+      value: { startDate, endDate },
+      context: { maxDays: EVENT_SEARCH_MAX_DAYS },
+    });
+  }
+
+  const window: SearchWindow = { startMs, endMs };
+  const types: ReadonlySet<AstronomicalEventType> = new Set(options.types ?? ASTRONOMICAL_EVENT_TYPES);
+  const filter = options.planets ? new Set(options.planets) : null;
+  const involves = (planet: string) => !filter || filter.has(planet);
+
+  const events: AstronomicalEvent[] = [];
+
+  for (const planet of SKY_PLANETS) {
+    if (!involves(planet)) continue;
+
+    if (types.has('conjunction') || types.has('opposition')) {
+      events.push(...searchSunAlignments(planet, window, types));
+    }
+    if (types.has('elongation') && INNER_PLANETS.includes(planet)) {
+      events.push(...searchElongations(planet, window));
+    }
+    if (types.has('transit') && INNER_PLANETS.includes(planet)) {
+      events.push(...searchTransits(planet, window));
+    }
+  }
+
+  if (types.has('perihelion') || types.has('aphelion')) {
+    for (const planet of PLANET_ORDER) {
+      if (involves(planet)) events.push(...searchApsides(planet, window, types));
+    }
+  }
+
+  if ((types.has('equinox') || types.has('solstice')) && involves('Earth')) {
+    events.push(...searchSeasons(window, types));
+  }
+
+  if (types.has('eclipse') && (involves('Earth') || involves('Moon'))) {
+    events.push(...searchEclipses(startDate, endDate).map(eclipseToEvent));
+  }
+
+  if (types.has('conjunction')) {
+    events.push(
+      ...searchPlanetConjunctions(
+        SKY_PLANETS,
+        filter,
+        window,
+        options.maxSeparationDeg ?? CONJUNCTION_MAX_SEPARATION_DEG
+      )
+    );
+  }
+
+  return events.sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+}
+
+/**
+ * Events in the year after `date`, for the HUD list
+ */
+export function searchUpcomingEvents(date: Date, options: EventSearchOptions = {}): AstronomicalEvent[] {
+  return searchAstronomicalEvents(date, new Date(date.getTime() + UPCOMING_EVENTS_DAYS * MS_PER_DAY), options);
+}
+
+/**
+ * Stable identity for an event, for list keys and deep links
+ */
+export function getEventKey(event: AstronomicalEvent): string {
+  return `${event.type}:${event.date}:${event.planets.join('+')}`;
+}
@@ -0,0 +1,109 @@
+/**
+ * iCalendar (RFC 5545) Writer
+ *
+ * Just enough of the format for a subscribable feed of instantaneous events:
+ * a VCALENDAR of VEVENTs with text escaping, UTC timestamps and line folding.
+ */
+
+/** One moment in a calendar feed */
+export interface CalendarEvent {
+  /** Globally unique and stable across refreshes, so calendar apps update rather than duplicate */
+  uid: string;
+  start: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  categories?: string[];
+}
+
+export interface CalendarOptions {
+  /** Product identifier, e.g. -//Orbit Command//Events//EN */
+  productId: string;
+  name?: string;
+  /** How often subscribers should refresh, in hours */
+  refreshHours?: number;
+  /** DTSTAMP of every event; defaults to now */
+  generatedAt?: Date;
+}
+
+// Content lines are folded at 75 octets, continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * UTC DATE-TIME, e.g. 20250101T123000Z
+ */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line at 75 octets without splitting a UTF-8 character
+ */
+export function foldIcsLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  // Continuation lines lose one octet to the leading space
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Write a calendar, CRLF line endings throughout
+ */
+export function formatICalendar(events: readonly CalendarEvent[], options: CalendarOptions): string {
+  const stamp = formatIcsDate(options.generatedAt ?? new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${options.productId}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  if (options.refreshHours) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshHours}H`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshHours}H`);
+  }
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${escapeIcsText(event.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDate(event.start)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
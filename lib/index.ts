@@ -9,21 +9,83 @@ export {
   useOrbitStore,
   type RenderQuality,
   type PlanetData,
-  PLANET_CONFIG,
-  PLANET_NAMES,
+  type CameraMode,
   getCacheStats,
   clearAstronomyCaches,
 } from './store';
 
+// Ephemeris computation and worker service
+export {
+  calculateAllPlanets,
+  runEphemerisQuery,
+  createEphemerisWorkerHandler,
+  type EphemerisQuery,
+  type EphemerisQueryKind,
+  type EphemerisResults,
+  type EphemerisWorkerMessage,
+  type EphemerisWorkerResponse,
+} from './ephemeris';
+export {
+  createEphemerisService,
+  getEphemerisService,
+  type EphemerisService,
+  type EphemerisMode,
+  type EphemerisWorkerLike,
+  type EphemerisRequestOptions,
+} from './ephemerisService';
+export { useEphemeris } from './useEphemeris';
+
 // Astronomy calculations with caching
 export {
   calculatePlanetPositionCached,
   calculateOrbitalVelocityCached,
+  calculateHelioDistanceCached,
+  calculateEarthDistanceCached,
+  calculateLightTimeCached,
   getCachedHelioVector,
+  getCachedHelioState,
+  getCachedMoonState,
+  getCachedSkyPosition,
+  getCachedSkyDay,
+  getCachedAppearance,
+  getCachedOsculatingElements,
+  calculateMoonOffsetCached,
   batchCalculatePositions,
   ASTRONOMICAL_CONSTANTS,
 } from './astronomy-cache';
 
+// Chebyshev ephemeris tables
+export {
+  evaluateChebyshevVector,
+  evaluateChebyshevState,
+  getChebyshevErrorBound,
+  getChebyshevSegmentDays,
+  getChebyshevSegmentCount,
+  clearChebyshevTables,
+  CHEBYSHEV_DEGREE,
+  CHEBYSHEV_WINDOW_SEGMENTS,
+  CHEBYSHEV_ERROR_BOUNDS,
+  type ChebyshevErrorBound,
+} from './chebyshev';
+
+// Orbit path sampling
+export {
+  computeOrbitPath,
+  getOrbitEpochMs,
+  getOrbitStepCount,
+  getOrbitalPeriodDays,
+  computeMoonOrbitPath,
+  getMoonOrbitEpochMs,
+  computeOrbitMarkers,
+  getOrbitMarkerEpochMs,
+  ORBIT_MIN_STEPS,
+  ORBIT_MAX_STEPS,
+  ORBIT_REFRESH_MIN_DAYS,
+  MOON_ORBIT_REFRESH_MIN_DAYS,
+  type OrbitMarker,
+  type OrbitMarkerKind,
+} from './orbitPaths';
+
 // Error handling
 export {
   OrbitError,
@@ -82,16 +144,286 @@ export {
   safeParseFloat,
   isDefined,
   assertDefined,
+  validateObserverLocation,
   VALID_BODIES,
+  MAX_TIME_SPEED,
+  MIN_OBSERVER_ELEVATION,
+  MAX_OBSERVER_ELEVATION,
 } from './validation';
 
+// Time speed scale
+export {
+  sliderValueToTimeSpeed,
+  timeSpeedToSliderValue,
+  formatTimeSpeed,
+  describeTimeSpeed,
+  TIME_SPEED_PRESETS,
+  TIME_SPEED_SLIDER_STEPS,
+  MIN_TIME_SPEED_MAGNITUDE,
+} from './timeSpeed';
+
+// Body catalog
+export {
+  BODY_CATALOG,
+  BODY_NAMES,
+  BODY_CATEGORIES,
+  BODY_CATEGORY_LABELS,
+  isBodyName,
+  isHeliocentricBody,
+  getBodyConfig,
+  getBodiesByCategory,
+  getOrbitalElements,
+  computeHelioVector,
+  computeHelioState,
+  getHelioPeriodDays,
+  type BodyName,
+  type BodyCategory,
+  type BodyConfig,
+  type BodyNameOfCategory,
+  type HeliocentricBodyName,
+  type HeliocentricBodyConfig,
+  type MoonBodyConfig,
+} from './bodies';
+
+// Two-body orbit propagation
+export {
+  propagateElements,
+  solveKepler,
+  getEccentricAnomaly,
+  getElementsPeriodDays,
+  dateToJulianDay,
+  julianDayToDate,
+  eclipticToEquatorial,
+  stateToElements,
+  positionAtTrueAnomaly,
+  propagatePerihelionElements,
+  solveHyperbolicKepler,
+  positionAtTrueAnomalyFromPerihelion,
+  SUN_GM_AU3_PER_DAY2,
+  type OrbitalElements,
+  type OsculatingElements,
+  type PerihelionElements,
+} from './kepler';
+
+// Asteroids and comets from MPC element files
+export {
+  parseMpcorbLine,
+  parseCometElsLine,
+  parsePackedDate,
+  detectSmallBodyFormat,
+  parseSmallBodyFile,
+  mergeSmallBodies,
+  computeSmallBodyState,
+  computeSmallBodyPositions,
+  computeSmallBodyOrbitPath,
+  describeSmallBody,
+  isClosedOrbit,
+  BRIGHT_ASTEROIDS,
+  MAX_SMALL_BODIES,
+  OPEN_ORBIT_MAX_AU,
+  type SmallBody,
+  type AsteroidBody,
+  type CometBody,
+  type SmallBodyKind,
+  type SmallBodyFormat,
+  type SmallBodySource,
+  type SmallBodyDetails,
+  type SmallBodyParseError,
+  type SmallBodyParseResult,
+} from './smallBodies';
+
+// Comet comae and tails
+export {
+  getCometActivity,
+  getTailAxes,
+  createParticleTemplate,
+  layoutParticles,
+  shadeParticles,
+  COMET_PARTICLE_COUNTS,
+  TAIL_MAX_AU,
+  type CometActivity,
+  type CometTailAxes,
+  type CometParticleLayer,
+  type CometParticleTemplate,
+} from './cometTails';
+
+// Spacecraft trajectories from vector tables
+export {
+  parseHorizonsVectors,
+  parseTrajectoryCsv,
+  parseTrajectoryFile,
+  detectTrajectoryFormat,
+  mergeSpacecraft,
+  interpolateTrajectory,
+  getTrajectoryRange,
+  getSpacecraftScenePosition,
+  computeTrajectoryPath,
+  countPathPointsBefore,
+  describeSpacecraft,
+  BUNDLED_SPACECRAFT,
+  MAX_SPACECRAFT,
+  MAX_TRAJECTORY_SAMPLES,
+  type Spacecraft,
+  type SpacecraftMission,
+  type SpacecraftSource,
+  type SpacecraftTrajectory,
+  type SpacecraftDetails,
+  type ParsedTrajectory,
+  type TrajectoryFormat,
+  type TrajectoryPath,
+} from './spacecraft';
+
+// Interplanetary transfers and porkchop plots
+export {
+  solveLambert,
+  propagateUniversal,
+  estimateHohmannTransfer,
+  getDefaultTransferWindow,
+  computeTransfer,
+  computePorkchop,
+  getPorkchopTransfer,
+  getTransferPosition,
+  computeTransferArc,
+  DEFAULT_PORKCHOP_STEPS,
+  MAX_PORKCHOP_STEPS,
+  PARKING_ORBIT_ALTITUDE_KM,
+  type LambertSolution,
+  type HohmannEstimate,
+  type TransferWindow,
+  type PorkchopCell,
+  type PorkchopGrid,
+  type TransferSolution,
+} from './transfers';
+
+// Reference frames
+export {
+  isReferenceFrame,
+  getReferenceFrameLabel,
+  getFrameOrigin,
+  getRelativePathEpochMs,
+  getRelativePathStepCount,
+  computeRelativeOrbitPath,
+  DEFAULT_REFERENCE_FRAME,
+  RELATIVE_PATH_SPAN_DAYS,
+  RELATIVE_PATH_REFRESH_DAYS,
+  RELATIVE_PATH_MAX_STEPS,
+  type ReferenceFrame,
+} from './referenceFrames';
+
+// Motion trails
+export {
+  createTrail,
+  resetTrail,
+  pushTrailSample,
+  fadeTrail,
+  formatTrailLength,
+  getNextTrailLength,
+  TRAIL_CAPACITY,
+  DEFAULT_TRAIL_LENGTH_DAYS,
+  TRAIL_LENGTH_OPTIONS_DAYS,
+  MIN_TRAIL_LENGTH_DAYS,
+  MAX_TRAIL_LENGTH_DAYS,
+  type Trail,
+} from './trails';
+
+// Scale modes
+export {
+  isScaleMode,
+  getScaleModeLabel,
+  getScaleModeDescription,
+  scaleDistance,
+  scalePosition,
+  getBodyRadius,
+  getSunRadius,
+  getBodySizeRatio,
+  getMoonOffsetScale,
+  getCameraLimits,
+  getOverviewPosition,
+  getLabelDistanceFactor,
+  createSceneScale,
+  SCALE_MODES,
+  DEFAULT_SCALE_MODE,
+  SCALE_TRANSITION_MS,
+  SUN_BASE_RADIUS,
+  type ScaleMode,
+  type ScaleTransition,
+  type SceneScale,
+  type CameraLimits,
+} from './scaleModes';
+
+// Osculating orbital elements
+export {
+  computeOsculatingElements,
+  getCentralGm,
+  getApsisNames,
+  formatPeriod,
+  formatOrbitDistance,
+} from './orbitalElements';
+
 // Planet utilities
 export {
   PLANET_ORDER,
+  DWARF_PLANET_ORDER,
+  BODY_NAVIGATION_ORDER,
   isPlanetName,
+  isSelectableBody,
   type PlanetName,
 } from './planets';
 
+// Moons
+export {
+  MOON_CONFIG,
+  MOON_NAMES,
+  isMoonName,
+  getMoonsOf,
+  getParentBody,
+  getSystemName,
+  computeMoonStates,
+  computeMoonState,
+  type MoonName,
+} from './moons';
+
+// Observer and sky positions
+export {
+  OBSERVER_CITIES,
+  DEFAULT_OBSERVER,
+  CUSTOM_LOCATION_NAME,
+  SKY_VIEW_EYE_HEIGHT,
+  toAstronomyObserver,
+  getObserverKey,
+  getObserverTimeZone,
+  isValidTimeZone,
+  computeGeocentricVector,
+  computeSkyPosition,
+  computeHorizonFrame,
+  formatRightAscension,
+  formatDeclination,
+  formatLatLon,
+  formatCoordinates,
+  getCompassPoint,
+  describeSkyPosition,
+  type ObserverLocation,
+  type SkyPosition,
+  type HorizonFrame,
+} from './observer';
+
+// Rise, transit, set and twilight
+export {
+  computeSkyDay,
+  getLocalDayStart,
+  getTimeZoneOffsetMs,
+  formatLocalTime,
+  formatTimeZoneLabel,
+  describeRiseSet,
+  describeTwilight,
+  TWILIGHT_ALTITUDES,
+  type RiseSetStatus,
+  type RiseSetTimes,
+  type TwilightKind,
+  type TwilightWindow,
+  type SkyDay,
+} from './riseSet';
+
 // Performance hooks
 export {
   useRenderPerformance,
@@ -103,7 +435,7 @@ export {
   getPerformanceReport,
 } from './usePerformance';
 
-// API design (for future use)
+// API design and route handler logic
 export {
   type CalculatePositionsRequest,
   type CalculatePositionsResponse,
@@ -111,8 +443,12 @@ export {
   type EphemerisRequest,
   type EphemerisResponse,
   type AstronomicalEvent,
+  type AstronomicalEventType,
   type EventsRequest,
   type EventsResponse,
+  type BatchPositionsRequest,
+  type BatchPositionsResult,
+  type BatchPositionsResponse,
   type APIError,
   API_ERROR_CODES,
   RATE_LIMITS,
@@ -121,8 +457,113 @@ export {
   isFeatureEnabled,
   generatePositionCacheKey,
   generateEphemerisCacheKey,
+  generateEventsCacheKey,
   OrbitAPIClient,
+  ASTRONOMICAL_EVENT_TYPES,
 } from './api-design';
+export {
+  parsePositionsQuery,
+  parseDateParam,
+  parseBodiesParam,
+  parseBooleanParam,
+  parseBatchPositionsRequest,
+  calculatePositions,
+  calculateBatchPositions,
+  clearPositionsCache,
+  toAPIError,
+  featureDisabledError,
+  parseEphemerisQuery,
+  getEphemerisPointCount,
+  calculateEphemeris,
+  clearEphemerisCache,
+  resolveEphemerisFormat,
+  formatEphemerisCsv,
+  createEphemerisNdjsonStream,
+  parseEventsQuery,
+  parseEventsIcsQuery,
+  searchEvents,
+  clearEventsCache,
+  buildEventDeepLink,
+  formatEventsIcs,
+  API_VERSION,
+  MAX_BATCH_DATES,
+  MAX_EPHEMERIS_POINTS,
+  MAX_EPHEMERIS_RANGE_DAYS,
+  EPHEMERIS_FORMATS,
+  EPHEMERIS_CONTENT_TYPES,
+  type PositionsQuery,
+  type BatchPositionsQuery,
+  type EphemerisRangeQuery,
+  type EphemerisFormat,
+  type EventsQuery,
+  type APIErrorResponse,
+} from './astronomyApi';
+export {
+  formatICalendar,
+  escapeIcsText,
+  formatIcsDate,
+  foldIcsLine,
+  type CalendarEvent,
+  type CalendarOptions,
+} from './icalendar';
+export {
+  createRateLimiter,
+  createMemoryRateLimitStore,
+  createKVRateLimitStore,
+  getRateLimitRule,
+  getRateLimitedEndpoint,
+  getRateLimitClientKey,
+  CLOUDFLARE_IP_HEADER,
+  getRateLimitHeaders,
+  parseApiKeys,
+  rateLimitedError,
+  type RateLimiter,
+  type RateLimitStore,
+  type RateLimitRule,
+  type RateLimitResult,
+  type RateLimitedEndpoint,
+  type KVNamespaceLike,
+} from './rateLimit';
+
+// Astronomical events
+export {
+  searchAstronomicalEvents,
+  searchUpcomingEvents,
+  getEventKey,
+  EVENT_SEARCH_MAX_DAYS,
+  UPCOMING_EVENTS_DAYS,
+  CONJUNCTION_MAX_SEPARATION_DEG,
+  type EventSearchOptions,
+} from './events';
+
+// Appearance from Earth
+export {
+  computeAppearance,
+  magnitudeFromAbsolute,
+  formatMagnitude,
+  formatAngularSize,
+  formatLightTime,
+  describePhase,
+  describeAppearance,
+  type BodyAppearance,
+} from './appearance';
+
+// Eclipses
+export {
+  searchEclipses,
+  eclipseToEvent,
+  describeEclipseKind,
+  computeEclipseShadows,
+  describeEclipseInProgress,
+  SUN_RADIUS_KM,
+  EARTH_RADIUS_KM,
+  MOON_RADIUS_KM,
+  type EclipseKind,
+  type EclipseBody,
+  type EclipseInfo,
+  type ShadowCone,
+  type EclipseShadows,
+} from './eclipses';
 
 // Missions
 export {
@@ -0,0 +1,368 @@
+/**
+ * Two-Body Orbit Propagation
+ *
+ * Positions bodies that astronomy-engine does not model from classical
+ * heliocentric orbital elements. Elements are referred to the J2000 ecliptic
+ * and results are rotated into J2000 equatorial coordinates, the same frame
+ * as Astronomy.HelioVector, so both sources can be mixed freely.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+
+/** Sun's gravitational parameter in AU^3/day^2 (Gaussian constant squared) */
+export const SUN_GM_AU3_PER_DAY2 = 2.959122082855911e-4;
+
+const DEG_TO_RAD = Math.PI / 180;
+const MS_PER_DAY = 86_400_000;
+const UNIX_EPOCH_JD = 2440587.5;
+
+/** Mean obliquity of the ecliptic at J2000 */
+const OBLIQUITY_J2000_RAD = 23.4392911 * DEG_TO_RAD;
+
+const KEPLER_MAX_ITERATIONS = 30;
+const KEPLER_TOLERANCE = 1e-12;
+
+/**
+ * Classical orbital elements of a heliocentric elliptical orbit.
+ * Angles are in degrees, referred to the J2000 ecliptic and equinox.
+ */
+export interface OrbitalElements {
+  /** Julian date the mean anomaly is given for */
+  readonly epochJd: number;
+  /** Semi-major axis in AU */
+  readonly a: number;
+  /** Eccentricity (0 <= e < 1) */
+  readonly e: number;
+  /** Inclination */
+  readonly i: number;
+  /** Longitude of the ascending node */
+  readonly node: number;
+  /** Argument of perihelion */
+  readonly argPeri: number;
+  /** Mean anomaly at the epoch */
+  readonly meanAnomaly: number;
+}
+
+/**
+ * Julian date of a JavaScript date. The TT-UTC offset (about a minute) is
+ * ignored; it is far below the accuracy of published mean elements.
+ */
+export function dateToJulianDay(date: Date): number {
+  return date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+/**
+ * JavaScript date of a Julian date, the inverse of dateToJulianDay
+ */
+export function julianDayToDate(jd: number): Date {
+  return new Date((jd - UNIX_EPOCH_JD) * MS_PER_DAY);
+}
+
+/**
+ * Orbital period in days implied by the semi-major axis
+ */
+export function getElementsPeriodDays(elements: OrbitalElements): number {
+  return 2 * Math.PI * Math.sqrt(elements.a ** 3 / SUN_GM_AU3_PER_DAY2);
+}
+
+/**
+ * Solve Kepler's equation M = E - e sin E for the eccentric anomaly (radians)
+ */
+export function solveKepler(meanAnomaly: number, e: number): number {
+  const M = Math.atan2(Math.sin(meanAnomaly), Math.cos(meanAnomaly));
+  let E = e < 0.8 ? M : Math.PI * Math.sign(M || 1);
+
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    const delta = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < KEPLER_TOLERANCE) break;
+  }
+
+  return E;
+}
+
+/**
+ * Eccentric anomaly (radians) of an orbit at a date
+ */
+export function getEccentricAnomaly(elements: OrbitalElements, date: Date): number {
+  const n = (2 * Math.PI) / getElementsPeriodDays(elements);
+  const M = elements.meanAnomaly * DEG_TO_RAD + n * (dateToJulianDay(date) - elements.epochJd);
+  return solveKepler(M, elements.e);
+}
+
+/**
+ * Rotation from the orbital plane (periapsis along +x) to J2000 equatorial
+ */
+function orbitalPlaneToEquatorial(
+  elements: Pick<OrbitalElements, 'i' | 'node' | 'argPeri'>
+): (px: number, py: number) => [number, number, number] {
+  // Orbital plane -> ecliptic (rotate by argPeri, inclination, node)
+  const cosO = Math.cos(elements.node * DEG_TO_RAD);
+  const sinO = Math.sin(elements.node * DEG_TO_RAD);
+  const cosW = Math.cos(elements.argPeri * DEG_TO_RAD);
+  const sinW = Math.sin(elements.argPeri * DEG_TO_RAD);
+  const cosI = Math.cos(elements.i * DEG_TO_RAD);
+  const sinI = Math.sin(elements.i * DEG_TO_RAD);
+
+  const xx = cosO * cosW - sinO * sinW * cosI;
+  const xy = -cosO * sinW - sinO * cosW * cosI;
+  const yx = sinO * cosW + cosO * sinW * cosI;
+  const yy = -sinO * sinW + cosO * cosW * cosI;
+  const zx = sinW * sinI;
+  const zy = cosW * sinI;
+
+  // Ecliptic -> equatorial (rotate about x by the obliquity)
+  const cosEps = Math.cos(OBLIQUITY_J2000_RAD);
+  const sinEps = Math.sin(OBLIQUITY_J2000_RAD);
+
+  return (px, py) => {
+    const x = xx * px + xy * py;
+    const y = yx * px + yy * py;
+    const z = zx * px + zy * py;
+    return [x, y * cosEps - z * sinEps, y * sinEps + z * cosEps];
+  };
+}
+
+/**
+ * Rotate a J2000 ecliptic vector into J2000 equatorial coordinates
+ */
+export function eclipticToEquatorial(x: number, y: number, z: number): [number, number, number] {
+  const cosEps = Math.cos(OBLIQUITY_J2000_RAD);
+  const sinEps = Math.sin(OBLIQUITY_J2000_RAD);
+  return [x, y * cosEps - z * sinEps, y * sinEps + z * cosEps];
+}
+
+/**
+ * Heliocentric position (AU) and velocity (AU/day) at a date, J2000 equatorial
+ */
+export function propagateElements(elements: OrbitalElements, date: Date): Astronomy.StateVector {
+  const { a, e } = elements;
+  const n = (2 * Math.PI) / getElementsPeriodDays(elements);
+  const E = getEccentricAnomaly(elements, date);
+
+  // Position and velocity in the orbital plane, perihelion along +x
+  const cosE = Math.cos(E);
+  const sinE = Math.sin(E);
+  const b = a * Math.sqrt(1 - e * e);
+  const rate = n / (1 - e * cosE);
+  const px = a * (cosE - e);
+  const py = b * sinE;
+  const pvx = -a * sinE * rate;
+  const pvy = b * cosE * rate;
+
+  const toEquatorial = orbitalPlaneToEquatorial(elements);
+  const [x, y, z] = toEquatorial(px, py);
+  const [vx, vy, vz] = toEquatorial(pvx, pvy);
+
+  return new Astronomy.StateVector(x, y, z, vx, vy, vz, new Astronomy.AstroTime(date));
+}
+
+/**
+ * Osculating elements: the two-body orbit that matches a state vector at its
+ * instant. Angles are in degrees, referred to the J2000 ecliptic and equinox.
+ */
+export interface OsculatingElements extends OrbitalElements {
+  /** Orbital period in days; Infinity for unbound orbits */
+  readonly periodDays: number;
+  /** Closest distance to the central body, AU */
+  readonly periapsis: number;
+  /** Farthest distance from the central body, AU; Infinity for unbound orbits */
+  readonly apoapsis: number;
+}
+
+/** Below this, the node or periapsis direction is undefined and set by convention */
+const ELEMENT_EPSILON = 1e-10;
+
+function wrapDegrees(radians: number): number {
+  const degrees = radians / DEG_TO_RAD;
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Osculating elements of a J2000 equatorial state vector (AU, AU/day) around a
+ * central body with gravitational parameter `mu` (AU^3/day^2). Equatorial orbits
+ * put the node at 0°; circular orbits put periapsis at the node.
+ */
+export function stateToElements(
+  state: Astronomy.StateVector,
+  mu: number = SUN_GM_AU3_PER_DAY2
+): OsculatingElements {
+  // Equatorial -> ecliptic (rotate about x by minus the obliquity)
+  const cosEps = Math.cos(OBLIQUITY_J2000_RAD);
+  const sinEps = Math.sin(OBLIQUITY_J2000_RAD);
+  const r = [state.x, state.y * cosEps + state.z * sinEps, -state.y * sinEps + state.z * cosEps];
+  const v = [state.vx, state.vy * cosEps + state.vz * sinEps, -state.vy * sinEps + state.vz * cosEps];
+
+  const rMag = Math.hypot(r[0], r[1], r[2]);
+  const v2 = v[0] ** 2 + v[1] ** 2 + v[2] ** 2;
+  const rv = r[0] * v[0] + r[1] * v[1] + r[2] * v[2];
+
+  // Angular momentum, node vector (k x h) and eccentricity vector
+  const h = [r[1] * v[2] - r[2] * v[1], r[2] * v[0] - r[0] * v[2], r[0] * v[1] - r[1] * v[0]];
+  const hMag = Math.hypot(h[0], h[1], h[2]);
+  const nodeVec = [-h[1], h[0]];
+  const nodeMag = Math.hypot(nodeVec[0], nodeVec[1]);
+  const eVec = r.map((ri, k) => ((v2 - mu / rMag) * ri - rv * v[k]) / mu);
+  const e = Math.hypot(eVec[0], eVec[1], eVec[2]);
+
+  const a = 1 / (2 / rMag - v2 / mu);
+  const i = Math.acos(Math.min(1, Math.max(-1, h[2] / hMag)));
+  const node = nodeMag > ELEMENT_EPSILON * hMag ? Math.atan2(nodeVec[1], nodeVec[0]) : 0;
+
+  // In-plane unit vectors: p toward the node, q 90° ahead in the direction of motion
+  const p = [Math.cos(node), Math.sin(node), 0];
+  const hUnit = h.map((hk) => hk / hMag);
+  const q = [
+    hUnit[1] * p[2] - hUnit[2] * p[1],
+    hUnit[2] * p[0] - hUnit[0] * p[2],
+    hUnit[0] * p[1] - hUnit[1] * p[0],
+  ];
+  const inPlaneAngle = (vec: number[]) =>
+    Math.atan2(vec[0] * q[0] + vec[1] * q[1] + vec[2] * q[2], vec[0] * p[0] + vec[1] * p[1] + vec[2] * p[2]);
+
+  const argPeri = e > ELEMENT_EPSILON ? inPlaneAngle(eVec) : 0;
+  const trueAnomaly = inPlaneAngle(r) - argPeri;
+
+  let meanAnomaly: number;
+  if (e < 1) {
+    const E = 2 * Math.atan(Math.sqrt((1 - e) / (1 + e)) * Math.tan(trueAnomaly / 2));
+    meanAnomaly = E - e * Math.sin(E);
+  } else {
+    const H = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * Math.tan(trueAnomaly / 2));
+    meanAnomaly = e * Math.sinh(H) - H;
+  }
+
+  const bound = e < 1 && a > 0;
+
+  return {
+    epochJd: dateToJulianDay(state.t.date),
+    a,
+    e,
+    i: i / DEG_TO_RAD,
+    node: wrapDegrees(node),
+    argPeri: wrapDegrees(argPeri),
+    meanAnomaly: bound ? wrapDegrees(meanAnomaly) : meanAnomaly / DEG_TO_RAD,
+    periodDays: bound ? 2 * Math.PI * Math.sqrt(a ** 3 / mu) : Infinity,
+    periapsis: (hMag * hMag) / mu / (1 + e),
+    apoapsis: bound ? a * (1 + e) : Infinity,
+  };
+}
+
+/**
+ * Position on an orbit at a true anomaly (degrees), J2000 equatorial, in the
+ * units of `a`. Used to place periapsis, apoapsis and node markers.
+ */
+export function positionAtTrueAnomaly(
+  elements: Pick<OrbitalElements, 'a' | 'e' | 'i' | 'node' | 'argPeri'>,
+  trueAnomalyDeg: number
+): [number, number, number] {
+  const nu = trueAnomalyDeg * DEG_TO_RAD;
+  const radius = (elements.a * (1 - elements.e ** 2)) / (1 + elements.e * Math.cos(nu));
+  return orbitalPlaneToEquatorial(elements)(radius * Math.cos(nu), radius * Math.sin(nu));
+}
+
+/** Eccentricities this close to 1 are propagated as parabolas */
+const PARABOLIC_TOLERANCE = 1e-6;
+
+/**
+ * Orbital elements in perihelion form, as published for comets. Covers
+ * elliptical, parabolic and hyperbolic orbits. Angles are in degrees,
+ * referred to the J2000 ecliptic and equinox.
+ */
+export interface PerihelionElements {
+  /** Julian date of perihelion passage */
+  readonly perihelionJd: number;
+  /** Perihelion distance in AU */
+  readonly q: number;
+  /** Eccentricity (any value >= 0) */
+  readonly e: number;
+  /** Inclination */
+  readonly i: number;
+  /** Longitude of the ascending node */
+  readonly node: number;
+  /** Argument of perihelion */
+  readonly argPeri: number;
+}
+
+/**
+ * Solve the hyperbolic Kepler equation M = e sinh H - H for H
+ */
+export function solveHyperbolicKepler(meanAnomaly: number, e: number): number {
+  let H = Math.asinh(meanAnomaly / e);
+
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    const delta = (e * Math.sinh(H) - H - meanAnomaly) / (e * Math.cosh(H) - 1);
+    H -= delta;
+    if (Math.abs(delta) < KEPLER_TOLERANCE) break;
+  }
+
+  return H;
+}
+
+/**
+ * Heliocentric position (AU) and velocity (AU/day) at a date from
+ * perihelion-form elements, J2000 equatorial
+ */
+export function propagatePerihelionElements(
+  elements: PerihelionElements,
+  date: Date
+): Astronomy.StateVector {
+  const { q, e } = elements;
+  const dt = dateToJulianDay(date) - elements.perihelionJd;
+
+  if (e < 1 - PARABOLIC_TOLERANCE) {
+    const a = q / (1 - e);
+    return propagateElements(
+      { epochJd: elements.perihelionJd, a, e, i: elements.i, node: elements.node, argPeri: elements.argPeri, meanAnomaly: 0 },
+      date
+    );
+  }
+
+  // Position and velocity in the orbital plane, perihelion along +x
+  let px: number;
+  let py: number;
+  let pvx: number;
+  let pvy: number;
+
+  if (e <= 1 + PARABOLIC_TOLERANCE) {
+    // Barker's equation: s^3 + 3s = W with s = tan(nu / 2)
+    const W = 3 * Math.sqrt(SUN_GM_AU3_PER_DAY2 / (2 * q ** 3)) * dt;
+    const Y = Math.cbrt(W / 2 + Math.sqrt((W * W) / 4 + 1));
+    const s = Y - 1 / Y;
+    const speed = Math.sqrt(SUN_GM_AU3_PER_DAY2 / (2 * q));
+    px = q * (1 - s * s);
+    py = 2 * q * s;
+    pvx = (-speed * 2 * s) / (1 + s * s);
+    pvy = speed * (1 + (1 - s * s) / (1 + s * s));
+  } else {
+    const a = q / (e - 1);
+    const n = Math.sqrt(SUN_GM_AU3_PER_DAY2 / a ** 3);
+    const H = solveHyperbolicKepler(n * dt, e);
+    const b = a * Math.sqrt(e * e - 1);
+    const rate = n / (e * Math.cosh(H) - 1);
+    px = a * (e - Math.cosh(H));
+    py = b * Math.sinh(H);
+    pvx = -a * Math.sinh(H) * rate;
+    pvy = b * Math.cosh(H) * rate;
+  }
+
+  const toEquatorial = orbitalPlaneToEquatorial(elements);
+  const [x, y, z] = toEquatorial(px, py);
+  const [vx, vy, vz] = toEquatorial(pvx, pvy);
+
+  return new Astronomy.StateVector(x, y, z, vx, vy, vz, new Astronomy.AstroTime(date));
+}
+
+/**
+ * Position on an orbit given by its perihelion distance at a true anomaly
+ * (degrees), J2000 equatorial AU. Unlike positionAtTrueAnomaly this works for
+ * parabolic orbits too.
+ */
+export function positionAtTrueAnomalyFromPerihelion(
+  elements: Pick<PerihelionElements, 'q' | 'e' | 'i' | 'node' | 'argPeri'>,
+  trueAnomalyDeg: number
+): [number, number, number] {
+  const nu = trueAnomalyDeg * DEG_TO_RAD;
+  const radius = (elements.q * (1 + elements.e)) / (1 + elements.e * Math.cos(nu));
+  return orbitalPlaneToEquatorial(elements)(radius * Math.cos(nu), radius * Math.sin(nu));
+}
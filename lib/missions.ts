@@ -61,7 +61,10 @@ export function generateOrbitMission({
     },
   ];
 
-  const planetList = planets ? Array.from(planets.values()) : [];
+  // Missions are about planets - leave moons and dwarf planets out of the candidate list
+  const planetList = planets
+    ? Array.from(planets.values()).filter((p) => p.category === 'planet')
+    : [];
   const dynamic: OrbitMission[] = [];
 
   if (planetList.length >= 4) {
@@ -0,0 +1,88 @@
+/**
+ * Moons
+ *
+ * Natural satellites from the body catalog, plus raw parent-relative state
+ * vectors from astronomy-engine. Moon offsets are exaggerated by a per-moon
+ * orbitScale so they clear the parent's (already exaggerated) sphere.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { BODY_CATALOG, getBodiesByCategory, type BodyNameOfCategory } from './bodies';
+import type { PlanetName } from './planets';
+
+export type MoonName = BodyNameOfCategory<'moon'>;
+
+// Pre-computed moon names array, grouped by parent in orbital order
+const MOON_NAMES = getBodiesByCategory('moon');
+
+// Moon entries of the body catalog, keyed by name
+const MOON_CONFIG = Object.freeze(
+  Object.fromEntries(MOON_NAMES.map((moon) => [moon, BODY_CATALOG[moon]]))
+) as { readonly [K in MoonName]: (typeof BODY_CATALOG)[K] };
+
+const moonSet: ReadonlySet<string> = new Set(MOON_NAMES);
+
+export function isMoonName(value: string): value is MoonName {
+  return moonSet.has(value);
+}
+
+/**
+ * Moons orbiting a body, innermost first
+ */
+export function getMoonsOf(parent: string): MoonName[] {
+  return MOON_NAMES.filter((moon) => MOON_CONFIG[moon].parent === parent);
+}
+
+/**
+ * Parent of a moon, or null for bodies that orbit the Sun
+ */
+export function getParentBody(name: string): PlanetName | null {
+  return isMoonName(name) ? MOON_CONFIG[name].parent : null;
+}
+
+/**
+ * Name of the planetary system a body belongs to (the planet itself for planets)
+ */
+export function getSystemName(name: string): string {
+  return getParentBody(name) ?? name;
+}
+
+/**
+ * Parent-relative positions and velocities for every moon of a planet.
+ * Positions are in AU, velocities in AU/day, J2000 equatorial - the same
+ * frame as HelioVector. The Moon uses GeoMoonState, which is the geometric
+ * GeoVector(Moon) position plus its velocity.
+ */
+export function computeMoonStates(
+  parent: PlanetName,
+  date: Date
+): Partial<Record<MoonName, Astronomy.StateVector>> {
+  if (parent === 'Earth') {
+    return { Moon: Astronomy.GeoMoonState(date) };
+  }
+
+  if (parent === 'Jupiter') {
+    const jovian = Astronomy.JupiterMoons(date);
+    return {
+      Io: jovian.io,
+      Europa: jovian.europa,
+      Ganymede: jovian.ganymede,
+      Callisto: jovian.callisto,
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Parent-relative state vector of a single moon
+ */
+export function computeMoonState(moon: MoonName, date: Date): Astronomy.StateVector {
+  const state = computeMoonStates(MOON_CONFIG[moon].parent, date)[moon];
+  if (!state) {
+    throw new Error(`No ephemeris available for ${moon}`);
+  }
+  return state;
+}
+
+export { MOON_CONFIG, MOON_NAMES };
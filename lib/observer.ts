@@ -0,0 +1,313 @@
+/**
+ * Observer Location and Topocentric Sky Positions
+ *
+ * Where each body sits in a ground observer's sky: altitude/azimuth, J2000
+ * right ascension/declination and the constellation it is in. Includes an
+ * offline city list so the location picker works without a geocoder.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import {
+  computeHelioVector,
+  getOrbitalElements,
+  isHeliocentricBody,
+  type BodyName,
+} from './bodies';
+import { computeMoonState, getParentBody, isMoonName } from './moons';
+
+const MS_PER_DAY = 86_400_000;
+
+export interface ObserverLocation {
+  /** City name, or 'Custom' for typed coordinates */
+  name: string;
+  /** Geodetic latitude in degrees, north positive */
+  latitude: number;
+  /** Longitude in degrees, east positive */
+  longitude: number;
+  /** Height above sea level in meters */
+  elevation: number;
+  /** IANA time zone for local times; custom locations fall back to a zone from the longitude */
+  timeZone?: string;
+}
+
+export interface SkyPosition {
+  /** Right ascension in sidereal hours (J2000) */
+  ra: number;
+  /** Declination in degrees (J2000) */
+  dec: number;
+  /** Altitude above the horizon in degrees, corrected for refraction */
+  altitude: number;
+  /** Azimuth in degrees clockwise from north */
+  azimuth: number;
+  /** Topocentric distance in AU */
+  distanceAu: number;
+  /** IAU constellation abbreviation, e.g. "Sgr" */
+  constellation: string;
+  /** Full constellation name, e.g. "Sagittarius" */
+  constellationName: string;
+}
+
+/** Unit vectors of the local horizon in 3D scene coordinates (Y-up) */
+export interface HorizonFrame {
+  zenith: [number, number, number];
+  north: [number, number, number];
+  east: [number, number, number];
+}
+
+export const CUSTOM_LOCATION_NAME = 'Custom';
+
+/**
+ * Sky view eye height in scene units above Earth's center, just above the
+ * linear mode's sphere; other scale modes resize it with the sphere
+ */
+export const SKY_VIEW_EYE_HEIGHT = 0.55;
+
+// Offline city list - frozen for immutability. Includes a few observatory and
+// high-latitude sites, which make circumpolar skies easy to explore.
+export const OBSERVER_CITIES: readonly ObserverLocation[] = Object.freeze([
+  { name: 'London (Greenwich)', latitude: 51.4769, longitude: -0.0005, elevation: 46, timeZone: 'Europe/London' },
+  { name: 'Paris', latitude: 48.8566, longitude: 2.3522, elevation: 35, timeZone: 'Europe/Paris' },
+  { name: 'Berlin', latitude: 52.52, longitude: 13.405, elevation: 34, timeZone: 'Europe/Berlin' },
+  { name: 'Madrid', latitude: 40.4168, longitude: -3.7038, elevation: 657, timeZone: 'Europe/Madrid' },
+  { name: 'Rome', latitude: 41.9028, longitude: 12.4964, elevation: 21, timeZone: 'Europe/Rome' },
+  { name: 'Reykjavík', latitude: 64.1466, longitude: -21.9426, elevation: 15, timeZone: 'Atlantic/Reykjavik' },
+  { name: 'Tromsø', latitude: 69.6492, longitude: 18.9553, elevation: 10, timeZone: 'Europe/Oslo' },
+  { name: 'Longyearbyen', latitude: 78.2232, longitude: 15.6267, elevation: 10, timeZone: 'Arctic/Longyearbyen' },
+  { name: 'Moscow', latitude: 55.7558, longitude: 37.6173, elevation: 156, timeZone: 'Europe/Moscow' },
+  { name: 'Cairo', latitude: 30.0444, longitude: 31.2357, elevation: 23, timeZone: 'Africa/Cairo' },
+  { name: 'Nairobi', latitude: -1.2921, longitude: 36.8219, elevation: 1795, timeZone: 'Africa/Nairobi' },
+  { name: 'Cape Town', latitude: -33.9249, longitude: 18.4241, elevation: 15, timeZone: 'Africa/Johannesburg' },
+  { name: 'Dubai', latitude: 25.2048, longitude: 55.2708, elevation: 5, timeZone: 'Asia/Dubai' },
+  { name: 'Mumbai', latitude: 19.076, longitude: 72.8777, elevation: 14, timeZone: 'Asia/Kolkata' },
+  { name: 'Singapore', latitude: 1.3521, longitude: 103.8198, elevation: 15, timeZone: 'Asia/Singapore' },
+  { name: 'Beijing', latitude: 39.9042, longitude: 116.4074, elevation: 44, timeZone: 'Asia/Shanghai' },
+  { name: 'Tokyo', latitude: 35.6762, longitude: 139.6503, elevation: 40, timeZone: 'Asia/Tokyo' },
+  { name: 'Sydney', latitude: -33.8688, longitude: 151.2093, elevation: 58, timeZone: 'Australia/Sydney' },
+  { name: 'Auckland', latitude: -36.8485, longitude: 174.7633, elevation: 26, timeZone: 'Pacific/Auckland' },
+  { name: 'Honolulu', latitude: 21.3069, longitude: -157.8583, elevation: 6, timeZone: 'Pacific/Honolulu' },
+  { name: 'Mauna Kea Observatory', latitude: 19.8207, longitude: -155.4681, elevation: 4205, timeZone: 'Pacific/Honolulu' },
+  { name: 'Los Angeles', latitude: 34.0522, longitude: -118.2437, elevation: 71, timeZone: 'America/Los_Angeles' },
+  { name: 'Denver', latitude: 39.7392, longitude: -104.9903, elevation: 1609, timeZone: 'America/Denver' },
+  { name: 'Chicago', latitude: 41.8781, longitude: -87.6298, elevation: 181, timeZone: 'America/Chicago' },
+  { name: 'New York', latitude: 40.7128, longitude: -74.006, elevation: 10, timeZone: 'America/New_York' },
+  { name: 'Mexico City', latitude: 19.4326, longitude: -99.1332, elevation: 2240, timeZone: 'America/Mexico_City' },
+  { name: 'São Paulo', latitude: -23.5505, longitude: -46.6333, elevation: 760, timeZone: 'America/Sao_Paulo' },
+  { name: 'Buenos Aires', latitude: -34.6037, longitude: -58.3816, elevation: 25, timeZone: 'America/Argentina/Buenos_Aires' },
+  { name: 'Cerro Paranal Observatory', latitude: -24.6272, longitude: -70.4042, elevation: 2635, timeZone: 'America/Santiago' },
+].map((city) => Object.freeze(city)));
+
+export const DEFAULT_OBSERVER: ObserverLocation = OBSERVER_CITIES[0];
+
+/**
+ * astronomy-engine observer for a location
+ */
+export function toAstronomyObserver(location: ObserverLocation): Astronomy.Observer {
+  return new Astronomy.Observer(location.latitude, location.longitude, location.elevation);
+}
+
+/**
+ * Check that a time zone name is known to the runtime's Intl data
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Time zone for an observer's local times. Custom coordinates have no zone,
+ * so use the nautical zone for the longitude (e.g. Etc/GMT-10 is UTC+10).
+ */
+export function getObserverTimeZone(location: ObserverLocation): string {
+  if (location.timeZone) return location.timeZone;
+  const hours = Math.round(location.longitude / 15);
+  if (hours === 0) return 'UTC';
+  // Etc/GMT zones use POSIX sign order: Etc/GMT-10 is ten hours ahead of UTC
+  return `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+}
+
+/**
+ * Stable cache key fragment for a location
+ */
+export function getObserverKey(location: ObserverLocation): string {
+  return `${location.latitude.toFixed(4)},${location.longitude.toFixed(4)},${Math.round(location.elevation)}`;
+}
+
+function subtract(a: Astronomy.Vector, b: Astronomy.Vector): Astronomy.Vector {
+  return new Astronomy.Vector(a.x - b.x, a.y - b.y, a.z - b.z, a.t);
+}
+
+function length(v: { x: number; y: number; z: number }): number {
+  return Math.sqrt(v.x ** 2 + v.y ** 2 + v.z ** 2);
+}
+
+/**
+ * Geocentric position of a body in AU, J2000 equatorial, corrected for light
+ * travel time. Returns null for Earth.
+ */
+export function computeGeocentricVector(name: BodyName, date: Date): Astronomy.Vector | null {
+  if (name === 'Earth') return null;
+
+  if (name === 'Moon') {
+    return Astronomy.GeoVector(Astronomy.Body.Moon, date, true);
+  }
+
+  if (isMoonName(name)) {
+    // Other moons: the parent's apparent position plus the moon's offset
+    // at the time the light left
+    const parent = getParentBody(name);
+    const parentVector = parent ? computeGeocentricVector(parent, date) : null;
+    if (!parentVector) return null;
+    const lightTimeMs = (length(parentVector) / Astronomy.C_AUDAY) * MS_PER_DAY;
+    const offset = computeMoonState(name, new Date(date.getTime() - lightTimeMs));
+    return new Astronomy.Vector(
+      parentVector.x + offset.x,
+      parentVector.y + offset.y,
+      parentVector.z + offset.z,
+      parentVector.t
+    );
+  }
+
+  if (!isHeliocentricBody(name)) return null;
+
+  if (getOrbitalElements(name)) {
+    // Element-based bodies: iterate the light-time correction by hand
+    const earth = Astronomy.HelioVector(Astronomy.Body.Earth, date);
+    let vector = subtract(computeHelioVector(name, date), earth);
+    for (let i = 0; i < 2; i++) {
+      const lightTimeMs = (length(vector) / Astronomy.C_AUDAY) * MS_PER_DAY;
+      vector = subtract(computeHelioVector(name, new Date(date.getTime() - lightTimeMs)), earth);
+    }
+    return vector;
+  }
+
+  return Astronomy.GeoVector(name as Astronomy.Body, date, true);
+}
+
+/**
+ * Where a body appears in the observer's sky. Returns null for Earth.
+ */
+export function computeSkyPosition(
+  name: BodyName,
+  location: ObserverLocation,
+  date: Date
+): SkyPosition | null {
+  const geocentric = computeGeocentricVector(name, date);
+  if (!geocentric) return null;
+
+  const observer = toAstronomyObserver(location);
+  const topocentric = subtract(geocentric, Astronomy.ObserverVector(date, observer, false));
+
+  // Catalog coordinates (J2000) for RA/Dec and constellation lookup
+  const j2000 = Astronomy.EquatorFromVector(topocentric);
+  const constellation = Astronomy.Constellation(j2000.ra, j2000.dec);
+
+  // Alt/az needs coordinates of date
+  const ofDate = Astronomy.EquatorFromVector(
+    Astronomy.RotateVector(Astronomy.Rotation_EQJ_EQD(date), topocentric)
+  );
+  const horizontal = Astronomy.Horizon(date, observer, ofDate.ra, ofDate.dec, 'normal');
+
+  return {
+    ra: j2000.ra,
+    dec: j2000.dec,
+    altitude: horizontal.altitude,
+    azimuth: horizontal.azimuth,
+    distanceAu: j2000.dist,
+    constellation: constellation.symbol,
+    constellationName: constellation.name,
+  };
+}
+
+/**
+ * Local horizon axes at the observer, in 3D scene coordinates.
+ * Used to orient the sky view camera.
+ */
+export function computeHorizonFrame(location: ObserverLocation, date: Date): HorizonFrame {
+  // Horizontal frame in astronomy-engine: x = north, y = west, z = zenith
+  const rotation = Astronomy.Rotation_HOR_EQJ(date, toAstronomyObserver(location));
+  const time = new Astronomy.AstroTime(date);
+  const toScene = (x: number, y: number, z: number): [number, number, number] => {
+    const v = Astronomy.RotateVector(rotation, new Astronomy.Vector(x, y, z, time));
+    return [v.x, v.z, -v.y]; // Y-up in Three.js
+  };
+
+  return {
+    zenith: toScene(0, 0, 1),
+    north: toScene(1, 0, 0),
+    east: toScene(0, -1, 0),
+  };
+}
+
+/**
+ * Format right ascension as "12h 34m 56s"
+ */
+export function formatRightAscension(hours: number): string {
+  const totalSeconds = Math.round((((hours % 24) + 24) % 24) * 3600) % 86400;
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${h}h ${String(m).padStart(2, '0')}m ${String(s).padStart(2, '0')}s`;
+}
+
+/**
+ * Format declination as "+12° 34′ 56″"
+ */
+export function formatDeclination(degrees: number): string {
+  const sign = degrees < 0 ? '−' : '+';
+  const totalSeconds = Math.round(Math.abs(degrees) * 3600);
+  const d = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${sign}${d}° ${String(m).padStart(2, '0')}′ ${String(s).padStart(2, '0')}″`;
+}
+
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW',
+] as const;
+
+const COMPASS_NAMES: Readonly<Record<string, string>> = {
+  N: 'north', NNE: 'north-northeast', NE: 'northeast', ENE: 'east-northeast',
+  E: 'east', ESE: 'east-southeast', SE: 'southeast', SSE: 'south-southeast',
+  S: 'south', SSW: 'south-southwest', SW: 'southwest', WSW: 'west-southwest',
+  W: 'west', WNW: 'west-northwest', NW: 'northwest', NNW: 'north-northwest',
+};
+
+/**
+ * 16-point compass direction for an azimuth, e.g. "SSE"
+ */
+export function getCompassPoint(azimuth: number): string {
+  const normalized = ((azimuth % 360) + 360) % 360;
+  return COMPASS_POINTS[Math.round(normalized / 22.5) % 16];
+}
+
+/**
+ * Format latitude/longitude as "51.48° N, 0.00° W"
+ */
+export function formatLatLon(latitude: number, longitude: number, digits = 2): string {
+  const lat = `${Math.abs(latitude).toFixed(digits)}° ${latitude >= 0 ? 'N' : 'S'}`;
+  const lon = `${Math.abs(longitude).toFixed(digits)}° ${longitude >= 0 ? 'E' : 'W'}`;
+  return `${lat}, ${lon}`;
+}
+
+/**
+ * Format an observer's coordinates as "51.48° N, 0.00° W"
+ */
+export function formatCoordinates(location: ObserverLocation): string {
+  return formatLatLon(location.latitude, location.longitude);
+}
+
+/**
+ * Screen-reader description of a sky position, e.g. "Seen from Paris: 23 degrees
+ * above the horizon toward the south-southeast, in Sagittarius."
+ */
+export function describeSkyPosition(sky: SkyPosition, observerName: string): string {
+  const altitude = Math.round(Math.abs(sky.altitude));
+  const side = sky.altitude >= 0 ? 'above' : 'below';
+  const direction = COMPASS_NAMES[getCompassPoint(sky.azimuth)];
+  return `Seen from ${observerName}: ${altitude} degrees ${side} the horizon toward the ${direction}, in ${sky.constellationName}.`;
+}
@@ -0,0 +1,200 @@
+/**
+ * Orbit Path Sampling
+ *
+ * Builds orbit line geometry that covers one full sidereal period of a body,
+ * centered on the simulation date. Samples are spaced evenly in eccentric
+ * anomaly, so eccentric orbits get denser sampling near perihelion where the
+ * path curves fastest.
+ */
+
+import { ASTRONOMICAL_CONSTANTS } from './astronomy-cache';
+import {
+  computeHelioState,
+  computeHelioVector,
+  getHelioPeriodDays,
+  type BodyName,
+  type HeliocentricBodyName,
+} from './bodies';
+import { positionAtTrueAnomaly, SUN_GM_AU3_PER_DAY2 } from './kepler';
+import { MOON_CONFIG, computeMoonState, isMoonName, type MoonName } from './moons';
+import { computeOsculatingElements, getApsisNames } from './orbitalElements';
+
+const MS_PER_DAY = 86_400_000;
+
+/** Sample count for a circular orbit */
+export const ORBIT_MIN_STEPS = 120;
+
+/** Upper bound on samples for very eccentric orbits */
+export const ORBIT_MAX_STEPS = 360;
+
+/**
+ * Minimum sim-time drift before an orbit is resampled. Osculating elements of
+ * the planets drift by well under a pixel per decade at the default scale.
+ */
+export const ORBIT_REFRESH_MIN_DAYS = 3652.5;
+
+/**
+ * Minimum sim-time drift before a moon's local orbit is resampled. The Moon's
+ * apsides and nodes precess by a few degrees a month.
+ */
+export const MOON_ORBIT_REFRESH_MIN_DAYS = 30;
+
+/**
+ * Sidereal orbital period of a body in days
+ */
+export function getOrbitalPeriodDays(body: HeliocentricBodyName): number {
+  return getHelioPeriodDays(body);
+}
+
+/**
+ * Quantize a sim date into the epoch an orbit path should be sampled around.
+ * The epoch only changes once the date has moved by a full period (or a
+ * decade, whichever is longer), so paths stay stable during playback and are
+ * recomputed after large jumps.
+ */
+export function getOrbitEpochMs(body: HeliocentricBodyName, date: Date): number {
+  const refreshMs = Math.max(ORBIT_REFRESH_MIN_DAYS, getOrbitalPeriodDays(body)) * MS_PER_DAY;
+  return Math.round(date.getTime() / refreshMs) * refreshMs;
+}
+
+/**
+ * Number of samples for an orbit of the given eccentricity.
+ * Always even, so the middle sample lands exactly on the epoch.
+ */
+export function getOrbitStepCount(eccentricity: number): number {
+  const e = Number.isFinite(eccentricity) ? Math.min(Math.max(eccentricity, 0), 1) : 0;
+  const steps = 2 * Math.round((ORBIT_MIN_STEPS * (1 + 4 * e)) / 2);
+  return Math.min(ORBIT_MAX_STEPS, steps);
+}
+
+/**
+ * Eccentricity and eccentric anomaly of the osculating orbit at a date
+ */
+function getOsculatingAnomaly(body: HeliocentricBodyName, date: Date): { e: number; E: number } {
+  const s = computeHelioState(body, date);
+  const r = Math.sqrt(s.x ** 2 + s.y ** 2 + s.z ** 2);
+  const v2 = s.vx ** 2 + s.vy ** 2 + s.vz ** 2;
+  const rv = s.x * s.vx + s.y * s.vy + s.z * s.vz;
+
+  const a = 1 / (2 / r - v2 / SUN_GM_AU3_PER_DAY2);
+  const eCosE = 1 - r / a;
+  const eSinE = rv / Math.sqrt(SUN_GM_AU3_PER_DAY2 * a);
+
+  return { e: Math.sqrt(eCosE ** 2 + eSinE ** 2), E: Math.atan2(eSinE, eCosE) };
+}
+
+/**
+ * Sample one sidereal period of a body's orbit around the epoch.
+ * Returns [x, y, z] triples in 3D space units (1 AU = 10 units, Y-up),
+ * suitable for a closed line loop.
+ */
+export function computeOrbitPath(body: HeliocentricBodyName, epoch: Date): Float32Array {
+  const periodDays = getOrbitalPeriodDays(body);
+  const { e, E: E0 } = getOsculatingAnomaly(body, epoch);
+  const bound = Number.isFinite(e) && e < 1;
+
+  const steps = getOrbitStepCount(bound ? e : 0);
+  const positions = new Float32Array(steps * 3);
+  const M0 = E0 - e * Math.sin(E0);
+  const epochMs = epoch.getTime();
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR;
+
+  for (let i = 0; i < steps; i++) {
+    let offsetDays: number;
+    if (bound) {
+      // Even steps in eccentric anomaly, converted to time through Kepler's equation
+      const E = E0 - Math.PI + (2 * Math.PI * i) / steps;
+      const M = E - e * Math.sin(E);
+      offsetDays = ((M - M0) / (2 * Math.PI)) * periodDays;
+    } else {
+      offsetDays = (i / steps - 0.5) * periodDays;
+    }
+
+    const vector = computeHelioVector(body, new Date(epochMs + offsetDays * MS_PER_DAY));
+
+    const i3 = i * 3;
+    positions[i3] = vector.x * scale;
+    positions[i3 + 1] = vector.z * scale; // Y-up in Three.js
+    positions[i3 + 2] = -vector.y * scale;
+  }
+
+  return positions;
+}
+
+/**
+ * Quantized epoch for a moon's local orbit, see getOrbitEpochMs
+ */
+export function getMoonOrbitEpochMs(moon: MoonName, date: Date): number {
+  const refreshMs = Math.max(MOON_ORBIT_REFRESH_MIN_DAYS, MOON_CONFIG[moon].periodDays) * MS_PER_DAY;
+  return Math.round(date.getTime() / refreshMs) * refreshMs;
+}
+
+/**
+ * Sample one period of a moon's orbit around the epoch, relative to its parent.
+ * Returns [x, y, z] triples in 3D space units, exaggerated by the moon's
+ * orbitScale like calculateMoonOffsetCached. Moon orbits are close to
+ * circular, so samples are evenly spaced in time.
+ */
+export function computeMoonOrbitPath(moon: MoonName, epoch: Date): Float32Array {
+  const { periodDays, orbitScale } = MOON_CONFIG[moon];
+  const positions = new Float32Array(ORBIT_MIN_STEPS * 3);
+  const epochMs = epoch.getTime();
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR * orbitScale;
+
+  for (let i = 0; i < ORBIT_MIN_STEPS; i++) {
+    const offsetDays = (i / ORBIT_MIN_STEPS - 0.5) * periodDays;
+    const state = computeMoonState(moon, new Date(epochMs + offsetDays * MS_PER_DAY));
+
+    const i3 = i * 3;
+    positions[i3] = state.x * scale;
+    positions[i3 + 1] = state.z * scale; // Y-up in Three.js
+    positions[i3 + 2] = -state.y * scale;
+  }
+
+  return positions;
+}
+
+export type OrbitMarkerKind = 'periapsis' | 'apoapsis' | 'ascending-node' | 'descending-node';
+
+export interface OrbitMarker {
+  kind: OrbitMarkerKind;
+  /** e.g. "Perihelion" or "Ascending node" */
+  label: string;
+  /** Scene units, relative to the Sun (or the parent, for moons) */
+  position: [number, number, number];
+}
+
+/**
+ * Quantized epoch for any body's orbit markers, matching the epoch its
+ * orbit line is sampled around
+ */
+export function getOrbitMarkerEpochMs(body: BodyName, date: Date): number {
+  return isMoonName(body) ? getMoonOrbitEpochMs(body, date) : getOrbitEpochMs(body, date);
+}
+
+/**
+ * Periapsis, apoapsis and node positions of the osculating orbit at the
+ * epoch, scaled like computeOrbitPath (or computeMoonOrbitPath for moons).
+ * Apoapsis is omitted for unbound orbits.
+ */
+export function computeOrbitMarkers(body: BodyName, epoch: Date): OrbitMarker[] {
+  const elements = computeOsculatingElements(body, epoch);
+  const apsides = getApsisNames(body);
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR * (isMoonName(body) ? MOON_CONFIG[body].orbitScale : 1);
+
+  const candidates: { kind: OrbitMarkerKind; label: string; trueAnomaly: number }[] = [
+    { kind: 'periapsis', label: apsides.periapsis, trueAnomaly: 0 },
+    { kind: 'ascending-node', label: 'Ascending node', trueAnomaly: -elements.argPeri },
+    { kind: 'descending-node', label: 'Descending node', trueAnomaly: 180 - elements.argPeri },
+  ];
+  if (elements.e < 1) {
+    candidates.splice(1, 0, { kind: 'apoapsis', label: apsides.apoapsis, trueAnomaly: 180 });
+  }
+
+  return candidates.flatMap(({ kind, label, trueAnomaly }) => {
+    // A node past a hyperbola's asymptote is never reached
+    if (1 + elements.e * Math.cos((trueAnomaly * Math.PI) / 180) <= 0) return [];
+    const [x, y, z] = positionAtTrueAnomaly(elements, trueAnomaly);
+    return [{ kind, label, position: [x * scale, z * scale, -y * scale] as [number, number, number] }];
+  });
+}
@@ -1,10 +1,12 @@
 import { useOrbitStore, type RenderQuality } from '@/lib/store';
-import { isPlanetName } from '@/lib/planets';
-
-const MAX_SPEED = 365;
+import { isSelectableBody } from '@/lib/planets';
+import { MAX_TIME_SPEED } from '@/lib/validation';
+import { isReferenceFrame, type ReferenceFrame } from '@/lib/referenceFrames';
 
 type OrbitShareableState = {
   selectedPlanet: string | null;
+  selectedSpacecraft?: string | null;
+  referenceFrame?: ReferenceFrame;
   timeSpeed: number;
   currentDate: Date;
   showOrbits: boolean;
@@ -13,10 +15,16 @@ type OrbitShareableState = {
   renderQuality: RenderQuality;
 };
 
-function clampInt(value: number, min: number, max: number) {
+function clamp(value: number, min: number, max: number) {
   return Math.min(Math.max(value, min), max);
 }
 
+// Whole days per second are enough above 1 d/s; slower speeds keep 3 significant digits
+function formatSpeedParam(speed: number) {
+  if (Math.abs(speed) >= 1) return String(Math.round(speed));
+  return String(Number(speed.toPrecision(3)));
+}
+
 function parseBooleanParam(value: string | null) {
   if (value === null) return null;
   if (value === '1' || value.toLowerCase() === 'true') return true;
@@ -24,22 +32,25 @@ function parseBooleanParam(value: string | null) {
   return null;
 }
 
-export function buildOrbitShareUrl(location: Location, state: OrbitShareableState) {
+export function buildOrbitShareUrl(location: Pick<Location, 'origin' | 'pathname'>, state: OrbitShareableState) {
   const url = new URL(location.pathname, location.origin);
   const params = url.searchParams;
 
   params.set('v', '1');
 
   if (state.selectedPlanet) params.set('planet', state.selectedPlanet);
+  else if (state.selectedSpacecraft) params.set('craft', state.selectedSpacecraft);
+
+  if (state.referenceFrame && state.referenceFrame !== 'Sun') params.set('frame', state.referenceFrame);
 
-  if (state.timeSpeed !== 1) params.set('speed', String(Math.round(state.timeSpeed)));
+  if (state.timeSpeed !== 1) params.set('speed', formatSpeedParam(state.timeSpeed));
 
   if (state.renderQuality !== 'balanced') params.set('q', state.renderQuality);
 
   if (!state.showOrbits) params.set('o', '0');
   if (!state.showLabels) params.set('l', '0');
 
-  if (state.cinematicPlaying && !state.selectedPlanet) params.set('cin', '1');
+  if (state.cinematicPlaying && !state.selectedPlanet && !state.selectedSpacecraft) params.set('cin', '1');
 
   params.set('t', String(state.currentDate.getTime()));
 
@@ -56,7 +67,7 @@ export function applyOrbitShareStateFromUrl(search: string) {
 
   const speedParam = params.get('speed');
   if (speedParam) {
-    const speed = clampInt(Number.parseInt(speedParam, 10), 0, MAX_SPEED);
+    const speed = clamp(Number.parseFloat(speedParam), -MAX_TIME_SPEED, MAX_TIME_SPEED);
     if (Number.isFinite(speed)) useOrbitStore.getState().setTimeSpeed(speed);
   }
 
@@ -82,13 +93,28 @@ export function applyOrbitShareStateFromUrl(search: string) {
     if (state.showLabels !== showLabels) state.toggleLabels();
   }
 
+  const frame = params.get('frame');
+  if (frame && isReferenceFrame(frame)) {
+    useOrbitStore.getState().setReferenceFrame(frame);
+  }
+
   const planet = params.get('planet');
-  if (planet && isPlanetName(planet)) {
+  if (planet && isSelectableBody(planet)) {
     useOrbitStore.getState().setSelectedPlanet(planet);
   }
 
+  // Imported craft are not in other people's sessions; only bundled ones resolve
+  const craftParam = params.get('craft');
+  const craft =
+    craftParam && !planet && useOrbitStore.getState().spacecraft.some((candidate) => candidate.id === craftParam)
+      ? craftParam
+      : null;
+  if (craft) {
+    useOrbitStore.getState().setSelectedSpacecraft(craft);
+  }
+
   const cinematic = parseBooleanParam(params.get('cin'));
-  if (cinematic === true && !planet) {
+  if (cinematic === true && !planet && !craft) {
     const state = useOrbitStore.getState();
     if (!state.cinematicPlaying) state.toggleCinematic();
   }
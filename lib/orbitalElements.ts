@@ -0,0 +1,79 @@
+/**
+ * Osculating Orbital Elements
+ *
+ * Keplerian elements of every body, fitted to its state vector at a date:
+ * heliocentric for planets and dwarf planets, parent-relative for moons.
+ * Elements drift as other bodies perturb the orbit, so they describe the
+ * orbit "right now" rather than a long-term mean.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { BODY_CATALOG, computeHelioState, type BodyName } from './bodies';
+import { stateToElements, SUN_GM_AU3_PER_DAY2, type OsculatingElements } from './kepler';
+import { computeMoonState, getParentBody, isMoonName } from './moons';
+
+/** Earth's gravitational parameter in km^3/s^2 */
+const EARTH_GM_KM3_PER_S2 = 398_600.4418;
+
+/** Sun's mass in Earth masses */
+const SUN_MASS_EARTHS = 332_946.0487;
+
+const SECONDS_PER_DAY = 86_400;
+
+/**
+ * Gravitational parameter of a body's two-body problem in AU^3/day^2: the
+ * central body plus the body itself, using catalog masses
+ */
+export function getCentralGm(name: BodyName): number {
+  const parent = getParentBody(name);
+  if (parent) {
+    const gmKm = (BODY_CATALOG[parent].mass + BODY_CATALOG[name].mass) * EARTH_GM_KM3_PER_S2;
+    return (gmKm * SECONDS_PER_DAY ** 2) / Astronomy.KM_PER_AU ** 3;
+  }
+  return SUN_GM_AU3_PER_DAY2 * (1 + BODY_CATALOG[name].mass / SUN_MASS_EARTHS);
+}
+
+/**
+ * Osculating elements of a body at a date (uncached). Distances are in AU;
+ * moons are relative to their parent. Angles are referred to the J2000 ecliptic.
+ */
+export function computeOsculatingElements(name: BodyName, date: Date): OsculatingElements {
+  const state = isMoonName(name) ? computeMoonState(name, date) : computeHelioState(name, date);
+  return stateToElements(state, getCentralGm(name));
+}
+
+/**
+ * Names of the closest and farthest points, e.g. "Perihelion"/"Aphelion",
+ * "Perigee"/"Apogee" for the Moon
+ */
+export function getApsisNames(name: BodyName): { periapsis: string; apoapsis: string } {
+  switch (getParentBody(name)) {
+    case null:
+      return { periapsis: 'Perihelion', apoapsis: 'Aphelion' };
+    case 'Earth':
+      return { periapsis: 'Perigee', apoapsis: 'Apogee' };
+    case 'Jupiter':
+      return { periapsis: 'Perijove', apoapsis: 'Apojove' };
+    default:
+      return { periapsis: 'Periapsis', apoapsis: 'Apoapsis' };
+  }
+}
+
+/**
+ * Format an orbital period in days, or years beyond two years, e.g. "686.9 d" or "11.86 yr"
+ */
+export function formatPeriod(periodDays: number): string {
+  if (!Number.isFinite(periodDays)) return 'Unbound';
+  if (periodDays > 730) return `${(periodDays / 365.25).toFixed(2)} yr`;
+  return `${periodDays.toFixed(periodDays < 10 ? 3 : 1)} d`;
+}
+
+/**
+ * Format an orbital distance in AU, or in km for moons (parent-relative orbits),
+ * e.g. "1.524 AU" or "384,748 km"
+ */
+export function formatOrbitDistance(au: number, inKm: boolean): string {
+  if (!Number.isFinite(au)) return '∞';
+  if (inKm) return `${Math.round(au * Astronomy.KM_PER_AU).toLocaleString('en-US')} km`;
+  return `${au.toFixed(au < 10 ? 3 : 2)} AU`;
+}
@@ -1,15 +1,8 @@
-export const PLANET_ORDER = [
-  'Mercury',
-  'Venus',
-  'Earth',
-  'Mars',
-  'Jupiter',
-  'Saturn',
-  'Uranus',
-  'Neptune',
-] as const;
+import { BODY_NAMES, getBodiesByCategory, isBodyName, type BodyNameOfCategory } from './bodies';
 
-export type PlanetName = (typeof PLANET_ORDER)[number];
+export const PLANET_ORDER = getBodiesByCategory('planet');
+
+export type PlanetName = BodyNameOfCategory<'planet'>;
 
 const planetSet: ReadonlySet<string> = new Set(PLANET_ORDER);
 
@@ -17,3 +10,20 @@ export function isPlanetName(value: string): value is PlanetName {
   return planetSet.has(value);
 }
 
+/**
+ * Dwarf planets in order of mean distance from the Sun
+ */
+export const DWARF_PLANET_ORDER = getBodiesByCategory('dwarf');
+
+/**
+ * Every selectable body in navigation order: bodies by distance from the Sun,
+ * each followed by its moons
+ */
+export const BODY_NAVIGATION_ORDER: readonly string[] = BODY_NAMES;
+
+/**
+ * Check if a name can be selected in the scene (any catalog body)
+ */
+export function isSelectableBody(value: string): boolean {
+  return isBodyName(value);
+}
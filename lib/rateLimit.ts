@@ -0,0 +1,226 @@
+/**
+ * API Rate Limiting
+ *
+ * Fixed-window counters for the /api/v1/astronomy endpoints, with the limits
+ * in RATE_LIMITS. Clients are counted per API key when they send a configured
+ * one, otherwise per IP address. Counts live in a pluggable store: in memory
+ * for development and tests, or Workers KV (best-effort) in the Cloudflare
+ * deployment.
+ *
+ * Kept free of the astronomy modules, since it runs in middleware.
+ */
+
+import { API_ERROR_CODES, RATE_LIMITS, type APIError } from './api-design';
+
+export type RateLimitedEndpoint = keyof typeof RATE_LIMITS;
+
+export interface RateLimitRule {
+  windowMs: number;
+  maxRequests: number;
+}
+
+/** Counter storage; keys are unique per window, so counts never need resetting */
+export interface RateLimitStore {
+  /** Count one request under `key` and return the total so far; the count may be dropped after `ttlMs` */
+  increment(key: string, ttlMs: number): Promise<number>;
+}
+
+/** The parts of a Workers KV namespace binding the KV store uses */
+export interface KVNamespaceLike {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** When the current window ends, epoch ms */
+  resetAt: number;
+  windowMs: number;
+}
+
+export interface RateLimiter {
+  check(endpoint: RateLimitedEndpoint, client: string): Promise<RateLimitResult>;
+}
+
+// Workers KV rejects expirations shorter than a minute
+const KV_MIN_TTL_SECONDS = 60;
+
+// Expired memory counters are swept once the map grows past this
+const MEMORY_SWEEP_SIZE = 10_000;
+
+const API_BASE_PATH = '/api/v1/astronomy';
+
+/** Client address header Cloudflare sets on every request, replacing any the client sent */
+export const CLOUDFLARE_IP_HEADER = 'cf-connecting-ip';
+
+/**
+ * Counters in a Map, for development, tests and single-instance servers
+ */
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+
+  return {
+    async increment(key, ttlMs) {
+      const time = now();
+
+      if (counters.size >= MEMORY_SWEEP_SIZE) {
+        for (const [counterKey, counter] of counters) {
+          if (counter.expiresAt <= time) counters.delete(counterKey);
+        }
+      }
+
+      const counter = counters.get(key);
+      if (!counter || counter.expiresAt <= time) {
+        counters.set(key, { count: 1, expiresAt: time + ttlMs });
+        return 1;
+      }
+
+      counter.count++;
+      return counter.count;
+    },
+  };
+}
+
+/**
+ * Counters in Workers KV, shared by every isolate of the deployment. This is
+ * best-effort: KV has no atomic increment, is eventually consistent and takes
+ * about one write per second per key, so concurrent or rapid requests are
+ * under-counted. A rejected write still returns the count read, so a client
+ * already at its limit stays blocked.
+ */
+export function createKVRateLimitStore(kv: KVNamespaceLike, prefix = 'rate-limit:'): RateLimitStore {
+  return {
+    async increment(key, ttlMs) {
+      const storageKey = `${prefix}${key}`;
+      const count = (Number.parseInt((await kv.get(storageKey)) ?? '0', 10) || 0) + 1;
+      try {
+        await kv.put(storageKey, String(count), {
+          expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlMs / 1000)),
+        });
+      } catch {
+        // Writes to one key faster than KV allows; this request goes uncounted
+      }
+      return count;
+    },
+  };
+}
+
+export function getRateLimitRule(endpoint: RateLimitedEndpoint): RateLimitRule {
+  return RATE_LIMITS[endpoint];
+}
+
+/**
+ * Endpoint a request path counts against, or null for unlimited paths
+ */
+export function getRateLimitedEndpoint(pathname: string): RateLimitedEndpoint | null {
+  if (!pathname.startsWith(`${API_BASE_PATH}/`)) return null;
+
+  const [resource, ...rest] = pathname.slice(API_BASE_PATH.length + 1).split('/');
+  switch (resource) {
+    case 'positions':
+      return rest[0] === 'batch' ? 'positionsBatch' : 'positions';
+    case 'ephemeris':
+      return 'ephemeris';
+    case 'events':
+    case 'events.ics':
+      return 'events';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a comma-separated list of API keys, e.g. from the API_KEYS variable
+ */
+export function parseApiKeys(value: string | undefined): ReadonlySet<string> {
+  return new Set(
+    (value ?? '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean)
+  );
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Identify the client: a configured API key from X-API-Key or a bearer
+ * token, stored hashed, or else the client IP from `ipHeader`. Unknown keys
+ * are ignored, so made-up keys can't buy a fresh allowance. The IP header
+ * must be one the platform sets itself, like cf-connecting-ip on Cloudflare;
+ * a client could rotate X-Forwarded-For to get a new count per request.
+ * Without one, every such client shares the 'ip:unknown' count.
+ */
+export async function getRateLimitClientKey(
+  headers: Pick<Headers, 'get'>,
+  apiKeys: ReadonlySet<string>,
+  ipHeader?: string
+): Promise<string> {
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = (headers.get('x-api-key') ?? bearer)?.trim();
+  if (apiKey && apiKeys.has(apiKey)) {
+    return `key:${(await sha256Hex(apiKey)).slice(0, 32)}`;
+  }
+
+  const ip = ipHeader ? headers.get(ipHeader)?.trim() : undefined;
+  return `ip:${ip || 'unknown'}`;
+}
+
+/**
+ * Rate limiter over a store. Windows are aligned to the clock, so every
+ * client's window for an endpoint resets together.
+ */
+export function createRateLimiter(store: RateLimitStore, now: () => number = Date.now): RateLimiter {
+  return {
+    async check(endpoint, client) {
+      const { windowMs, maxRequests } = getRateLimitRule(endpoint);
+      const windowStart = Math.floor(now() / windowMs) * windowMs;
+      const count = await store.increment(`${endpoint}:${client}:${windowStart}`, windowMs);
+
+      return {
+        allowed: count <= maxRequests,
+        limit: maxRequests,
+        remaining: Math.max(0, maxRequests - count),
+        resetAt: windowStart + windowMs,
+        windowMs,
+      };
+    },
+  };
+}
+
+function getSecondsUntilReset(result: RateLimitResult, now: number): number {
+  return Math.max(0, Math.ceil((result.resetAt - now) / 1000));
+}
+
+/**
+ * RateLimit-* headers (IETF draft), plus Retry-After once the limit is hit
+ */
+export function getRateLimitHeaders(result: RateLimitResult, now: number = Date.now()): Record<string, string> {
+  const reset = String(getSecondsUntilReset(result, now));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': reset,
+    'RateLimit-Policy': `${result.limit};w=${Math.round(result.windowMs / 1000)}`,
+  };
+  if (!result.allowed) headers['Retry-After'] = reset;
+  return headers;
+}
+
+/**
+ * APIError body for a request over its limit
+ */
+export function rateLimitedError(result: RateLimitResult, requestId?: string, now: number = Date.now()): APIError {
+  const retryAfterSeconds = getSecondsUntilReset(result, now);
+  return {
+    code: API_ERROR_CODES.RATE_LIMITED,
+    message: `Rate limit of ${result.limit} requests per ${Math.round(result.windowMs / 1000)} s exceeded; retry in ${retryAfterSeconds} s`,
+    details: { limit: result.limit, windowMs: result.windowMs, retryAfterSeconds },
+    requestId,
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Reference Frames
+ *
+ * Everything is computed heliocentric; a reference frame only decides which
+ * body sits still at the scene origin. The scene shifts by minus the frame
+ * center's position, so positions come along for free. Orbit lines cannot be
+ * shifted that way: seen from Earth, Mars does not trace an ellipse but a
+ * looping path, so in a body-centered frame each orbit is replaced by the
+ * body's path relative to the center over several years. That is where Mars's
+ * retrograde loops and Venus's pentagram come from.
+ *
+ * Scale modes remap distances from the Sun, not from the center, so a path is
+ * the difference of the two scaled heliocentric positions.
+ */
+
+import { ASTRONOMICAL_CONSTANTS } from './astronomy-cache';
+import { scalePosition, type ScaleMode } from './scaleModes';
+import {
+  computeHelioVector,
+  getHelioPeriodDays,
+  isHeliocentricBody,
+  type HeliocentricBodyName,
+} from './bodies';
+
+const MS_PER_DAY = 86_400_000;
+
+/** The body at the scene origin: the Sun, or any planet or dwarf planet */
+export type ReferenceFrame = 'Sun' | HeliocentricBodyName;
+
+export const DEFAULT_REFERENCE_FRAME: ReferenceFrame = 'Sun';
+
+/**
+ * Span of a relative path. Eight years closes Venus's pentagram as seen from
+ * Earth and shows several retrograde loops of every other planet.
+ */
+export const RELATIVE_PATH_SPAN_DAYS = 8 * 365.25;
+
+/** Sim-time drift before a relative path is resampled */
+export const RELATIVE_PATH_REFRESH_DAYS = 365.25;
+
+/** Samples per orbit of the faster of the two bodies */
+const RELATIVE_PATH_STEPS_PER_ORBIT = 120;
+
+/** Upper bound on samples in a relative path */
+export const RELATIVE_PATH_MAX_STEPS = 2001;
+
+const ORIGIN: [number, number, number] = [0, 0, 0];
+
+export function isReferenceFrame(value: string): value is ReferenceFrame {
+  return value === 'Sun' || isHeliocentricBody(value);
+}
+
+/**
+ * Display name of a frame: heliocentric, geocentric or "<body>-centered"
+ */
+export function getReferenceFrameLabel(frame: ReferenceFrame): string {
+  if (frame === 'Sun') return 'Heliocentric';
+  if (frame === 'Earth') return 'Geocentric';
+  return `${frame}-centered`;
+}
+
+/**
+ * Scene offset of the frame center, given the heliocentric scene positions of
+ * the bodies. Subtract it from a heliocentric position to get a frame position.
+ */
+export function getFrameOrigin(
+  frame: ReferenceFrame,
+  positions: ReadonlyMap<string, { position: [number, number, number] }>
+): [number, number, number] {
+  if (frame === 'Sun') return ORIGIN;
+  return positions.get(frame)?.position ?? ORIGIN;
+}
+
+/**
+ * Quantize a sim date into the epoch a relative path is sampled around, see
+ * getOrbitEpochMs
+ */
+export function getRelativePathEpochMs(date: Date): number {
+  const refreshMs = RELATIVE_PATH_REFRESH_DAYS * MS_PER_DAY;
+  return Math.round(date.getTime() / refreshMs) * refreshMs;
+}
+
+/** Heliocentric scene position of a body, drawn at the given scale */
+function helioPosition(body: ReferenceFrame, date: Date, mode: ScaleMode): [number, number, number] {
+  if (body === 'Sun') return [0, 0, 0];
+  const { x, y, z } = computeHelioVector(body, date);
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR;
+  return scalePosition([x * scale, z * scale, -y * scale], mode); // Y-up in Three.js
+}
+
+/**
+ * Number of samples for the path of `body` relative to `center`.
+ * Always odd, so the middle sample lands exactly on the epoch.
+ */
+export function getRelativePathStepCount(body: ReferenceFrame, center: ReferenceFrame): number {
+  const periods = [body, center].filter(isHeliocentricBody).map(getHelioPeriodDays);
+  const fastest = Math.min(...periods);
+  const steps = (RELATIVE_PATH_SPAN_DAYS / fastest) * RELATIVE_PATH_STEPS_PER_ORBIT;
+  return Math.min(RELATIVE_PATH_MAX_STEPS, 2 * Math.floor(steps / 2) + 1);
+}
+
+/**
+ * Sample the path of `body` as seen from `center` over RELATIVE_PATH_SPAN_DAYS
+ * around the epoch. Returns [x, y, z] triples in 3D space units relative to
+ * the center, suitable for an open line strip. The Sun may be either body.
+ */
+export function computeRelativeOrbitPath(
+  body: ReferenceFrame,
+  center: ReferenceFrame,
+  epoch: Date,
+  mode: ScaleMode = 'linear'
+): Float32Array {
+  const steps = getRelativePathStepCount(body, center);
+  const positions = new Float32Array(steps * 3);
+  const startMs = epoch.getTime() - (RELATIVE_PATH_SPAN_DAYS / 2) * MS_PER_DAY;
+  const stepMs = (RELATIVE_PATH_SPAN_DAYS * MS_PER_DAY) / (steps - 1);
+
+  for (let i = 0; i < steps; i++) {
+    const date = new Date(startMs + i * stepMs);
+    const target = helioPosition(body, date, mode);
+    const origin = helioPosition(center, date, mode);
+
+    const i3 = i * 3;
+    positions[i3] = target[0] - origin[0];
+    positions[i3 + 1] = target[1] - origin[1];
+    positions[i3 + 2] = target[2] - origin[2];
+  }
+
+  return positions;
+}
@@ -0,0 +1,301 @@
+/**
+ * Rise, Transit, Set and Twilight
+ *
+ * When the selected body is up for the observer on the local calendar day of
+ * the sim date, plus the Sun's rise/set and civil, nautical and astronomical
+ * twilight for the same day. Days run from local midnight to local midnight
+ * in the observer's time zone.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { getOrbitalElements, isHeliocentricBody, type BodyName } from './bodies';
+import { getParentBody, isMoonName } from './moons';
+import {
+  computeGeocentricVector,
+  getObserverTimeZone,
+  toAstronomyObserver,
+  type ObserverLocation,
+} from './observer';
+
+const MS_PER_DAY = 86_400_000;
+
+/** Any distance over 1 light-year makes the star-style search parallax-free */
+const FIXED_STAR_DISTANCE_LY = 1000;
+
+/** Sun altitudes that bound each twilight, in degrees */
+export const TWILIGHT_ALTITUDES = Object.freeze({
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+} as const);
+
+export type TwilightKind = keyof typeof TWILIGHT_ALTITUDES;
+
+/**
+ * 'rises-and-sets' when the body crosses the horizon during the day;
+ * otherwise it stays up ('circumpolar') or down ('never-rises') all day
+ */
+export type RiseSetStatus = 'rises-and-sets' | 'circumpolar' | 'never-rises';
+
+export interface RiseSetTimes {
+  status: RiseSetStatus;
+  /** Upper limb clears the horizon; null if it does not rise this day */
+  rise: Date | null;
+  /** Upper culmination (highest point); null if it falls on another day */
+  transit: Date | null;
+  /**
+   * Altitude at culmination in degrees, even when below the horizon; when it
+   * culminates on another day, the highest altitude within this one
+   */
+  transitAltitude: number;
+  /** Upper limb drops below the horizon; null if it does not set this day */
+  set: Date | null;
+}
+
+export interface TwilightWindow {
+  /** Sun rises through the twilight altitude (twilight begins) */
+  dawn: Date | null;
+  /** Sun sinks through the twilight altitude (twilight ends) */
+  dusk: Date | null;
+  /** With neither crossing, whether the Sun stays above or below the altitude all day */
+  allDay: 'above' | 'below' | null;
+}
+
+export interface SkyDay {
+  /** Local midnight that starts the day */
+  start: Date;
+  /** Local midnight that ends the day */
+  end: Date;
+  /** IANA zone the day boundaries and displayed times use */
+  timeZone: string;
+  /** Selected body; null for Earth */
+  body: RiseSetTimes | null;
+  sun: RiseSetTimes;
+  twilight: Record<TwilightKind, TwilightWindow>;
+}
+
+// Formatter construction is slow; reuse one per zone
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getOffsetFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * UTC offset of a time zone at an instant, in ms (positive east of Greenwich).
+ * Compares wall-clock time of day only, so it works for any year.
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getOffsetFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const localSeconds = get('hour') * 3600 + get('minute') * 60 + get('second');
+  const utcSeconds = date.getUTCHours() * 3600 + date.getUTCMinutes() * 60 + date.getUTCSeconds();
+  let offsetSeconds = localSeconds - utcSeconds;
+
+  // Offsets are under a day, so a date change always flips the sign of the raw difference
+  if (get('day') !== date.getUTCDate()) {
+    offsetSeconds += offsetSeconds < 0 ? 86400 : -86400;
+  }
+
+  return offsetSeconds * 1000;
+}
+
+/**
+ * Local midnight at the start of the calendar day containing `date`
+ */
+export function getLocalDayStart(date: Date, timeZone: string): Date {
+  const offset = getTimeZoneOffsetMs(date, timeZone);
+  const localMidnight = Math.floor((date.getTime() + offset) / MS_PER_DAY) * MS_PER_DAY;
+  // Re-read the offset at midnight in case a DST change happened since
+  const start = localMidnight - getTimeZoneOffsetMs(new Date(localMidnight - offset), timeZone);
+  return new Date(start);
+}
+
+/**
+ * Body that astronomy-engine should search for. Galilean moons rise and set
+ * with Jupiter; element-based dwarf planets are pinned as a fixed star at
+ * their position for the day, as they move well under a degree per day.
+ */
+function getSearchBody(name: BodyName, date: Date): Astronomy.Body | null {
+  if (name === 'Earth') return null;
+
+  if (isMoonName(name) && name !== 'Moon') {
+    const parent = getParentBody(name);
+    return parent ? getSearchBody(parent, date) : null;
+  }
+
+  if (isHeliocentricBody(name) && getOrbitalElements(name)) {
+    const geocentric = computeGeocentricVector(name, date);
+    if (!geocentric) return null;
+    const equatorial = Astronomy.EquatorFromVector(geocentric);
+    Astronomy.DefineStar(Astronomy.Body.Star1, equatorial.ra, equatorial.dec, FIXED_STAR_DISTANCE_LY);
+    return Astronomy.Body.Star1;
+  }
+
+  return name as Astronomy.Body;
+}
+
+function toDate(time: Astronomy.AstroTime | null, end: Date): Date | null {
+  return time && time.date.getTime() < end.getTime() ? time.date : null;
+}
+
+function getAltitude(body: Astronomy.Body, observer: Astronomy.Observer, date: Date): number {
+  const equatorial = Astronomy.Equator(body, date, observer, true, true);
+  return Astronomy.Horizon(date, observer, equatorial.ra, equatorial.dec, 'normal').altitude;
+}
+
+function searchRiseSet(
+  body: Astronomy.Body,
+  observer: Astronomy.Observer,
+  start: Date,
+  end: Date
+): RiseSetTimes {
+  const limitDays = (end.getTime() - start.getTime()) / MS_PER_DAY;
+  const rise = toDate(Astronomy.SearchRiseSet(body, observer, +1, start, limitDays), end);
+  const set = toDate(Astronomy.SearchRiseSet(body, observer, -1, start, limitDays), end);
+  const culmination = Astronomy.SearchHourAngle(body, observer, 0, start, +1);
+  const transit = toDate(culmination.time, end);
+
+  // The Moon skips a culmination about monthly; the next one belongs to
+  // another day, and with at most a lower culmination inside this one the
+  // altitude peaks at one of its midnights
+  const transitAltitude = transit
+    ? culmination.hor.altitude
+    : Math.max(getAltitude(body, observer, start), getAltitude(body, observer, end));
+
+  let status: RiseSetStatus = 'rises-and-sets';
+  if (!rise && !set) {
+    status = transitAltitude > 0 ? 'circumpolar' : 'never-rises';
+  }
+
+  return { status, rise, transit, transitAltitude, set };
+}
+
+function searchTwilight(
+  observer: Astronomy.Observer,
+  start: Date,
+  end: Date,
+  altitude: number,
+  sun: RiseSetTimes
+): TwilightWindow {
+  const limitDays = (end.getTime() - start.getTime()) / MS_PER_DAY;
+  const dawn = toDate(Astronomy.SearchAltitude(Astronomy.Body.Sun, observer, +1, start, limitDays, altitude), end);
+  const dusk = toDate(Astronomy.SearchAltitude(Astronomy.Body.Sun, observer, -1, start, limitDays, altitude), end);
+
+  let allDay: TwilightWindow['allDay'] = null;
+  if (!dawn && !dusk) {
+    allDay = sun.transitAltitude > altitude ? 'above' : 'below';
+  }
+
+  return { dawn, dusk, allDay };
+}
+
+/**
+ * Rise/transit/set of a body and the Sun's twilight for the observer's local
+ * day containing `date`
+ */
+export function computeSkyDay(name: BodyName, location: ObserverLocation, date: Date): SkyDay {
+  const timeZone = getObserverTimeZone(location);
+  const start = getLocalDayStart(date, timeZone);
+  // Next local midnight; 36 hours lands safely inside tomorrow even across DST changes
+  const end = getLocalDayStart(new Date(start.getTime() + 1.5 * MS_PER_DAY), timeZone);
+  const observer = toAstronomyObserver(location);
+
+  const searchBody = getSearchBody(name, new Date((start.getTime() + end.getTime()) / 2));
+  const sun = searchRiseSet(Astronomy.Body.Sun, observer, start, end);
+
+  return {
+    start,
+    end,
+    timeZone,
+    body: searchBody ? searchRiseSet(searchBody, observer, start, end) : null,
+    sun,
+    twilight: {
+      civil: searchTwilight(observer, start, end, TWILIGHT_ALTITUDES.civil, sun),
+      nautical: searchTwilight(observer, start, end, TWILIGHT_ALTITUDES.nautical, sun),
+      astronomical: searchTwilight(observer, start, end, TWILIGHT_ALTITUDES.astronomical, sun),
+    },
+  };
+}
+
+/**
+ * Format a time as 24-hour "HH:MM" in a time zone, or "—" when missing
+ */
+export function formatLocalTime(date: Date | null, timeZone: string): string {
+  if (!date) return '—';
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(date);
+}
+
+/**
+ * Short zone label for display, e.g. "GMT+1" or "PST"
+ */
+export function formatTimeZoneLabel(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find((part) => part.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+/**
+ * Screen-reader description of a day's rise/transit/set, e.g.
+ * "Mars rises at 07:12, culminates at 12:40 at 31 degrees and sets at 18:05 local time."
+ * Events are listed in the order they happen.
+ */
+export function describeRiseSet(name: string, times: RiseSetTimes, timeZone: string): string {
+  if (times.status === 'circumpolar') {
+    return `${name} is circumpolar today and stays above the horizon all day.`;
+  }
+  if (times.status === 'never-rises') {
+    return `${name} does not rise today.`;
+  }
+
+  const timed: { time: Date; text: string }[] = [];
+  if (times.rise) timed.push({ time: times.rise, text: `rises at ${formatLocalTime(times.rise, timeZone)}` });
+  if (times.transit) {
+    timed.push({
+      time: times.transit,
+      text: `culminates at ${formatLocalTime(times.transit, timeZone)} at ${Math.round(times.transitAltitude)} degrees`,
+    });
+  }
+  if (times.set) timed.push({ time: times.set, text: `sets at ${formatLocalTime(times.set, timeZone)}` });
+
+  const events = timed.sort((a, b) => a.time.getTime() - b.time.getTime()).map((event) => event.text);
+
+  const list = events.length > 1 ? `${events.slice(0, -1).join(', ')} and ${events[events.length - 1]}` : events[0];
+  return `${name} ${list} local time.`;
+}
+
+/**
+ * Screen-reader summary of the day's twilight, e.g. "Civil dawn 05:40, dusk 19:02;
+ * nautical dawn 05:08, dusk 19:34; astronomical: the Sun stays above -18 degrees."
+ */
+export function describeTwilight(day: SkyDay): string {
+  const parts = (Object.keys(TWILIGHT_ALTITUDES) as TwilightKind[]).map((kind) => {
+    const window = day.twilight[kind];
+    if (window.allDay) {
+      return `${kind}: the Sun stays ${window.allDay} ${TWILIGHT_ALTITUDES[kind]} degrees`;
+    }
+    const dawn = window.dawn ? formatLocalTime(window.dawn, day.timeZone) : 'none';
+    const dusk = window.dusk ? formatLocalTime(window.dusk, day.timeZone) : 'none';
+    return `${kind} dawn ${dawn}, dusk ${dusk}`;
+  });
+  const text = parts.join('; ');
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+}
@@ -0,0 +1,297 @@
+/**
+ * Scale Modes
+ *
+ * Positions are computed to scale, 1 AU = 10 scene units, and drawn through a
+ * scale mode. Distances are remapped radially from the Sun, so a body keeps
+ * its direction and only its distance changes; sizes have their own mapping.
+ *
+ * - linear: distances to scale, bodies enlarged (radius * 0.5)
+ * - true: distances and sizes to scale; the planets are specks
+ * - log: logarithmic distances, so Neptune sits a few inner orbits out
+ * - compressed: square-root distances with exaggerated sizes
+ *
+ * Moons are placed around their parent with offsets that grow and shrink with
+ * the parent's sphere, or true offsets in the true mode. Switching modes
+ * blends the old and new mappings, see createSceneScale.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { ASTRONOMICAL_CONSTANTS } from './astronomy-cache';
+import { BODY_CATALOG } from './bodies';
+import { EARTH_RADIUS_KM, SUN_RADIUS_KM } from './eclipses';
+import { isMoonName, type MoonName } from './moons';
+
+type Vec3 = [number, number, number];
+
+export const SCALE_MODES = ['linear', 'true', 'log', 'compressed'] as const;
+
+export type ScaleMode = (typeof SCALE_MODES)[number];
+
+export const DEFAULT_SCALE_MODE: ScaleMode = 'linear';
+
+/** Duration of the blend between two modes */
+export const SCALE_TRANSITION_MS = 1200;
+
+const SCALE_MODE_LABELS: Record<ScaleMode, string> = {
+  linear: 'Linear',
+  true: 'True scale',
+  log: 'Logarithmic',
+  compressed: 'Compressed',
+};
+
+const SCALE_MODE_DESCRIPTIONS: Record<ScaleMode, string> = {
+  linear: 'Distances to scale, bodies enlarged.',
+  true: 'Distances and sizes to scale.',
+  log: 'Logarithmic distances, outer planets pulled in.',
+  compressed: 'Compressed distances, exaggerated sizes.',
+};
+
+/** Scene units per kilometre when drawn to scale */
+const UNITS_PER_KM = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR / Astronomy.KM_PER_AU;
+
+// Log distance: LOG_SCALE * ln(1 + r / LOG_KNEE), linear inside the knee
+const LOG_DISTANCE_KNEE = 5;
+const LOG_DISTANCE_SCALE = 12;
+
+// Compressed distance: COMPRESSED_SCALE * sqrt(r)
+const COMPRESSED_DISTANCE_SCALE = 5;
+
+/** Radius of the Sun's sphere geometry; the linear mode draws it as is */
+export const SUN_BASE_RADIUS = 5;
+
+export interface CameraLimits {
+  minDistance: number;
+  maxDistance: number;
+  near: number; // Camera near plane; the true mode zooms to specks
+}
+
+const CAMERA_LIMITS: Record<ScaleMode, CameraLimits> = {
+  linear: { minDistance: 10, maxDistance: 1200, near: 0.1 },
+  true: { minDistance: 0.001, maxDistance: 1200, near: 0.0001 },
+  log: { minDistance: 3, maxDistance: 300, near: 0.1 },
+  compressed: { minDistance: 4, maxDistance: 500, near: 0.1 },
+};
+
+const OVERVIEW_POSITIONS: Record<ScaleMode, Vec3> = {
+  linear: [0, 80, 100],
+  true: [0, 80, 100],
+  log: [0, 40, 50],
+  compressed: [0, 60, 75],
+};
+
+/** drei Html distanceFactor for body labels; undefined keeps a fixed screen size */
+const LABEL_DISTANCE_FACTORS: Record<ScaleMode, number | undefined> = {
+  linear: 20,
+  true: undefined,
+  log: 10,
+  compressed: 15,
+};
+
+export function isScaleMode(value: string): value is ScaleMode {
+  return (SCALE_MODES as readonly string[]).includes(value);
+}
+
+export function getScaleModeLabel(mode: ScaleMode): string {
+  return SCALE_MODE_LABELS[mode];
+}
+
+export function getScaleModeDescription(mode: ScaleMode): string {
+  return SCALE_MODE_DESCRIPTIONS[mode];
+}
+
+/**
+ * Drawn distance from the Sun of a body `distance` scene units out
+ */
+export function scaleDistance(distance: number, mode: ScaleMode): number {
+  switch (mode) {
+    case 'log':
+      return LOG_DISTANCE_SCALE * Math.log1p(distance / LOG_DISTANCE_KNEE);
+    case 'compressed':
+      return COMPRESSED_DISTANCE_SCALE * Math.sqrt(distance);
+    default:
+      return distance;
+  }
+}
+
+/**
+ * Drawn sphere radius, in scene units, of a body `radius` Earth radii across
+ */
+export function getBodyRadius(radius: number, mode: ScaleMode): number {
+  switch (mode) {
+    case 'true':
+      return radius * EARTH_RADIUS_KM * UNITS_PER_KM;
+    case 'log':
+      return 0.6 * Math.sqrt(radius);
+    case 'compressed':
+      return 0.9 * Math.sqrt(radius);
+    default:
+      return radius * 0.5;
+  }
+}
+
+export function getSunRadius(mode: ScaleMode): number {
+  switch (mode) {
+    case 'true':
+      return SUN_RADIUS_KM * UNITS_PER_KM;
+    case 'log':
+      return 2.5;
+    case 'compressed':
+      return 3;
+    default:
+      return SUN_BASE_RADIUS;
+  }
+}
+
+/**
+ * Drawn size of a body relative to the linear mode. Camera distances that
+ * were tuned for linear sizes scale by this.
+ */
+export function getBodySizeRatio(radius: number, mode: ScaleMode): number {
+  return getBodyRadius(radius, mode) / getBodyRadius(radius, 'linear');
+}
+
+/**
+ * Factor applied to a moon's offset from its parent. Store positions carry
+ * the offset exaggerated by orbitScale, sized for the linear mode's spheres.
+ */
+export function getMoonOffsetScale(moon: MoonName, mode: ScaleMode): number {
+  const { orbitScale, parent } = BODY_CATALOG[moon];
+  if (mode === 'true') return 1 / orbitScale;
+  return getBodySizeRatio(BODY_CATALOG[parent].radius, mode);
+}
+
+export function getCameraLimits(mode: ScaleMode): CameraLimits {
+  return CAMERA_LIMITS[mode];
+}
+
+export function getOverviewPosition(mode: ScaleMode): Vec3 {
+  return OVERVIEW_POSITIONS[mode];
+}
+
+/**
+ * Labels shrink with distance in the scaled modes; true-scale bodies are
+ * zoomed so far into that they keep a fixed size instead
+ */
+export function getLabelDistanceFactor(mode: ScaleMode): number | undefined {
+  return LABEL_DISTANCE_FACTORS[mode];
+}
+
+/**
+ * Remap a heliocentric scene position radially
+ */
+export function scalePosition(position: readonly [number, number, number], mode: ScaleMode): Vec3 {
+  const [x, y, z] = position;
+  const distance = Math.hypot(x, y, z);
+  if (distance === 0 || mode === 'linear' || mode === 'true') return [x, y, z];
+  const factor = scaleDistance(distance, mode) / distance;
+  return [x * factor, y * factor, z * factor];
+}
+
+/** Scale being drawn: `from` blending into `to` as progress runs 0 to 1 */
+export interface ScaleTransition {
+  from: ScaleMode;
+  to: ScaleMode;
+  progress: number;
+}
+
+/**
+ * Scene mapping for a point in a transition. Positions blend linearly between
+ * the two mappings; sizes blend geometrically, since true sizes are a
+ * thousandth of the others.
+ */
+export interface SceneScale {
+  mode: ScaleMode; // Target mode
+  transitioning: boolean;
+  position(position: readonly [number, number, number]): Vec3;
+  /** Map [x, y, z] triples into a new array, or return them as is when the mapping is the identity */
+  path(positions: Float32Array): Float32Array;
+  /** Position of a body, moons placed around their parent */
+  body(name: string, position: readonly [number, number, number], parentPosition?: readonly [number, number, number]): Vec3;
+  bodyRadius(radius: number): number;
+  sunRadius: number;
+  moonOffsetScale(moon: MoonName): number;
+  bodySizeRatio(radius: number): number;
+  cameraLimits: CameraLimits;
+  labelDistanceFactor: number | undefined;
+}
+
+/** Ease in and out, so bodies start and settle gently */
+function smoothstep(t: number): number {
+  const clamped = Math.min(1, Math.max(0, t));
+  return clamped * clamped * (3 - 2 * clamped);
+}
+
+function blend(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function blendGeometric(a: number, b: number, t: number): number {
+  return a * Math.pow(b / a, t);
+}
+
+export function createSceneScale({ from, to, progress }: ScaleTransition): SceneScale {
+  const t = smoothstep(progress);
+  const transitioning = t < 1 && from !== to;
+  const identity = !transitioning && (to === 'linear' || to === 'true');
+
+  const distance = (r: number): number =>
+    transitioning ? blend(scaleDistance(r, from), scaleDistance(r, to), t) : scaleDistance(r, to);
+
+  const ratio = (r: number): number => {
+    const scaled = distance(r);
+    return r === 0 ? 1 : scaled / r;
+  };
+
+  const sized = (get: (mode: ScaleMode) => number): number =>
+    transitioning ? blendGeometric(get(from), get(to), t) : get(to);
+
+  const moonOffsetScale = (moon: MoonName): number => sized((mode) => getMoonOffsetScale(moon, mode));
+
+  const position = (p: readonly [number, number, number]): Vec3 => {
+    const factor = ratio(Math.hypot(p[0], p[1], p[2]));
+    return [p[0] * factor, p[1] * factor, p[2] * factor];
+  };
+
+  const fromLimits = getCameraLimits(from);
+  const toLimits = getCameraLimits(to);
+
+  return {
+    mode: to,
+    transitioning,
+    position,
+    path(positions) {
+      if (identity) return positions;
+      const mapped = new Float32Array(positions.length);
+      for (let i = 0; i < positions.length; i += 3) {
+        const factor = ratio(Math.hypot(positions[i], positions[i + 1], positions[i + 2]));
+        mapped[i] = positions[i] * factor;
+        mapped[i + 1] = positions[i + 1] * factor;
+        mapped[i + 2] = positions[i + 2] * factor;
+      }
+      return mapped;
+    },
+    body(name, p, parentPosition) {
+      if (!parentPosition || !isMoonName(name)) return position(p);
+      const [px, py, pz] = position(parentPosition);
+      const offset = moonOffsetScale(name);
+      return [
+        px + (p[0] - parentPosition[0]) * offset,
+        py + (p[1] - parentPosition[1]) * offset,
+        pz + (p[2] - parentPosition[2]) * offset,
+      ];
+    },
+    bodyRadius: (radius) => sized((mode) => getBodyRadius(radius, mode)),
+    sunRadius: sized(getSunRadius),
+    moonOffsetScale,
+    bodySizeRatio: (radius) => sized((mode) => getBodySizeRatio(radius, mode)),
+    // Loosest of the two while blending, so the camera is never clamped mid-way
+    cameraLimits: transitioning
+      ? {
+          minDistance: Math.min(fromLimits.minDistance, toLimits.minDistance),
+          maxDistance: Math.max(fromLimits.maxDistance, toLimits.maxDistance),
+          near: Math.min(fromLimits.near, toLimits.near),
+        }
+      : toLimits,
+    labelDistanceFactor: getLabelDistanceFactor(to),
+  };
+}
@@ -0,0 +1,436 @@
+/**
+ * Asteroids and Comets
+ *
+ * Small bodies loaded from Minor Planet Center element files: the one-line
+ * MPCORB format for asteroids and CometEls for comets. Unlike the body catalog
+ * this set changes at runtime (users import their own files), so bodies are
+ * plain data passed around by value and propagated as two-body orbits (see
+ * kepler.ts). That is plenty for display: perturbations move a main-belt
+ * asteroid by well under a degree over a few years from the epoch.
+ *
+ * Format references:
+ * https://www.minorplanetcenter.net/iau/info/MPOrbitFormat.html
+ * https://www.minorplanetcenter.net/iau/info/CometOrbitFormat.html
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { getCachedHelioVector, ASTRONOMICAL_CONSTANTS } from './astronomy-cache';
+import { magnitudeFromAbsolute } from './appearance';
+import {
+  dateToJulianDay,
+  propagateElements,
+  propagatePerihelionElements,
+  positionAtTrueAnomalyFromPerihelion,
+  stateToElements,
+  type OrbitalElements,
+  type OsculatingElements,
+  type PerihelionElements,
+} from './kepler';
+import { getOrbitStepCount } from './orbitPaths';
+import { ValidationError } from './errors';
+import { safeParseFloat, validateRange } from './validation';
+
+const MS_PER_DAY = 86_400_000;
+const SECONDS_PER_DAY = 86_400;
+
+/** Most bodies kept at once; positions for all of them are recomputed every tick */
+export const MAX_SMALL_BODIES = 5000;
+
+/** Open (parabolic and hyperbolic) orbit lines are cut off at this distance from the Sun, AU */
+export const OPEN_ORBIT_MAX_AU = 50;
+
+export type SmallBodyKind = 'asteroid' | 'comet';
+
+export type SmallBodyFormat = 'mpcorb' | 'cometels';
+
+/** 'bundled' bodies ship with the app, 'imported' ones come from a user's file */
+export type SmallBodySource = 'bundled' | 'imported';
+
+interface SmallBodyBase {
+  /** Readable designation, unique within the set, e.g. "(4) Vesta" or "1P/Halley" */
+  id: string;
+  /** Short display name, e.g. "Vesta" */
+  name: string;
+  source: SmallBodySource;
+  /** Absolute magnitude H, null when the file leaves it blank */
+  absoluteMagnitude: number | null;
+  /**
+   * Slope parameter: G of the H-G phase law for asteroids, the activity
+   * index K (m = H + 5 log Δ + 2.5 K log r) for comets
+   */
+  slope: number | null;
+}
+
+export interface AsteroidBody extends SmallBodyBase {
+  kind: 'asteroid';
+  elements: OrbitalElements;
+}
+
+export interface CometBody extends SmallBodyBase {
+  kind: 'comet';
+  elements: PerihelionElements;
+}
+
+export type SmallBody = AsteroidBody | CometBody;
+
+export interface SmallBodyParseError {
+  /** 1-based line number in the file */
+  line: number;
+  message: string;
+}
+
+export interface SmallBodyParseResult {
+  bodies: SmallBody[];
+  errors: SmallBodyParseError[];
+}
+
+/**
+ * Fixed-width field by 1-based inclusive columns, trimmed
+ */
+function column(line: string, start: number, end: number): string {
+  return line.slice(start - 1, end).trim();
+}
+
+function parseField(line: string, start: number, end: number, field: string): number {
+  return safeParseFloat(column(line, start, end), field);
+}
+
+function parseOptionalField(line: string, start: number, end: number): number | null {
+  const text = column(line, start, end);
+  const value = Number(text);
+  return text && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Decode one character of an MPC packed date: 1-9, then A = 10 up to V = 31
+ */
+function decodePackedDigit(char: string): number {
+  const code = char.charCodeAt(0);
+  if (code >= 49 && code <= 57) return code - 48;
+  if (code >= 65 && code <= 86) return code - 55;
+  return NaN;
+}
+
+const PACKED_CENTURIES: Record<string, number> = { I: 18, J: 19, K: 20 };
+
+/**
+ * Julian date (TT, 0h) of an MPC packed date such as "K24AH" (2024 Oct 17)
+ */
+export function parsePackedDate(packed: string): number {
+  const century = PACKED_CENTURIES[packed[0]];
+  const year = Number(packed.slice(1, 3));
+  const month = decodePackedDigit(packed[3] ?? '');
+  const day = decodePackedDigit(packed[4] ?? '');
+
+  if (packed.length !== 5 || century === undefined || !Number.isInteger(year) || !(month <= 12) || !(day <= 31)) {
+    throw new ValidationError(`Invalid packed date "${packed}"`, { field: 'epoch', value: packed });
+  }
+
+  return dateToJulianDay(new Date(Date.UTC(century * 100 + year, month - 1, day)));
+}
+
+/**
+ * Short name from a readable designation: "(4) Vesta" -> "Vesta",
+ * "(2024) 2024 AB" and provisional designations are kept as they are
+ */
+function getDisplayName(designation: string): string {
+  const match = /^\(\d+\)\s+(.+)$/.exec(designation);
+  return match ? match[1] : designation;
+}
+
+function validateAngles(i: number, node: number, argPeri: number): void {
+  validateRange(i, 0, 180, 'inclination');
+  validateRange(node, 0, 360, 'node');
+  validateRange(argPeri, 0, 360, 'argPeri');
+}
+
+/**
+ * Parse one line of MPCORB.DAT (or any MPC one-line asteroid export)
+ */
+export function parseMpcorbLine(line: string, source: SmallBodySource = 'imported'): AsteroidBody {
+  const packed = column(line, 1, 7);
+  if (!packed) throw new ValidationError('Missing designation', { field: 'designation' });
+
+  const elements: OrbitalElements = {
+    epochJd: parsePackedDate(column(line, 21, 25)),
+    meanAnomaly: parseField(line, 27, 35, 'meanAnomaly'),
+    argPeri: parseField(line, 38, 46, 'argPeri'),
+    node: parseField(line, 49, 57, 'node'),
+    i: parseField(line, 60, 68, 'inclination'),
+    e: parseField(line, 71, 79, 'eccentricity'),
+    a: parseField(line, 93, 103, 'semiMajorAxis'),
+  };
+
+  validateRange(elements.e, 0, 0.999999, 'eccentricity');
+  validateRange(elements.a, 1e-3, 1e6, 'semiMajorAxis');
+  validateAngles(elements.i, elements.node, elements.argPeri);
+
+  const id = column(line, 167, 194) || packed;
+
+  return {
+    kind: 'asteroid',
+    id,
+    name: getDisplayName(id),
+    source,
+    absoluteMagnitude: parseOptionalField(line, 9, 13),
+    slope: parseOptionalField(line, 15, 19),
+    elements,
+  };
+}
+
+/**
+ * Parse one line of CometEls.txt (or any MPC one-line comet export)
+ */
+export function parseCometElsLine(line: string, source: SmallBodySource = 'imported'): CometBody {
+  const year = parseField(line, 15, 18, 'perihelionYear');
+  const month = parseField(line, 20, 21, 'perihelionMonth');
+  const day = parseField(line, 23, 29, 'perihelionDay');
+  validateRange(month, 1, 12, 'perihelionMonth');
+  validateRange(day, 0, 32, 'perihelionDay');
+
+  const perihelionMs = Date.UTC(year, month - 1, 1) + (day - 1) * MS_PER_DAY;
+
+  const elements: PerihelionElements = {
+    perihelionJd: dateToJulianDay(new Date(perihelionMs)),
+    q: parseField(line, 31, 39, 'perihelionDistance'),
+    e: parseField(line, 42, 49, 'eccentricity'),
+    argPeri: parseField(line, 52, 59, 'argPeri'),
+    node: parseField(line, 62, 69, 'node'),
+    i: parseField(line, 72, 79, 'inclination'),
+  };
+
+  validateRange(elements.q, 1e-4, 1e4, 'perihelionDistance');
+  validateRange(elements.e, 0, 100, 'eccentricity');
+  validateAngles(elements.i, elements.node, elements.argPeri);
+
+  const id = column(line, 103, 158) || `${column(line, 1, 4)}${column(line, 5, 5)}${column(line, 6, 12)}`;
+  if (!id) throw new ValidationError('Missing designation', { field: 'designation' });
+
+  return {
+    kind: 'comet',
+    id,
+    name: id,
+    source,
+    absoluteMagnitude: parseOptionalField(line, 92, 95),
+    slope: parseOptionalField(line, 97, 100),
+    elements,
+  };
+}
+
+const MPCORB_EPOCH = /^[IJK]\d\d[1-9A-C][1-9A-V]$/;
+const COMETELS_PERIHELION = /^\d{4} [ \d]\d [ \d]\d\.\d+$/;
+
+/**
+ * Which MPC format a line is in, or null if it is neither
+ */
+export function detectSmallBodyFormat(line: string): SmallBodyFormat | null {
+  if (MPCORB_EPOCH.test(line.slice(20, 25))) return 'mpcorb';
+  if (COMETELS_PERIHELION.test(line.slice(14, 29).trimEnd())) return 'cometels';
+  return null;
+}
+
+/**
+ * Parse an MPCORB or CometEls file; the two can be mixed. The MPCORB.DAT
+ * preamble (everything up to its dashed rule) and blank lines are skipped.
+ * Bad lines are reported and skipped rather than failing the whole file.
+ */
+export function parseSmallBodyFile(text: string, source: SmallBodySource = 'imported'): SmallBodyParseResult {
+  const lines = text.split(/\r?\n/);
+  const bodies: SmallBody[] = [];
+  const errors: SmallBodyParseError[] = [];
+
+  const rule = lines.findIndex((line) => line.startsWith('-----'));
+  const ids = new Set<string>();
+
+  for (let index = rule + 1; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line.trim()) continue;
+
+    if (bodies.length >= MAX_SMALL_BODIES) {
+      errors.push({ line: index + 1, message: `Only the first ${MAX_SMALL_BODIES} bodies are loaded` });
+      break;
+    }
+
+    const format = detectSmallBodyFormat(line);
+    if (!format) {
+      errors.push({ line: index + 1, message: 'Not an MPCORB or CometEls line' });
+      continue;
+    }
+
+    try {
+      const body = format === 'mpcorb' ? parseMpcorbLine(line, source) : parseCometElsLine(line, source);
+      if (ids.has(body.id)) continue;
+      ids.add(body.id);
+      bodies.push(body);
+    } catch (error) {
+      errors.push({ line: index + 1, message: (error as Error).message });
+    }
+  }
+
+  return { bodies, errors };
+}
+
+// Approximate elements of the brightest main-belt asteroids and Eros, rounded
+// for epoch 2024 Oct 17. Good enough to show where they are; import a current
+// MPCORB.DAT for observing. Ceres is a dwarf planet and lives in the catalog.
+const BRIGHT_ASTEROIDS_MPCORB = [
+  '00002    4.11  0.11 K24AH 168.50000  310.90000  172.90000   34.93000  0.2306000  0.21376539   2.7702000  0                                                            (2) Pallas',
+  '00003    5.18  0.32 K24AH 283.60000  247.90000  169.80000   12.99000  0.2560000  0.22591090   2.6700000  0                                                            (3) Juno',
+  '00004    3.25  0.32 K24AH  19.20000  151.50000  103.70000    7.14000  0.0902000  0.27159524   2.3615000  0                                                            (4) Vesta',
+  '00006    5.70  0.24 K24AH 196.90000  239.50000  138.60000   14.74000  0.2035000  0.26094914   2.4253000  0                                                            (6) Hebe',
+  '00007    5.64  0.15 K24AH 334.10000  145.40000  259.50000    5.52000  0.2294000  0.26732195   2.3866000  0                                                            (7) Iris',
+  '00008    6.52  0.28 K24AH  63.70000  285.60000  110.90000    5.89000  0.1565000  0.30169413   2.2017000  0                                                            (8) Flora',
+  '00010    5.65  0.15 K24AH 230.50000  312.60000  283.10000    3.83000  0.1074000  0.17669802   3.1452000  0                                                            (10) Hygiea',
+  '00015    5.41  0.23 K24AH  38.30000   98.60000  292.90000   11.75000  0.1868000  0.22936845   2.6431000  0                                                            (15) Eunomia',
+  '00016    6.04  0.20 K24AH  40.80000  229.30000  150.00000    3.10000  0.1340000  0.19710310   2.9242000  0                                                            (16) Psyche',
+  '00433   10.38  0.46 K24AH 255.80000  178.90000  304.30000   10.83000  0.2228000  0.55984498   1.4580000  0                                                            (433) Eros',
+].join('\n');
+
+/** Small bodies shown before anything is imported */
+export const BRIGHT_ASTEROIDS: readonly SmallBody[] = Object.freeze(
+  parseSmallBodyFile(BRIGHT_ASTEROIDS_MPCORB, 'bundled').bodies
+);
+
+/**
+ * Heliocentric position (AU) and velocity (AU/day) at a date, J2000 equatorial
+ */
+export function computeSmallBodyState(body: SmallBody, date: Date): Astronomy.StateVector {
+  return body.kind === 'asteroid'
+    ? propagateElements(body.elements, date)
+    : propagatePerihelionElements(body.elements, date);
+}
+
+/**
+ * Scene positions of every body at a date, [x, y, z] per body in input order
+ * (1 AU = 10 units, Y-up)
+ */
+export function computeSmallBodyPositions(bodies: readonly SmallBody[], date: Date): Float32Array {
+  const positions = new Float32Array(bodies.length * 3);
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR;
+
+  for (let i = 0; i < bodies.length; i++) {
+    const state = computeSmallBodyState(bodies[i], date);
+    const i3 = i * 3;
+    positions[i3] = state.x * scale;
+    positions[i3 + 1] = state.z * scale; // Y-up in Three.js
+    positions[i3 + 2] = -state.y * scale;
+  }
+
+  return positions;
+}
+
+/**
+ * Perihelion distance and eccentricity, whichever form the elements are in
+ */
+function getPerihelionForm(body: SmallBody): Pick<PerihelionElements, 'q' | 'e' | 'i' | 'node' | 'argPeri'> {
+  return body.kind === 'comet' ? body.elements : { ...body.elements, q: body.elements.a * (1 - body.elements.e) };
+}
+
+/**
+ * A body's orbit line in scene units. Two-body orbits don't drift, so unlike
+ * planet orbits this needs no epoch. Closed orbits are sampled evenly in
+ * eccentric anomaly; open ones run out to OPEN_ORBIT_MAX_AU on each side.
+ */
+export function computeSmallBodyOrbitPath(body: SmallBody): Float32Array {
+  const elements = getPerihelionForm(body);
+  const { e } = elements;
+  const steps = getOrbitStepCount(e);
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR;
+
+  const trueAnomalies: number[] = [];
+  if (e < 1) {
+    const halfAngle = Math.sqrt((1 + e) / (1 - e));
+    for (let i = 0; i < steps; i++) {
+      const E = -Math.PI + (2 * Math.PI * i) / steps;
+      trueAnomalies.push((2 * Math.atan(halfAngle * Math.tan(E / 2)) * 180) / Math.PI);
+    }
+  } else {
+    const semiLatus = elements.q * (1 + e);
+    const maxRadius = Math.max(OPEN_ORBIT_MAX_AU, 2 * elements.q);
+    const limit = Math.acos(Math.min(1, Math.max(-1, (semiLatus / maxRadius - 1) / e)));
+    for (let i = 0; i <= steps; i++) {
+      trueAnomalies.push(((-limit + (2 * limit * i) / steps) * 180) / Math.PI);
+    }
+  }
+
+  const positions = new Float32Array(trueAnomalies.length * 3);
+  trueAnomalies.forEach((nu, i) => {
+    const [x, y, z] = positionAtTrueAnomalyFromPerihelion(elements, nu);
+    positions[i * 3] = x * scale;
+    positions[i * 3 + 1] = z * scale;
+    positions[i * 3 + 2] = -y * scale;
+  });
+
+  return positions;
+}
+
+/**
+ * Whether an orbit line closes on itself (draw as a loop) or is open
+ */
+export function isClosedOrbit(body: SmallBody): boolean {
+  return body.elements.e < 1;
+}
+
+export interface SmallBodyDetails {
+  /** Live distance from the Sun, AU */
+  distanceAu: number;
+  /** Live distance from Earth, AU */
+  earthDistanceAu: number;
+  /** Heliocentric speed, km/s */
+  velocity: number;
+  /** Apparent magnitude from Earth, null without an absolute magnitude */
+  magnitude: number | null;
+  orbit: OsculatingElements;
+}
+
+/**
+ * Distances, speed, brightness and orbit of a body at a date, for the HUD
+ */
+export function describeSmallBody(body: SmallBody, date: Date): SmallBodyDetails {
+  const state = computeSmallBodyState(body, date);
+  const earth = getCachedHelioVector('Earth', date);
+
+  const distanceAu = Math.hypot(state.x, state.y, state.z);
+  const earthDistanceAu = Math.hypot(state.x - earth.x, state.y - earth.y, state.z - earth.z);
+  const speedAuPerDay = Math.hypot(state.vx, state.vy, state.vz);
+
+  let magnitude: number | null = null;
+  if (body.absoluteMagnitude !== null) {
+    if (body.kind === 'asteroid') {
+      // Sun-body-Earth angle from the law of cosines
+      const earthSun = Math.hypot(earth.x, earth.y, earth.z);
+      const cosPhase =
+        (distanceAu ** 2 + earthDistanceAu ** 2 - earthSun ** 2) / (2 * distanceAu * earthDistanceAu);
+      const phaseAngle = (Math.acos(Math.min(1, Math.max(-1, cosPhase))) * 180) / Math.PI;
+      magnitude = magnitudeFromAbsolute(
+        body.absoluteMagnitude,
+        distanceAu,
+        earthDistanceAu,
+        phaseAngle,
+        body.slope ?? undefined
+      );
+    } else {
+      magnitude =
+        body.absoluteMagnitude + 5 * Math.log10(earthDistanceAu) + 2.5 * (body.slope ?? 4) * Math.log10(distanceAu);
+    }
+  }
+
+  return {
+    distanceAu,
+    earthDistanceAu,
+    velocity: (speedAuPerDay * Astronomy.KM_PER_AU) / SECONDS_PER_DAY,
+    magnitude,
+    orbit: stateToElements(state),
+  };
+}
+
+/**
+ * Merge newly parsed bodies into a set: bodies with an id already present
+ * replace it in place, new ones are appended, and the result is capped at
+ * MAX_SMALL_BODIES
+ */
+export function mergeSmallBodies(current: readonly SmallBody[], incoming: readonly SmallBody[]): SmallBody[] {
+  const merged = new Map(current.map((body) => [body.id, body]));
+  incoming.forEach((body) => merged.set(body.id, body));
+  return Array.from(merged.values()).slice(0, MAX_SMALL_BODIES);
+}
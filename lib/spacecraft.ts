@@ -0,0 +1,602 @@
+/**
+ * Spacecraft Trajectories
+ *
+ * Spacecraft are drawn from tabulated state vectors rather than orbital
+ * elements: a mission is a chain of launches, flybys and burns that no single
+ * conic describes. Tables come from JPL Horizons vector-table exports or a
+ * plain CSV of time, x, y, z (optionally vx, vy, vz), and positions between
+ * samples are cubic Hermite interpolated from the sampled positions and
+ * velocities. Where a table has no velocities they are estimated from the
+ * neighbouring samples.
+ *
+ * A trajectory only covers its table's time span; outside it the craft has no
+ * position and is hidden.
+ *
+ * Horizons reference:
+ * https://ssd.jpl.nasa.gov/horizons/manual.html#output
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { getCachedHelioVector, ASTRONOMICAL_CONSTANTS } from './astronomy-cache';
+import { dateToJulianDay, eclipticToEquatorial, julianDayToDate } from './kepler';
+import { BUNDLED_TRAJECTORIES } from './spacecraftData';
+import { ValidationError } from './errors';
+import { safeParseFloat } from './validation';
+
+const SECONDS_PER_DAY = 86_400;
+
+/** Most samples read from one trajectory file */
+export const MAX_TRAJECTORY_SAMPLES = 50_000;
+
+/** Most spacecraft kept at once, bundled and imported */
+export const MAX_SPACECRAFT = 50;
+
+/** Most points in a drawn trajectory path */
+const MAX_PATH_POINTS = 4000;
+
+/** Points drawn per sample interval when the table is sparse */
+const PATH_SUBDIVISIONS = 12;
+
+export type SpacecraftSource = 'bundled' | 'imported';
+export type TrajectoryFormat = 'horizons' | 'csv';
+
+/** Reference plane of a table's vectors */
+type TrajectoryFrame = 'ecliptic' | 'equatorial';
+
+/** Units of a table's vectors: position unit, then time unit for velocities */
+type TrajectoryUnits = 'AU-D' | 'KM-S' | 'KM-D';
+
+export interface SpacecraftMission {
+  agency?: string;
+  /** ISO date, YYYY-MM-DD */
+  launchDate?: string;
+  status?: string;
+  /** Bodies the mission flew past or studies */
+  targets?: readonly string[];
+  description?: string;
+}
+
+/**
+ * Samples of a heliocentric trajectory in J2000 equatorial coordinates, the
+ * same frame as Astronomy.HelioVector
+ */
+export interface SpacecraftTrajectory {
+  /** Sample times, Julian days, strictly increasing */
+  jd: Float64Array;
+  /** Positions, AU, [x, y, z] per sample */
+  position: Float64Array;
+  /** Velocities, AU/day, [vx, vy, vz] per sample */
+  velocity: Float64Array;
+}
+
+export interface Spacecraft {
+  /** Unique key; also used in share URLs */
+  id: string;
+  name: string;
+  source: SpacecraftSource;
+  mission: SpacecraftMission;
+  trajectory: SpacecraftTrajectory;
+}
+
+export interface ParsedTrajectory {
+  /** Craft name from the file, when it has one (Horizons tables do) */
+  name: string | null;
+  trajectory: SpacecraftTrajectory;
+}
+
+export interface TrajectoryPath {
+  /** Time of each path point, Julian days */
+  jd: Float64Array;
+  /** Scene [x, y, z] per path point */
+  positions: Float32Array;
+}
+
+export interface SpacecraftDetails {
+  /** Live distance from the Sun, AU */
+  distanceAu: number;
+  /** Live distance from Earth, AU */
+  earthDistanceAu: number;
+  /** Heliocentric speed, km/s */
+  velocity: number;
+  /** One-way light time to Earth, seconds */
+  lightTimeSeconds: number;
+}
+
+interface RawSample {
+  jd: number;
+  position: [number, number, number];
+  velocity: [number, number, number] | null;
+}
+
+function parseField(value: string | undefined, field: string, line: number): number {
+  return safeParseFloat(value ?? '', `${field} on line ${line}`);
+}
+
+/**
+ * Sort, convert and validate raw samples into an equatorial AU trajectory
+ */
+function buildTrajectory(samples: RawSample[], frame: TrajectoryFrame, units: TrajectoryUnits): SpacecraftTrajectory {
+  if (samples.length < 2) {
+    throw new ValidationError('A trajectory needs at least two samples', {
+      field: 'samples',
+      value: samples.length,
+    });
+  }
+  if (samples.length > MAX_TRAJECTORY_SAMPLES) {
+    throw new ValidationError(`A trajectory can have at most ${MAX_TRAJECTORY_SAMPLES} samples`, {
+      field: 'samples',
+      value: samples.length,
+    });
+  }
+
+  const sorted = [...samples].sort((a, b) => a.jd - b.jd);
+  const unique = sorted.filter((sample, i) => i === 0 || sample.jd > sorted[i - 1].jd);
+  if (unique.length < 2) {
+    throw new ValidationError('A trajectory needs samples at two or more different times', { field: 'samples' });
+  }
+
+  const distanceScale = units === 'AU-D' ? 1 : 1 / Astronomy.KM_PER_AU;
+  const speedScale = units === 'KM-S' ? SECONDS_PER_DAY / Astronomy.KM_PER_AU : distanceScale;
+  const convert = (v: readonly number[], scale: number): [number, number, number] =>
+    frame === 'ecliptic'
+      ? eclipticToEquatorial(v[0] * scale, v[1] * scale, v[2] * scale)
+      : [v[0] * scale, v[1] * scale, v[2] * scale];
+
+  const count = unique.length;
+  const jd = new Float64Array(count);
+  const position = new Float64Array(count * 3);
+  const velocity = new Float64Array(count * 3);
+
+  unique.forEach((sample, i) => {
+    jd[i] = sample.jd;
+    position.set(convert(sample.position, distanceScale), i * 3);
+  });
+
+  if (unique.every((sample) => sample.velocity)) {
+    unique.forEach((sample, i) => velocity.set(convert(sample.velocity!, speedScale), i * 3));
+  } else {
+    estimateVelocities(jd, position, velocity);
+  }
+
+  return { jd, position, velocity };
+}
+
+/**
+ * Fill `velocity` from positions alone: the three-point derivative for
+ * unevenly spaced samples inside the table, one-sided at its ends
+ */
+function estimateVelocities(jd: Float64Array, position: Float64Array, velocity: Float64Array): void {
+  const count = jd.length;
+  for (let i = 0; i < count; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      if (i === 0 || i === count - 1) {
+        const a = i === 0 ? 0 : i - 1;
+        velocity[i * 3 + axis] = (position[(a + 1) * 3 + axis] - position[a * 3 + axis]) / (jd[a + 1] - jd[a]);
+        continue;
+      }
+      const h0 = jd[i] - jd[i - 1];
+      const h1 = jd[i + 1] - jd[i];
+      velocity[i * 3 + axis] =
+        (-h1 / (h0 * (h0 + h1))) * position[(i - 1) * 3 + axis] +
+        ((h1 - h0) / (h0 * h1)) * position[i * 3 + axis] +
+        (h0 / (h1 * (h0 + h1))) * position[(i + 1) * 3 + axis];
+    }
+  }
+}
+
+/**
+ * Parse a CSV time: a Julian date, or an ISO 8601 date or date-time (UTC
+ * unless it names a zone)
+ */
+function parseTime(value: string, line: number): number {
+  const text = value.trim();
+  if (/^[-+]?\d+(\.\d+)?$/.test(text)) return parseField(text, 'time', line);
+
+  // Date-times without a zone would otherwise parse as local time
+  let iso = text.replace(' ', 'T');
+  if (/T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(iso)) iso += 'Z';
+  const ms = Date.parse(iso);
+  if (Number.isNaN(ms)) {
+    throw new ValidationError(`time on line ${line} must be a Julian date or an ISO 8601 date`, {
+      field: 'time',
+      value,
+    });
+  }
+  return dateToJulianDay(new Date(ms));
+}
+
+/**
+ * Parse a JPL Horizons vector table, in either its text or CSV layout. Units,
+ * reference plane and center come from the header; the center must be the Sun
+ * or the solar system barycenter (which stays within 0.01 AU of it). Horizons
+ * tabulates in TDB, about a minute from UTC, which is ignored here.
+ */
+export function parseHorizonsVectors(text: string): ParsedTrajectory {
+  const start = text.indexOf('$$SOE');
+  const end = text.indexOf('$$EOE');
+  if (start < 0 || end < start) {
+    throw new ValidationError('Not a Horizons vector table: $$SOE/$$EOE markers not found', { field: 'format' });
+  }
+
+  const header = text.slice(0, start);
+  const center = header.match(/Center body name\s*:\s*(.+?)\s*\((-?\d+)\)/);
+  if (center && center[2] !== '10' && center[2] !== '0') {
+    throw new ValidationError(`Trajectory must be centered on the Sun, not ${center[1]}`, {
+      field: 'center',
+      value: center[1],
+    });
+  }
+
+  const unitsMatch = header.match(/Output units\s*:\s*(AU-D|KM-S|KM-D)/i);
+  const units = (unitsMatch ? unitsMatch[1].toUpperCase() : 'KM-S') as TrajectoryUnits;
+  const frame: TrajectoryFrame =
+    /Reference plane\s*:\s*FRAME/i.test(header) || /Earth Mean Equator/i.test(header) ? 'equatorial' : 'ecliptic';
+  const target = header.match(/Target body name\s*:\s*(.+?)\s*\(/);
+
+  // Line numbers count from the top of the file
+  const firstLine = header.split('\n').length;
+  const lines = text.slice(start, end).split(/\r?\n/);
+  const samples: RawSample[] = [];
+  let current: { jd: number; line: number; values: Record<string, number> } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const { values, line } = current;
+    for (const key of ['X', 'Y', 'Z']) {
+      if (values[key] === undefined) {
+        throw new ValidationError(`${key} missing for the sample on line ${line}`, { field: key });
+      }
+    }
+    const hasVelocity = values.VX !== undefined && values.VY !== undefined && values.VZ !== undefined;
+    samples.push({
+      jd: current.jd,
+      position: [values.X, values.Y, values.Z],
+      velocity: hasVelocity ? [values.VX, values.VY, values.VZ] : null,
+    });
+    current = null;
+  };
+
+  for (let index = 1; index < lines.length; index++) {
+    const line = lines[index];
+    const lineNumber = firstLine + index;
+    if (!line.trim()) continue;
+
+    if (line.includes(',')) {
+      // CSV layout: JDTDB, calendar date, X, Y, Z[, VX, VY, VZ[, LT, RG, RR]]
+      const fields = line.split(',').map((field) => field.trim());
+      const hasVelocity = fields.length >= 8 && fields[5] !== '';
+      samples.push({
+        jd: parseField(fields[0], 'JDTDB', lineNumber),
+        position: [
+          parseField(fields[2], 'X', lineNumber),
+          parseField(fields[3], 'Y', lineNumber),
+          parseField(fields[4], 'Z', lineNumber),
+        ],
+        velocity: hasVelocity
+          ? [
+              parseField(fields[5], 'VX', lineNumber),
+              parseField(fields[6], 'VY', lineNumber),
+              parseField(fields[7], 'VZ', lineNumber),
+            ]
+          : null,
+      });
+      continue;
+    }
+
+    // Text layout: "2458849.500000000 = A.D. 2020-Jan-01 ..." then "X = ..." lines
+    const epoch = line.match(/^\s*(\d+(?:\.\d+)?)\s*=/);
+    if (epoch) {
+      flush();
+      current = { jd: parseField(epoch[1], 'JDTDB', lineNumber), line: lineNumber, values: {} };
+      continue;
+    }
+
+    if (!current) continue;
+    for (const [, key, value] of line.matchAll(/\b(VX|VY|VZ|X|Y|Z)\s*=\s*(\S+)/g)) {
+      current.values[key] = parseField(value, key, lineNumber);
+    }
+  }
+  flush();
+
+  return { name: target ? target[1] : null, trajectory: buildTrajectory(samples, frame, units) };
+}
+
+const CSV_COLUMNS = ['time', 'x', 'y', 'z', 'vx', 'vy', 'vz'] as const;
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const CSV_ALIASES: Record<string, CsvColumn> = {
+  time: 'time',
+  date: 'time',
+  t: 'time',
+  jd: 'time',
+  epoch: 'time',
+  utc: 'time',
+  x: 'x',
+  y: 'y',
+  z: 'z',
+  vx: 'vx',
+  vy: 'vy',
+  vz: 'vz',
+};
+
+/**
+ * Parse a CSV trajectory: time (Julian date or ISO 8601), then heliocentric
+ * J2000 ecliptic x, y, z and optionally vx, vy, vz. Values are in AU and
+ * AU/day unless the header marks them as km (velocities then in km/s).
+ * Without a header the columns are taken in that order. Lines starting with
+ * # are comments.
+ */
+export function parseTrajectoryCsv(text: string): ParsedTrajectory {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: index + 1, fields: line.split(',').map((field) => field.trim()) }))
+    .filter(({ fields }) => fields.join('') !== '' && !fields[0].startsWith('#'));
+
+  if (rows.length === 0) {
+    throw new ValidationError('Trajectory file is empty', { field: 'samples' });
+  }
+
+  let columns: Partial<Record<CsvColumn, number>> = { time: 0, x: 1, y: 2, z: 3, vx: 4, vy: 5, vz: 6 };
+  let units: TrajectoryUnits = 'AU-D';
+
+  // A header row is one whose first field is not a time
+  const first = rows[0];
+  if (!/^[-+\d]/.test(first.fields[0])) {
+    columns = {};
+    first.fields.forEach((field, index) => {
+      const name = field.toLowerCase().replace(/[([].*$/, '').replace(/_?(km|au)(\/?_?[sd])?$/, '').trim();
+      const column = CSV_ALIASES[name];
+      if (column && columns[column] === undefined) columns[column] = index;
+      if (/\bkm\b|_km/i.test(field)) units = 'KM-S';
+    });
+    for (const column of ['time', 'x', 'y', 'z'] as const) {
+      if (columns[column] === undefined) {
+        throw new ValidationError(`Trajectory CSV header has no ${column} column`, { field: column });
+      }
+    }
+    rows.shift();
+  }
+
+  const hasVelocity = (['vx', 'vy', 'vz'] as const).every((column) => columns[column] !== undefined);
+  const samples = rows.map(({ line, fields }): RawSample => {
+    const read = (column: CsvColumn) => parseField(fields[columns[column]!], column, line);
+    const velocity =
+      hasVelocity && fields[columns.vx!] ? ([read('vx'), read('vy'), read('vz')] as [number, number, number]) : null;
+    return {
+      jd: parseTime(fields[columns.time!] ?? '', line),
+      position: [read('x'), read('y'), read('z')],
+      velocity,
+    };
+  });
+
+  return { name: null, trajectory: buildTrajectory(samples, 'ecliptic', units) };
+}
+
+export function detectTrajectoryFormat(text: string): TrajectoryFormat {
+  return text.includes('$$SOE') ? 'horizons' : 'csv';
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Read an imported trajectory file (Horizons or CSV) as a spacecraft. CSV
+ * files carry no name, so `fallbackName` (usually the file name) is used.
+ */
+export function parseTrajectoryFile(text: string, fallbackName: string): Spacecraft {
+  const parsed = detectTrajectoryFormat(text) === 'horizons' ? parseHorizonsVectors(text) : parseTrajectoryCsv(text);
+  const name = parsed.name || fallbackName.trim() || 'Imported spacecraft';
+  const id = slugify(name) || 'spacecraft';
+
+  return { id, name, source: 'imported', mission: {}, trajectory: parsed.trajectory };
+}
+
+/**
+ * Spacecraft shipped with the app (see spacecraftData.ts)
+ */
+export const BUNDLED_SPACECRAFT: readonly Spacecraft[] = Object.freeze(
+  BUNDLED_TRAJECTORIES.map(
+    ({ id, name, mission, csv }): Spacecraft => ({
+      id,
+      name,
+      source: 'bundled',
+      mission,
+      trajectory: parseTrajectoryCsv(csv).trajectory,
+    })
+  )
+);
+
+/**
+ * Add spacecraft to a set, replacing any with the same id, up to MAX_SPACECRAFT
+ */
+export function mergeSpacecraft(current: readonly Spacecraft[], incoming: readonly Spacecraft[]): Spacecraft[] {
+  const merged = [...current];
+  for (const craft of incoming) {
+    const index = merged.findIndex((existing) => existing.id === craft.id);
+    if (index >= 0) merged[index] = craft;
+    else if (merged.length < MAX_SPACECRAFT) merged.push(craft);
+  }
+  return merged;
+}
+
+export function getTrajectoryRange(trajectory: SpacecraftTrajectory): { start: Date; end: Date } {
+  return {
+    start: julianDayToDate(trajectory.jd[0]),
+    end: julianDayToDate(trajectory.jd[trajectory.jd.length - 1]),
+  };
+}
+
+/**
+ * Index of the sample interval containing `jd`: the last sample at or before
+ * it, or -1 outside the trajectory
+ */
+function findInterval(jd: Float64Array, time: number): number {
+  const last = jd.length - 1;
+  if (!(time >= jd[0] && time <= jd[last])) return -1;
+  if (time === jd[last]) return last - 1;
+
+  let lo = 0;
+  let hi = last;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (jd[mid] <= time) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Cubic Hermite interpolation of one sample interval at fraction s in [0, 1]
+ */
+function hermite(
+  trajectory: SpacecraftTrajectory,
+  index: number,
+  s: number,
+  target: Float64Array | Float32Array,
+  offset: number,
+  scale = 1
+): void {
+  const { jd, position, velocity } = trajectory;
+  const h = jd[index + 1] - jd[index];
+  const s2 = s * s;
+  const s3 = s2 * s;
+  const h00 = 2 * s3 - 3 * s2 + 1;
+  const h10 = (s3 - 2 * s2 + s) * h;
+  const h01 = -2 * s3 + 3 * s2;
+  const h11 = (s3 - s2) * h;
+
+  const p0 = index * 3;
+  const p1 = p0 + 3;
+  for (let axis = 0; axis < 3; axis++) {
+    target[offset + axis] =
+      (h00 * position[p0 + axis] +
+        h10 * velocity[p0 + axis] +
+        h01 * position[p1 + axis] +
+        h11 * velocity[p1 + axis]) *
+      scale;
+  }
+}
+
+/**
+ * Heliocentric position (AU) and velocity (AU/day) at a date, J2000
+ * equatorial, or null outside the trajectory's time span
+ */
+export function interpolateTrajectory(trajectory: SpacecraftTrajectory, date: Date): Astronomy.StateVector | null {
+  const time = dateToJulianDay(date);
+  const index = findInterval(trajectory.jd, time);
+  if (index < 0) return null;
+
+  const { jd, position, velocity } = trajectory;
+  const h = jd[index + 1] - jd[index];
+  const s = (time - jd[index]) / h;
+  const point = new Float64Array(3);
+  hermite(trajectory, index, s, point, 0);
+
+  // Derivative of the Hermite basis, per day
+  const s2 = s * s;
+  const d00 = (6 * s2 - 6 * s) / h;
+  const d10 = 3 * s2 - 4 * s + 1;
+  const d01 = (-6 * s2 + 6 * s) / h;
+  const d11 = 3 * s2 - 2 * s;
+  const p0 = index * 3;
+  const p1 = p0 + 3;
+  const [vx, vy, vz] = [0, 1, 2].map(
+    (axis) =>
+      d00 * position[p0 + axis] +
+      d10 * velocity[p0 + axis] +
+      d01 * position[p1 + axis] +
+      d11 * velocity[p1 + axis]
+  );
+
+  return new Astronomy.StateVector(point[0], point[1], point[2], vx, vy, vz, new Astronomy.AstroTime(date));
+}
+
+/**
+ * Scene position of a spacecraft (Y-up, as computeSmallBodyPositions), or
+ * null when the date is outside its trajectory
+ */
+export function getSpacecraftScenePosition(craft: Spacecraft, date: Date): [number, number, number] | null {
+  const state = interpolateTrajectory(craft.trajectory, date);
+  if (!state) return null;
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR;
+  return [state.x * scale, state.z * scale, -state.y * scale];
+}
+
+/**
+ * Points along a trajectory for drawing, in scene coordinates. Sparse tables
+ * are filled in along the Hermite curve; dense ones are thinned to fit
+ * MAX_PATH_POINTS.
+ */
+export function computeTrajectoryPath(trajectory: SpacecraftTrajectory, maxPoints = MAX_PATH_POINTS): TrajectoryPath {
+  const intervals = trajectory.jd.length - 1;
+  const subdivisions = Math.max(1, Math.min(PATH_SUBDIVISIONS, Math.floor((maxPoints - 1) / intervals)));
+  const stride = Math.max(1, Math.ceil(intervals / (maxPoints - 1)));
+
+  const starts: number[] = [];
+  for (let i = 0; i < intervals; i += stride) starts.push(i);
+
+  const count = starts.length * subdivisions + 1;
+  const jd = new Float64Array(count);
+  const positions = new Float32Array(count * 3);
+  const scratch = new Float64Array(3);
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR;
+
+  const write = (point: number, time: number) => {
+    jd[point] = time;
+    positions[point * 3] = scratch[0] * scale;
+    positions[point * 3 + 1] = scratch[2] * scale;
+    positions[point * 3 + 2] = -scratch[1] * scale;
+  };
+
+  let point = 0;
+  for (const index of starts) {
+    const h = trajectory.jd[index + 1] - trajectory.jd[index];
+    for (let k = 0; k < subdivisions; k++) {
+      const s = k / subdivisions;
+      hermite(trajectory, index, s, scratch, 0);
+      write(point++, trajectory.jd[index] + s * h);
+    }
+  }
+  scratch.set(trajectory.position.subarray(intervals * 3, intervals * 3 + 3));
+  write(point++, trajectory.jd[intervals]);
+
+  return { jd: jd.subarray(0, point), positions: positions.subarray(0, point * 3) };
+}
+
+/**
+ * Number of path points at or before a date, for drawing the flown part of a
+ * trajectory differently from the part still to come
+ */
+export function countPathPointsBefore(path: TrajectoryPath, date: Date): number {
+  const time = dateToJulianDay(date);
+  let lo = 0;
+  let hi = path.jd.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (path.jd[mid] <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Live distances and speed of a spacecraft, or null outside its trajectory
+ */
+export function describeSpacecraft(craft: Spacecraft, date: Date): SpacecraftDetails | null {
+  const state = interpolateTrajectory(craft.trajectory, date);
+  if (!state) return null;
+
+  const earth = getCachedHelioVector('Earth', date);
+  const earthDistanceAu = Math.hypot(state.x - earth.x, state.y - earth.y, state.z - earth.z);
+
+  return {
+    distanceAu: Math.hypot(state.x, state.y, state.z),
+    earthDistanceAu,
+    velocity: (Math.hypot(state.vx, state.vy, state.vz) * Astronomy.KM_PER_AU) / SECONDS_PER_DAY,
+    lightTimeSeconds: (earthDistanceAu / Astronomy.C_AUDAY) * SECONDS_PER_DAY,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Bundled Spacecraft Trajectories
+ *
+ * Offline trajectory tables for the spacecraft shipped with the app, in the
+ * CSV import format (see spacecraft.ts): UTC time, then heliocentric J2000
+ * ecliptic position (AU) and velocity (AU/day).
+ *
+ * These are coarse reconstructions rather than Horizons output. Each leg
+ * between flybys is the two-body transfer arc joining the planets' positions
+ * on the encounter dates, and the cruise after the last flyby is aimed at the
+ * craft's published direction and distance, which keeps them within about an
+ * AU of the real craft. Parker Solar Probe follows its final orbit from
+ * approximate elements. Import a Horizons vector table for anything more.
+ */
+
+import type { SpacecraftMission } from './spacecraft';
+
+export interface BundledTrajectory {
+  id: string;
+  name: string;
+  mission: SpacecraftMission;
+  csv: string;
+}
+
+const HEADER = 'time,x,y,z,vx,vy,vz';
+
+export const BUNDLED_TRAJECTORIES: readonly BundledTrajectory[] = Object.freeze([
+  {
+    id: 'voyager-1',
+    name: 'Voyager 1',
+    mission: {
+      agency: 'NASA / JPL',
+      launchDate: '1977-09-05',
+      status: 'In interstellar space since August 2012',
+      targets: ['Jupiter', 'Saturn'],
+      description: 'Flew past Jupiter and Saturn, then left the heliosphere; the most distant human-made object.',
+    },
+    csv: [
+      HEADER,
+      '1977-09-05T00:00,0.962254,-0.300872,-0.000010,0.00686909,0.02194711,0.00041377',
+      '1977-11-12T06:00,0.869001,1.125006,0.023980,-0.00703791,0.01756928,0.00026403',
+      '1978-01-19T12:00,0.271622,2.093766,0.037417,-0.00959306,0.01141213,0.00014459',
+      '1978-03-28T18:00,-0.387603,2.745137,0.045071,-0.00957377,0.00798731,0.00008587',
+      '1978-06-05T00:00,-1.025615,3.213641,0.049698,-0.00909510,0.00589206,0.00005245',
+      '1978-08-12T06:00,-1.627658,3.564506,0.052497,-0.00854634,0.00447151,0.00003099',
+      '1978-10-19T12:00,-2.192624,3.832648,0.054074,-0.00801483,0.00343543,0.00001604',
+      '1978-12-26T18:00,-2.722524,4.038859,0.054776,-0.00751981,0.00263948,0.00000503',
+      '1979-03-04T00:00,-3.212875,4.194560,0.054821,-0.00706904,0.00201256,-0.00000332',
+      '1979-03-05T00:00,-3.219941,4.196568,0.054818,-0.01212763,-0.00612406,0.00058909',
+      '1979-05-05T19:12,-3.956637,3.803068,0.090978,-0.01170703,-0.00659421,0.00058057',
+      '1979-07-06T14:24,-4.666457,3.383573,0.126522,-0.01126323,-0.00696537,0.00056940',
+      '1979-09-06T09:36,-5.348880,2.944065,0.161326,-0.01082436,-0.00724374,0.00055681',
+      '1979-11-07T04:48,-6.004844,2.489871,0.195334,-0.01040928,-0.00744329,0.00054378',
+      '1980-01-08T00:00,-6.636169,2.025365,0.228543,-0.01002803,-0.00758015,0.00053101',
+      '1980-03-09T19:12,-7.245082,1.553946,0.260981,-0.00968418,-0.00766932,0.00051889',
+      '1980-05-10T14:24,-7.833897,1.078161,0.292696,-0.00937732,-0.00772327,0.00050763',
+      '1980-07-11T09:36,-8.404828,0.599874,0.323743,-0.00910488,-0.00775171,0.00049729',
+      '1980-09-11T04:48,-8.959898,0.120424,0.354180,-0.00886341,-0.00776194,0.00048787',
+      '1980-11-11T00:00,-9.492257,-0.351479,0.383582,-0.00865254,-0.00775945,0.00047944',
+      '1980-11-12T00:00,-9.500908,-0.359238,0.384062,-0.00383662,-0.00957709,0.00689820',
+      '1983-04-28T08:24,-12.036925,-8.730162,6.402530,-0.00218614,-0.00903040,0.00648525',
+      '1985-10-11T16:48,-13.766576,-16.632337,12.075082,-0.00175062,-0.00862450,0.00618923',
+      '1988-03-27T01:12,-15.255139,-24.262409,17.549875,-0.00158895,-0.00840140,0.00602757',
+      '1990-09-10T09:36,-16.642112,-31.735728,22.911243,-0.00151040,-0.00826497,0.00592898',
+      '1993-02-23T18:00,-17.975653,-39.108824,28.200244,-0.00146547,-0.00817359,0.00586305',
+      '1995-08-10T02:24,-19.276996,-46.412572,33.439236,-0.00143689,-0.00810824,0.00581595',
+      '1998-01-23T10:48,-20.557098,-53.665524,38.641628,-0.00141732,-0.00805921,0.00578064',
+      '2000-07-08T19:12,-21.822265,-60.879669,43.816077,-0.00140318,-0.00802106,0.00575318',
+      '2002-12-23T03:36,-23.076418,-68.063195,48.968489,-0.00139253,-0.00799054,0.00573121',
+      '2005-06-07T12:00,-24.322147,-75.221939,54.103070,-0.00138426,-0.00796555,0.00571324',
+      '2007-11-21T20:24,-25.561242,-82.360210,59.222926,-0.00137766,-0.00794472,0.00569825',
+      '2010-05-07T04:48,-26.794991,-89.481281,64.330414,-0.00137228,-0.00792708,0.00568557',
+      '2012-10-20T13:12,-28.024345,-96.587693,69.427363,-0.00136782,-0.00791195,0.00567470',
+      '2015-04-05T21:36,-29.250026,-103.681463,74.515225,-0.00136407,-0.00789883,0.00566527',
+      '2017-09-19T06:00,-30.472597,-110.764217,79.595170,-0.00136086,-0.00788735,0.00565701',
+      '2020-03-04T14:24,-31.692501,-117.837284,84.668154,-0.00135810,-0.00787720,0.00564972',
+      '2022-08-18T22:48,-32.910095,-124.901765,89.734969,-0.00135570,-0.00786818,0.00564324',
+      '2025-02-01T07:12,-34.125668,-131.958585,94.796279,-0.00135359,-0.00786010,0.00563744',
+      '2027-07-18T15:36,-35.339462,-139.008525,99.852647,-0.00135173,-0.00785282,0.00563221',
+      '2030-01-01T00:00,-36.551675,-146.052251,104.904552,-0.00135007,-0.00784623,0.00562748',
+    ].join('\n'),
+  },
+  {
+    id: 'voyager-2',
+    name: 'Voyager 2',
+    mission: {
+      agency: 'NASA / JPL',
+      launchDate: '1977-08-20',
+      status: 'In interstellar space since November 2018',
+      targets: ['Jupiter', 'Saturn', 'Uranus', 'Neptune'],
+      description: 'The only spacecraft to have visited Uranus and Neptune.',
+    },
+    csv: [
+      HEADER,
+      '1977-08-20T00:00,0.850361,-0.548330,-0.000023,0.01034848,0.01986110,0.00182450',
+      '1977-11-14T00:00,0.838523,1.186691,0.118772,-0.00738843,0.01645239,0.00080401',
+      '1978-02-08T00:00,0.055875,2.257429,0.157723,-0.00976566,0.00927429,0.00020501',
+      '1978-05-05T00:00,-0.770875,2.880699,0.163946,-0.00932628,0.00558162,-0.00002947',
+      '1978-07-30T00:00,-1.538886,3.259073,0.155930,-0.00851937,0.00338020,-0.00014510',
+      '1978-10-24T00:00,-2.235977,3.482320,0.140389,-0.00769772,0.00189735,-0.00021067',
+      '1979-01-18T00:00,-2.864258,3.596755,0.120415,-0.00692227,0.00081494,-0.00025074',
+      '1979-04-14T00:00,-3.428083,3.629530,0.097681,-0.00619802,-0.00001972,-0.00027604',
+      '1979-07-08T00:00,-3.926066,3.598758,0.073495,-0.00552574,-0.00068203,-0.00029180',
+      '1979-07-09T00:00,-3.931588,3.598073,0.073203,-0.00959759,-0.00605299,0.00050612',
+      '1979-10-14T06:00,-4.828090,2.979746,0.121647,-0.00883737,-0.00662738,0.00048929',
+      '1980-01-19T12:00,-5.651143,2.315472,0.168254,-0.00809711,-0.00700426,0.00046887',
+      '1980-04-25T18:00,-6.405064,1.622400,0.212813,-0.00742028,-0.00722741,0.00044752',
+      '1980-08-01T00:00,-7.096988,0.913281,0.255320,-0.00682315,-0.00734104,0.00042685',
+      '1980-11-06T06:00,-7.734762,0.196952,0.295884,-0.00630586,-0.00738080,0.00040765',
+      '1981-02-11T12:00,-8.325830,-0.520738,0.334665,-0.00586108,-0.00737257,0.00039020',
+      '1981-05-19T18:00,-8.876777,-1.236039,0.371836,-0.00547907,-0.00733409,0.00037453',
+      '1981-08-24T00:00,-9.388077,-1.939347,0.407203,-0.00515328,-0.00727782,0.00036064',
+      '1981-08-25T00:00,-9.393229,-1.946624,0.407564,0.00208755,-0.01152483,-0.00021082',
+      '1982-02-02T07:12,-9.016655,-3.794582,0.371857,0.00257366,-0.01137374,-0.00023141',
+      '1982-07-13T14:24,-8.566510,-5.611846,0.333113,0.00299463,-0.01114966,-0.00024830',
+      '1982-12-21T21:36,-8.055151,-7.389429,0.291984,0.00333146,-0.01088762,-0.00026098',
+      '1983-06-01T04:48,-7.496232,-9.123856,0.249127,0.00358589,-0.01061892,-0.00026985',
+      '1983-11-09T12:00,-6.902070,-10.815843,0.205093,0.00377106,-0.01036382,-0.00027570',
+      '1984-04-18T19:12,-6.282550,-12.468495,0.160303,0.00390291,-0.01013213,-0.00027937',
+      '1984-09-27T02:24,-5.645090,-14.085888,0.115051,0.00399562,-0.00992672,-0.00028152',
+      '1985-03-07T09:36,-4.995067,-15.672224,0.069540,0.00406028,-0.00974671,-0.00028265',
+      '1985-08-15T16:48,-4.336311,-17.231410,0.023905,0.00410503,-0.00958962,-0.00028310',
+      '1986-01-23T00:00,-3.675676,-18.757457,-0.021483,0.00413552,-0.00945330,-0.00028312',
+      '1986-01-24T00:00,-3.671540,-18.766909,-0.021766,0.00736758,-0.00867333,0.00037906',
+      '1986-07-06T15:00,-2.464269,-20.175828,0.040260,0.00738711,-0.00855025,0.00037901',
+      '1986-12-17T06:00,-1.254632,-21.565699,0.102249,0.00739701,-0.00844038,0.00037864',
+      '1987-05-29T21:00,-0.043977,-22.938607,0.164159,0.00739994,-0.00834269,0.00037806',
+      '1987-11-09T12:00,1.166730,-24.296441,0.225962,0.00739794,-0.00825593,0.00037735',
+      '1988-04-21T03:00,2.376813,-25.640885,0.287641,0.00739252,-0.00817882,0.00037656',
+      '1988-10-01T18:00,3.585806,-26.973420,0.349187,0.00738478,-0.00811016,0.00037573',
+      '1989-03-14T09:00,4.793398,-28.295336,0.410597,0.00737551,-0.00804886,0.00037488',
+      '1989-08-24T00:00,5.992026,-29.599765,0.471495,0.00736537,-0.00799429,0.00037405',
+      '1989-08-25T00:00,5.999391,-29.607759,0.471869,0.00249592,-0.00662686,-0.00655898',
+      '1992-03-03T04:30,8.273583,-35.594766,-5.565151,0.00244406,-0.00638832,-0.00654241',
+      '1994-09-10T09:00,10.506384,-41.401829,-11.576550,0.00240553,-0.00622972,-0.00650798',
+      '1997-03-19T13:30,12.708479,-47.087138,-17.555012,0.00237682,-0.00612002,-0.00647227',
+      '1999-09-26T18:00,14.887472,-52.686509,-23.501963,0.00235496,-0.00604086,-0.00643990',
+      '2002-04-04T22:30,17.048663,-58.222712,-29.421011,0.00233790,-0.00598153,-0.00641170',
+      '2004-10-12T03:00,19.195804,-63.710842,-35.315918,0.00232427,-0.00593566,-0.00638740',
+      '2007-04-21T07:30,21.331612,-69.161307,-41.190037,0.00231317,-0.00589923,-0.00636647',
+      '2009-10-28T12:00,23.458105,-74.581541,-47.046206,0.00230396,-0.00586967,-0.00634835',
+      '2012-05-06T16:30,25.576817,-79.977015,-52.886793,0.00229621,-0.00584524,-0.00633256',
+      '2014-11-13T21:00,27.688936,-85.351861,-58.713762,0.00228960,-0.00582472,-0.00631873',
+      '2017-05-23T01:30,29.795401,-90.709270,-64.528752,0.00228390,-0.00580726,-0.00630651',
+      '2019-11-30T06:00,31.896965,-96.051753,-70.333137,0.00227894,-0.00579223,-0.00629566',
+      '2022-06-08T10:30,33.994243,-101.381323,-76.128073,0.00227457,-0.00577915,-0.00628597',
+      '2024-12-15T15:00,36.087738,-106.699612,-81.914545,0.00227071,-0.00576768,-0.00627726',
+      '2027-06-24T19:30,38.177874,-112.007964,-87.693393,0.00226727,-0.00575754,-0.00626939',
+      '2030-01-01T00:00,40.265005,-117.307499,-93.465342,0.00226418,-0.00574851,-0.00626226',
+    ].join('\n'),
+  },
+  {
+    id: 'new-horizons',
+    name: 'New Horizons',
+    mission: {
+      agency: 'NASA / APL',
+      launchDate: '2006-01-19',
+      status: 'Exploring the Kuiper belt',
+      targets: ['Jupiter', 'Pluto', 'Arrokoth'],
+      description: 'First flyby of Pluto, in July 2015, and of the Kuiper belt object Arrokoth, on New Year’s Day 2019.',
+    },
+    csv: [
+      HEADER,
+      '2006-01-19T00:00,-0.472207,0.863180,-0.000012,-0.02157433,-0.01211109,0.00039513',
+      '2006-03-27T12:00,-1.469326,-0.281035,0.022737,-0.00862755,-0.01821659,0.00026066',
+      '2006-06-03T00:00,-1.845036,-1.433441,0.036844,-0.00345491,-0.01587713,0.00017026',
+      '2006-08-09T12:00,-2.004203,-2.437785,0.046783,-0.00152342,-0.01399820,0.00012878',
+      '2006-10-16T00:00,-2.072180,-3.336087,0.054630,-0.00058750,-0.01269263,0.00010565',
+      '2006-12-22T12:00,-2.092347,-4.159198,0.061230,-0.00005444,-0.01174179,0.00009089',
+      '2007-02-27T00:00,-2.084163,-4.915207,0.066919,0.00027766,-0.01102443,0.00008073',
+      '2007-02-28T00:00,-2.083883,-4.926227,0.066999,0.00282925,-0.01244144,0.00041936',
+      '2007-11-09T20:00,-1.283903,-7.854838,0.169854,0.00331835,-0.01074766,0.00038929',
+      '2008-07-21T16:00,-0.423310,-10.469211,0.266200,0.00340943,-0.00985086,0.00036818',
+      '2009-04-02T12:00,0.446629,-12.903758,0.358037,0.00341105,-0.00929478,0.00035340',
+      '2009-12-13T08:00,1.313198,-15.221110,0.446644,0.00338805,-0.00891397,0.00034253',
+      '2010-08-25T04:00,2.172894,-17.455505,0.532825,0.00335870,-0.00863543,0.00033419',
+      '2011-05-07T00:00,3.024995,-19.627790,0.617115,0.00332898,-0.00842201,0.00032758',
+      '2012-01-16T20:00,3.869707,-21.751654,0.699884,0.00330089,-0.00825276,0.00032219',
+      '2012-09-27T16:00,4.707539,-23.836605,0.781403,0.00327502,-0.00811494,0.00031772',
+      '2013-06-09T12:00,5.539071,-25.889531,0.861873,0.00325144,-0.00800031,0.00031393',
+      '2014-02-19T08:00,6.364874,-27.915594,0.941449,0.00323002,-0.00790335,0.00031068',
+      '2014-11-01T04:00,7.185469,-29.918771,1.020253,0.00321054,-0.00782015,0.00030786',
+      '2015-07-13T00:00,7.998135,-31.894445,1.098079,0.00319288,-0.00774818,0.00030539',
+      '2015-07-14T00:00,8.001328,-31.902193,1.098384,0.00371059,-0.00763914,0.00015522',
+      '2016-12-23T12:00,9.953562,-35.905545,1.179268,0.00367808,-0.00751597,0.00015108',
+      '2018-06-05T00:00,11.889878,-39.851188,1.258251,0.00365022,-0.00741914,0.00014796',
+      '2019-11-15T12:00,13.812516,-43.750835,1.335779,0.00362619,-0.00734090,0.00014553',
+      '2021-04-27T00:00,15.723321,-47.612910,1.412158,0.00360533,-0.00727629,0.00014358',
+      '2022-10-07T12:00,17.623808,-51.443686,1.487608,0.00358707,-0.00722200,0.00014199',
+      '2024-03-19T00:00,19.515228,-55.247964,1.562291,0.00357096,-0.00717569,0.00014067',
+      '2025-08-29T12:00,21.398626,-59.029505,1.636330,0.00355665,-0.00713571,0.00013955',
+      '2027-02-09T00:00,23.274874,-62.791309,1.709822,0.00354386,-0.00710083,0.00013859',
+      '2028-07-21T12:00,25.144714,-66.535813,1.782843,0.00353236,-0.00707011,0.00013776',
+      '2030-01-01T00:00,27.008776,-70.265022,1.855454,0.00352197,-0.00704284,0.00013704',
+    ].join('\n'),
+  },
+  {
+    id: 'parker-solar-probe',
+    name: 'Parker Solar Probe',
+    mission: {
+      agency: 'NASA / APL',
+      launchDate: '2018-08-12',
+      status: 'Final 88-day orbit, perihelion 9.9 solar radii',
+      targets: ['Sun', 'Venus'],
+      description: 'Dives through the Sun’s outer corona; the closest and fastest any spacecraft has travelled.',
+    },
+    csv: [
+      HEADER,
+      '2024-11-07T00:00,0.557371,-0.466219,-0.038598,0.00569881,0.00428327,-0.00027095',
+      '2024-11-13T21:58,0.586415,-0.428303,-0.039759,0.00267385,0.00664896,-0.00006372',
+      '2024-11-20T17:13,0.593826,-0.375568,-0.039467,-0.00055454,0.00884524,0.00015295',
+      '2024-11-27T04:37,0.579099,-0.311609,-0.037741,-0.00409671,0.01091495,0.00038604',
+      '2024-12-03T03:36,0.543238,-0.240784,-0.034700,-0.00810257,0.01287694,0.00064447',
+      '2024-12-08T10:26,0.488686,-0.167920,-0.030550,-0.01278607,0.01471560,0.00094038',
+      '2024-12-12T22:30,0.419161,-0.097983,-0.025574,-0.01846652,0.01635092,0.00129116',
+      '2024-12-16T14:28,0.339401,-0.035738,-0.020112,-0.02563868,0.01756193,0.00172239',
+      '2024-12-19T10:20,0.254842,0.014572,-0.014535,-0.03508294,0.01778760,0.00227152',
+      '2024-12-21T11:30,0.171246,0.049520,-0.009224,-0.04797229,0.01558405,0.00298663',
+      '2024-12-22T20:39,0.094310,0.066722,-0.004541,-0.06550085,0.00714579,0.00388476',
+      '2024-12-23T17:32,0.029277,0.065008,-0.000804,-0.08508476,-0.01663016,0.00469209',
+      '2024-12-24T06:45,-0.019421,0.044493,0.001731,-0.08536642,-0.06416206,0.00405874',
+      '2024-12-24T17:24,-0.048465,0.006576,0.002892,-0.03969005,-0.09869587,0.00094586',
+      '2024-12-25T06:48,-0.055876,-0.046159,0.002600,0.00538110,-0.08583141,-0.00148422',
+      '2024-12-26T04:03,-0.041149,-0.110118,0.000874,0.02295448,-0.06115813,-0.00216305',
+      '2024-12-27T13:42,-0.005287,-0.180943,-0.002167,0.02664060,-0.04233831,-0.00211895',
+      '2024-12-29T15:30,0.049265,-0.253806,-0.006317,0.02559151,-0.02945350,-0.00188219',
+      '2025-01-01T12:04,0.118790,-0.323744,-0.011293,0.02307924,-0.02043519,-0.00161368',
+      '2025-01-05T04:45,0.198550,-0.385989,-0.016755,0.02017818,-0.01382161,-0.00135556',
+      '2025-01-09T17:32,0.283109,-0.436299,-0.022332,0.01723016,-0.00873596,-0.00111560',
+      '2025-01-15T00:59,0.366705,-0.471246,-0.027643,0.01432543,-0.00465369,-0.00089186',
+      '2025-01-21T00:29,0.443641,-0.488448,-0.032326,0.01146296,-0.00125055,-0.00067985',
+      '2025-01-27T12:15,0.508674,-0.486734,-0.036063,0.00860568,0.00168201,-0.00047457',
+      '2025-02-03T07:40,0.557371,-0.466219,-0.038598,0.00569881,0.00428327,-0.00027095',
+      '2025-02-10T05:39,0.586415,-0.428303,-0.039759,0.00267385,0.00664896,-0.00006372',
+      '2025-02-17T00:54,0.593826,-0.375568,-0.039467,-0.00055454,0.00884524,0.00015295',
+      '2025-02-23T12:18,0.579099,-0.311609,-0.037741,-0.00409671,0.01091495,0.00038604',
+      '2025-03-01T11:16,0.543238,-0.240784,-0.034700,-0.00810257,0.01287694,0.00064447',
+      '2025-03-06T18:07,0.488686,-0.167920,-0.030550,-0.01278607,0.01471560,0.00094038',
+      '2025-03-11T06:11,0.419161,-0.097983,-0.025574,-0.01846652,0.01635092,0.00129116',
+      '2025-03-14T22:08,0.339401,-0.035738,-0.020112,-0.02563868,0.01756193,0.00172239',
+      '2025-03-17T18:01,0.254842,0.014572,-0.014535,-0.03508294,0.01778760,0.00227152',
+      '2025-03-19T19:11,0.171246,0.049520,-0.009224,-0.04797229,0.01558405,0.00298663',
+      '2025-03-21T04:20,0.094310,0.066722,-0.004541,-0.06550085,0.00714579,0.00388476',
+      '2025-03-22T01:13,0.029277,0.065008,-0.000804,-0.08508476,-0.01663016,0.00469209',
+      '2025-03-22T14:25,-0.019421,0.044493,0.001731,-0.08536642,-0.06416206,0.00405874',
+      '2025-03-23T01:05,-0.048465,0.006576,0.002892,-0.03969005,-0.09869587,0.00094586',
+      '2025-03-23T14:29,-0.055876,-0.046159,0.002600,0.00538110,-0.08583141,-0.00148422',
+      '2025-03-24T11:43,-0.041149,-0.110118,0.000874,0.02295448,-0.06115813,-0.00216305',
+      '2025-03-25T21:23,-0.005287,-0.180943,-0.002167,0.02664060,-0.04233831,-0.00211895',
+      '2025-03-27T23:11,0.049265,-0.253806,-0.006317,0.02559151,-0.02945350,-0.00188219',
+      '2025-03-30T19:45,0.118790,-0.323744,-0.011293,0.02307924,-0.02043519,-0.00161368',
+      '2025-04-03T12:26,0.198550,-0.385989,-0.016755,0.02017818,-0.01382161,-0.00135556',
+      '2025-04-08T01:12,0.283109,-0.436299,-0.022332,0.01723016,-0.00873596,-0.00111560',
+      '2025-04-13T08:40,0.366705,-0.471246,-0.027643,0.01432543,-0.00465369,-0.00089186',
+      '2025-04-19T08:10,0.443641,-0.488448,-0.032326,0.01146296,-0.00125055,-0.00067985',
+      '2025-04-25T19:55,0.508674,-0.486734,-0.036063,0.00860568,0.00168201,-0.00047457',
+      '2025-05-02T15:21,0.557371,-0.466219,-0.038598,0.00569881,0.00428327,-0.00027095',
+      '2025-05-09T13:20,0.586415,-0.428303,-0.039759,0.00267385,0.00664896,-0.00006372',
+      '2025-05-16T08:35,0.593826,-0.375568,-0.039467,-0.00055454,0.00884524,0.00015295',
+      '2025-05-22T19:59,0.579099,-0.311609,-0.037741,-0.00409671,0.01091495,0.00038604',
+      '2025-05-28T18:57,0.543238,-0.240784,-0.034700,-0.00810257,0.01287694,0.00064447',
+      '2025-06-03T01:48,0.488686,-0.167920,-0.030550,-0.01278607,0.01471560,0.00094038',
+      '2025-06-07T13:52,0.419161,-0.097983,-0.025574,-0.01846652,0.01635092,0.00129116',
+      '2025-06-11T05:49,0.339401,-0.035738,-0.020112,-0.02563868,0.01756193,0.00172239',
+      '2025-06-14T01:41,0.254842,0.014572,-0.014535,-0.03508294,0.01778760,0.00227152',
+      '2025-06-16T02:52,0.171246,0.049520,-0.009224,-0.04797229,0.01558405,0.00298663',
+      '2025-06-17T12:01,0.094310,0.066722,-0.004541,-0.06550085,0.00714579,0.00388476',
+      '2025-06-18T08:54,0.029277,0.065008,-0.000804,-0.08508476,-0.01663016,0.00469209',
+      '2025-06-18T22:06,-0.019421,0.044493,0.001731,-0.08536642,-0.06416206,0.00405874',
+      '2025-06-19T08:46,-0.048465,0.006576,0.002892,-0.03969005,-0.09869587,0.00094586',
+      '2025-06-19T22:10,-0.055876,-0.046159,0.002600,0.00538110,-0.08583141,-0.00148422',
+      '2025-06-20T19:24,-0.041149,-0.110118,0.000874,0.02295448,-0.06115813,-0.00216305',
+      '2025-06-22T05:04,-0.005287,-0.180943,-0.002167,0.02664060,-0.04233831,-0.00211895',
+      '2025-06-24T06:52,0.049265,-0.253806,-0.006317,0.02559151,-0.02945350,-0.00188219',
+      '2025-06-27T03:26,0.118790,-0.323744,-0.011293,0.02307924,-0.02043519,-0.00161368',
+      '2025-06-30T20:07,0.198550,-0.385989,-0.016755,0.02017818,-0.01382161,-0.00135556',
+    ].join('\n'),
+  },
+]);
@@ -1,16 +1,26 @@
 import { create } from 'zustand';
-import * as Astronomy from 'astronomy-engine';
+import { clearAstronomyCaches, getCacheStats } from './astronomy-cache';
+import { isBodyName } from './bodies';
+import type { AstronomicalEvent } from './api-design';
+import { DEFAULT_OBSERVER, type ObserverLocation } from './observer';
+import { calculateAllPlanets, type PlanetData } from './ephemeris';
+import { getEphemerisService } from './ephemerisService';
 import {
-  calculatePlanetPositionCached,
-  calculateOrbitalVelocityCached,
-  clearAstronomyCaches,
-  getCacheStats,
-} from './astronomy-cache';
+  BRIGHT_ASTEROIDS,
+  computeSmallBodyPositions,
+  mergeSmallBodies,
+  type SmallBody,
+} from './smallBodies';
+import { BUNDLED_SPACECRAFT, mergeSpacecraft, type Spacecraft } from './spacecraft';
+import type { TransferSolution } from './transfers';
+import { DEFAULT_REFERENCE_FRAME, type ReferenceFrame } from './referenceFrames';
+import { DEFAULT_SCALE_MODE, isScaleMode, type ScaleMode, type ScaleTransition } from './scaleModes';
+import { DEFAULT_TRAIL_LENGTH_DAYS, MAX_TRAIL_LENGTH_DAYS, MIN_TRAIL_LENGTH_DAYS } from './trails';
 import {
   OrbitError,
   CalculationError,
+  ValidationError,
   reportError,
-  FALLBACK_VALUES,
 } from './errors';
 import {
   calculationLogger,
@@ -23,64 +33,80 @@ import {
   validateDate,
   validateTimeSpeed,
   validateRenderQuality,
-  isValidBody,
+  validateObserverLocation,
+  validateRange,
+  MAX_TIME_SPEED,
 } from './validation';
 
 export type RenderQuality = 'high' | 'balanced' | 'low';
 
-export interface PlanetData {
-  name: string;
-  position: [number, number, number];
-  radius: number;
-  color: string;
-  texture?: string;
-  distance: number; // AU from Sun
-  velocity: number; // km/s
-  temperature: number; // Kelvin
-  mass: number; // Earth masses
-  moons: number;
-}
+export type CameraMode = 'overview' | 'focused' | 'cinematic' | 'sky';
+
+export type { PlanetData };
 
 interface OrbitState {
   selectedPlanet: string | null;
-  timeSpeed: number; // 1 = real-time, 365 = 1 year per second
+  timeSpeed: number; // Days per second; 365 = 1 year per second, negative runs backwards
   currentDate: Date;
-  cameraMode: 'overview' | 'focused' | 'cinematic';
+  cameraMode: CameraMode;
+  observer: ObserverLocation;
+  referenceFrame: ReferenceFrame; // Body held still at the scene origin
+  scaleMode: ScaleMode;
+  scaleTransition: ScaleTransition; // Scale being drawn, blending into scaleMode
   showOrbits: boolean;
   showLabels: boolean;
+  showTrails: boolean;
+  trailLengthDays: number; // Sim days of motion each trail covers
+  trailResetCount: number; // Bumped on date jumps; trails restart when it changes
   cinematicPlaying: boolean;
   renderQuality: RenderQuality;
   planets: Map<string, PlanetData>;
+  smallBodies: readonly SmallBody[];
+  smallBodyPositions: Float32Array; // Scene [x, y, z] per small body, in smallBodies order
+  selectedSmallBody: string | null; // SmallBody id; exclusive with selectedPlanet
+  showSmallBodyOrbits: boolean;
+  spacecraft: readonly Spacecraft[];
+  selectedSpacecraft: string | null; // Spacecraft id; exclusive with the other selections
+  showSpacecraft: boolean;
+  transfer: TransferSolution | null; // Interplanetary transfer drawn in the scene
+  transferPlaying: boolean; // Sim time is flying the transfer; stops at arrival
   lastError: OrbitError | null;
   isCalculating: boolean;
 
   setSelectedPlanet: (planet: string | null) => void;
+  setSelectedSmallBody: (id: string | null) => void;
+  setSelectedSpacecraft: (id: string | null) => void;
   setTimeSpeed: (speed: number) => void;
   setCurrentDate: (date: Date) => void;
-  setCameraMode: (mode: 'overview' | 'focused' | 'cinematic') => void;
+  setCameraMode: (mode: CameraMode) => void;
+  setObserver: (location: ObserverLocation) => void;
+  setReferenceFrame: (frame: ReferenceFrame) => void;
+  setScaleMode: (mode: ScaleMode) => void;
+  setScaleTransitionProgress: (progress: number) => void;
   setRenderQuality: (quality: RenderQuality) => void;
   toggleOrbits: () => void;
   toggleLabels: () => void;
+  toggleTrails: () => void;
+  setTrailLength: (days: number) => void;
   toggleCinematic: () => void;
+  toggleSkyView: () => void;
+  toggleSmallBodyOrbits: () => void;
+  importSmallBodies: (bodies: readonly SmallBody[]) => void;
+  clearImportedSmallBodies: () => void;
+  toggleSpacecraft: () => void;
+  importSpacecraft: (craft: Spacecraft) => void;
+  clearImportedSpacecraft: () => void;
+  setTransfer: (transfer: TransferSolution | null) => void;
+  playTransfer: () => void;
+  finishTransfer: () => void;
   updatePlanetPositions: () => void;
   clearError: () => void;
   jumpToDate: (date: Date) => void;
+  jumpToEvent: (event: AstronomicalEvent) => void;
 }
 
-// Planet configuration with static data - frozen for immutability
-const PLANET_CONFIG = Object.freeze({
-  Mercury: { radius: 0.383, color: '#8C7853', distance: 0.39, mass: 0.055, moons: 0, temp: 440 },
-  Venus: { radius: 0.949, color: '#FFC649', distance: 0.72, mass: 0.815, moons: 0, temp: 737 },
-  Earth: { radius: 1.0, color: '#4A90E2', distance: 1.0, mass: 1.0, moons: 1, temp: 288 },
-  Mars: { radius: 0.532, color: '#E27B58', distance: 1.52, mass: 0.107, moons: 2, temp: 210 },
-  Jupiter: { radius: 11.21, color: '#C88B3A', distance: 5.2, mass: 317.8, moons: 95, temp: 165 },
-  Saturn: { radius: 9.45, color: '#FAD5A5', distance: 9.54, mass: 95.2, moons: 146, temp: 134 },
-  Uranus: { radius: 4.01, color: '#4FD0E7', distance: 19.19, mass: 14.5, moons: 28, temp: 76 },
-  Neptune: { radius: 3.88, color: '#4166F5', distance: 30.07, mass: 17.1, moons: 16, temp: 72 },
-} as const);
-
-// Pre-computed planet names array for iteration (avoids Object.keys on each update)
-const PLANET_NAMES = Object.keys(PLANET_CONFIG) as (keyof typeof PLANET_CONFIG)[];
+/** Wall-clock seconds a transfer takes to play from departure to arrival */
+const TRANSFER_PLAYBACK_SECONDS = 15;
 
 // Memoized initial render quality detection
 let cachedInitialQuality: RenderQuality | null = null;
@@ -122,79 +148,59 @@ function getInitialRenderQuality(): RenderQuality {
   return 'high';
 }
 
+const OBSERVER_STORAGE_KEY = 'orbit-command:observer';
+
 /**
- * Calculate position for a single planet with error handling
+ * Restore the last observer location, falling back to the default city
  */
-function safeCalculatePosition(
-  body: Astronomy.Body,
-  date: Date
-): [number, number, number] {
+function getInitialObserver(): ObserverLocation {
+  if (typeof window === 'undefined') return DEFAULT_OBSERVER;
+
   try {
-    return calculatePlanetPositionCached(body, date);
-  } catch (error) {
-    const calcError = new CalculationError(
-      `Failed to calculate position for ${body}`,
-      { body, date, cause: error as Error }
-    );
-    reportError(calcError);
-    calculationLogger.error(`Position calculation failed for ${body}`, {
-      error: (error as Error).message,
-      date: date.toISOString(),
-    });
-    return FALLBACK_VALUES.position;
+    const stored = window.localStorage.getItem(OBSERVER_STORAGE_KEY);
+    if (stored) return validateObserverLocation(JSON.parse(stored));
+  } catch {
+    // Storage access failed or data is stale, use the default
   }
+
+  return DEFAULT_OBSERVER;
 }
 
-/**
- * Calculate velocity for a single planet with error handling
- */
-function safeCalculateVelocity(body: Astronomy.Body, date: Date): number {
-  try {
-    return calculateOrbitalVelocityCached(body, date);
-  } catch (error) {
-    const calcError = new CalculationError(
-      `Failed to calculate velocity for ${body}`,
-      { body, date, cause: error as Error }
-    );
-    reportError(calcError);
-    calculationLogger.error(`Velocity calculation failed for ${body}`, {
-      error: (error as Error).message,
-      date: date.toISOString(),
-    });
-    return FALLBACK_VALUES.velocity;
-  }
+type SetOrbitState = (partial: Partial<OrbitState>) => void;
+
+// Worker request for the planets, if one is in flight
+let planetsRequest: AbortController | null = null;
+let planetsUpdateQueued = false;
+
+function cancelPlanetsRequest(): void {
+  planetsRequest?.abort();
+  planetsRequest = null;
+  planetsUpdateQueued = false;
 }
 
-/**
- * Batch update all planet positions - optimized with caching
- */
-function calculateAllPlanets(date: Date): Map<string, PlanetData> {
-  const planets = new Map<string, PlanetData>();
-
-  // Use for loop instead of forEach for better performance in hot path
-  for (let i = 0; i < PLANET_NAMES.length; i++) {
-    const name = PLANET_NAMES[i];
-    const config = PLANET_CONFIG[name];
-
-    if (!isValidBody(name)) continue;
-
-    const position = safeCalculatePosition(name, date);
-    const velocity = safeCalculateVelocity(name, date);
-
-    planets.set(name, {
-      name,
-      position,
-      radius: config.radius,
-      color: config.color,
-      distance: config.distance,
-      velocity,
-      temperature: config.temp,
-      mass: config.mass,
-      moons: config.moons,
-    });
-  }
+function applyPlanets(
+  set: SetOrbitState,
+  planets: Map<string, PlanetData>,
+  smallBodyPositions: Float32Array
+): void {
+  // Record cache stats for monitoring (main-thread caches only in worker mode)
+  const cacheStats = getCacheStats();
+  recordMetric('cache.position_size', cacheStats.positionCacheSize);
+  recordMetric('cache.velocity_size', cacheStats.velocityCacheSize);
+
+  set({ planets, smallBodyPositions, isCalculating: false, lastError: null });
+}
 
-  return planets;
+function failPlanets(set: SetOrbitState, error: unknown): void {
+  const orbitError =
+    error instanceof OrbitError
+      ? error
+      : new CalculationError('Failed to update planet positions', {
+          cause: error as Error,
+        });
+
+  reportError(orbitError);
+  set({ isCalculating: false, lastError: orbitError });
 }
 
 export const useOrbitStore = create<OrbitState>((set, get) => ({
@@ -202,21 +208,64 @@ export const useOrbitStore = create<OrbitState>((set, get) => ({
   timeSpeed: 1,
   currentDate: new Date(),
   cameraMode: 'overview',
+  observer: getInitialObserver(),
+  referenceFrame: DEFAULT_REFERENCE_FRAME,
+  scaleMode: DEFAULT_SCALE_MODE,
+  scaleTransition: { from: DEFAULT_SCALE_MODE, to: DEFAULT_SCALE_MODE, progress: 1 },
   showOrbits: true,
   showLabels: true,
+  showTrails: false,
+  trailLengthDays: DEFAULT_TRAIL_LENGTH_DAYS,
+  trailResetCount: 0,
   cinematicPlaying: false,
   renderQuality: getInitialRenderQuality(),
   planets: new Map(),
+  smallBodies: BRIGHT_ASTEROIDS,
+  smallBodyPositions: new Float32Array(0),
+  selectedSmallBody: null,
+  showSmallBodyOrbits: false,
+  spacecraft: BUNDLED_SPACECRAFT,
+  selectedSpacecraft: null,
+  showSpacecraft: true,
+  transfer: null,
+  transferPlaying: false,
   lastError: null,
   isCalculating: false,
 
   setSelectedPlanet: (planet) => {
     stateLogger.debug('Setting selected planet', { planet });
-    set({
+    set((state) => ({
       selectedPlanet: planet,
-      cameraMode: planet ? 'focused' : 'overview',
+      selectedSmallBody: null,
+      selectedSpacecraft: null,
+      // Sky view stays on the horizon and turns to face the selection
+      cameraMode: state.cameraMode === 'sky' ? 'sky' : planet ? 'focused' : 'overview',
       cinematicPlaying: false,
-    });
+    }));
+  },
+
+  setSelectedSmallBody: (id) => {
+    stateLogger.debug('Setting selected small body', { id });
+    set((state) => ({
+      selectedSmallBody: id,
+      selectedPlanet: null,
+      selectedSpacecraft: null,
+      cameraMode: id ? 'focused' : state.cameraMode === 'sky' ? 'sky' : 'overview',
+      cinematicPlaying: false,
+    }));
+  },
+
+  setSelectedSpacecraft: (id) => {
+    stateLogger.debug('Setting selected spacecraft', { id });
+    set((state) => ({
+      selectedSpacecraft: id,
+      selectedPlanet: null,
+      selectedSmallBody: null,
+      // Selecting a hidden craft shows them again
+      showSpacecraft: id ? true : state.showSpacecraft,
+      cameraMode: id ? 'focused' : state.cameraMode === 'sky' ? 'sky' : 'overview',
+      cinematicPlaying: false,
+    }));
   },
 
   setTimeSpeed: (speed) => {
@@ -245,6 +294,54 @@ export const useOrbitStore = create<OrbitState>((set, get) => ({
     set({ cameraMode: mode });
   },
 
+  setObserver: (location) => {
+    try {
+      const validLocation = validateObserverLocation(location);
+      stateLogger.info('Setting observer location', { observer: validLocation });
+      set({ observer: validLocation });
+
+      if (typeof window !== 'undefined') {
+        try {
+          window.localStorage.setItem(OBSERVER_STORAGE_KEY, JSON.stringify(validLocation));
+        } catch {
+          // Storage write failed, continue without persistence
+        }
+      }
+
+      get().updatePlanetPositions();
+    } catch (error) {
+      reportError(error as OrbitError);
+      // Keep current location on validation failure
+    }
+  },
+
+  setReferenceFrame: (frame) => {
+    stateLogger.debug('Setting reference frame', { frame });
+    set({ referenceFrame: frame });
+  },
+
+  setScaleMode: (mode) => {
+    if (!isScaleMode(mode)) {
+      reportError(new ValidationError(`Unknown scale mode: ${mode}`, { field: 'scaleMode', value: mode }));
+      return;
+    }
+
+    const { scaleMode, scaleTransition } = get();
+    if (mode === scaleMode) return;
+
+    stateLogger.debug('Setting scale mode', { mode });
+    // A blend cut short starts the next one from wherever it was heading
+    set({
+      scaleMode: mode,
+      scaleTransition: { from: scaleTransition.to, to: mode, progress: 0 },
+    });
+  },
+
+  setScaleTransitionProgress: (progress) =>
+    set((state) => ({
+      scaleTransition: { ...state.scaleTransition, progress: Math.min(1, Math.max(0, progress)) },
+    })),
+
   setRenderQuality: (quality) => {
     try {
       const validQuality = validateRenderQuality(quality);
@@ -265,47 +362,171 @@ export const useOrbitStore = create<OrbitState>((set, get) => ({
 
   toggleOrbits: () => set((state) => ({ showOrbits: !state.showOrbits })),
   toggleLabels: () => set((state) => ({ showLabels: !state.showLabels })),
+  toggleTrails: () => set((state) => ({ showTrails: !state.showTrails })),
+
+  setTrailLength: (days) => {
+    try {
+      const validDays = validateRange(days, MIN_TRAIL_LENGTH_DAYS, MAX_TRAIL_LENGTH_DAYS, 'trailLengthDays');
+      stateLogger.debug('Setting trail length', { days: validDays });
+      set({ trailLengthDays: validDays });
+    } catch (error) {
+      reportError(error as OrbitError);
+    }
+  },
 
   toggleCinematic: () =>
     set((state) => ({
       cinematicPlaying: !state.cinematicPlaying,
       cameraMode: !state.cinematicPlaying ? 'cinematic' : 'overview',
       selectedPlanet: !state.cinematicPlaying ? null : state.selectedPlanet,
+      selectedSmallBody: !state.cinematicPlaying ? null : state.selectedSmallBody,
+      selectedSpacecraft: !state.cinematicPlaying ? null : state.selectedSpacecraft,
     })),
 
+  toggleSkyView: () =>
+    set((state) => ({
+      cinematicPlaying: false,
+      cameraMode:
+        state.cameraMode !== 'sky'
+          ? 'sky'
+          : state.selectedPlanet || state.selectedSmallBody || state.selectedSpacecraft
+            ? 'focused'
+            : 'overview',
+    })),
+
+  toggleSmallBodyOrbits: () => set((state) => ({ showSmallBodyOrbits: !state.showSmallBodyOrbits })),
+
+  importSmallBodies: (bodies) => {
+    const smallBodies = mergeSmallBodies(get().smallBodies, bodies);
+    stateLogger.info('Imported small bodies', { imported: bodies.length, total: smallBodies.length });
+    set({ smallBodies });
+    get().updatePlanetPositions();
+  },
+
+  clearImportedSmallBodies: () => {
+    const { selectedSmallBody } = get();
+    set({
+      smallBodies: BRIGHT_ASTEROIDS,
+      selectedSmallBody: BRIGHT_ASTEROIDS.some((body) => body.id === selectedSmallBody)
+        ? selectedSmallBody
+        : null,
+    });
+    get().updatePlanetPositions();
+  },
+
+  toggleSpacecraft: () =>
+    set((state) => ({
+      showSpacecraft: !state.showSpacecraft,
+      selectedSpacecraft: state.showSpacecraft ? null : state.selectedSpacecraft,
+      cameraMode:
+        state.showSpacecraft && state.selectedSpacecraft && state.cameraMode === 'focused'
+          ? 'overview'
+          : state.cameraMode,
+    })),
+
+  importSpacecraft: (craft) => {
+    const spacecraft = mergeSpacecraft(get().spacecraft, [craft]);
+    stateLogger.info('Imported spacecraft', { id: craft.id, samples: craft.trajectory.jd.length });
+    set({ spacecraft, showSpacecraft: true });
+  },
+
+  clearImportedSpacecraft: () => {
+    const { selectedSpacecraft } = get();
+    set({
+      spacecraft: BUNDLED_SPACECRAFT,
+      selectedSpacecraft: BUNDLED_SPACECRAFT.some((craft) => craft.id === selectedSpacecraft)
+        ? selectedSpacecraft
+        : null,
+    });
+  },
+
+  setTransfer: (transfer) => {
+    stateLogger.debug('Setting transfer', {
+      origin: transfer?.origin,
+      destination: transfer?.destination,
+    });
+    set({ transfer, transferPlaying: false });
+  },
+
+  playTransfer: () => {
+    const { transfer, jumpToDate } = get();
+    if (!transfer) return;
+
+    jumpToDate(new Date(transfer.departureMs));
+    set({
+      timeSpeed: Math.min(transfer.timeOfFlightDays / TRANSFER_PLAYBACK_SECONDS, MAX_TIME_SPEED),
+      transferPlaying: true,
+      cinematicPlaying: false,
+    });
+  },
+
+  finishTransfer: () => {
+    const { transfer, jumpToDate } = get();
+    set({ timeSpeed: 0, transferPlaying: false });
+    // Land exactly on arrival rather than wherever the last frame overshot to
+    if (transfer) jumpToDate(new Date(transfer.arrivalMs));
+  },
+
   updatePlanetPositions: () => {
-    const { currentDate, isCalculating } = get();
+    const { currentDate, observer, smallBodies, isCalculating } = get();
+    const ephemeris = getEphemerisService();
+
+    if (ephemeris.mode === 'sync') {
+      // Prevent concurrent calculations
+      if (isCalculating) {
+        calculationLogger.debug('Skipping update - calculation in progress');
+        return;
+      }
+
+      set({ isCalculating: true });
 
-    // Prevent concurrent calculations
-    if (isCalculating) {
-      calculationLogger.debug('Skipping update - calculation in progress');
+      try {
+        const [planets, smallBodyPositions] = measureTime(CalculationMetrics.batchUpdate, () => [
+          calculateAllPlanets(currentDate, observer),
+          computeSmallBodyPositions(smallBodies, currentDate),
+        ] as const);
+        applyPlanets(set, planets, smallBodyPositions);
+      } catch (error) {
+        failPlanets(set, error);
+      }
       return;
     }
 
-    set({ isCalculating: true });
-
-    try {
-      const planets = measureTime(CalculationMetrics.batchUpdate, () =>
-        calculateAllPlanets(currentDate)
-      );
+    // One request in flight; ticks that arrive meanwhile collapse into a
+    // single follow-up for the latest date
+    if (planetsRequest) {
+      planetsUpdateQueued = true;
+      return;
+    }
 
-      // Record cache stats for monitoring
-      const cacheStats = getCacheStats();
-      recordMetric('cache.position_size', cacheStats.positionCacheSize);
-      recordMetric('cache.velocity_size', cacheStats.velocityCacheSize);
+    const controller = new AbortController();
+    const startedAt = performance.now();
+    planetsRequest = controller;
+    set({ isCalculating: true });
 
-      set({ planets, isCalculating: false, lastError: null });
-    } catch (error) {
-      const orbitError =
-        error instanceof OrbitError
-          ? error
-          : new CalculationError('Failed to update planet positions', {
-              cause: error as Error,
-            });
-
-      reportError(orbitError);
-      set({ isCalculating: false, lastError: orbitError });
-    }
+    const dateMs = currentDate.getTime();
+    const options = { signal: controller.signal };
+
+    // Requested in the same tick, so both go to the worker as one batch
+    Promise.all([
+      ephemeris.request({ kind: 'planets', dateMs, observer }, options),
+      ephemeris.request({ kind: 'smallBodies', dateMs, bodies: smallBodies }, options),
+    ])
+      .then(([planets, smallBodyPositions]) => {
+        recordMetric(CalculationMetrics.batchUpdate, performance.now() - startedAt, 'timing');
+        applyPlanets(set, planets, smallBodyPositions);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) failPlanets(set, error);
+      })
+      .finally(() => {
+        if (planetsRequest !== controller) return;
+        planetsRequest = null;
+        if (planetsUpdateQueued) {
+          planetsUpdateQueued = false;
+          get().updatePlanetPositions();
+        }
+      });
   },
 
   clearError: () => set({ lastError: null }),
@@ -316,18 +537,33 @@ export const useOrbitStore = create<OrbitState>((set, get) => ({
       stateLogger.info('Jumping to date', { date: validDate.toISOString() });
 
       // Clear caches when jumping to a significantly different time
-      clearAstronomyCaches();
-
-      set({ currentDate: validDate });
+      getEphemerisService().clearCaches();
+
+      // Results for the old date are no longer wanted
+      cancelPlanetsRequest();
+      set((state) => ({
+        currentDate: validDate,
+        isCalculating: false,
+        trailResetCount: state.trailResetCount + 1,
+      }));
       get().updatePlanetPositions();
     } catch (error) {
       reportError(error as OrbitError);
     }
   },
-}));
 
-// Export planet config for external use
-export { PLANET_CONFIG, PLANET_NAMES };
+  jumpToEvent: (event) => {
+    stateLogger.info('Jumping to event', { type: event.type, date: event.date });
+    const { jumpToDate, setSelectedPlanet } = get();
+
+    jumpToDate(new Date(event.date));
+    // Pause so the moment stays on screen
+    set({ timeSpeed: 0 });
+
+    const focus = event.planets.find(isBodyName);
+    if (focus) setSelectedPlanet(focus);
+  },
+}));
 
 // Export cache utilities for debugging
 export { getCacheStats, clearAstronomyCaches };
@@ -0,0 +1,99 @@
+/**
+ * Simulation Time Speed Scale
+ *
+ * Time speed is stored as signed days of simulation time per real second.
+ * Negative values run the clock backwards. The HUD slider works on a
+ * logarithmic scale so that one control covers everything from
+ * seconds-per-second up to centuries-per-second.
+ */
+
+import { MAX_TIME_SPEED } from './validation';
+
+const SECONDS_PER_DAY = 86_400;
+
+/** Slowest non-zero speed reachable from the slider: 1 sim second per second */
+export const MIN_TIME_SPEED_MAGNITUDE = 1 / SECONDS_PER_DAY;
+
+/** Slider positions on each side of the pause detent */
+export const TIME_SPEED_SLIDER_STEPS = 1000;
+
+/** Quick presets shown in the time panel, in days per second */
+export const TIME_SPEED_PRESETS = [-365, -30, 0, 1, 30, 365] as const;
+
+const LOG_MIN = Math.log10(MIN_TIME_SPEED_MAGNITUDE);
+const LOG_MAX = Math.log10(MAX_TIME_SPEED);
+
+// Display units, largest first. A "year" is 365 days so the 365 preset reads as 1 yr / sec.
+const SPEED_UNITS = [
+  { days: 36_500, short: 'cent', singular: 'century', plural: 'centuries' },
+  { days: 365, short: 'yr', singular: 'year', plural: 'years' },
+  { days: 1, short: 'd', singular: 'day', plural: 'days' },
+  { days: 1 / 24, short: 'h', singular: 'hour', plural: 'hours' },
+  { days: 1 / 1440, short: 'min', singular: 'minute', plural: 'minutes' },
+  { days: 1 / SECONDS_PER_DAY, short: 's', singular: 'second', plural: 'seconds' },
+] as const;
+
+function formatAmount(value: number): string {
+  // Three significant digits, without trailing zeros
+  return String(Number(value.toPrecision(3)));
+}
+
+function pickUnit(magnitude: number) {
+  for (const unit of SPEED_UNITS) {
+    if (magnitude >= unit.days * 0.9995) return unit;
+  }
+  return SPEED_UNITS[SPEED_UNITS.length - 1];
+}
+
+/**
+ * Map a signed slider position (-STEPS..STEPS) to a time speed.
+ * Position 0 is paused; the sign selects the direction.
+ */
+export function sliderValueToTimeSpeed(value: number): number {
+  if (!Number.isFinite(value) || value === 0) return 0;
+
+  const clamped = Math.min(Math.abs(value), TIME_SPEED_SLIDER_STEPS);
+  const t = (clamped - 1) / (TIME_SPEED_SLIDER_STEPS - 1);
+  const magnitude = Math.pow(10, LOG_MIN + t * (LOG_MAX - LOG_MIN));
+
+  return Math.sign(value) * magnitude;
+}
+
+/**
+ * Inverse of sliderValueToTimeSpeed, rounded to the nearest slider step.
+ */
+export function timeSpeedToSliderValue(speed: number): number {
+  if (!Number.isFinite(speed) || speed === 0) return 0;
+
+  const magnitude = Math.min(Math.max(Math.abs(speed), MIN_TIME_SPEED_MAGNITUDE), MAX_TIME_SPEED);
+  const t = (Math.log10(magnitude) - LOG_MIN) / (LOG_MAX - LOG_MIN);
+
+  return Math.sign(speed) * (1 + Math.round(t * (TIME_SPEED_SLIDER_STEPS - 1)));
+}
+
+/**
+ * Short label for the HUD, e.g. "30 d / sec" or "−1 yr / sec"
+ */
+export function formatTimeSpeed(speed: number): string {
+  if (speed === 0) return 'Paused';
+
+  const magnitude = Math.abs(speed);
+  const unit = pickUnit(magnitude);
+  const sign = speed < 0 ? '−' : '';
+
+  return `${sign}${formatAmount(magnitude / unit.days)} ${unit.short} / sec`;
+}
+
+/**
+ * Spoken label for screen readers, e.g. "30 days per second in reverse"
+ */
+export function describeTimeSpeed(speed: number): string {
+  if (speed === 0) return 'Paused';
+
+  const magnitude = Math.abs(speed);
+  const unit = pickUnit(magnitude);
+  const amount = formatAmount(magnitude / unit.days);
+  const unitName = amount === '1' ? unit.singular : unit.plural;
+
+  return `${amount} ${unitName} per second${speed < 0 ? ' in reverse' : ''}`;
+}
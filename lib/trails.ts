@@ -0,0 +1,143 @@
+/**
+ * Motion Trails
+ *
+ * A trail is the path a body traced over the last few days of sim time. The
+ * buffers double as GPU attributes: positions oldest first, ready for a line
+ * strip, and RGBA colors whose alpha fades with age. Samples are written in
+ * place, so a trail never reallocates while the sim runs.
+ *
+ * Sim time can run backwards. A body heading back over its trail retraces it,
+ * so samples it passes are dropped; once they are gone, the trail grows behind
+ * it in the new direction.
+ */
+
+import { ValidationError } from './errors';
+
+const MS_PER_DAY = 86_400_000;
+
+/** Samples per trail; spread evenly over the trail length */
+export const TRAIL_CAPACITY = 512;
+
+export const DEFAULT_TRAIL_LENGTH_DAYS = 365;
+
+/** Lengths offered in the command palette */
+export const TRAIL_LENGTH_OPTIONS_DAYS = [30, 90, 365, 1826] as const;
+
+export const MIN_TRAIL_LENGTH_DAYS = 1;
+export const MAX_TRAIL_LENGTH_DAYS = 36_525;
+
+export interface Trail {
+  positions: Float32Array; // [x, y, z] per sample in 3D space units, oldest first
+  colors: Float32Array; // [r, g, b, a] per sample; alpha set by fadeTrail
+  times: Float64Array; // Sim time per sample, in ms
+  count: number; // Samples in use, from the start of each buffer
+}
+
+/**
+ * An empty trail drawn in the given [r, g, b] color, components 0-1
+ */
+export function createTrail(
+  color: readonly [number, number, number],
+  capacity: number = TRAIL_CAPACITY
+): Trail {
+  if (!Number.isInteger(capacity) || capacity < 2) {
+    throw new ValidationError('Trail capacity must be an integer of at least 2', {
+      field: 'capacity',
+      value: capacity,
+    });
+  }
+
+  const colors = new Float32Array(capacity * 4);
+  for (let i = 0; i < capacity; i++) colors.set(color, i * 4);
+
+  return {
+    positions: new Float32Array(capacity * 3),
+    colors,
+    times: new Float64Array(capacity),
+    count: 0,
+  };
+}
+
+export function resetTrail(trail: Trail): void {
+  trail.count = 0;
+}
+
+/** Drop the oldest `drop` samples, shifting the rest to the front */
+function shiftTrail(trail: Trail, drop: number): void {
+  const { count } = trail;
+  trail.positions.copyWithin(0, drop * 3, count * 3);
+  trail.colors.copyWithin(0, drop * 4, count * 4);
+  trail.times.copyWithin(0, drop, count);
+  trail.count = count - drop;
+}
+
+/**
+ * Record where a body is at `timeMs`, and forget samples more than
+ * `lengthDays` of sim time away. Until a sample interval has passed, the
+ * newest sample follows the body instead of adding another.
+ */
+export function pushTrailSample(
+  trail: Trail,
+  timeMs: number,
+  position: readonly [number, number, number],
+  lengthDays: number
+): void {
+  const { times } = trail;
+  const capacity = times.length;
+  const lengthMs = lengthDays * MS_PER_DAY;
+
+  // Time turned around: eat the samples the body is heading back over
+  if (trail.count >= 2) {
+    const direction = Math.sign(times[trail.count - 1] - times[0]);
+    while (trail.count > 0 && Math.sign(timeMs - times[trail.count - 1]) === -direction) {
+      trail.count--;
+    }
+  }
+
+  let index = trail.count;
+  if (index > 0 && times[index - 1] === timeMs) {
+    index--;
+  } else if (index >= 2 && Math.abs(timeMs - times[index - 2]) < lengthMs / (capacity - 1)) {
+    index--;
+  } else if (index === capacity) {
+    shiftTrail(trail, 1);
+    index--;
+  }
+
+  trail.positions.set(position, index * 3);
+  times[index] = timeMs;
+  trail.count = index + 1;
+
+  let stale = 0;
+  while (stale < trail.count - 1 && Math.abs(timeMs - times[stale]) > lengthMs) stale++;
+  if (stale > 0) shiftTrail(trail, stale);
+}
+
+/**
+ * Set each sample's alpha from its age at `timeMs`: opaque at the body,
+ * transparent `lengthDays` behind it
+ */
+export function fadeTrail(trail: Trail, timeMs: number, lengthDays: number): void {
+  const lengthMs = lengthDays * MS_PER_DAY;
+  for (let i = 0; i < trail.count; i++) {
+    const age = Math.abs(timeMs - trail.times[i]) / lengthMs;
+    trail.colors[i * 4 + 3] = Math.max(0, 1 - age);
+  }
+}
+
+/**
+ * Trail length for display: days under a year, otherwise years
+ */
+export function formatTrailLength(days: number): string {
+  if (days < 365) return `${days} ${days === 1 ? 'day' : 'days'}`;
+  const years = Math.round(days / 365.25);
+  return `${years} ${years === 1 ? 'year' : 'years'}`;
+}
+
+/**
+ * The palette option after `days`, wrapping around to the shortest
+ */
+export function getNextTrailLength(days: number): number {
+  const next = TRAIL_LENGTH_OPTIONS_DAYS.find((option) => option > days);
+  return next ?? TRAIL_LENGTH_OPTIONS_DAYS[0];
+}
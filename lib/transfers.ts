@@ -0,0 +1,509 @@
+/**
+ * Interplanetary Transfers
+ *
+ * Launch window planning from the bodies' ephemerides. A transfer is the
+ * heliocentric conic joining the origin's position at departure to the
+ * destination's position at arrival, found by solving Lambert's problem with
+ * universal variables. Sweeping departure and arrival dates over a grid gives
+ * the classic "porkchop" plot: contours of launch energy (C3) and total Δv
+ * whose minima mark the launch windows.
+ *
+ * Only single-revolution prograde transfers are considered, and the planets'
+ * gravity is treated as a patched conic: the hyperbolic excess speeds at each
+ * end are found from the Lambert velocities and the planets' heliocentric
+ * velocities, then converted into burns from or into a low circular orbit.
+ *
+ * Reference: Vallado, "Fundamentals of Astrodynamics and Applications",
+ * algorithms 8 (universal Kepler) and 58 (Lambert, universal variables).
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import {
+  getCachedHelioState,
+  getCachedHelioVector,
+  ASTRONOMICAL_CONSTANTS,
+} from './astronomy-cache';
+import { BODY_CATALOG, getHelioPeriodDays, type HeliocentricBodyName } from './bodies';
+import { EARTH_RADIUS_KM } from './eclipses';
+import { eclipticToEquatorial, SUN_GM_AU3_PER_DAY2 } from './kepler';
+import { ValidationError } from './errors';
+
+type Vec3 = [number, number, number];
+
+const MS_PER_DAY = 86_400_000;
+const KM_S_PER_AU_DAY = Astronomy.KM_PER_AU / 86_400;
+
+/** Earth's gravitational parameter in km^3/s^2; catalog masses are in Earth masses */
+const EARTH_GM_KM3_S2 = 398_600.4418;
+
+/** Altitude of the circular parking and capture orbits used for Δv */
+export const PARKING_ORBIT_ALTITUDE_KM = 200;
+
+/** Grid resolution used when none is given */
+export const DEFAULT_PORKCHOP_STEPS = 60;
+
+/** Largest grid resolution accepted, per axis */
+export const MAX_PORKCHOP_STEPS = 150;
+
+/** Shortest time of flight evaluated */
+const MIN_TIME_OF_FLIGHT_DAYS = 5;
+
+/** Longest departure window offered by default */
+const MAX_DEPARTURE_SPAN_DAYS = 1000;
+
+/** Arrival dates span these fractions of the Hohmann time of flight */
+const ARRIVAL_SPAN_FRACTIONS = [0.5, 1.5] as const;
+
+/** Transfers sweeping within this of 180° have no defined plane */
+const COLLINEAR_TOLERANCE = 1e-8;
+
+const LAMBERT_MAX_ITERATIONS = 200;
+const LAMBERT_TOLERANCE = 1e-10;
+const UNIVERSAL_MAX_ITERATIONS = 50;
+const UNIVERSAL_TOLERANCE = 1e-12;
+
+/** Ecliptic north in J2000 equatorial coordinates; prograde transfers circle it counter-clockwise */
+const ECLIPTIC_NORTH = eclipticToEquatorial(0, 0, 1);
+
+export interface LambertSolution {
+  /** Velocity leaving r1, AU/day */
+  v1: Vec3;
+  /** Velocity arriving at r2, AU/day */
+  v2: Vec3;
+}
+
+/** Circular, coplanar estimate from the catalog's mean distances */
+export interface HohmannEstimate {
+  timeOfFlightDays: number;
+  /** Hyperbolic excess speed leaving the origin, km/s */
+  departureVInf: number;
+  /** Hyperbolic excess speed arriving at the destination, km/s */
+  arrivalVInf: number;
+  /** Launch energy, km^2/s^2 */
+  c3: number;
+  /** Time between launch windows */
+  synodicPeriodDays: number;
+}
+
+/** Departure and arrival date ranges for a porkchop grid, as epoch milliseconds */
+export interface TransferWindow {
+  departureStartMs: number;
+  departureEndMs: number;
+  arrivalStartMs: number;
+  arrivalEndMs: number;
+  /** Grid cells per axis */
+  steps: number;
+}
+
+/** A grid cell, by column (departure) and row (arrival) */
+export interface PorkchopCell {
+  departureIndex: number;
+  arrivalIndex: number;
+}
+
+/**
+ * C3 and Δv over a departure x arrival grid. Values are stored row by row,
+ * one row per arrival date; cells with no transfer (arrival before departure,
+ * or no converged solution) are NaN.
+ */
+export interface PorkchopGrid {
+  origin: HeliocentricBodyName;
+  destination: HeliocentricBodyName;
+  departureMs: Float64Array;
+  arrivalMs: Float64Array;
+  /** Launch energy, km^2/s^2 */
+  c3: Float32Array;
+  /** Departure plus capture burn, km/s */
+  deltaV: Float32Array;
+  minC3: PorkchopCell | null;
+  minDeltaV: PorkchopCell | null;
+}
+
+/** One transfer, with the state needed to fly it */
+export interface TransferSolution {
+  origin: HeliocentricBodyName;
+  destination: HeliocentricBodyName;
+  departureMs: number;
+  arrivalMs: number;
+  /** Heliocentric position at departure, AU, J2000 equatorial */
+  r1: Vec3;
+  /** Heliocentric velocity at departure, AU/day */
+  v1: Vec3;
+  timeOfFlightDays: number;
+  departureVInf: number;
+  arrivalVInf: number;
+  c3: number;
+  /** Burn leaving a circular parking orbit at the origin, km/s */
+  departureDeltaV: number;
+  /** Burn into a circular capture orbit at the destination, km/s */
+  arrivalDeltaV: number;
+  deltaV: number;
+}
+
+/**
+ * Stumpff functions c2(psi) and c3(psi)
+ */
+function stumpff(psi: number): [number, number] {
+  if (psi > 1e-6) {
+    const s = Math.sqrt(psi);
+    return [(1 - Math.cos(s)) / psi, (s - Math.sin(s)) / (s * psi)];
+  }
+  if (psi < -1e-6) {
+    const s = Math.sqrt(-psi);
+    return [(1 - Math.cosh(s)) / psi, (Math.sinh(s) - s) / (s * -psi)];
+  }
+  return [1 / 2, 1 / 6];
+}
+
+function norm(v: Vec3): number {
+  return Math.hypot(v[0], v[1], v[2]);
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function toVec3(v: { x: number; y: number; z: number }): Vec3 {
+  return [v.x, v.y, v.z];
+}
+
+/**
+ * Solve Lambert's problem: the velocities of the conic from r1 to r2 (AU) in
+ * `timeOfFlightDays`, going prograde around the ecliptic pole. Returns null
+ * when the transfer is near 180° or no single-revolution solution converges.
+ */
+export function solveLambert(
+  r1: Vec3,
+  r2: Vec3,
+  timeOfFlightDays: number,
+  mu: number = SUN_GM_AU3_PER_DAY2
+): LambertSolution | null {
+  const r1Mag = norm(r1);
+  const r2Mag = norm(r2);
+  const cosDnu = dot(r1, r2) / (r1Mag * r2Mag);
+  if (1 + cosDnu < COLLINEAR_TOLERANCE || !(timeOfFlightDays > 0)) return null;
+
+  // Short way when r1 x r2 points north of the ecliptic
+  const cross: Vec3 = [
+    r1[1] * r2[2] - r1[2] * r2[1],
+    r1[2] * r2[0] - r1[0] * r2[2],
+    r1[0] * r2[1] - r1[1] * r2[0],
+  ];
+  const direction = dot(cross, ECLIPTIC_NORTH) >= 0 ? 1 : -1;
+  const A = direction * Math.sqrt(r1Mag * r2Mag * (1 + cosDnu));
+  const sqrtMu = Math.sqrt(mu);
+
+  // Bisection on psi; time of flight grows with psi for one revolution
+  let psiLow = -4 * Math.PI ** 2;
+  let psiHigh = 4 * Math.PI ** 2;
+  let psi = 0;
+  let y = 0;
+
+  for (let iteration = 0; ; iteration++) {
+    if (iteration >= LAMBERT_MAX_ITERATIONS) return null;
+
+    const [c2, c3] = stumpff(psi);
+    y = r1Mag + r2Mag + (A * (psi * c3 - 1)) / Math.sqrt(c2);
+    if (A > 0 && y < 0) {
+      psiLow = psi;
+      psi = (psiLow + psiHigh) / 2;
+      continue;
+    }
+
+    const chi = Math.sqrt(y / c2);
+    const dt = (chi ** 3 * c3 + A * Math.sqrt(y)) / sqrtMu;
+    if (Math.abs(dt - timeOfFlightDays) < LAMBERT_TOLERANCE * timeOfFlightDays) break;
+
+    if (dt <= timeOfFlightDays) psiLow = psi;
+    else psiHigh = psi;
+    psi = (psiLow + psiHigh) / 2;
+  }
+
+  // Lagrange coefficients
+  const f = 1 - y / r1Mag;
+  const g = A * Math.sqrt(y / mu);
+  const gDot = 1 - y / r2Mag;
+
+  return {
+    v1: [0, 1, 2].map((k) => (r2[k] - f * r1[k]) / g) as Vec3,
+    v2: [0, 1, 2].map((k) => (gDot * r2[k] - r1[k]) / g) as Vec3,
+  };
+}
+
+/**
+ * Position after `dtDays` on the conic through r0 with velocity v0 (AU,
+ * AU/day), for elliptical and hyperbolic orbits alike
+ */
+export function propagateUniversal(
+  r0: Vec3,
+  v0: Vec3,
+  dtDays: number,
+  mu: number = SUN_GM_AU3_PER_DAY2
+): Vec3 {
+  if (dtDays === 0) return [r0[0], r0[1], r0[2]];
+
+  const r0Mag = norm(r0);
+  const vr0 = dot(r0, v0) / r0Mag;
+  const alpha = 2 / r0Mag - dot(v0, v0) / mu;
+  const sqrtMu = Math.sqrt(mu);
+
+  // Newton's method on the universal anomaly, from Vallado's starting guesses
+  let chi: number;
+  if (alpha >= 0) {
+    chi = sqrtMu * alpha * dtDays;
+  } else {
+    const a = 1 / alpha;
+    const sign = Math.sign(dtDays);
+    chi =
+      sign *
+      Math.sqrt(-a) *
+      Math.log(
+        (-2 * mu * alpha * dtDays) /
+          (dot(r0, v0) + sign * Math.sqrt(-mu * a) * (1 - r0Mag * alpha))
+      );
+  }
+  for (let iteration = 0; iteration < UNIVERSAL_MAX_ITERATIONS; iteration++) {
+    const z = alpha * chi * chi;
+    const [c2, c3] = stumpff(z);
+    const F =
+      ((r0Mag * vr0) / sqrtMu) * chi * chi * c2 +
+      (1 - alpha * r0Mag) * chi ** 3 * c3 +
+      r0Mag * chi -
+      sqrtMu * dtDays;
+    const dF =
+      ((r0Mag * vr0) / sqrtMu) * chi * (1 - z * c3) + (1 - alpha * r0Mag) * chi * chi * c2 + r0Mag;
+    const step = F / dF;
+    chi -= step;
+    if (Math.abs(step) < UNIVERSAL_TOLERANCE) break;
+  }
+
+  const [c2, c3] = stumpff(alpha * chi * chi);
+  const f = 1 - ((chi * chi) / r0Mag) * c2;
+  const g = dtDays - (chi ** 3 * c3) / sqrtMu;
+  return [0, 1, 2].map((k) => f * r0[k] + g * v0[k]) as Vec3;
+}
+
+/**
+ * Burn between a circular orbit at the body's parking altitude and a
+ * hyperbola with excess speed `vInf` (km/s)
+ */
+function parkingOrbitBurn(body: HeliocentricBodyName, vInf: number): number {
+  const { mass, radius } = BODY_CATALOG[body];
+  const gm = mass * EARTH_GM_KM3_S2;
+  const r = radius * EARTH_RADIUS_KM + PARKING_ORBIT_ALTITUDE_KM;
+  return Math.sqrt(vInf * vInf + (2 * gm) / r) - Math.sqrt(gm / r);
+}
+
+function requireDistinctBodies(origin: HeliocentricBodyName, destination: HeliocentricBodyName): void {
+  if (origin === destination) {
+    throw new ValidationError('Transfer origin and destination must differ', {
+      field: 'destination',
+      value: destination,
+      context: { origin },
+    });
+  }
+}
+
+/**
+ * Hohmann transfer between circular, coplanar orbits at the mean distances,
+ * and the synodic period that spaces the launch windows
+ */
+export function estimateHohmannTransfer(
+  origin: HeliocentricBodyName,
+  destination: HeliocentricBodyName
+): HohmannEstimate {
+  requireDistinctBodies(origin, destination);
+
+  const r1 = BODY_CATALOG[origin].distance;
+  const r2 = BODY_CATALOG[destination].distance;
+  const a = (r1 + r2) / 2;
+  const mu = SUN_GM_AU3_PER_DAY2;
+
+  const departureVInf = Math.abs(Math.sqrt(mu / r1) * (Math.sqrt(r2 / a) - 1)) * KM_S_PER_AU_DAY;
+  const arrivalVInf = Math.abs(Math.sqrt(mu / r2) * (1 - Math.sqrt(r1 / a))) * KM_S_PER_AU_DAY;
+  const p1 = getHelioPeriodDays(origin);
+  const p2 = getHelioPeriodDays(destination);
+
+  return {
+    timeOfFlightDays: Math.PI * Math.sqrt(a ** 3 / mu),
+    departureVInf,
+    arrivalVInf,
+    c3: departureVInf ** 2,
+    synodicPeriodDays: 1 / Math.abs(1 / p1 - 1 / p2),
+  };
+}
+
+/**
+ * Porkchop grid covering the next launch window after `from`: departures over
+ * one synodic period (capped), arrivals around the Hohmann time of flight
+ */
+export function getDefaultTransferWindow(
+  origin: HeliocentricBodyName,
+  destination: HeliocentricBodyName,
+  from: Date,
+  steps: number = DEFAULT_PORKCHOP_STEPS
+): TransferWindow {
+  const { timeOfFlightDays, synodicPeriodDays } = estimateHohmannTransfer(origin, destination);
+  const start = from.getTime();
+  const departureSpan = Math.min(synodicPeriodDays, MAX_DEPARTURE_SPAN_DAYS) * MS_PER_DAY;
+  const [shortest, longest] = ARRIVAL_SPAN_FRACTIONS;
+
+  return {
+    departureStartMs: start,
+    departureEndMs: start + departureSpan,
+    arrivalStartMs: start + shortest * timeOfFlightDays * MS_PER_DAY,
+    arrivalEndMs: start + departureSpan + longest * timeOfFlightDays * MS_PER_DAY,
+    steps,
+  };
+}
+
+function evenlySpaced(start: number, end: number, count: number): Float64Array {
+  const values = new Float64Array(count);
+  const step = count > 1 ? (end - start) / (count - 1) : 0;
+  for (let i = 0; i < count; i++) values[i] = start + i * step;
+  return values;
+}
+
+/**
+ * Solve one transfer between the bodies' cached states at the two dates.
+ * Returns null when Lambert's problem has no solution for them.
+ */
+export function computeTransfer(
+  origin: HeliocentricBodyName,
+  destination: HeliocentricBodyName,
+  departure: Date,
+  arrival: Date
+): TransferSolution | null {
+  requireDistinctBodies(origin, destination);
+
+  const timeOfFlightDays = (arrival.getTime() - departure.getTime()) / MS_PER_DAY;
+  if (timeOfFlightDays < MIN_TIME_OF_FLIGHT_DAYS) return null;
+
+  const r1 = toVec3(getCachedHelioVector(origin, departure));
+  const r2 = toVec3(getCachedHelioVector(destination, arrival));
+  const solution = solveLambert(r1, r2, timeOfFlightDays);
+  if (!solution) return null;
+
+  const originState = getCachedHelioState(origin, departure);
+  const destinationState = getCachedHelioState(destination, arrival);
+  const departureVInf =
+    Math.hypot(
+      solution.v1[0] - originState.vx,
+      solution.v1[1] - originState.vy,
+      solution.v1[2] - originState.vz
+    ) * KM_S_PER_AU_DAY;
+  const arrivalVInf =
+    Math.hypot(
+      solution.v2[0] - destinationState.vx,
+      solution.v2[1] - destinationState.vy,
+      solution.v2[2] - destinationState.vz
+    ) * KM_S_PER_AU_DAY;
+  const departureDeltaV = parkingOrbitBurn(origin, departureVInf);
+  const arrivalDeltaV = parkingOrbitBurn(destination, arrivalVInf);
+
+  return {
+    origin,
+    destination,
+    departureMs: departure.getTime(),
+    arrivalMs: arrival.getTime(),
+    r1,
+    v1: solution.v1,
+    timeOfFlightDays,
+    departureVInf,
+    arrivalVInf,
+    c3: departureVInf ** 2,
+    departureDeltaV,
+    arrivalDeltaV,
+    deltaV: departureDeltaV + arrivalDeltaV,
+  };
+}
+
+/**
+ * C3 and Δv for every departure/arrival pair in the window
+ */
+export function computePorkchop(
+  origin: HeliocentricBodyName,
+  destination: HeliocentricBodyName,
+  window: TransferWindow
+): PorkchopGrid {
+  requireDistinctBodies(origin, destination);
+  if (!Number.isInteger(window.steps) || window.steps < 2 || window.steps > MAX_PORKCHOP_STEPS) {
+    throw new ValidationError(`Porkchop steps must be an integer from 2 to ${MAX_PORKCHOP_STEPS}`, {
+      field: 'steps',
+      value: window.steps,
+    });
+  }
+
+  const { steps } = window;
+  const departureMs = evenlySpaced(window.departureStartMs, window.departureEndMs, steps);
+  const arrivalMs = evenlySpaced(window.arrivalStartMs, window.arrivalEndMs, steps);
+  const c3 = new Float32Array(steps * steps).fill(NaN);
+  const deltaV = new Float32Array(steps * steps).fill(NaN);
+  let minC3: PorkchopCell | null = null;
+  let minDeltaV: PorkchopCell | null = null;
+  let bestC3 = Infinity;
+  let bestDeltaV = Infinity;
+
+  for (let row = 0; row < steps; row++) {
+    const arrival = new Date(arrivalMs[row]);
+    for (let col = 0; col < steps; col++) {
+      const transfer = computeTransfer(origin, destination, new Date(departureMs[col]), arrival);
+      if (!transfer || !Number.isFinite(transfer.deltaV)) continue;
+
+      const index = row * steps + col;
+      c3[index] = transfer.c3;
+      deltaV[index] = transfer.deltaV;
+      if (transfer.c3 < bestC3) {
+        bestC3 = transfer.c3;
+        minC3 = { departureIndex: col, arrivalIndex: row };
+      }
+      if (transfer.deltaV < bestDeltaV) {
+        bestDeltaV = transfer.deltaV;
+        minDeltaV = { departureIndex: col, arrivalIndex: row };
+      }
+    }
+  }
+
+  return { origin, destination, departureMs, arrivalMs, c3, deltaV, minC3, minDeltaV };
+}
+
+/**
+ * The transfer for a porkchop cell, or null for an empty cell
+ */
+export function getPorkchopTransfer(grid: PorkchopGrid, cell: PorkchopCell): TransferSolution | null {
+  const index = cell.arrivalIndex * grid.departureMs.length + cell.departureIndex;
+  if (Number.isNaN(grid.c3[index])) return null;
+  return computeTransfer(
+    grid.origin,
+    grid.destination,
+    new Date(grid.departureMs[cell.departureIndex]),
+    new Date(grid.arrivalMs[cell.arrivalIndex])
+  );
+}
+
+/**
+ * Heliocentric position on the transfer at a date, AU, or null outside the flight
+ */
+export function getTransferPosition(transfer: TransferSolution, date: Date): Vec3 | null {
+  const ms = date.getTime();
+  if (ms < transfer.departureMs || ms > transfer.arrivalMs) return null;
+  return propagateUniversal(transfer.r1, transfer.v1, (ms - transfer.departureMs) / MS_PER_DAY);
+}
+
+/**
+ * Scene-space [x, y, z] points along the transfer from departure to arrival
+ */
+export function computeTransferArc(transfer: TransferSolution, points = 256): Float32Array {
+  const scale = ASTRONOMICAL_CONSTANTS.SCALE_FACTOR;
+  const positions = new Float32Array(points * 3);
+
+  for (let i = 0; i < points; i++) {
+    const dt = (transfer.timeOfFlightDays * i) / (points - 1);
+    const [x, y, z] = propagateUniversal(transfer.r1, transfer.v1, dt);
+    positions[i * 3] = x * scale;
+    positions[i * 3 + 1] = z * scale;
+    positions[i * 3 + 2] = -y * scale;
+  }
+
+  return positions;
+}
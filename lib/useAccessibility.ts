@@ -2,6 +2,7 @@
 
 import { useEffect, useCallback, useRef } from 'react';
 import { useOrbitStore } from './store';
+import { BODY_NAVIGATION_ORDER, PLANET_ORDER } from './planets';
 
 /**
  * Accessibility hook for managing screen reader announcements,
@@ -66,9 +67,12 @@ export function usePrefersHighContrast(): boolean {
 export const KEYBOARD_SHORTCUTS = {
   HELP: '?',
   TOGGLE_ORBITS: 'o',
+  TOGGLE_TRAILS: 't',
   TOGGLE_LABELS: 'l',
   CINEMATIC_MODE: 'c',
+  SKY_VIEW: 'v',
   COMMAND_PALETTE: 'k',
+  UPCOMING_EVENTS: 'e',
   MISSION_CONTROL: 'm',
   SNAPSHOT: 's',
   PAUSE_RESUME: ' ',
@@ -81,19 +85,10 @@ export const KEYBOARD_SHORTCUTS = {
   END: 'End',
 } as const;
 
-// Planet navigation order
-export const PLANET_ORDER = [
-  'Mercury',
-  'Venus',
-  'Earth',
-  'Mars',
-  'Jupiter',
-  'Saturn',
-  'Uranus',
-  'Neptune',
-] as const;
-
-// Hook for keyboard planet navigation
+// Planet order from the body catalog
+export { PLANET_ORDER };
+
+// Hook for keyboard navigation through every selectable body
 export function useKeyboardPlanetNavigation() {
   const { selectedPlanet, setSelectedPlanet } = useOrbitStore((s) => ({
     selectedPlanet: s.selectedPlanet,
@@ -101,28 +96,26 @@ export function useKeyboardPlanetNavigation() {
   }));
 
   const navigatePlanet = useCallback((direction: 'next' | 'prev' | 'first' | 'last') => {
-    const currentIndex = selectedPlanet
-      ? PLANET_ORDER.indexOf(selectedPlanet as typeof PLANET_ORDER[number])
-      : -1;
+    const currentIndex = selectedPlanet ? BODY_NAVIGATION_ORDER.indexOf(selectedPlanet) : -1;
 
     let newIndex: number;
 
     switch (direction) {
       case 'next':
-        newIndex = currentIndex < PLANET_ORDER.length - 1 ? currentIndex + 1 : 0;
+        newIndex = currentIndex < BODY_NAVIGATION_ORDER.length - 1 ? currentIndex + 1 : 0;
         break;
       case 'prev':
-        newIndex = currentIndex > 0 ? currentIndex - 1 : PLANET_ORDER.length - 1;
+        newIndex = currentIndex > 0 ? currentIndex - 1 : BODY_NAVIGATION_ORDER.length - 1;
         break;
       case 'first':
         newIndex = 0;
         break;
       case 'last':
-        newIndex = PLANET_ORDER.length - 1;
+        newIndex = BODY_NAVIGATION_ORDER.length - 1;
         break;
     }
 
-    const newPlanet = PLANET_ORDER[newIndex];
+    const newPlanet = BODY_NAVIGATION_ORDER[newIndex];
     setSelectedPlanet(newPlanet);
     announce(`Selected ${newPlanet}`);
   }, [selectedPlanet, setSelectedPlanet]);
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getEphemerisService } from './ephemerisService';
+import type { EphemerisQuery, EphemerisQueryKind, EphemerisResults } from './ephemeris';
+import { CalculationError, OrbitError, reportError } from './errors';
+
+/**
+ * Hook to run an ephemeris request off the main thread. Returns null until
+ * the first result arrives, then keeps the last result while a new request
+ * computes. The query must be memoized; a new one cancels the previous.
+ */
+export function useEphemeris<K extends EphemerisQueryKind>(
+  query: Extract<EphemerisQuery, { kind: K }>
+): EphemerisResults[K] | null {
+  const [result, setResult] = useState<EphemerisResults[K] | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    getEphemerisService()
+      .request<K>(query, { signal: controller.signal })
+      .then(setResult)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        reportError(
+          error instanceof OrbitError
+            ? error
+            : new CalculationError(`Ephemeris ${query.kind} request failed`, { cause: error as Error })
+        );
+      });
+
+    return () => controller.abort();
+  }, [query]);
+
+  return result;
+}
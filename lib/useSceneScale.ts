@@ -0,0 +1,23 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useOrbitStore } from './store';
+import { createSceneScale, type SceneScale } from './scaleModes';
+
+/**
+ * Hook for the scale the scene is drawn at. Stable between scale changes,
+ * and a new mapping on every step of a transition, so anything positioned
+ * with it follows the blend.
+ */
+export function useSceneScale(): SceneScale {
+  const { from, to, progress } = useOrbitStore(
+    useShallow((s) => ({
+      from: s.scaleTransition.from,
+      to: s.scaleTransition.to,
+      progress: s.scaleTransition.progress,
+    }))
+  );
+
+  return useMemo(() => createSceneScale({ from, to, progress }), [from, to, progress]);
+}
@@ -4,38 +4,32 @@
  * Provides type-safe validation for all inputs to the astronomy system.
  */
 
-import * as Astronomy from 'astronomy-engine';
 import { ValidationError } from './errors';
 import { PLANET_ORDER, type PlanetName } from './planets';
+import { getBodiesByCategory, isHeliocentricBody, type HeliocentricBodyName } from './bodies';
+import { CUSTOM_LOCATION_NAME, isValidTimeZone, type ObserverLocation } from './observer';
 
-// Valid astronomy bodies for our solar system simulation
-// Use type assertion since astronomy-engine Body type is a branded string
-export const VALID_BODIES = [
-  'Mercury',
-  'Venus',
-  'Earth',
-  'Mars',
-  'Jupiter',
-  'Saturn',
-  'Uranus',
-  'Neptune',
-] as const;
+// Bodies with a heliocentric ephemeris (planets and dwarf planets), from the body catalog
+export const VALID_BODIES: readonly HeliocentricBodyName[] = getBodiesByCategory('planet', 'dwarf');
 
-type ValidBody = (typeof VALID_BODIES)[number];
+/** Fastest supported time speed in either direction: 100 years per second */
+export const MAX_TIME_SPEED = 365 * 100;
 
-const validBodiesSet = new Set<string>(VALID_BODIES);
+/** Supported observer elevation range in meters (Dead Sea shore to high-altitude balloons) */
+export const MIN_OBSERVER_ELEVATION = -500;
+export const MAX_OBSERVER_ELEVATION = 20000;
 
 /**
- * Check if a string is a valid astronomy body
+ * Check if a string is a valid heliocentric body
  */
-export function isValidBody(body: string): body is Astronomy.Body {
-  return validBodiesSet.has(body);
+export function isValidBody(body: string): body is HeliocentricBodyName {
+  return isHeliocentricBody(body);
 }
 
 /**
  * Validate and return a body, or throw ValidationError
  */
-export function validateBody(body: string): Astronomy.Body {
+export function validateBody(body: string): HeliocentricBodyName {
   if (!isValidBody(body)) {
     throw new ValidationError(`Invalid celestial body: ${body}`, {
       field: 'body',
@@ -71,7 +65,7 @@ export function validateDate(date: Date): Date {
 }
 
 /**
- * Validate time speed multiplier
+ * Validate time speed multiplier (days per second, negative runs backwards)
  */
 export function validateTimeSpeed(speed: number): number {
   if (typeof speed !== 'number' || !isFinite(speed)) {
@@ -81,8 +75,8 @@ export function validateTimeSpeed(speed: number): number {
     });
   }
 
-  const MIN_SPEED = 0;
-  const MAX_SPEED = 365 * 100; // 100 years per second max
+  const MIN_SPEED = -MAX_TIME_SPEED;
+  const MAX_SPEED = MAX_TIME_SPEED;
 
   if (speed < MIN_SPEED || speed > MAX_SPEED) {
     throw new ValidationError(`Time speed ${speed} is out of range (${MIN_SPEED} to ${MAX_SPEED})`, {
@@ -152,6 +146,40 @@ export function validatePlanetName(name: string): PlanetName {
   return name as PlanetName;
 }
 
+/**
+ * Validate an observer location, returning a normalized copy
+ */
+export function validateObserverLocation(location: ObserverLocation): ObserverLocation {
+  if (!location || typeof location !== 'object') {
+    throw new ValidationError('Observer location must be an object', {
+      field: 'observer',
+      value: location,
+    });
+  }
+
+  const validated: ObserverLocation = {
+    name:
+      typeof location.name === 'string' && location.name.trim()
+        ? location.name.trim()
+        : CUSTOM_LOCATION_NAME,
+    latitude: validateRange(location.latitude, -90, 90, 'latitude'),
+    longitude: validateRange(location.longitude, -180, 180, 'longitude'),
+    elevation: validateRange(
+      location.elevation,
+      MIN_OBSERVER_ELEVATION,
+      MAX_OBSERVER_ELEVATION,
+      'elevation'
+    ),
+  };
+
+  // Unknown zones (e.g. from an older runtime) fall back to the longitude zone
+  if (typeof location.timeZone === 'string' && isValidTimeZone(location.timeZone)) {
+    validated.timeZone = location.timeZone;
+  }
+
+  return validated;
+}
+
 /**
  * Validate numeric range
  */
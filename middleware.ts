@@ -0,0 +1,80 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import {
+  CLOUDFLARE_IP_HEADER,
+  createKVRateLimitStore,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getRateLimitClientKey,
+  getRateLimitHeaders,
+  getRateLimitedEndpoint,
+  parseApiKeys,
+  rateLimitedError,
+  type KVNamespaceLike,
+  type RateLimiter,
+} from '@/lib/rateLimit';
+
+const apiKeys = parseApiKeys(process.env.API_KEYS);
+
+let memoryLimiter: RateLimiter | null = null;
+
+interface RateLimitContext {
+  limiter: RateLimiter;
+  /** Header holding the client IP, trusted only where the platform sets it */
+  ipHeader: string | undefined;
+}
+
+/**
+ * KV-backed limiter in the Cloudflare deployment, where counts are shared
+ * across isolates and cf-connecting-ip carries the client IP; in memory under
+ * `next dev` and other hosts, with the IP from RATE_LIMIT_IP_HEADER if set
+ */
+function getRateLimitContext(): RateLimitContext {
+  try {
+    const { env } = getCloudflareContext();
+    const kv = (env as { RATE_LIMIT_KV?: KVNamespaceLike }).RATE_LIMIT_KV;
+    if (kv) return { limiter: createRateLimiter(createKVRateLimitStore(kv)), ipHeader: CLOUDFLARE_IP_HEADER };
+  } catch {
+    // Not running on Cloudflare
+  }
+
+  memoryLimiter ??= createRateLimiter(createMemoryRateLimitStore());
+  return { limiter: memoryLimiter, ipHeader: process.env.RATE_LIMIT_IP_HEADER || undefined };
+}
+
+// Applies RATE_LIMITS to the astronomy API
+export async function middleware(request: NextRequest) {
+  const endpoint = getRateLimitedEndpoint(request.nextUrl.pathname);
+  if (!endpoint) return NextResponse.next();
+
+  let result;
+  try {
+    const { limiter, ipHeader } = getRateLimitContext();
+    const client = await getRateLimitClientKey(request.headers, apiKeys, ipHeader);
+    result = await limiter.check(endpoint, client);
+  } catch (error) {
+    // An unreachable counter store shouldn't take the API down with it; the
+    // KV store absorbs rejected writes itself, so this only covers reads
+    console.error('[RateLimit] Check failed, allowing request', error);
+    return NextResponse.next();
+  }
+
+  const headers = getRateLimitHeaders(result);
+
+  if (!result.allowed) {
+    return NextResponse.json(rateLimitedError(result, crypto.randomUUID()), {
+      status: 429,
+      headers: { ...headers, 'Cache-Control': 'no-store' },
+    });
+  }
+
+  const response = NextResponse.next();
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+export const config = {
+  matcher: '/api/v1/:path*',
+};
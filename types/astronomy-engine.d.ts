@@ -13,9 +13,11 @@ declare module 'astronomy-engine' {
     Neptune = 'Neptune',
     Pluto = 'Pluto',
     Moon = 'Moon',
+    Star1 = 'Star1',
   }
 
-  export interface Vector {
+  export class Vector {
+    constructor(x: number, y: number, z: number, t: AstroTime);
     x: number;
     y: number;
     z: number;
@@ -27,6 +29,204 @@ declare module 'astronomy-engine' {
     date: Date;
   }
 
+  export class StateVector {
+    constructor(x: number, y: number, z: number, vx: number, vy: number, vz: number, t: AstroTime);
+    x: number;
+    y: number;
+    z: number;
+    vx: number;
+    vy: number;
+    vz: number;
+    t: AstroTime;
+  }
+
+  export class JupiterMoonsInfo {
+    io: StateVector;
+    europa: StateVector;
+    ganymede: StateVector;
+    callisto: StateVector;
+  }
+
+  export class Observer {
+    constructor(latitude: number, longitude: number, height: number);
+    latitude: number;
+    longitude: number;
+    height: number;
+  }
+
+  export class EquatorialCoordinates {
+    ra: number;
+    dec: number;
+    dist: number;
+    vec: Vector;
+  }
+
+  export class HorizontalCoordinates {
+    azimuth: number;
+    altitude: number;
+    ra: number;
+    dec: number;
+  }
+
+  export class RotationMatrix {
+    rot: number[][];
+  }
+
+  export class ConstellationInfo {
+    symbol: string;
+    name: string;
+    ra1875: number;
+    dec1875: number;
+  }
+
+  export class HourAngleEvent {
+    time: AstroTime;
+    hor: HorizontalCoordinates;
+  }
+
+  export class ElongationEvent {
+    time: AstroTime;
+    visibility: string;
+    elongation: number;
+    ecliptic_separation: number;
+  }
+
+  export enum ApsisKind {
+    Pericenter = 0,
+    Apocenter = 1,
+  }
+
+  export class Apsis {
+    time: AstroTime;
+    kind: ApsisKind;
+    dist_au: number;
+    dist_km: number;
+  }
+
+  export class TransitInfo {
+    start: AstroTime;
+    peak: AstroTime;
+    finish: AstroTime;
+    separation: number;
+  }
+
+  export class SeasonInfo {
+    mar_equinox: AstroTime;
+    jun_solstice: AstroTime;
+    sep_equinox: AstroTime;
+    dec_solstice: AstroTime;
+  }
+
+  export enum EclipseKind {
+    Penumbral = 'penumbral',
+    Partial = 'partial',
+    Annular = 'annular',
+    Total = 'total',
+  }
+
+  export class LunarEclipseInfo {
+    kind: EclipseKind;
+    obscuration: number;
+    peak: AstroTime;
+    sd_penum: number;
+    sd_partial: number;
+    sd_total: number;
+  }
+
+  export class GlobalSolarEclipseInfo {
+    kind: EclipseKind;
+    obscuration: number | undefined;
+    peak: AstroTime;
+    distance: number;
+    latitude?: number;
+    longitude?: number;
+  }
+
+  export class Spherical {
+    lat: number;
+    lon: number;
+    dist: number;
+  }
+
+  export class IlluminationInfo {
+    time: AstroTime;
+    mag: number;
+    phase_angle: number;
+    phase_fraction: number;
+    helio_dist: number;
+    geo_dist: number;
+    gc: Vector;
+    hc: Vector;
+    ring_tilt?: number;
+  }
+
+  export const KM_PER_AU: number;
+  export const C_AUDAY: number;
+
   export function HelioVector(body: Body, date: Date): Vector;
+  export function HelioState(body: Body, date: Date): StateVector;
+  export function PlanetOrbitalPeriod(body: Body): number;
   export function GeoVector(body: Body, date: Date, aberration: boolean): Vector;
+  export function GeoMoonState(date: Date): StateVector;
+  export function JupiterMoons(date: Date): JupiterMoonsInfo;
+  export function ObserverVector(date: Date, observer: Observer, ofdate: boolean): Vector;
+  export function EquatorFromVector(vec: Vector): EquatorialCoordinates;
+  export function Horizon(
+    date: Date,
+    observer: Observer,
+    ra: number,
+    dec: number,
+    refraction?: string
+  ): HorizontalCoordinates;
+  export function Constellation(ra: number, dec: number): ConstellationInfo;
+  export function RotateVector(rotation: RotationMatrix, vector: Vector): Vector;
+  export function Rotation_EQJ_EQD(time: Date): RotationMatrix;
+  export function Rotation_HOR_EQJ(time: Date, observer: Observer): RotationMatrix;
+  export function AngleBetween(a: Vector, b: Vector): number;
+  export function SearchRelativeLongitude(body: Body, targetRelLon: number, startDate: Date): AstroTime;
+  export function SearchMaxElongation(body: Body, startDate: Date): ElongationEvent;
+  export function SearchPlanetApsis(body: Body, startTime: Date): Apsis;
+  export function NextPlanetApsis(body: Body, apsis: Apsis): Apsis;
+  export function Seasons(year: number): SeasonInfo;
+  export function SearchTransit(body: Body, startTime: Date): TransitInfo;
+  export function NextTransit(body: Body, prevTransitTime: AstroTime): TransitInfo;
+  export function SearchLunarEclipse(date: Date): LunarEclipseInfo;
+  export function NextLunarEclipse(prevEclipseTime: Date): LunarEclipseInfo;
+  export function SearchGlobalSolarEclipse(startTime: Date): GlobalSolarEclipseInfo;
+  export function NextGlobalSolarEclipse(prevEclipseTime: Date): GlobalSolarEclipseInfo;
+  export function GeoMoon(date: Date): Vector;
+  export function EclipticGeoMoon(date: Date): Spherical;
+  export function Equator(
+    body: Body,
+    date: Date,
+    observer: Observer,
+    ofdate: boolean,
+    aberration: boolean
+  ): EquatorialCoordinates;
+  export function SiderealTime(date: Date): number;
+  export function Illumination(body: Body, date: Date): IlluminationInfo;
+  export function DefineStar(body: Body, ra: number, dec: number, distanceLightYears: number): void;
+  export function SearchRiseSet(
+    body: Body,
+    observer: Observer,
+    direction: number,
+    dateStart: Date,
+    limitDays: number,
+    metersAboveGround?: number
+  ): AstroTime | null;
+  export function SearchAltitude(
+    body: Body,
+    observer: Observer,
+    direction: number,
+    dateStart: Date,
+    limitDays: number,
+    altitude: number
+  ): AstroTime | null;
+  export function SearchHourAngle(
+    body: Body,
+    observer: Observer,
+    hourAngle: number,
+    dateStart: Date,
+    direction?: number
+  ): HourAngleEvent;
 }